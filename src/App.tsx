@@ -2,6 +2,7 @@ import React from 'react';
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
 import { LanguageProvider } from './contexts/LanguageContext';
+import { RestaurantProvider } from './contexts/RestaurantContext';
 import Layout from './components/Layout';
 import Login from './components/Login';
 import ForgotPassword from './components/ForgotPassword';
@@ -18,6 +19,7 @@ import QuickOrderModal from './components/QuickOrderModal';
 import DrinkOrdersPage from './components/DrinkOrdersPage';
 import BarMenuPage from './components/BarMenuPage';
 import BarInventoryPage from './components/BarInventoryPage';
+import KitchenDisplay from './components/KitchenDisplay';
 
 function AppContent() {
   const { user, loading } = useAuth();
@@ -50,59 +52,65 @@ function AppContent() {
   }
 
   return (
-    <Layout>
-      <Routes>
-        <Route path="/" element={<Navigate to="/dashboard" replace />} />
-        <Route path="/dashboard" element={<Dashboard />} />
-        <Route path="/orders" element={<OrdersPage />} />
-        <Route path="/menu" element={<MenuPage />} />
-        <Route path="/add-menu-item" element={<AddMenuItem />} />
-        <Route path="/staff" element={<div className="p-8 text-center text-gray-500">Staff overview coming soon...</div>} />
-        <Route path="/reports" element={<SalesReport />} />
-        <Route path="/take-order" element={<div className="p-8 text-center text-gray-500">Take order page coming soon...</div>} />
-        <Route path="/quick-order" element={
-          <div className="p-8">
-            <div className="max-w-2xl mx-auto text-center">
-              <h1 className="text-3xl font-bold text-gray-900 mb-4">Quick-Modus Sprachbestellung</h1>
-              <p className="text-gray-600 mb-8">Sprechen Sie Ihre Bestellung und lassen Sie das System automatisch eine Rechnung generieren und versenden.</p>
-              <button
-                onClick={() => setShowQuickOrder(true)}
-                className="bg-emerald-600 text-white px-8 py-4 rounded-lg text-lg font-medium hover:bg-emerald-700 transition-colors"
-              >
-                Quick-Modus starten
-              </button>
-            </div>
-            <QuickOrderModal
-              isOpen={showQuickOrder}
-              onClose={() => setShowQuickOrder(false)}
-              onOrderPlaced={() => {
-                setShowQuickOrder(false);
-                // Refresh or redirect as needed
-              }}
-            />
-          </div>
-        } />
-        <Route path="/tables" element={<TableView />} />
-        <Route path="/my-orders" element={<OrdersPage />} />
-        <Route path="/pending-orders" element={
-          user.role === 'bar' ? <DrinkOrdersPage /> : <OrdersPage />
-        } />
-        <Route path="/bar-menu" element={<BarMenuPage />} />
-        <Route path="/bar-inventory" element={<BarInventoryPage />} />
-        <Route path="/completed" element={<div className="p-8 text-center text-gray-500">Completed dishes coming soon...</div>} />
-        <Route path="/inventory" element={<div className="p-8 text-center text-gray-500">Inventory view coming soon...</div>} />
-        <Route path="/cart" element={<div className="p-8 text-center text-gray-500">Cart/checkout coming soon...</div>} />
-        <Route path="/ai" element={<AIAgent />} />
-        <Route path="/manual-reset" element={<ManualPasswordReset />} />
-        
-        {/* Auth routes should redirect to dashboard if user is logged in */}
-        <Route path="/login" element={<Navigate to="/dashboard" replace />} />
-        <Route path="/forgot-password" element={<Navigate to="/dashboard" replace />} />
-        <Route path="/reset-password" element={<ResetPassword />} />
-        
-        <Route path="*" element={<Navigate to="/dashboard" replace />} />
-      </Routes>
-    </Layout>
+    <Routes>
+      {/* Full-screen kitchen display without the app navigation */}
+      <Route path="/kds" element={<KitchenDisplay />} />
+      <Route path="*" element={
+        <Layout>
+          <Routes>
+            <Route path="/" element={<Navigate to="/dashboard" replace />} />
+            <Route path="/dashboard" element={<Dashboard />} />
+            <Route path="/orders" element={<OrdersPage />} />
+            <Route path="/menu" element={<MenuPage />} />
+            <Route path="/add-menu-item" element={<AddMenuItem />} />
+            <Route path="/staff" element={<div className="p-8 text-center text-gray-500">Staff overview coming soon...</div>} />
+            <Route path="/reports" element={<SalesReport />} />
+            <Route path="/take-order" element={<div className="p-8 text-center text-gray-500">Take order page coming soon...</div>} />
+            <Route path="/quick-order" element={
+              <div className="p-8">
+                <div className="max-w-2xl mx-auto text-center">
+                  <h1 className="text-3xl font-bold text-gray-900 mb-4">Quick-Modus Sprachbestellung</h1>
+                  <p className="text-gray-600 mb-8">Sprechen Sie Ihre Bestellung und lassen Sie das System automatisch eine Rechnung generieren und versenden.</p>
+                  <button
+                    onClick={() => setShowQuickOrder(true)}
+                    className="bg-emerald-600 text-white px-8 py-4 rounded-lg text-lg font-medium hover:bg-emerald-700 transition-colors"
+                  >
+                    Quick-Modus starten
+                  </button>
+                </div>
+                <QuickOrderModal
+                  isOpen={showQuickOrder}
+                  onClose={() => setShowQuickOrder(false)}
+                  onOrderPlaced={() => {
+                    setShowQuickOrder(false);
+                    // Refresh or redirect as needed
+                  }}
+                />
+              </div>
+            } />
+            <Route path="/tables" element={<TableView />} />
+            <Route path="/my-orders" element={<OrdersPage />} />
+            <Route path="/pending-orders" element={
+              user.role === 'bar' ? <DrinkOrdersPage /> : <OrdersPage />
+            } />
+            <Route path="/bar-menu" element={<BarMenuPage />} />
+            <Route path="/bar-inventory" element={<BarInventoryPage />} />
+            <Route path="/completed" element={<div className="p-8 text-center text-gray-500">Completed dishes coming soon...</div>} />
+            <Route path="/inventory" element={<div className="p-8 text-center text-gray-500">Inventory view coming soon...</div>} />
+            <Route path="/cart" element={<div className="p-8 text-center text-gray-500">Cart/checkout coming soon...</div>} />
+            <Route path="/ai" element={<AIAgent />} />
+            <Route path="/manual-reset" element={<ManualPasswordReset />} />
+
+            {/* Auth routes should redirect to dashboard if user is logged in */}
+            <Route path="/login" element={<Navigate to="/dashboard" replace />} />
+            <Route path="/forgot-password" element={<Navigate to="/dashboard" replace />} />
+            <Route path="/reset-password" element={<ResetPassword />} />
+
+            <Route path="*" element={<Navigate to="/dashboard" replace />} />
+          </Routes>
+        </Layout>
+      } />
+    </Routes>
   );
 }
 
@@ -110,9 +118,11 @@ function App() {
   return (
     <LanguageProvider>
       <AuthProvider>
-        <Router>
-          <AppContent />
-        </Router>
+        <RestaurantProvider>
+          <Router>
+            <AppContent />
+          </Router>
+        </RestaurantProvider>
       </AuthProvider>
     </LanguageProvider>
   );
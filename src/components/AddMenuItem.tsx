@@ -1,7 +1,9 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { ArrowLeft, Plus, AlertCircle, CheckCircle, Utensils } from 'lucide-react';
-import { supabase } from '../lib/supabase';
+import { supabase, MenuItem, Station } from '../lib/supabase';
+import { getDefaultTaxCategory } from '../lib/taxRates';
+import { loadStations } from '../lib/stations';
 import { useAuth } from '../contexts/AuthContext';
 
 export default function AddMenuItem() {
@@ -9,15 +11,22 @@ export default function AddMenuItem() {
     name: '',
     description: '',
     category: 'Food',
+    tax_category: 'food' as NonNullable<MenuItem['tax_category']>,
+    station_id: '',
     price: '',
     available: true
   });
+  const [stations, setStations] = useState<Station[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
   const { user } = useAuth();
   const navigate = useNavigate();
 
+  useEffect(() => {
+    loadStations().then(setStations);
+  }, []);
+
   // Redirect if not manager
   if (user?.role !== 'manager') {
     navigate('/dashboard');
@@ -46,6 +55,13 @@ export default function AddMenuItem() {
         ...prev,
         [name]: checked
       }));
+    } else if (name === 'category') {
+      // Suggest the VAT category that fits the menu category
+      setFormData(prev => ({
+        ...prev,
+        category: value,
+        tax_category: getDefaultTaxCategory(value)
+      }));
     } else {
       setFormData(prev => ({
         ...prev,
@@ -89,6 +105,9 @@ export default function AddMenuItem() {
             name: formData.name.trim(),
             description: formData.description.trim(),
             category: formData.category,
+            tax_category: formData.tax_category,
+            // Without a station the database picks one by VAT category
+            station_id: formData.station_id || null,
             price: parseFloat(formData.price),
             available: formData.available
           }
@@ -110,6 +129,8 @@ export default function AddMenuItem() {
         name: '',
         description: '',
         category: 'Food',
+        tax_category: 'food',
+        station_id: '',
         price: '',
         available: true
       });
@@ -217,7 +238,7 @@ export default function AddMenuItem() {
             </div>
 
             {/* Category and Price Row */}
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
               {/* Category */}
               <div>
                 <label htmlFor="category" className="block text-sm font-medium text-gray-700 mb-2">
@@ -239,6 +260,45 @@ export default function AddMenuItem() {
                 </select>
               </div>
 
+              {/* VAT Category */}
+              <div>
+                <label htmlFor="tax_category" className="block text-sm font-medium text-gray-700 mb-2">
+                  VAT Category *
+                </label>
+                <select
+                  id="tax_category"
+                  name="tax_category"
+                  value={formData.tax_category}
+                  onChange={handleInputChange}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+                  required
+                >
+                  <option value="food">Food</option>
+                  <option value="beverage">Beverage</option>
+                </select>
+              </div>
+
+              {/* Station */}
+              <div>
+                <label htmlFor="station_id" className="block text-sm font-medium text-gray-700 mb-2">
+                  Station
+                </label>
+                <select
+                  id="station_id"
+                  name="station_id"
+                  value={formData.station_id}
+                  onChange={handleInputChange}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+                >
+                  <option value="">Automatic</option>
+                  {stations.map((station) => (
+                    <option key={station.id} value={station.id}>
+                      {station.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
               {/* Price */}
               <div>
                 <label htmlFor="price" className="block text-sm font-medium text-gray-700 mb-2">
@@ -2,9 +2,17 @@ import React, { useState, useEffect } from 'react';
 import { 
   Package, Search, Plus, Minus, AlertTriangle, CheckCircle, 
   RefreshCw, Filter, Save, X, Edit, Trash2, AlertCircle, 
-  Download, Upload, BarChart, Droplet, Wine, Coffee, ToggleLeft, ToggleRight
+  Download, Upload, BarChart, Droplet, Wine, Coffee, ToggleLeft, ToggleRight, History, Truck, ClipboardList, ClipboardCheck
 } from 'lucide-react';
-import { supabase, InventoryItem } from '../lib/supabase';
+import { supabase, InventoryItem, RecipeUnit } from '../lib/supabase';
+import { RECIPE_UNITS, normalizeUnit } from '../lib/recipes';
+import { recordInventoryMovement } from '../lib/inventoryMovements';
+import { getStockValue } from '../lib/costing';
+import { formatMoney } from '../lib/invoiceSystem';
+import InventoryHistoryModal from './InventoryHistoryModal';
+import SuppliersModal from './SuppliersModal';
+import PurchaseOrdersModal from './PurchaseOrdersModal';
+import StockTakeModal from './StockTakeModal';
 import { useAuth } from '../contexts/AuthContext';
 import { useLanguage } from '../contexts/LanguageContext';
 
@@ -19,6 +27,10 @@ export default function BarInventoryPage() {
   const [showAddModal, setShowAddModal] = useState(false);
   const [showEditModal, setShowEditModal] = useState(false);
   const [currentItem, setCurrentItem] = useState<InventoryItem | null>(null);
+  const [historyItem, setHistoryItem] = useState<InventoryItem | null>(null);
+  const [showSuppliers, setShowSuppliers] = useState(false);
+  const [showPurchaseOrders, setShowPurchaseOrders] = useState(false);
+  const [showStockTake, setShowStockTake] = useState(false);
   const [formData, setFormData] = useState({
     name: '',
     category: 'Alcohol',
@@ -26,7 +38,11 @@ export default function BarInventoryPage() {
     unit: 'bottles',
     threshold: 5,
     notes: '',
-    is_critical: true
+    storage_location: '',
+    unit_cost: 0,
+    is_critical: true,
+    content_amount: 0,
+    content_unit: 'ml' as RecipeUnit
   });
   const [isSaving, setIsSaving] = useState(false);
   const { user } = useAuth();
@@ -101,6 +117,7 @@ export default function BarInventoryPage() {
       filtered = filtered.filter(item =>
         item.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
         item.category.toLowerCase().includes(searchTerm.toLowerCase()) ||
+        item.storage_location?.toLowerCase().includes(searchTerm.toLowerCase()) ||
         item.notes?.toLowerCase().includes(searchTerm.toLowerCase())
       );
     }
@@ -113,47 +130,33 @@ export default function BarInventoryPage() {
     setFilteredItems(filtered);
   };
 
+  // Quick count corrections, booked as movements so the ledger explains the stock
   const updateQuantity = async (id: string, change: number) => {
     try {
-      const item = inventoryItems.find(item => item.id === id);
-      if (!item) return;
-      
-      const newQuantity = Math.max(0, item.quantity + change);
-      
-      // Update in database
-      const { error } = await supabase
-        .from('inventory_items')
-        .update({ 
-          quantity: newQuantity,
-          last_updated: new Date().toISOString()
-        })
-        .eq('id', id);
-        
-      if (error) {
-        console.error('Error updating inventory quantity:', error);
-        setError('Failed to update quantity: ' + error.message);
-        return;
+      const movement = await recordInventoryMovement(id, 'correction', change);
+      if (movement?.quantity_after != null) {
+        setItemQuantity(id, Number(movement.quantity_after));
       }
-      
-      // Update local state
-      setInventoryItems(prev => prev.map(item => {
-        if (item.id === id) {
-          return {
-            ...item,
-            quantity: newQuantity,
-            status: getItemStatus(newQuantity, item.threshold),
-            last_updated: new Date().toISOString()
-          };
-        }
-        return item;
-      }));
-      
     } catch (err) {
       console.error('Error updating quantity:', err);
-      setError('Failed to update quantity');
+      setError('Failed to update quantity: ' + (err instanceof Error ? err.message : 'Unknown error'));
     }
   };
 
+  const setItemQuantity = (id: string, quantity: number) => {
+    setInventoryItems(prev => prev.map(item => {
+      if (item.id === id) {
+        return {
+          ...item,
+          quantity,
+          status: getItemStatus(quantity, item.threshold),
+          last_updated: new Date().toISOString()
+        };
+      }
+      return item;
+    }));
+  };
+
   const handleAddItem = () => {
     setFormData({
       name: '',
@@ -162,7 +165,11 @@ export default function BarInventoryPage() {
       unit: 'bottles',
       threshold: 5,
       notes: '',
-      is_critical: true
+      storage_location: '',
+      unit_cost: 0,
+      is_critical: true,
+      content_amount: 0,
+      content_unit: 'ml'
     });
     setShowAddModal(true);
   };
@@ -176,7 +183,11 @@ export default function BarInventoryPage() {
       unit: item.unit,
       threshold: item.threshold,
       notes: item.notes || '',
-      is_critical: item.is_critical !== false // Default to true if undefined
+      storage_location: item.storage_location || '',
+      unit_cost: Number(item.unit_cost) || 0,
+      is_critical: item.is_critical !== false, // Default to true if undefined
+      content_amount: item.content_amount || 0,
+      content_unit: item.content_unit || 'ml'
     });
     setShowEditModal(true);
   };
@@ -212,7 +223,7 @@ export default function BarInventoryPage() {
         ...prev,
         [name]: (e.target as HTMLInputElement).checked
       }));
-    } else if (name === 'quantity' || name === 'threshold') {
+    } else if (name === 'quantity' || name === 'threshold' || name === 'content_amount' || name === 'unit_cost') {
       setFormData(prev => ({
         ...prev,
         [name]: parseFloat(value) || 0
@@ -241,8 +252,13 @@ export default function BarInventoryPage() {
         unit: formData.unit,
         threshold: formData.threshold,
         notes: formData.notes.trim() || null,
+        storage_location: formData.storage_location.trim() || null,
+        unit_cost: formData.unit_cost > 0 ? formData.unit_cost : null,
         last_updated: new Date().toISOString(),
-        is_critical: formData.is_critical
+        is_critical: formData.is_critical,
+        // Content only matters for containers, liters and kg convert on their own
+        content_amount: !normalizeUnit(formData.unit) && formData.content_amount > 0 ? formData.content_amount : null,
+        content_unit: !normalizeUnit(formData.unit) && formData.content_amount > 0 ? formData.content_unit : null
       };
 
       const { data, error } = await supabase
@@ -287,14 +303,19 @@ export default function BarInventoryPage() {
       const updatedItem = {
         name: formData.name.trim(),
         category: formData.category,
-        quantity: formData.quantity,
         unit: formData.unit,
         threshold: formData.threshold,
         notes: formData.notes.trim() || null,
+        storage_location: formData.storage_location.trim() || null,
+        unit_cost: formData.unit_cost > 0 ? formData.unit_cost : null,
         last_updated: new Date().toISOString(),
-        is_critical: formData.is_critical
+        is_critical: formData.is_critical,
+        // Content only matters for containers, liters and kg convert on their own
+        content_amount: !normalizeUnit(formData.unit) && formData.content_amount > 0 ? formData.content_amount : null,
+        content_unit: !normalizeUnit(formData.unit) && formData.content_amount > 0 ? formData.content_unit : null
       };
 
+      // The stock is left alone here, sales and deliveries may have booked it since the form was opened
       const { error } = await supabase
         .from('inventory_items')
         .update(updatedItem)
@@ -311,11 +332,20 @@ export default function BarInventoryPage() {
           return {
             ...item,
             ...updatedItem,
-            status: getItemStatus(updatedItem.quantity, updatedItem.threshold)
+            status: getItemStatus(item.quantity, updatedItem.threshold)
           };
         }
         return item;
       }));
+
+      // A changed count is booked as a correction on top of the current stock
+      const change = formData.quantity - currentItem.quantity;
+      if (change !== 0) {
+        const movement = await recordInventoryMovement(currentItem.id, 'correction', change, 'Edited in the inventory form');
+        if (movement?.quantity_after != null) {
+          setItemQuantity(currentItem.id, Number(movement.quantity_after));
+        }
+      }
       
       setShowEditModal(false);
       setCurrentItem(null);
@@ -368,14 +398,17 @@ export default function BarInventoryPage() {
   };
 
   const exportInventory = () => {
-    const headers = ['Name', 'Category', 'Quantity', 'Unit', 'Threshold', 'Status', 'Critical', 'Last Updated', 'Notes'];
+    const headers = ['Name', 'Category', 'Storage Location', 'Quantity', 'Unit', 'Unit Cost', 'Stock Value', 'Threshold', 'Status', 'Critical', 'Last Updated', 'Notes'];
     const csvContent = [
       headers.join(','),
       ...inventoryItems.map(item => [
         `"${item.name}"`,
         `"${item.category}"`,
+        `"${item.storage_location || ''}"`,
         item.quantity,
         `"${item.unit}"`,
+        item.unit_cost ?? '',
+        getStockValue(item).toFixed(2),
         item.threshold,
         `"${item.status}"`,
         item.is_critical === false ? 'No' : 'Yes',
@@ -429,6 +462,27 @@ export default function BarInventoryPage() {
             <RefreshCw className="w-4 h-4" />
             Refresh
           </button>
+          <button
+            onClick={() => setShowSuppliers(true)}
+            className="flex items-center gap-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            <Truck className="w-4 h-4" />
+            Suppliers
+          </button>
+          <button
+            onClick={() => setShowPurchaseOrders(true)}
+            className="flex items-center gap-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            <ClipboardList className="w-4 h-4" />
+            Purchase Orders
+          </button>
+          <button
+            onClick={() => setShowStockTake(true)}
+            className="flex items-center gap-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            <ClipboardCheck className="w-4 h-4" />
+            Stock Take
+          </button>
           <button
             onClick={exportInventory}
             className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
@@ -457,7 +511,7 @@ export default function BarInventoryPage() {
       )}
 
       {/* Inventory Stats */}
-      <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-6">
         <div className="bg-white p-6 rounded-xl shadow-md border border-gray-100">
           <div className="flex items-center justify-between">
             <div>
@@ -511,6 +565,23 @@ export default function BarInventoryPage() {
             </div>
           </div>
         </div>
+
+        <div className="bg-white p-6 rounded-xl shadow-md border border-gray-100">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-600">Stock Value</p>
+              <p className="text-2xl font-bold text-purple-600">
+                {formatMoney(inventoryItems.reduce((sum, item) => sum + getStockValue(item), 0))}
+              </p>
+              <p className="text-xs text-gray-500">
+                {inventoryItems.filter(item => item.unit_cost == null).length} items without cost
+              </p>
+            </div>
+            <div className="p-3 bg-purple-50 rounded-lg">
+              <BarChart className="w-6 h-6 text-purple-600" />
+            </div>
+          </div>
+        </div>
       </div>
 
       {/* Search and Filter */}
@@ -585,6 +656,9 @@ export default function BarInventoryPage() {
                       <div className="flex items-start">
                         <div>
                           <div className="text-sm font-medium text-gray-900">{item.name}</div>
+                          {item.storage_location && (
+                            <div className="text-xs text-purple-600 mt-1">{item.storage_location}</div>
+                          )}
                           {item.notes && (
                             <div className="text-xs text-gray-500 mt-1">{item.notes}</div>
                           )}
@@ -620,6 +694,11 @@ export default function BarInventoryPage() {
                       <div className="text-xs text-gray-500 mt-1">
                         Threshold: {item.threshold} {item.unit}
                       </div>
+                      {item.unit_cost != null && (
+                        <div className="text-xs text-gray-500">
+                          Value: {formatMoney(getStockValue(item))} ({formatMoney(Number(item.unit_cost))}/{item.unit})
+                        </div>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(item.status)}`}>
@@ -641,6 +720,13 @@ export default function BarInventoryPage() {
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                       <div className="flex items-center justify-end gap-2">
+                        <button
+                          onClick={() => setHistoryItem(item)}
+                          className="text-purple-600 hover:text-purple-900"
+                          title="Stock history"
+                        >
+                          <History className="w-4 h-4" />
+                        </button>
                         <button
                           onClick={() => handleEditItem(item)}
                           className="text-blue-600 hover:text-blue-900"
@@ -752,6 +838,24 @@ export default function BarInventoryPage() {
                 </select>
               </div>
 
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Storage Location
+                </label>
+                <input
+                  type="text"
+                  name="storage_location"
+                  value={formData.storage_location}
+                  onChange={handleInputChange}
+                  list="storage-locations"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                  placeholder="e.g., Back bar, Cellar, Fridge 1"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Stock takes are counted location by location
+                </p>
+              </div>
+
               <div className="grid grid-cols-2 gap-4">
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -792,6 +896,58 @@ export default function BarInventoryPage() {
                 </div>
               </div>
 
+              {!normalizeUnit(formData.unit) && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Content per unit
+                  </label>
+                  <div className="grid grid-cols-2 gap-4">
+                    <input
+                      type="number"
+                      name="content_amount"
+                      value={formData.content_amount || ''}
+                      onChange={handleInputChange}
+                      min="0"
+                      step="0.01"
+                      placeholder="e.g. 700"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                    />
+                    <select
+                      name="content_unit"
+                      value={formData.content_unit}
+                      onChange={handleInputChange}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                    >
+                      {RECIPE_UNITS.filter(unit => unit.value !== 'pcs').map(unit => (
+                        <option key={unit.value} value={unit.value}>{unit.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Lets recipes measured in cl, ml or g take the right share of one {formData.unit}
+                  </p>
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Purchase Cost per {formData.unit} (€)
+                </label>
+                <input
+                  type="number"
+                  name="unit_cost"
+                  value={formData.unit_cost || ''}
+                  onChange={handleInputChange}
+                  min="0"
+                  step="0.0001"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                  placeholder="e.g., 12.50"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Net price. Receipts from purchase orders update it to the average cost
+                </p>
+              </div>
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
                   Low Stock Threshold *
@@ -944,6 +1100,24 @@ export default function BarInventoryPage() {
                 </select>
               </div>
 
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Storage Location
+                </label>
+                <input
+                  type="text"
+                  name="storage_location"
+                  value={formData.storage_location}
+                  onChange={handleInputChange}
+                  list="storage-locations"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                  placeholder="e.g., Back bar, Cellar, Fridge 1"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Stock takes are counted location by location
+                </p>
+              </div>
+
               <div className="grid grid-cols-2 gap-4">
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -984,6 +1158,58 @@ export default function BarInventoryPage() {
                 </div>
               </div>
 
+              {!normalizeUnit(formData.unit) && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Content per unit
+                  </label>
+                  <div className="grid grid-cols-2 gap-4">
+                    <input
+                      type="number"
+                      name="content_amount"
+                      value={formData.content_amount || ''}
+                      onChange={handleInputChange}
+                      min="0"
+                      step="0.01"
+                      placeholder="e.g. 700"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                    />
+                    <select
+                      name="content_unit"
+                      value={formData.content_unit}
+                      onChange={handleInputChange}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                    >
+                      {RECIPE_UNITS.filter(unit => unit.value !== 'pcs').map(unit => (
+                        <option key={unit.value} value={unit.value}>{unit.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Lets recipes measured in cl, ml or g take the right share of one {formData.unit}
+                  </p>
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Purchase Cost per {formData.unit} (€)
+                </label>
+                <input
+                  type="number"
+                  name="unit_cost"
+                  value={formData.unit_cost || ''}
+                  onChange={handleInputChange}
+                  min="0"
+                  step="0.0001"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                  placeholder="e.g., 12.50"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Net price. Receipts from purchase orders update it to the average cost
+                </p>
+              </div>
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
                   Low Stock Threshold *
@@ -1098,6 +1324,36 @@ export default function BarInventoryPage() {
           </div>
         </div>
       </div>
+
+      <InventoryHistoryModal
+        isOpen={!!historyItem}
+        onClose={() => setHistoryItem(null)}
+        item={historyItem}
+        onChanged={(quantity) => historyItem && setItemQuantity(historyItem.id, quantity)}
+      />
+
+      <SuppliersModal
+        isOpen={showSuppliers}
+        onClose={() => setShowSuppliers(false)}
+      />
+
+      <PurchaseOrdersModal
+        isOpen={showPurchaseOrders}
+        onClose={() => setShowPurchaseOrders(false)}
+        onReceived={loadInventory}
+      />
+
+      <StockTakeModal
+        isOpen={showStockTake}
+        onClose={() => setShowStockTake(false)}
+        onApproved={loadInventory}
+      />
+
+      <datalist id="storage-locations">
+        {[...new Set(inventoryItems.map(item => item.storage_location).filter(Boolean))].map(location => (
+          <option key={location} value={location!} />
+        ))}
+      </datalist>
     </div>
   );
 }
\ No newline at end of file
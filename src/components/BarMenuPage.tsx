@@ -1,8 +1,11 @@
 import React, { useState, useEffect } from 'react';
 import { Wine, Search, Filter, RefreshCw, AlertCircle, Tag, DollarSign, Info } from 'lucide-react';
-import { supabase, MenuItem, InventoryItem } from '../lib/supabase';
+import { supabase, MenuItem, InventoryItem, RecipeItem } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
 import { useLanguage } from '../contexts/LanguageContext';
+import { loadStations } from '../lib/stations';
+import { RECIPE_SELECT, RECIPE_UNITS, getMissingIngredients } from '../lib/recipes';
+import { filterActiveMenuItems } from '../lib/menus';
 
 export default function BarMenuPage() {
   const [beverages, setBeverages] = useState<MenuItem[]>([]);
@@ -52,10 +55,14 @@ export default function BarMenuPage() {
       
       console.log('Fetching beverages from Supabase...');
       
+      // Everything made at a bar station
+      const stations = await loadStations();
+      const barStationIds = stations.filter(station => station.kind === 'bar').map(station => station.id);
+
       const { data, error: fetchError } = await supabase
         .from('menu_items')
-        .select('*')
-        .or('category.ilike.%Beverage%,category.ilike.%Drink%,category.ilike.%Coffee%,category.ilike.%Tea%,category.ilike.%Alcohol%,category.ilike.%Wine%,category.ilike.%Beer%,category.ilike.%Cocktail%')
+        .select(`*, ${RECIPE_SELECT}`)
+        .in('station_id', barStationIds)
         .order('category', { ascending: true })
         .order('name', { ascending: true });
 
@@ -73,12 +80,13 @@ export default function BarMenuPage() {
         return;
       }
 
-      // Check inventory availability for each beverage
-      const beveragesWithAvailability = await checkBeverageAvailability(data);
-      setBeverages(beveragesWithAvailability);
+      // Availability is kept up to date with the stock by the database, the menus decide
+      // what is served right now
+      const served = await filterActiveMenuItems(data);
+      setBeverages(served);
       
       // Extract unique categories
-      const uniqueCategories = [...new Set(data.map(item => item.category))];
+      const uniqueCategories = [...new Set(served.map(item => item.category))];
       setCategories(uniqueCategories);
       
       console.log('Categories found:', uniqueCategories);
@@ -91,45 +99,6 @@ export default function BarMenuPage() {
     }
   };
 
-  const checkBeverageAvailability = async (beverages: MenuItem[]): Promise<MenuItem[]> => {
-    try {
-      // Get all inventory items
-      const { data: inventoryData, error: inventoryError } = await supabase
-        .from('inventory_items')
-        .select('*');
-        
-      if (inventoryError) {
-        console.error('Error loading inventory for availability check:', inventoryError);
-        return beverages;
-      }
-      
-      const inventory = inventoryData || [];
-      
-      // Check each beverage's required inventory
-      return beverages.map(beverage => {
-        // If no required inventory, keep current availability
-        if (!beverage.required_inventory || beverage.required_inventory.length === 0) {
-          return beverage;
-        }
-        
-        // Check if all required inventory items are available (quantity > 0)
-        const allIngredientsAvailable = beverage.required_inventory.every(ingredientName => {
-          const inventoryItem = inventory.find(item => item.name === ingredientName);
-          return inventoryItem && inventoryItem.quantity > 0;
-        });
-        
-        // Update availability based on inventory
-        return {
-          ...beverage,
-          available: allIngredientsAvailable
-        };
-      });
-    } catch (err) {
-      console.error('Error checking beverage availability:', err);
-      return beverages;
-    }
-  };
-
   const [filteredBeverages, setFilteredBeverages] = useState<MenuItem[]>([]);
 
   const filterBeverages = () => {
@@ -151,16 +120,19 @@ export default function BarMenuPage() {
     setFilteredBeverages(filtered);
   };
 
+  // Recipe ingredients with the stock loaded for this page
+  const getRecipeStock = (recipeItem: RecipeItem): InventoryItem | undefined =>
+    inventoryItems.find(item => item.id === recipeItem.inventory_item_id) || recipeItem.inventory_item;
+
   const getRequiredInventoryStatus = (beverage: MenuItem) => {
-    if (!beverage.required_inventory || beverage.required_inventory.length === 0) {
-      return { complete: true, missing: [] };
-    }
-    
-    const missing = beverage.required_inventory.filter(ingredientName => {
-      const inventoryItem = inventoryItems.find(item => item.name === ingredientName);
-      return !inventoryItem || inventoryItem.quantity <= 0;
+    const missing = getMissingIngredients({
+      ...beverage,
+      recipe_items: (beverage.recipe_items || []).map(recipeItem => ({
+        ...recipeItem,
+        inventory_item: getRecipeStock(recipeItem)
+      }))
     });
-    
+
     return {
       complete: missing.length === 0,
       missing
@@ -308,20 +280,20 @@ export default function BarMenuPage() {
                   </div>
 
                   {/* Required Inventory Status */}
-                  {beverage.required_inventory && beverage.required_inventory.length > 0 && (
+                  {beverage.recipe_items && beverage.recipe_items.length > 0 && (
                     <div className="mt-3 pt-3 border-t border-gray-100">
                       <div className="flex items-center gap-1 text-xs text-gray-600 mb-1">
                         <Info className="w-3 h-3" />
                         <span>Required ingredients:</span>
                       </div>
                       <div className="flex flex-wrap gap-1">
-                        {beverage.required_inventory.map((ingredient, idx) => {
-                          const inventoryItem = inventoryItems.find(item => item.name === ingredient);
-                          const isAvailable = inventoryItem && inventoryItem.quantity > 0;
+                        {beverage.recipe_items.map(recipeItem => {
+                          const inventoryItem = getRecipeStock(recipeItem);
+                          const isAvailable = !!inventoryItem && inventoryItem.quantity > 0 && !inventoryStatus.missing.includes(inventoryItem.name);
                           
                           return (
                             <span 
-                              key={idx} 
+                              key={recipeItem.id} 
                               className={`text-xs px-2 py-1 rounded-full ${
                                 isAvailable 
                                   ? 'bg-green-50 text-green-700' 
@@ -329,7 +301,7 @@ export default function BarMenuPage() {
                               }`}
                               title={isAvailable ? 'In stock' : 'Out of stock'}
                             >
-                              {ingredient}
+                              {inventoryItem?.name} {recipeItem.quantity.toString().replace('.', ',')} {RECIPE_UNITS.find(unit => unit.value === recipeItem.unit)?.label}
                             </span>
                           );
                         })}
@@ -1,18 +1,52 @@
 import React, { useState, useEffect } from 'react';
-import { X, Building, Save, Phone, Mail, Globe, FileText, AlertCircle, CheckCircle } from 'lucide-react';
+import { X, Building, Save, Phone, Mail, Globe, FileText, AlertCircle, CheckCircle, Hash, Landmark, Clock, History, Image } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { useLanguage } from '../contexts/LanguageContext';
+import { NumberSequence, CompanySettingsAudit } from '../lib/supabase';
+import {
+  DEFAULT_ORDER_NUMBER_FORMAT, formatOrderNumber, validateOrderNumberFormat,
+  loadOrderNumberSequence, saveOrderNumberFormat
+} from '../lib/orderNumbers';
+import { isValidIBAN, isValidBIC, formatIBAN } from '../lib/paymentQRCode';
+import {
+  CompanyData, DEFAULT_COMPANY_DATA, WEEKDAYS, Weekday,
+  loadCompanySettings, loadLegacyCompanyData, saveCompanyData, loadCompanySettingsAudit
+} from '../lib/companySettings';
 
-interface CompanyData {
-  name: string;
-  address: string;
-  city: string;
-  phone: string;
-  email: string;
-  website: string;
-  taxNumber: string;
-  vatId: string;
-}
+type TextField = Exclude<keyof CompanyData, 'openingHours'>;
+
+const WEEKDAY_LABELS: Record<Weekday, string> = {
+  mon: 'Montag',
+  tue: 'Dienstag',
+  wed: 'Mittwoch',
+  thu: 'Donnerstag',
+  fri: 'Freitag',
+  sat: 'Samstag',
+  sun: 'Sonntag'
+};
+
+const CURRENCIES = ['EUR', 'CHF', 'GBP', 'USD'];
+
+// Labels for the change log, keyed by column of company_settings
+const AUDIT_FIELD_LABELS: Record<string, string> = {
+  name: 'Firmenname',
+  address: 'Straße',
+  city: 'PLZ und Ort',
+  phone: 'Telefon',
+  email: 'E-Mail',
+  website: 'Website',
+  tax_number: 'Steuernummer',
+  vat_id: 'USt-IdNr.',
+  account_holder: 'Kontoinhaber',
+  iban: 'IBAN',
+  bic: 'BIC',
+  invoice_sender_email: 'Absender',
+  accountant_email: 'Steuerberater / Buchhaltung',
+  invoice_cc_email: 'Kopie (CC)',
+  logo_url: 'Logo',
+  opening_hours: 'Öffnungszeiten',
+  currency: 'Währung'
+};
 
 interface CompanySettingsModalProps {
   isOpen: boolean;
@@ -21,21 +55,17 @@ interface CompanySettingsModalProps {
 }
 
 export default function CompanySettingsModal({ isOpen, onClose, onSave }: CompanySettingsModalProps) {
-  const [companyData, setCompanyData] = useState<CompanyData>({
-    name: "RestaurantOS GmbH",
-    address: "Musterstraße 123",
-    city: "12345 Musterstadt",
-    phone: "+49 123 456789",
-    email: "info@restaurantos.de",
-    website: "www.restaurantos.de",
-    taxNumber: "DE123456789",
-    vatId: "DE987654321"
-  });
+  const [companyData, setCompanyData] = useState<CompanyData>(DEFAULT_COMPANY_DATA);
+  const [audit, setAudit] = useState<CompanySettingsAudit[]>([]);
+  const [numberSequence, setNumberSequence] = useState<NumberSequence | null>(null);
+  const [numberFormat, setNumberFormat] = useState(DEFAULT_ORDER_NUMBER_FORMAT);
+  const [resetYearly, setResetYearly] = useState(true);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
   const { user } = useAuth();
   const { t } = useLanguage();
+  const isManager = user?.role === 'manager';
 
   useEffect(() => {
     if (isOpen) {
@@ -45,26 +75,51 @@ export default function CompanySettingsModal({ isOpen, onClose, onSave }: Compan
     }
   }, [isOpen]);
 
-  const loadCompanyData = () => {
-    // Load from localStorage
-    const savedData = localStorage.getItem('company-settings');
-    if (savedData) {
-      try {
-        const parsed = JSON.parse(savedData);
-        setCompanyData(parsed);
-      } catch (error) {
-        console.error('Error loading company data:', error);
-      }
+  // Only managers may change the settings and see the change log
+  useEffect(() => {
+    if (isOpen && user?.role === 'manager') {
+      loadCompanySettingsAudit().then(setAudit);
+      loadOrderNumberSequence().then(sequence => {
+        setNumberSequence(sequence);
+        if (sequence) {
+          setNumberFormat(sequence.format);
+          setResetYearly(sequence.reset_yearly);
+        }
+      });
     }
+  }, [isOpen, user?.role]);
+
+  const loadCompanyData = async () => {
+    // Until the settings are saved once, offer what this device stored locally
+    const savedData = await loadCompanySettings();
+    setCompanyData(savedData || loadLegacyCompanyData() || DEFAULT_COMPANY_DATA);
   };
 
-  const handleInputChange = (field: keyof CompanyData, value: string) => {
+  const getNextOrderNumber = () => {
+    const now = new Date();
+    const nextValue = !numberSequence || (resetYearly && numberSequence.current_year !== now.getFullYear())
+      ? 1
+      : numberSequence.last_value + 1;
+    return formatOrderNumber(numberFormat, nextValue, now);
+  };
+
+  const handleInputChange = (field: TextField, value: string) => {
     setCompanyData(prev => ({
       ...prev,
       [field]: value
     }));
   };
 
+  const handleOpeningHoursChange = (day: Weekday, hours: { open: string; close: string } | null) => {
+    setCompanyData(prev => ({
+      ...prev,
+      openingHours: { ...prev.openingHours, [day]: hours }
+    }));
+  };
+
+  const formatAuditChanges = (entry: CompanySettingsAudit) =>
+    Object.keys(entry.changes).map(field => AUDIT_FIELD_LABELS[field] || field).join(', ');
+
   const handleSave = async () => {
     setLoading(true);
     setError('');
@@ -83,12 +138,48 @@ export default function CompanySettingsModal({ isOpen, onClose, onSave }: Compan
       return;
     }
 
+    const invalidMailAddress = [companyData.invoiceSenderEmail, companyData.accountantEmail, companyData.invoiceCcEmail]
+      .find(address => address?.trim() && !address.includes('@'));
+    if (invalidMailAddress) {
+      setError(`Ungültige E-Mail-Adresse: ${invalidMailAddress}`);
+      setLoading(false);
+      return;
+    }
+
+    if (companyData.iban?.trim() && !isValidIBAN(companyData.iban)) {
+      setError('Ungültige IBAN');
+      setLoading(false);
+      return;
+    }
+
+    if (companyData.bic?.trim() && !isValidBIC(companyData.bic)) {
+      setError('Ungültige BIC');
+      setLoading(false);
+      return;
+    }
+
+    if (companyData.logoUrl?.trim() && !/^https?:\/\//.test(companyData.logoUrl.trim())) {
+      setError('Logo-URL muss mit http:// oder https:// beginnen');
+      setLoading(false);
+      return;
+    }
+
+    const numberFormatError = numberSequence ? validateOrderNumberFormat(numberFormat, resetYearly) : null;
+    if (numberFormatError) {
+      setError(t(numberFormatError));
+      setLoading(false);
+      return;
+    }
+
     try {
-      // Save to localStorage
-      localStorage.setItem('company-settings', JSON.stringify(companyData));
+      const savedData = await saveCompanyData(companyData, user?.id);
+
+      if (numberSequence && (numberFormat !== numberSequence.format || resetYearly !== numberSequence.reset_yearly)) {
+        await saveOrderNumberFormat(numberFormat.trim(), resetYearly);
+      }
       
       // Call parent callback
-      onSave(companyData);
+      onSave(savedData);
       
       setSuccess('Firmeninformationen erfolgreich gespeichert!');
       
@@ -150,139 +241,406 @@ export default function CompanySettingsModal({ isOpen, onClose, onSave }: Compan
             </div>
           )}
 
-          {/* Company Basic Info */}
-          <div className="bg-gray-50 rounded-lg p-6">
-            <h3 className="text-lg font-semibold text-gray-900 mb-4">Grundinformationen</h3>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <div className="md:col-span-2">
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Firmenname *
-                </label>
-                <input
-                  type="text"
-                  value={companyData.name}
-                  onChange={(e) => handleInputChange('name', e.target.value)}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                  placeholder="Ihr Firmenname"
-                />
+          {!isManager && (
+            <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+              <div className="flex items-center gap-2">
+                <AlertCircle className="w-5 h-5 text-yellow-600" />
+                <p className="text-yellow-800">Nur Manager können die Firmeninformationen ändern.</p>
               </div>
-              
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Straße und Hausnummer
-                </label>
-                <input
-                  type="text"
-                  value={companyData.address}
-                  onChange={(e) => handleInputChange('address', e.target.value)}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                  placeholder="Musterstraße 123"
-                />
+            </div>
+          )}
+
+          <fieldset disabled={!isManager} className="space-y-6">
+            {/* Company Basic Info */}
+            <div className="bg-gray-50 rounded-lg p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">Grundinformationen</h3>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Firmenname *
+                  </label>
+                  <input
+                    type="text"
+                    value={companyData.name}
+                    onChange={(e) => handleInputChange('name', e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    placeholder="Ihr Firmenname"
+                  />
+                </div>
+                
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Straße und Hausnummer
+                  </label>
+                  <input
+                    type="text"
+                    value={companyData.address}
+                    onChange={(e) => handleInputChange('address', e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    placeholder="Musterstraße 123"
+                  />
+                </div>
+                
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    PLZ und Ort
+                  </label>
+                  <input
+                    type="text"
+                    value={companyData.city}
+                    onChange={(e) => handleInputChange('city', e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    placeholder="12345 Musterstadt"
+                  />
+                </div>
               </div>
-              
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  PLZ und Ort
-                </label>
-                <input
-                  type="text"
-                  value={companyData.city}
-                  onChange={(e) => handleInputChange('city', e.target.value)}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                  placeholder="12345 Musterstadt"
-                />
+            </div>
+
+            {/* Contact Information */}
+            <div className="bg-gray-50 rounded-lg p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">Kontaktinformationen</h3>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    <Phone className="w-4 h-4 inline mr-1" />
+                    Telefon
+                  </label>
+                  <input
+                    type="tel"
+                    value={companyData.phone}
+                    onChange={(e) => handleInputChange('phone', e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    placeholder="+49 123 456789"
+                  />
+                </div>
+                
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    <Mail className="w-4 h-4 inline mr-1" />
+                    E-Mail *
+                  </label>
+                  <input
+                    type="email"
+                    value={companyData.email}
+                    onChange={(e) => handleInputChange('email', e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    placeholder="info@ihrefirma.de"
+                  />
+                </div>
+                
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    <Globe className="w-4 h-4 inline mr-1" />
+                    Website
+                  </label>
+                  <input
+                    type="url"
+                    value={companyData.website}
+                    onChange={(e) => handleInputChange('website', e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    placeholder="www.ihrefirma.de"
+                  />
+                </div>
               </div>
             </div>
-          </div>
 
-          {/* Contact Information */}
-          <div className="bg-gray-50 rounded-lg p-6">
-            <h3 className="text-lg font-semibold text-gray-900 mb-4">Kontaktinformationen</h3>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  <Phone className="w-4 h-4 inline mr-1" />
-                  Telefon
-                </label>
-                <input
-                  type="tel"
-                  value={companyData.phone}
-                  onChange={(e) => handleInputChange('phone', e.target.value)}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                  placeholder="+49 123 456789"
-                />
+            {/* Tax Information */}
+            <div className="bg-gray-50 rounded-lg p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">
+                <FileText className="w-5 h-5 inline mr-2" />
+                Steuerliche Angaben
+              </h3>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Steuernummer
+                  </label>
+                  <input
+                    type="text"
+                    value={companyData.taxNumber}
+                    onChange={(e) => handleInputChange('taxNumber', e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    placeholder="DE123456789"
+                  />
+                </div>
+                
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    USt-IdNr.
+                  </label>
+                  <input
+                    type="text"
+                    value={companyData.vatId}
+                    onChange={(e) => handleInputChange('vatId', e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    placeholder="DE987654321"
+                  />
+                </div>
               </div>
-              
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  <Mail className="w-4 h-4 inline mr-1" />
-                  E-Mail *
-                </label>
-                <input
-                  type="email"
-                  value={companyData.email}
-                  onChange={(e) => handleInputChange('email', e.target.value)}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                  placeholder="info@ihrefirma.de"
-                />
+            </div>
+
+            {/* Bank Account */}
+            <div className="bg-gray-50 rounded-lg p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">
+                <Landmark className="w-5 h-5 inline mr-2" />
+                Bankverbindung
+              </h3>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Kontoinhaber
+                  </label>
+                  <input
+                    type="text"
+                    value={companyData.accountHolder || ''}
+                    onChange={(e) => handleInputChange('accountHolder', e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    placeholder={companyData.name}
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    IBAN
+                  </label>
+                  <input
+                    type="text"
+                    value={companyData.iban || ''}
+                    onChange={(e) => handleInputChange('iban', e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono"
+                    placeholder="DE89 3704 0044 0532 0130 00"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    BIC (optional)
+                  </label>
+                  <input
+                    type="text"
+                    value={companyData.bic || ''}
+                    onChange={(e) => handleInputChange('bic', e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono"
+                    placeholder="COBADEFFXXX"
+                  />
+                </div>
               </div>
-              
-              <div className="md:col-span-2">
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  <Globe className="w-4 h-4 inline mr-1" />
-                  Website
-                </label>
-                <input
-                  type="url"
-                  value={companyData.website}
-                  onChange={(e) => handleInputChange('website', e.target.value)}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                  placeholder="www.ihrefirma.de"
-                />
+              <p className="text-xs text-gray-500 mt-2">
+                Mit einer IBAN erhalten Rechnungen einen GiroCode, den Gäste mit ihrer Banking-App scannen können.
+              </p>
+            </div>
+
+            {/* Invoice E-Mails */}
+            <div className="bg-gray-50 rounded-lg p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">
+                <Mail className="w-5 h-5 inline mr-2" />
+                Rechnungsversand
+              </h3>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Absender
+                  </label>
+                  <input
+                    type="email"
+                    value={companyData.invoiceSenderEmail || ''}
+                    onChange={(e) => handleInputChange('invoiceSenderEmail', e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    placeholder={companyData.email || 'rechnung@ihrefirma.de'}
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Steuerberater / Buchhaltung
+                  </label>
+                  <input
+                    type="email"
+                    value={companyData.accountantEmail || ''}
+                    onChange={(e) => handleInputChange('accountantEmail', e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    placeholder="buchhaltung@kanzlei.de"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Kopie (CC)
+                  </label>
+                  <input
+                    type="email"
+                    value={companyData.invoiceCcEmail || ''}
+                    onChange={(e) => handleInputChange('invoiceCcEmail', e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    placeholder="info@ihrefirma.de"
+                  />
+                </div>
               </div>
             </div>
-          </div>
 
-          {/* Tax Information */}
-          <div className="bg-gray-50 rounded-lg p-6">
-            <h3 className="text-lg font-semibold text-gray-900 mb-4">
-              <FileText className="w-5 h-5 inline mr-2" />
-              Steuerliche Angaben
-            </h3>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Steuernummer
-                </label>
-                <input
-                  type="text"
-                  value={companyData.taxNumber}
-                  onChange={(e) => handleInputChange('taxNumber', e.target.value)}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                  placeholder="DE123456789"
+            {/* Logo and Currency */}
+            <div className="bg-gray-50 rounded-lg p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">
+                <Image className="w-5 h-5 inline mr-2" />
+                Logo und Währung
+              </h3>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Logo-URL (PNG oder JPEG)
+                  </label>
+                  <input
+                    type="url"
+                    value={companyData.logoUrl || ''}
+                    onChange={(e) => handleInputChange('logoUrl', e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    placeholder="https://ihrefirma.de/logo.png"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Währung
+                  </label>
+                  <select
+                    value={companyData.currency || 'EUR'}
+                    onChange={(e) => handleInputChange('currency', e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    {CURRENCIES.map(currency => (
+                      <option key={currency} value={currency}>{currency}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              {companyData.logoUrl && (
+                <img
+                  src={companyData.logoUrl}
+                  alt="Logo"
+                  className="mt-4 max-h-16 max-w-[200px] object-contain"
                 />
+              )}
+            </div>
+
+            {/* Opening Hours */}
+            <div className="bg-gray-50 rounded-lg p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">
+                <Clock className="w-5 h-5 inline mr-2" />
+                Öffnungszeiten
+              </h3>
+              <div className="space-y-2">
+                {WEEKDAYS.map(day => {
+                  const hours = companyData.openingHours?.[day];
+                  return (
+                    <div key={day} className="grid grid-cols-4 gap-3 items-center">
+                      <label className="flex items-center gap-2 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={!!hours}
+                          onChange={(e) => handleOpeningHoursChange(day, e.target.checked ? { open: '11:00', close: '22:00' } : null)}
+                          className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                        />
+                        {WEEKDAY_LABELS[day]}
+                      </label>
+                      {hours ? (
+                        <>
+                          <input
+                            type="time"
+                            value={hours.open}
+                            onChange={(e) => handleOpeningHoursChange(day, { ...hours, open: e.target.value })}
+                            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                          />
+                          <input
+                            type="time"
+                            value={hours.close}
+                            onChange={(e) => handleOpeningHoursChange(day, { ...hours, close: e.target.value })}
+                            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                          />
+                        </>
+                      ) : (
+                        <span className="col-span-2 text-sm text-gray-500">Geschlossen</span>
+                      )}
+                    </div>
+                  );
+                })}
               </div>
-              
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  USt-IdNr.
+            </div>
+          </fieldset>
+
+          {/* Invoice Numbers */}
+          {numberSequence && (
+            <div className="bg-gray-50 rounded-lg p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">
+                <Hash className="w-5 h-5 inline mr-2" />
+                Rechnungsnummern
+              </h3>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Format
+                  </label>
+                  <input
+                    type="text"
+                    value={numberFormat}
+                    onChange={(e) => setNumberFormat(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono"
+                    placeholder={DEFAULT_ORDER_NUMBER_FORMAT}
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    Platzhalter: {'{YYYY}'}, {'{YY}'}, {'{MM}'}, {'{DD}'}, {'{NNNNN}'} (fortlaufender Zähler)
+                  </p>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Nächste Nummer
+                  </label>
+                  <p className="px-3 py-2 bg-white border border-gray-200 rounded-lg font-mono">
+                    {getNextOrderNumber()}
+                  </p>
+                </div>
+
+                <label className="md:col-span-2 flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={resetYearly}
+                    onChange={(e) => setResetYearly(e.target.checked)}
+                    className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                  />
+                  Zähler zu Jahresbeginn auf 1 zurücksetzen
                 </label>
-                <input
-                  type="text"
-                  value={companyData.vatId}
-                  onChange={(e) => handleInputChange('vatId', e.target.value)}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                  placeholder="DE987654321"
-                />
               </div>
             </div>
-          </div>
+          )}
+
+          {/* Change Log */}
+          {isManager && audit.length > 0 && (
+            <div className="bg-gray-50 rounded-lg p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">
+                <History className="w-5 h-5 inline mr-2" />
+                Änderungsprotokoll
+              </h3>
+              <div className="space-y-2">
+                {audit.map(entry => (
+                  <div key={entry.id} className="text-sm">
+                    <span className="text-gray-500">{new Date(entry.changed_at).toLocaleString('de-DE')}</span>
+                    {' · '}
+                    <span className="font-medium text-gray-900">{entry.changed_by_user?.name || 'Unbekannt'}</span>
+                    <p className="text-gray-700">{formatAuditChanges(entry)}</p>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
 
           {/* Preview */}
           <div className="bg-blue-50 rounded-lg p-6">
             <h3 className="text-lg font-semibold text-gray-900 mb-4">Vorschau</h3>
             <div className="bg-white p-4 rounded-lg border">
               <div className="text-sm">
+                {companyData.logoUrl && (
+                  <img src={companyData.logoUrl} alt="Logo" className="max-h-12 max-w-[160px] object-contain mb-2" />
+                )}
                 <p className="font-bold text-lg">{companyData.name}</p>
                 <p>{companyData.address}</p>
                 <p>{companyData.city}</p>
@@ -293,6 +651,11 @@ export default function CompanySettingsModal({ isOpen, onClose, onSave }: Compan
                   <p className="text-xs text-gray-600">
                     Steuernummer: {companyData.taxNumber}<br/>
                     USt-IdNr.: {companyData.vatId}
+                    {companyData.iban && isValidIBAN(companyData.iban) && (
+                      <>
+                        <br/>IBAN: {formatIBAN(companyData.iban)}{companyData.bic && ` · BIC: ${companyData.bic}`}
+                      </>
+                    )}
                   </p>
                 </div>
               </div>
@@ -307,22 +670,24 @@ export default function CompanySettingsModal({ isOpen, onClose, onSave }: Compan
               onClick={onClose}
               className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
             >
-              Abbrechen
-            </button>
-            <button
-              onClick={handleSave}
-              disabled={loading}
-              className="flex-1 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
-            >
-              {loading ? (
-                <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
-              ) : (
-                <>
-                  <Save className="w-4 h-4" />
-                  Speichern
-                </>
-              )}
+              {isManager ? 'Abbrechen' : 'Schließen'}
             </button>
+            {isManager && (
+              <button
+                onClick={handleSave}
+                disabled={loading}
+                className="flex-1 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+              >
+                {loading ? (
+                  <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                ) : (
+                  <>
+                    <Save className="w-4 h-4" />
+                    Speichern
+                  </>
+                )}
+              </button>
+            )}
           </div>
         </div>
       </div>
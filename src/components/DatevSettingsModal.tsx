@@ -0,0 +1,318 @@
+import { useState, useEffect } from 'react';
+import { X, Save, Calculator, AlertCircle, CheckCircle } from 'lucide-react';
+import { supabase, DatevSettings, TaxRate } from '../lib/supabase';
+import { DEFAULT_TAX_RATES, loadTaxRates } from '../lib/taxRates';
+import {
+  DATEV_ACCOUNT_PRESETS, DEFAULT_DATEV_SETTINGS,
+  loadDatevSettings, saveDatevSettings, validateDatevSettings
+} from '../lib/datevExport';
+
+interface DatevSettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const MONTHS = [
+  'Januar', 'Februar', 'März', 'April', 'Mai', 'Juni',
+  'Juli', 'August', 'September', 'Oktober', 'November', 'Dezember'
+];
+
+const TAX_CATEGORY_LABELS: Record<TaxRate['tax_category'], string> = {
+  food: 'Speisen',
+  beverage: 'Getränke'
+};
+
+const SERVICE_TYPE_LABELS: Record<TaxRate['service_type'], string> = {
+  dine_in: 'vor Ort',
+  takeaway: 'außer Haus'
+};
+
+export default function DatevSettingsModal({ isOpen, onClose }: DatevSettingsModalProps) {
+  const [settings, setSettings] = useState<DatevSettings>(DEFAULT_DATEV_SETTINGS);
+  const [taxRates, setTaxRates] = useState<TaxRate[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+      setError('');
+      setSuccess('');
+      loadDatevSettings().then(setSettings);
+      loadTaxRates().then(setTaxRates);
+    }
+  }, [isOpen]);
+
+  const handleChange = <K extends keyof DatevSettings>(field: K, value: DatevSettings[K]) => {
+    setSettings(prev => ({
+      ...prev,
+      [field]: value
+    }));
+  };
+
+  const handleTaxRateChange = (id: string, field: 'revenue_account' | 'datev_bu_key', value: string) => {
+    setTaxRates(prev => prev.map(rate => rate.id === id ? { ...rate, [field]: value } : rate));
+  };
+
+  // Switching the chart of accounts fills in its standard accounts
+  const handleChartChange = (chart: DatevSettings['chart_of_accounts']) => {
+    const { revenue_account, ...accounts } = DATEV_ACCOUNT_PRESETS[chart];
+    setSettings(prev => ({ ...prev, chart_of_accounts: chart, ...accounts }));
+    setTaxRates(prev => prev.map(rate => ({ ...rate, revenue_account })));
+  };
+
+  const handleSave = async () => {
+    setError('');
+    setSuccess('');
+
+    const errors = validateDatevSettings(settings);
+    if (taxRates.some(rate => !/^\d+$/.test(rate.revenue_account) || rate.revenue_account.length > settings.account_length)) {
+      errors.push(`Erlöskonten müssen aus höchstens ${settings.account_length} Ziffern bestehen`);
+    }
+    if (errors.length > 0) {
+      setError(errors.join('\n'));
+      return;
+    }
+
+    try {
+      setLoading(true);
+
+      await saveDatevSettings(settings);
+
+      // Default rates (table empty or not readable) have no database row to update
+      const savedRates = taxRates.filter(rate => !DEFAULT_TAX_RATES.some(defaultRate => defaultRate.id === rate.id));
+      for (const rate of savedRates) {
+        const { error: rateError } = await supabase
+          .from('tax_rates')
+          .update({
+            revenue_account: rate.revenue_account,
+            datev_bu_key: rate.datev_bu_key || null,
+            updated_at: new Date().toISOString()
+          })
+          .eq('id', rate.id);
+
+        if (rateError) throw rateError;
+      }
+
+      setSuccess('DATEV-Einstellungen gespeichert!');
+      setTimeout(() => {
+        onClose();
+      }, 1500);
+    } catch (error) {
+      console.error('Error saving DATEV settings:', error);
+      setError('Fehler beim Speichern der DATEV-Einstellungen');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl max-w-2xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-blue-500 to-blue-600 p-6 text-white">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="p-3 bg-white/20 rounded-lg">
+                <Calculator className="w-6 h-6" />
+              </div>
+              <div>
+                <h2 className="text-2xl font-bold">DATEV-Einstellungen</h2>
+                <p className="opacity-90">Angaben für den Buchungsstapel-Export</p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-white/20 rounded-lg transition-colors"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {/* Messages */}
+          {error && (
+            <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+              <div className="flex items-start gap-2">
+                <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
+                <p className="text-red-700 whitespace-pre-line">{error}</p>
+              </div>
+            </div>
+          )}
+
+          {success && (
+            <div className="p-4 bg-green-50 border border-green-200 rounded-lg">
+              <div className="flex items-center gap-2">
+                <CheckCircle className="w-5 h-5 text-green-600" />
+                <p className="text-green-700">{success}</p>
+              </div>
+            </div>
+          )}
+
+          {/* Client */}
+          <div className="bg-gray-50 rounded-lg p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Mandant</h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Beraternummer *
+                </label>
+                <input
+                  type="number"
+                  value={settings.consultant_number ?? ''}
+                  onChange={(e) => handleChange('consultant_number', e.target.value ? parseInt(e.target.value) : null)}
+                  className={inputClassName}
+                  placeholder="1001"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Mandantennummer *
+                </label>
+                <input
+                  type="number"
+                  value={settings.client_number ?? ''}
+                  onChange={(e) => handleChange('client_number', e.target.value ? parseInt(e.target.value) : null)}
+                  className={inputClassName}
+                  placeholder="1"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Beginn Wirtschaftsjahr
+                </label>
+                <select
+                  value={settings.fiscal_year_start_month}
+                  onChange={(e) => handleChange('fiscal_year_start_month', parseInt(e.target.value))}
+                  className={inputClassName}
+                >
+                  {MONTHS.map((month, index) => (
+                    <option key={month} value={index + 1}>{month}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Sachkontenlänge
+                </label>
+                <input
+                  type="number"
+                  value={settings.account_length}
+                  onChange={(e) => handleChange('account_length', parseInt(e.target.value) || 4)}
+                  min="4"
+                  max="8"
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+          </div>
+
+          {/* Accounts */}
+          <div className="bg-gray-50 rounded-lg p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Konten</h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Kontenrahmen
+                </label>
+                <select
+                  value={settings.chart_of_accounts}
+                  onChange={(e) => handleChartChange(e.target.value as DatevSettings['chart_of_accounts'])}
+                  className={inputClassName}
+                >
+                  <option value="SKR03">SKR 03</option>
+                  <option value="SKR04">SKR 04</option>
+                </select>
+              </div>
+
+              {([
+                ['cash_account', 'Kasse (Barzahlung)'],
+                ['card_account', 'Geldtransit Kartenzahlung'],
+                ['digital_account', 'Geldtransit digitale Zahlung'],
+                ['receivable_account', 'Forderungen (offene Beträge)']
+              ] as const).map(([field, label]) => (
+                <div key={field}>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    {label}
+                  </label>
+                  <input
+                    type="text"
+                    value={settings[field]}
+                    onChange={(e) => handleChange(field, e.target.value.trim())}
+                    className={`${inputClassName} font-mono`}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Revenue accounts */}
+          <div className="bg-gray-50 rounded-lg p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Erlöskonten</h3>
+            <div className="space-y-3">
+              <div className="grid grid-cols-3 gap-3 text-sm font-medium text-gray-700">
+                <span>Steuersatz</span>
+                <span>Erlöskonto</span>
+                <span>BU-Schlüssel</span>
+              </div>
+              {taxRates.map(rate => (
+                <div key={rate.id} className="grid grid-cols-3 gap-3 items-center">
+                  <span className="text-sm text-gray-900">
+                    {TAX_CATEGORY_LABELS[rate.tax_category]} {SERVICE_TYPE_LABELS[rate.service_type]} ({rate.rate}%)
+                  </span>
+                  <input
+                    type="text"
+                    value={rate.revenue_account}
+                    onChange={(e) => handleTaxRateChange(rate.id, 'revenue_account', e.target.value.trim())}
+                    className={`${inputClassName} font-mono`}
+                  />
+                  <input
+                    type="text"
+                    value={rate.datev_bu_key || ''}
+                    onChange={(e) => handleTaxRateChange(rate.id, 'datev_bu_key', e.target.value.trim())}
+                    className={`${inputClassName} font-mono`}
+                    placeholder="leer bei Automatikkonto"
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="border-t border-gray-200 p-6 bg-gray-50">
+          <div className="flex gap-3">
+            <button
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Abbrechen
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={loading}
+              className="flex-1 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+            >
+              {loading ? (
+                <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+              ) : (
+                <>
+                  <Save className="w-4 h-4" />
+                  Speichern
+                </>
+              )}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
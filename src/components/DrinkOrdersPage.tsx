@@ -3,6 +3,10 @@ import { Wine, Clock, CheckCircle2, AlertCircle, Bell, Volume2, VolumeX, Refresh
 import { supabase, Order, OrderItem, MenuItem, InventoryItem } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
 import { useLanguage } from '../contexts/LanguageContext';
+import { getOrderNumber } from '../lib/orderNumbers';
+import { loadStations, filterOrderItemsByKind } from '../lib/stations';
+import { RECIPE_SELECT, getMissingIngredients } from '../lib/recipes';
+import { getModifierLines } from '../lib/modifiers';
 
 export default function DrinkOrdersPage() {
   const [drinkOrders, setDrinkOrders] = useState<(Order & { order_items: (OrderItem & { menu_item: any })[] })[]>([]);
@@ -124,7 +128,7 @@ export default function DrinkOrdersPage() {
           *,
           order_items (
             *,
-            menu_item:menu_items (*)
+            menu_item:menu_items (*, ${RECIPE_SELECT})
           )
         `)
         .order('created_at', { ascending: false });
@@ -138,36 +142,11 @@ export default function DrinkOrdersPage() {
 
       console.log('All orders loaded:', data?.length || 0);
 
-      // Filter orders to only include those with drink items
-      // Define drink categories in lowercase for case-insensitive comparison
-      const drinkCategories = ['drink', 'beverage', 'alcohol', 'coffee', 'tea', 'wine', 'beer', 'cocktail'];
-      
-      const ordersWithDrinks = (data || []).map(order => {
-        // Log each order's items for debugging
-        console.log(`Order #${order.id.slice(0, 8)} items:`, order.order_items?.map(item => ({
-          name: item.menu_item?.name,
-          category: item.menu_item?.category,
-          isDrink: item.menu_item && drinkCategories.some(category => 
-            (item.menu_item.category || '').toLowerCase().includes(category)
-          )
-        })));
-        
-        return {
-          ...order,
-          order_items: (order.order_items || []).filter(item => {
-            // Check if this item is a drink
-            const isDrink = item.menu_item && drinkCategories.some(category => 
-              (item.menu_item.category || '').toLowerCase().includes(category.toLowerCase())
-            );
-            
-            if (isDrink) {
-              console.log(`Found drink item: ${item.menu_item?.name} (${item.menu_item?.category})`);
-            }
-            
-            return isDrink;
-          })
-        };
-      }).filter(order => order.order_items.length > 0);
+      // Only the items made at bar stations
+      const stations = await loadStations();
+      const ordersWithDrinks = (data || [])
+        .map(order => filterOrderItemsByKind(order, stations, 'bar'))
+        .filter(order => order.order_items.length > 0);
 
       console.log('Drink orders filtered:', ordersWithDrinks.length);
       ordersWithDrinks.forEach(order => {
@@ -184,36 +163,7 @@ export default function DrinkOrdersPage() {
         };
       }).filter(order => order.order_items.length > 0);
       
-      // Check inventory availability for each drink
-      const ordersWithAvailability = filteredOrders.map(order => {
-        const itemsWithAvailability = order.order_items.map(item => {
-          // Check if all required inventory is available
-          let canPrepare = true;
-          
-          if (item.menu_item && item.menu_item.required_inventory && item.menu_item.required_inventory.length > 0) {
-            canPrepare = item.menu_item.required_inventory.every(ingredientName => {
-              const inventoryItem = inventoryItems.find(invItem => invItem.name === ingredientName);
-              
-              // If ingredient is not critical or has stock, it's available
-              return !inventoryItem || 
-                     inventoryItem.is_critical === false || 
-                     inventoryItem.quantity > 0;
-            });
-          }
-          
-          return {
-            ...item,
-            canPrepare
-          };
-        });
-        
-        return {
-          ...order,
-          order_items: itemsWithAvailability
-        };
-      });
-      
-      setDrinkOrders(ordersWithAvailability);
+      setDrinkOrders(filteredOrders);
 
     } catch (error) {
       console.error('Error loading drink orders:', error);
@@ -223,72 +173,27 @@ export default function DrinkOrdersPage() {
     }
   };
 
-  const updateDrinkStatus = async (itemId: string, status: string, menuItem: MenuItem) => {
-    try {
-      console.log('Updating drink status:', itemId, 'to', status);
+  // Recipe ingredients with the live stock, the inventory updates in realtime
+  const getMissingCriticalIngredients = (menuItem?: MenuItem): string[] =>
+    menuItem
+      ? getMissingIngredients({
+          ...menuItem,
+          recipe_items: (menuItem.recipe_items || []).map(recipeItem => ({
+            ...recipeItem,
+            inventory_item: inventoryItems.find(item => item.id === recipeItem.inventory_item_id) || recipeItem.inventory_item
+          }))
+        })
+      : [];
 
-      // Check if we need to update inventory (only when preparing or ready)
-      if ((status === 'preparing' || status === 'ready') && menuItem.required_inventory && menuItem.required_inventory.length > 0) {
-        // For 'preparing', we'll reserve the ingredients
-        // For 'ready', we'll consume the ingredients
-        const consumeInventory = status === 'ready';
-        
-        // Update inventory for each required ingredient
-        for (const ingredientName of menuItem.required_inventory) {
-          // Find the inventory item
-          const { data: inventoryItems, error: findError } = await supabase
-            .from('inventory_items')
-            .select('*')
-            .eq('name', ingredientName)
-            .limit(1);
-            
-          if (findError) {
-            console.error(`Error finding inventory item ${ingredientName}:`, findError);
-            continue;
-          }
-          
-          if (!inventoryItems || inventoryItems.length === 0) {
-            console.warn(`Inventory item ${ingredientName} not found`);
-            continue;
-          }
-          
-          const inventoryItem = inventoryItems[0];
-          
-          // Only consume if we're marking as ready and have enough quantity
-          // Skip consumption for non-critical ingredients if they're out of stock
-          if (consumeInventory && 
-              (inventoryItem.quantity > 0 || inventoryItem.is_critical === false)) {
-            
-            // If it's a critical ingredient with quantity > 0 or a non-critical ingredient, update it
-            if (inventoryItem.quantity > 0 || inventoryItem.is_critical === false) {
-              // For non-critical ingredients, don't reduce below 0
-              const newQuantity = inventoryItem.is_critical === false 
-                ? Math.max(0, inventoryItem.quantity - 1)
-                : inventoryItem.quantity - 1;
-                
-              const { error: updateError } = await supabase
-                .from('inventory_items')
-                .update({ 
-                  quantity: newQuantity,
-                  last_updated: new Date().toISOString()
-                })
-                .eq('id', inventoryItem.id);
-                
-              if (updateError) {
-                console.error(`Error updating inventory for ${ingredientName}:`, updateError);
-              } else {
-                console.log(`Consumed 1 unit of ${ingredientName} from inventory`);
-              }
-            }
-          }
-        }
-      }
+  const updateDrinkStatus = async (item: OrderItem, status: OrderItem['status']) => {
+    try {
+      console.log('Updating drink status:', item.id, 'to', status);
 
       // Update the order item status
       const { error } = await supabase
         .from('order_items')
         .update({ status })
-        .eq('id', itemId);
+        .eq('id', item.id);
 
       if (error) {
         console.error('Error updating drink status:', error);
@@ -443,7 +348,7 @@ export default function DrinkOrdersPage() {
                         )}
                       </div>
                       <div>
-                        <h4 className="font-medium text-gray-900">Order #{order.id.slice(0, 8)}</h4>
+                        <h4 className="font-medium text-gray-900">Order #{getOrderNumber(order)}</h4>
                         <p className="text-sm text-gray-500">{order.customer_name || t('common.guest')}</p>
                       </div>
                     </div>
@@ -459,7 +364,8 @@ export default function DrinkOrdersPage() {
                   
                   <div className="space-y-3">
                     {order.order_items?.map((item) => {
-                      const canPrepare = 'canPrepare' in item ? item.canPrepare : true;
+                      const missingIngredients = getMissingCriticalIngredients(item.menu_item);
+                      const canPrepare = missingIngredients.length === 0;
                       
                       return (
                         <div key={item.id} className="flex items-center justify-between p-3 bg-white rounded-lg border border-purple-200">
@@ -469,24 +375,29 @@ export default function DrinkOrdersPage() {
                               <span className="font-medium">
                                 {item.quantity}x {item.menu_item?.name || t('bar.unknownDrink')}
                               </span>
+                              {item.seat_number && (
+                                <span className="text-xs bg-blue-100 text-blue-800 px-2 py-0.5 rounded">
+                                  {t('tables.seat')} {item.seat_number}
+                                </span>
+                              )}
                               {!canPrepare && (
                                 <span className="text-xs bg-red-100 text-red-800 px-2 py-0.5 rounded">
                                   Missing critical ingredients
                                 </span>
                               )}
                             </div>
+                            {getModifierLines(item.modifiers).map(line => (
+                              <p key={line} className="text-sm font-medium text-amber-700">{line}</p>
+                            ))}
                             {item.notes && (
                               <p className="text-sm text-gray-600 italic">{t('common.notes')}: {item.notes}</p>
                             )}
                             <p className="text-sm text-gray-500">€{item.price.toFixed(2)} {t('orders.each')}</p>
                             
                             {/* Show missing ingredients */}
-                            {!canPrepare && item.menu_item?.required_inventory && (
+                            {!canPrepare && (
                               <div className="mt-1 text-xs text-red-600">
-                                Missing critical: {item.menu_item.required_inventory.filter(ingredientName => {
-                                  const inventoryItem = inventoryItems.find(invItem => invItem.name === ingredientName);
-                                  return inventoryItem && inventoryItem.is_critical !== false && inventoryItem.quantity <= 0;
-                                }).join(', ')}
+                                Missing critical: {missingIngredients.join(', ')}
                               </div>
                             )}
                           </div>
@@ -500,7 +411,7 @@ export default function DrinkOrdersPage() {
                             <div className="flex gap-2">
                               {item.status === 'pending' && (
                                 <button
-                                  onClick={() => updateDrinkStatus(item.id, 'preparing', item.menu_item)}
+                                  onClick={() => updateDrinkStatus(item, 'preparing')}
                                   disabled={!canPrepare}
                                   className={`px-3 py-1 rounded text-xs text-white ${
                                     canPrepare 
@@ -514,7 +425,7 @@ export default function DrinkOrdersPage() {
                               )}
                               {item.status === 'preparing' && (
                                 <button
-                                  onClick={() => updateDrinkStatus(item.id, 'ready', item.menu_item)}
+                                  onClick={() => updateDrinkStatus(item, 'ready')}
                                   disabled={!canPrepare}
                                   className={`px-3 py-1 rounded text-xs text-white ${
                                     canPrepare 
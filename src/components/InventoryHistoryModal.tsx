@@ -0,0 +1,302 @@
+import React, { useState, useEffect } from 'react';
+import { X, History, AlertCircle, ArrowDownCircle, ArrowUpCircle, Save } from 'lucide-react';
+import { InventoryItem, InventoryMovement, InventoryMovementType } from '../lib/supabase';
+import {
+  MANUAL_MOVEMENT_TYPES, isReasonRequired, getMovementType,
+  loadInventoryMovements, recordInventoryMovement, getStockHistory
+} from '../lib/inventoryMovements';
+
+interface InventoryHistoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  item: InventoryItem | null;
+  onChanged?: (quantity: number) => void;
+}
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 160;
+
+const formatQuantity = (value: number) => Number(value.toFixed(3)).toString();
+
+export default function InventoryHistoryModal({ isOpen, onClose, item, onChanged }: InventoryHistoryModalProps) {
+  const [movements, setMovements] = useState<InventoryMovement[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [movementType, setMovementType] = useState<InventoryMovementType>('receipt');
+  const [amount, setAmount] = useState('');
+  const [transferOut, setTransferOut] = useState(true);
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const loadMovements = async (inventoryItemId: string) => {
+    setLoading(true);
+    setMovements(await loadInventoryMovements(inventoryItemId));
+    setLoading(false);
+  };
+
+  const itemId = item?.id;
+
+  useEffect(() => {
+    if (isOpen && itemId) {
+      setError('');
+      setAmount('');
+      setReason('');
+      setMovementType('receipt');
+      loadMovements(itemId);
+    }
+  }, [isOpen, itemId]);
+
+  if (!isOpen || !item) return null;
+
+  const currentQuantity = movements[0]?.quantity_after ?? item.quantity;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const value = parseFloat(amount);
+    if (isNaN(value) || value < 0 || (movementType !== 'correction' && value === 0)) {
+      setError('Please enter a quantity greater than 0');
+      return;
+    }
+
+    if (isReasonRequired(movementType) && !reason.trim()) {
+      setError('Please enter a reason');
+      return;
+    }
+
+    // Corrections are entered as the counted stock, everything else as the amount moved
+    let change = value;
+    if (movementType === 'correction') {
+      change = value - currentQuantity;
+    } else if (movementType === 'waste' || movementType === 'breakage' || (movementType === 'transfer' && transferOut)) {
+      change = -value;
+    }
+
+    if (change === 0) {
+      setError('The counted stock matches the current stock');
+      return;
+    }
+
+    setError('');
+    setSaving(true);
+    try {
+      const movement = await recordInventoryMovement(item.id, movementType, change, reason.trim());
+      if (movement?.quantity_after != null) {
+        onChanged?.(Number(movement.quantity_after));
+      }
+      setAmount('');
+      setReason('');
+      await loadMovements(item.id);
+    } catch (err) {
+      console.error('Error recording inventory movement:', err);
+      setError('Failed to record movement: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const history = getStockHistory(movements);
+  const renderChart = () => {
+    if (history.length < 2) {
+      return (
+        <div className="text-center py-8 text-gray-500 text-sm">
+          Not enough movements yet to chart the stock level
+        </div>
+      );
+    }
+
+    const start = new Date(history[0].date).getTime();
+    const end = Math.max(new Date(history[history.length - 1].date).getTime(), start + 1);
+    const maxQuantity = Math.max(...history.map(point => point.quantity), item.threshold, 1);
+    const x = (date: string) => ((new Date(date).getTime() - start) / (end - start)) * CHART_WIDTH;
+    const y = (quantity: number) => CHART_HEIGHT - (Math.max(quantity, 0) / maxQuantity) * CHART_HEIGHT;
+
+    // Stock stays level until the next movement
+    const path = history
+      .map((point, index) => index === 0
+        ? `M ${x(point.date)} ${y(point.quantity)}`
+        : `H ${x(point.date)} V ${y(point.quantity)}`)
+      .join(' ');
+
+    return (
+      <div>
+        <div className="flex justify-between text-xs text-gray-500 mb-1">
+          <span>{formatQuantity(maxQuantity)} {item.unit}</span>
+          <span className="text-yellow-600">Threshold: {item.threshold} {item.unit}</span>
+        </div>
+        <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} preserveAspectRatio="none" className="w-full h-40 bg-gray-50 rounded-lg">
+          <line
+            x1={0}
+            x2={CHART_WIDTH}
+            y1={y(item.threshold)}
+            y2={y(item.threshold)}
+            stroke="#ca8a04"
+            strokeDasharray="6 4"
+            vectorEffect="non-scaling-stroke"
+          />
+          <path d={path} fill="none" stroke="#9333ea" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+        </svg>
+        <div className="flex justify-between text-xs text-gray-500 mt-1">
+          <span>{new Date(history[0].date).toLocaleDateString()}</span>
+          <span>{new Date(history[history.length - 1].date).toLocaleDateString()}</span>
+        </div>
+      </div>
+    );
+  };
+
+  const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl max-w-3xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        <div className="bg-gradient-to-r from-purple-500 to-purple-600 p-6 text-white">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="p-3 bg-white/20 rounded-lg">
+                <History className="w-6 h-6" />
+              </div>
+              <div>
+                <h2 className="text-xl font-bold">Stock History</h2>
+                <p className="opacity-90">{item.name} · {formatQuantity(currentQuantity)} {item.unit} in stock</p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-white/20 rounded-lg transition-colors"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {/* Book Movement */}
+          <form onSubmit={handleSubmit} className="bg-gray-50 rounded-lg p-4 space-y-3">
+            <h3 className="font-semibold text-gray-900">Record Movement</h3>
+            {error && (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-lg flex items-center gap-2">
+                <AlertCircle className="w-4 h-4 text-red-600 flex-shrink-0" />
+                <p className="text-sm text-red-700">{error}</p>
+              </div>
+            )}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <select
+                value={movementType}
+                onChange={(e) => setMovementType(e.target.value as InventoryMovementType)}
+                className={inputClassName}
+              >
+                {MANUAL_MOVEMENT_TYPES.map(type => (
+                  <option key={type} value={type}>{getMovementType(type).label}</option>
+                ))}
+              </select>
+              <input
+                type="number"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                min="0"
+                step="0.001"
+                placeholder={movementType === 'correction' ? `Counted ${item.unit}` : `Quantity in ${item.unit}`}
+                className={inputClassName}
+              />
+              {movementType === 'transfer' ? (
+                <select
+                  value={transferOut ? 'out' : 'in'}
+                  onChange={(e) => setTransferOut(e.target.value === 'out')}
+                  className={inputClassName}
+                >
+                  <option value="out">Out of this bar</option>
+                  <option value="in">Into this bar</option>
+                </select>
+              ) : (
+                <div />
+              )}
+            </div>
+            <div className="flex gap-3">
+              <input
+                type="text"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder={isReasonRequired(movementType) ? 'Reason (required)' : 'Reason (optional)'}
+                className={inputClassName}
+              />
+              <button
+                type="submit"
+                disabled={saving}
+                className="flex items-center gap-2 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors disabled:opacity-50 whitespace-nowrap"
+              >
+                <Save className="w-4 h-4" />
+                {saving ? 'Saving...' : 'Record'}
+              </button>
+            </div>
+          </form>
+
+          {/* Stock Chart */}
+          <div>
+            <h3 className="font-semibold text-gray-900 mb-3">Stock Level</h3>
+            {renderChart()}
+          </div>
+
+          {/* Timeline */}
+          <div>
+            <h3 className="font-semibold text-gray-900 mb-3">Movements</h3>
+            {loading ? (
+              <div className="flex justify-center py-8">
+                <div className="w-6 h-6 border-2 border-gray-300 border-t-purple-600 rounded-full animate-spin"></div>
+              </div>
+            ) : movements.length > 0 ? (
+              <ol className="relative border-l border-gray-200 ml-3 space-y-4">
+                {movements.map(movement => {
+                  const type = getMovementType(movement.movement_type);
+                  const quantity = Number(movement.quantity);
+
+                  return (
+                    <li key={movement.id} className="ml-6">
+                      <span className="absolute -left-3 flex items-center justify-center w-6 h-6 bg-white rounded-full">
+                        {quantity < 0
+                          ? <ArrowDownCircle className="w-5 h-5 text-red-500" />
+                          : <ArrowUpCircle className="w-5 h-5 text-green-500" />}
+                      </span>
+                      <div className="flex items-center justify-between gap-3">
+                        <div className="flex items-center gap-2">
+                          <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${type.color}`}>
+                            {type.label}
+                          </span>
+                          <span className={`text-sm font-semibold ${quantity < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                            {quantity > 0 ? '+' : ''}{formatQuantity(quantity)} {item.unit}
+                          </span>
+                          {movement.quantity_after != null && (
+                            <span className="text-xs text-gray-500">
+                              → {formatQuantity(Number(movement.quantity_after))} {item.unit}
+                            </span>
+                          )}
+                        </div>
+                        <span className="text-xs text-gray-500 whitespace-nowrap">
+                          {new Date(movement.created_at).toLocaleString()}
+                        </span>
+                      </div>
+                      <div className="text-xs text-gray-600 mt-1">
+                        {movement.reason && <span>{movement.reason}</span>}
+                        {movement.order?.order_number && (
+                          <span>{movement.reason ? ' · ' : ''}Order {movement.order.order_number}</span>
+                        )}
+                        {movement.purchase_order?.po_number && !movement.reason && (
+                          <span>Purchase order {movement.purchase_order.po_number}</span>
+                        )}
+                        {(movement.reason || movement.order?.order_number || movement.purchase_order?.po_number) && ' · '}
+                        <span className="text-gray-500">{movement.created_by_user?.name || 'System'}</span>
+                      </div>
+                    </li>
+                  );
+                })}
+              </ol>
+            ) : (
+              <div className="text-center py-8 text-gray-500 text-sm">
+                No movements recorded for this item yet
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
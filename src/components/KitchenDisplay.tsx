@@ -0,0 +1,459 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Navigate, useNavigate } from 'react-router-dom';
+import { ChefHat, Clock, RotateCcw, Undo2, Maximize, LogOut, Keyboard, CheckCircle2 } from 'lucide-react';
+import { supabase, Station } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { useLanguage } from '../contexts/LanguageContext';
+import { useRestaurant } from '../contexts/useRestaurant';
+import { getOrderNumber } from '../lib/orderNumbers';
+import { loadStations, STATION_KINDS } from '../lib/stations';
+import { getModifierLines } from '../lib/modifiers';
+import {
+  KitchenTicket, BumpRecord, TicketAgeLevel,
+  loadKitchenTickets, loadBumpedTickets, startTicket, bumpTicket, undoBump, recallTicket,
+  getTicketTargetMinutes, getTicketAgeLevel, formatTicketAge, getAllDayCounts
+} from '../lib/kitchenDisplay';
+
+// How long the undo banner stays after a bump
+const UNDO_TIMEOUT = 10000;
+
+// Each screen remembers the stations it shows: a station id, a station kind or 'all'
+const STATION_FILTER_KEY = 'kds-station-filter';
+
+const AGE_COLORS: Record<TicketAgeLevel, string> = {
+  fresh: 'bg-green-600',
+  warning: 'bg-yellow-500',
+  late: 'bg-red-600 animate-pulse'
+};
+
+// Full-screen kitchen display, several screens stay in sync through realtime
+export default function KitchenDisplay() {
+  const [tickets, setTickets] = useState<KitchenTicket[]>([]);
+  const [bumpedTickets, setBumpedTickets] = useState<KitchenTicket[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [undoStack, setUndoStack] = useState<BumpRecord[]>([]);
+  const [showUndo, setShowUndo] = useState(false);
+  const [now, setNow] = useState(Date.now());
+  const [busy, setBusy] = useState(false);
+  const [stations, setStations] = useState<Station[] | null>(null);
+  const [stationFilter, setStationFilter] = useState(() => localStorage.getItem(STATION_FILTER_KEY) || '');
+  const undoTimer = useRef<ReturnType<typeof setTimeout>>();
+  const { user } = useAuth();
+  const { t } = useLanguage();
+  const { currentRestaurant } = useRestaurant();
+  const navigate = useNavigate();
+
+  const canUseKDS = user?.role === 'kitchen' || user?.role === 'bar' || user?.role === 'manager';
+
+  // Kitchen and bar staff see their own stations unless the screen is set up otherwise
+  const activeFilter = stationFilter || (user?.role === 'bar' ? 'bar' : user?.role === 'kitchen' ? 'kitchen' : 'all');
+
+  const showStation = useCallback((station: Station | null) => {
+    if (activeFilter === 'all') return true;
+    if (activeFilter === 'kitchen' || activeFilter === 'bar') return station?.kind === activeFilter;
+    return station?.id === activeFilter;
+  }, [activeFilter]);
+
+  const loadTickets = useCallback(async () => {
+    if (!stations) return;
+    try {
+      const [openTickets, recentTickets] = await Promise.all([
+        loadKitchenTickets(stations, showStation),
+        loadBumpedTickets(stations, showStation)
+      ]);
+      setTickets(openTickets);
+      setBumpedTickets(recentTickets);
+    } catch (error) {
+      console.error('Error loading kitchen tickets:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [stations, showStation]);
+
+  useEffect(() => {
+    if (canUseKDS) {
+      loadStations().then(setStations);
+    }
+  }, [canUseKDS, currentRestaurant?.id]);
+
+  useEffect(() => {
+    if (!canUseKDS) return;
+
+    loadTickets();
+
+    const subscription = supabase
+      .channel('kitchen-display')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'orders' }, () => loadTickets())
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'order_items' }, () => loadTickets())
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [canUseKDS, loadTickets]);
+
+  // Ticket timers
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  useEffect(() => () => clearTimeout(undoTimer.current), []);
+
+  // Keep the selection on the screen when tickets disappear
+  useEffect(() => {
+    setSelectedIndex(index => Math.min(index, Math.max(tickets.length - 1, 0)));
+  }, [tickets.length]);
+
+  const runAction = useCallback(async (action: () => Promise<void>) => {
+    if (busy) return;
+    setBusy(true);
+    try {
+      await action();
+    } catch (error) {
+      console.error('Error updating kitchen ticket:', error);
+      alert(t('kds.actionFailed'));
+    } finally {
+      setBusy(false);
+      loadTickets();
+    }
+  }, [busy, loadTickets, t]);
+
+  const handleBump = useCallback((ticket: KitchenTicket | undefined) => {
+    if (!ticket) return;
+    runAction(async () => {
+      const record = await bumpTicket(ticket, getOrderNumber(ticket.order));
+      setUndoStack(prev => [record, ...prev].slice(0, 10));
+      setShowUndo(true);
+      clearTimeout(undoTimer.current);
+      undoTimer.current = setTimeout(() => setShowUndo(false), UNDO_TIMEOUT);
+    });
+  }, [runAction]);
+
+  const handleUndo = useCallback(() => {
+    const [record, ...rest] = undoStack;
+    if (!record) return;
+    runAction(async () => {
+      await undoBump(record);
+      setUndoStack(rest);
+      setShowUndo(false);
+    });
+  }, [undoStack, runAction]);
+
+  const handleRecall = useCallback((ticket: KitchenTicket | undefined) => {
+    if (!ticket) return;
+    runAction(async () => {
+      await recallTicket(ticket);
+      setUndoStack(prev => prev.filter(record => record.ticketId !== ticket.id));
+    });
+  }, [runAction]);
+
+  const handleStart = useCallback((ticket: KitchenTicket | undefined) => {
+    if (!ticket || ticket.status !== 'pending') return;
+    runAction(() => startTicket(ticket));
+  }, [runAction]);
+
+  // Keyboard and bump bar shortcuts
+  useEffect(() => {
+    if (!canUseKDS) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.ctrlKey || event.metaKey || event.altKey) return;
+      if (event.target instanceof HTMLSelectElement || event.target instanceof HTMLInputElement) return;
+
+      const selectedTicket = tickets[selectedIndex];
+      const key = event.key.toLowerCase();
+
+      if (/^[1-9]$/.test(key)) {
+        const index = Number(key) - 1;
+        if (index < tickets.length) setSelectedIndex(index);
+      } else if (key === 'arrowright' || key === 'arrowdown') {
+        setSelectedIndex(index => Math.min(index + 1, tickets.length - 1));
+      } else if (key === 'arrowleft' || key === 'arrowup') {
+        setSelectedIndex(index => Math.max(index - 1, 0));
+      } else if (key === 'enter' || key === ' ' || key === 'b') {
+        handleBump(selectedTicket);
+      } else if (key === 's') {
+        handleStart(selectedTicket);
+      } else if (key === 'u' || key === 'backspace') {
+        handleUndo();
+      } else if (key === 'r') {
+        handleRecall(bumpedTickets[0]);
+      } else {
+        return;
+      }
+      event.preventDefault();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [canUseKDS, tickets, bumpedTickets, selectedIndex, handleBump, handleStart, handleUndo, handleRecall]);
+
+  const handleStationFilterChange = (value: string) => {
+    localStorage.setItem(STATION_FILTER_KEY, value);
+    setStationFilter(value);
+  };
+
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen();
+    } else {
+      document.documentElement.requestFullscreen().catch(error => {
+        console.warn('Could not enter full screen:', error);
+      });
+    }
+  };
+
+  if (!user) {
+    return null;
+  }
+
+  if (!canUseKDS) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  const allDayCounts = getAllDayCounts(tickets);
+  const lastBump = undoStack[0];
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white flex flex-col">
+      {/* Header */}
+      <header className="flex items-center justify-between px-4 py-3 bg-gray-800 border-b border-gray-700">
+        <div className="flex items-center gap-3">
+          <ChefHat className="w-6 h-6 text-orange-400" />
+          <h1 className="text-xl font-bold">{t('kds.title')}</h1>
+          {currentRestaurant && (
+            <span className="text-sm text-gray-400">• {currentRestaurant.name}</span>
+          )}
+        </div>
+        <div className="flex items-center gap-4">
+          <select
+            value={activeFilter}
+            onChange={(e) => handleStationFilterChange(e.target.value)}
+            className="px-3 py-2 rounded-lg bg-gray-700 text-white text-sm border border-gray-600"
+            title={t('kds.station')}
+          >
+            <option value="all">{t('kds.allStations')}</option>
+            {STATION_KINDS.map(kind => (
+              <option key={kind.value} value={kind.value}>{t(`kds.${kind.value}Stations`)}</option>
+            ))}
+            {stations?.map(station => (
+              <option key={station.id} value={station.id}>{station.name}</option>
+            ))}
+          </select>
+          <span className="text-sm text-gray-300">
+            {tickets.length} {t('kds.openTickets')}
+          </span>
+          <span className="text-lg font-mono">
+            {new Date(now).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+          </span>
+          <button
+            onClick={toggleFullscreen}
+            className="p-2 rounded-lg bg-gray-700 hover:bg-gray-600 transition-colors"
+            title={t('kds.fullscreen')}
+          >
+            <Maximize className="w-5 h-5" />
+          </button>
+          <button
+            onClick={() => navigate('/dashboard')}
+            className="flex items-center gap-2 px-3 py-2 rounded-lg bg-gray-700 hover:bg-gray-600 transition-colors"
+          >
+            <LogOut className="w-4 h-4" />
+            <span className="text-sm">{t('kds.exit')}</span>
+          </button>
+        </div>
+      </header>
+
+      <div className="flex flex-1 overflow-hidden">
+        {/* Tickets */}
+        <main className="flex-1 p-4 overflow-y-auto">
+          {loading ? (
+            <div className="flex items-center justify-center h-64">
+              <div className="w-8 h-8 border-2 border-gray-600 border-t-orange-500 rounded-full animate-spin"></div>
+            </div>
+          ) : tickets.length > 0 ? (
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4 items-start">
+              {tickets.map((ticket, index) => {
+                const ageMs = now - new Date(ticket.firedAt).getTime();
+                const targetMinutes = getTicketTargetMinutes(ticket);
+                const ageLevel = getTicketAgeLevel(ageMs / 60000, targetMinutes);
+
+                return (
+                  <div
+                    key={ticket.id}
+                    onClick={() => setSelectedIndex(index)}
+                    className={`bg-white text-gray-900 rounded-lg overflow-hidden cursor-pointer ${
+                      index === selectedIndex ? 'ring-4 ring-orange-400' : ''
+                    }`}
+                  >
+                    <div className={`flex items-center justify-between px-3 py-2 text-white ${AGE_COLORS[ageLevel]}`}>
+                      <div className="flex items-center gap-2">
+                        {index < 9 && (
+                          <span className="w-6 h-6 flex items-center justify-center rounded bg-black/30 text-xs font-bold">
+                            {index + 1}
+                          </span>
+                        )}
+                        <span className="font-bold">#{getOrderNumber(ticket.order)}</span>
+                        {ticket.order.table_number && (
+                          <span className="text-sm opacity-90">T{ticket.order.table_number}</span>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-1 font-mono font-bold">
+                        <Clock className="w-4 h-4" />
+                        {formatTicketAge(ageMs)}
+                        <span className="text-xs opacity-75">/{targetMinutes}m</span>
+                      </div>
+                    </div>
+
+                    <div className="px-3 py-2 flex items-center justify-between text-xs text-gray-500 border-b border-gray-100">
+                      <span>
+                        {ticket.order.customer_name}
+                        {ticket.station && activeFilter !== ticket.station.id && (
+                          <span className="ml-2 font-semibold text-gray-700">{ticket.station.name}</span>
+                        )}
+                      </span>
+                      <span className={`px-2 py-0.5 rounded font-medium ${
+                        ticket.status === 'pending' ? 'bg-yellow-100 text-yellow-800' : 'bg-blue-100 text-blue-800'
+                      }`}>
+                        {t(`orders.${ticket.status}`)}
+                      </span>
+                    </div>
+
+                    <ul className="px-3 py-2 space-y-1">
+                      {ticket.items.map(item => (
+                        <li key={item.id} className={item.status === 'ready' ? 'line-through text-gray-400' : ''}>
+                          <span className="font-semibold">{item.quantity}× {item.menu_item?.name || 'Unbekannter Artikel'}</span>
+                          {item.course && (
+                            <span className="ml-2 text-xs bg-purple-100 text-purple-800 px-1.5 py-0.5 rounded">
+                              {t(`course.${item.course}`)}
+                            </span>
+                          )}
+                          {item.seat_number && (
+                            <span className="ml-2 text-xs bg-blue-100 text-blue-800 px-1.5 py-0.5 rounded">
+                              {t('tables.seat')} {item.seat_number}
+                            </span>
+                          )}
+                          {getModifierLines(item.modifiers).map(line => (
+                            <p key={line} className="text-sm font-medium text-amber-700">{line}</p>
+                          ))}
+                          {item.notes && (
+                            <p className="text-sm text-red-600 italic">{item.notes}</p>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+
+                    <div className="flex gap-2 p-2 bg-gray-50">
+                      {ticket.status === 'pending' && (
+                        <button
+                          onClick={(e) => { e.stopPropagation(); handleStart(ticket); }}
+                          disabled={busy}
+                          className="flex-1 px-3 py-2 bg-blue-600 text-white rounded text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+                        >
+                          {t('kds.start')}
+                        </button>
+                      )}
+                      <button
+                        onClick={(e) => { e.stopPropagation(); handleBump(ticket); }}
+                        disabled={busy}
+                        className="flex-1 flex items-center justify-center gap-1 px-3 py-2 bg-green-600 text-white rounded text-sm font-medium hover:bg-green-700 disabled:opacity-50"
+                      >
+                        <CheckCircle2 className="w-4 h-4" />
+                        {t('kds.bump')}
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          ) : (
+            <div className="flex items-center justify-center h-64 text-gray-400 text-lg">
+              {t('kds.noTickets')}
+            </div>
+          )}
+        </main>
+
+        {/* Side panel */}
+        <aside className="hidden md:flex w-72 flex-col bg-gray-800 border-l border-gray-700">
+          <div className="p-4 border-b border-gray-700 flex-1 overflow-y-auto">
+            <h2 className="text-sm font-semibold uppercase tracking-wider text-gray-400 mb-3">{t('kds.allDay')}</h2>
+            {allDayCounts.length > 0 ? (
+              <ul className="space-y-2">
+                {allDayCounts.map(count => (
+                  <li key={count.name} className="flex items-baseline justify-between gap-2">
+                    <span>
+                      <span className="text-xl font-bold text-orange-400">{count.quantity}×</span> {count.name}
+                    </span>
+                    {count.preparing > 0 && (
+                      <span className="text-xs text-gray-400 whitespace-nowrap">
+                        {count.preparing} {t('kds.inProgress')}
+                      </span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-gray-500">-</p>
+            )}
+          </div>
+
+          <div className="p-4 border-b border-gray-700">
+            <h2 className="text-sm font-semibold uppercase tracking-wider text-gray-400 mb-3">{t('kds.recentlyBumped')}</h2>
+            {bumpedTickets.length > 0 ? (
+              <ul className="space-y-2">
+                {bumpedTickets.map((ticket, index) => (
+                  <li key={ticket.id} className="flex items-center justify-between">
+                    <span className="text-sm">
+                      #{getOrderNumber(ticket.order)}
+                      {ticket.order.table_number && <span className="text-gray-400"> · T{ticket.order.table_number}</span>}
+                      {ticket.station && <span className="text-gray-400"> · {ticket.station.name}</span>}
+                    </span>
+                    <button
+                      onClick={() => handleRecall(ticket)}
+                      disabled={busy}
+                      className="flex items-center gap-1 px-2 py-1 rounded bg-gray-700 hover:bg-gray-600 text-xs disabled:opacity-50"
+                      title={index === 0 ? 'R' : undefined}
+                    >
+                      <RotateCcw className="w-3 h-3" />
+                      {t('kds.recall')}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-gray-500">-</p>
+            )}
+          </div>
+
+          <div className="p-4 text-xs text-gray-400 space-y-1">
+            <div className="flex items-center gap-2 font-semibold uppercase tracking-wider mb-2">
+              <Keyboard className="w-4 h-4" />
+              {t('kds.shortcuts')}
+            </div>
+            <p><kbd className="font-mono text-gray-200">1–9</kbd> / <kbd className="font-mono text-gray-200">← →</kbd> {t('kds.shortcutSelect')}</p>
+            <p><kbd className="font-mono text-gray-200">Enter</kbd> / <kbd className="font-mono text-gray-200">B</kbd> {t('kds.bump')}</p>
+            <p><kbd className="font-mono text-gray-200">S</kbd> {t('kds.start')}</p>
+            <p><kbd className="font-mono text-gray-200">U</kbd> {t('kds.undo')}</p>
+            <p><kbd className="font-mono text-gray-200">R</kbd> {t('kds.shortcutRecall')}</p>
+          </div>
+        </aside>
+      </div>
+
+      {/* Undo banner */}
+      {showUndo && lastBump && (
+        <div className="fixed bottom-4 left-1/2 -translate-x-1/2 flex items-center gap-4 px-4 py-3 bg-gray-800 border border-gray-600 rounded-lg shadow-lg">
+          <span className="text-sm">#{lastBump.orderNumber} {t('kds.bumped')}</span>
+          <button
+            onClick={handleUndo}
+            disabled={busy}
+            className="flex items-center gap-1 px-3 py-1 rounded bg-orange-500 hover:bg-orange-600 text-sm font-medium disabled:opacity-50"
+          >
+            <Undo2 className="w-4 h-4" />
+            {t('kds.undo')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,6 +4,8 @@ import { useLanguage } from '../contexts/LanguageContext';
 import Navigation from './Navigation';
 import MobileNavigation from './MobileNavigation';
 import LanguageSelector from './LanguageSelector';
+import LocationSelector from './LocationSelector';
+import { useRestaurant } from '../contexts/useRestaurant';
 import { LogOut, Bell } from 'lucide-react';
 
 interface LayoutProps {
@@ -13,6 +15,7 @@ interface LayoutProps {
 export default function Layout({ children }: LayoutProps) {
   const { user, signOut } = useAuth();
   const { t } = useLanguage();
+  const { currentRestaurant, loading: restaurantsLoading } = useRestaurant();
 
   const getRoleColor = (role: string) => {
     const colors = {
@@ -90,6 +93,9 @@ export default function Layout({ children }: LayoutProps) {
               {t('common.welcome')}, {user.name}
             </span>
             
+            {/* Location Selector */}
+            <LocationSelector />
+
             {/* Language Selector */}
             <LanguageSelector variant="compact" />
             
@@ -119,9 +125,13 @@ export default function Layout({ children }: LayoutProps) {
           <Navigation />
         </div>
 
-        {/* Main Content */}
-        <main className="flex-1 p-4 pb-20 lg:pb-4">
-          {children}
+        {/* Main Content, remounted to reload the data when the location changes */}
+        <main key={currentRestaurant?.id} className="flex-1 p-4 pb-20 lg:pb-4">
+          {!restaurantsLoading && !currentRestaurant ? (
+            <div className="max-w-xl mx-auto mt-12 bg-white rounded-xl shadow-sm border border-gray-200 p-6 text-center text-gray-600">
+              {t('location.noLocation')}
+            </div>
+          ) : children}
         </main>
       </div>
 
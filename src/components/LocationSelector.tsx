@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { ChevronDown, Check, MapPin, UserPlus } from 'lucide-react';
+import { useRestaurant } from '../contexts/useRestaurant';
+import { useAuth } from '../contexts/AuthContext';
+import { useLanguage } from '../contexts/LanguageContext';
+
+// Managers add signed up staff to their current location by e-mail
+function AddMemberButton() {
+  const { addMember } = useRestaurant();
+  const { t } = useLanguage();
+  const [isOpen, setIsOpen] = useState(false);
+  const [email, setEmail] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+
+    try {
+      setSaving(true);
+      await addMember(email.trim());
+      setEmail('');
+      setIsOpen(false);
+      alert(t('location.memberAdded'));
+    } catch {
+      alert(t('location.addMemberFailed'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="p-2 rounded-lg hover:bg-black/20 transition-colors"
+        title={t('location.addMember')}
+      >
+        <UserPlus className="w-4 h-4" />
+      </button>
+
+      {isOpen && (
+        <>
+          <div
+            className="fixed inset-0 z-10"
+            onClick={() => setIsOpen(false)}
+          />
+          <form
+            onSubmit={handleSubmit}
+            className="absolute top-full right-0 mt-2 bg-white rounded-lg shadow-lg border border-gray-200 p-3 w-72 z-20 space-y-2"
+          >
+            <label className="block text-sm font-medium text-gray-700">{t('location.addMember')}</label>
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder={t('location.memberEmail')}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              autoFocus
+            />
+            <button
+              type="submit"
+              disabled={saving || !email.trim()}
+              className="w-full px-3 py-2 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {t('common.add')}
+            </button>
+          </form>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default function LocationSelector() {
+  const { restaurants, currentRestaurant, switchRestaurant } = useRestaurant();
+  const { user } = useAuth();
+  const { t } = useLanguage();
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (!currentRestaurant) {
+    return null;
+  }
+
+  const handleLocationChange = async (restaurantId: string) => {
+    setIsOpen(false);
+    if (restaurantId === currentRestaurant.id) return;
+
+    try {
+      await switchRestaurant(restaurantId);
+    } catch {
+      alert(t('location.switchFailed'));
+    }
+  };
+
+  const addMemberButton = user?.role === 'manager' && <AddMemberButton />;
+
+  // Nothing to choose with a single location
+  if (restaurants.length < 2) {
+    return (
+      <div className="flex items-center gap-1">
+        <span className="hidden md:flex items-center gap-1 text-sm opacity-90">
+          <MapPin className="w-4 h-4" />
+          {currentRestaurant.name}
+        </span>
+        {addMemberButton}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-1">
+      <div className="relative">
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="flex items-center gap-2 px-3 py-2 rounded-lg bg-white/20 hover:bg-white/30 transition-colors text-white"
+          title={t('location.switch')}
+        >
+          <MapPin className="w-4 h-4" />
+          <span className="hidden sm:block text-sm max-w-[160px] truncate">{currentRestaurant.name}</span>
+          <ChevronDown className={`w-4 h-4 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+        </button>
+
+        {isOpen && (
+          <>
+            <div
+              className="fixed inset-0 z-10"
+              onClick={() => setIsOpen(false)}
+            />
+            <div className="absolute top-full right-0 mt-2 bg-white rounded-lg shadow-lg border border-gray-200 py-2 min-w-[200px] z-20">
+              {restaurants.map(restaurant => (
+                <button
+                  key={restaurant.id}
+                  onClick={() => handleLocationChange(restaurant.id)}
+                  className="w-full flex items-center gap-3 px-4 py-2 hover:bg-gray-50 transition-colors text-left"
+                >
+                  <MapPin className="w-4 h-4 text-gray-400" />
+                  <span className="text-sm text-gray-700">{restaurant.name}</span>
+                  {currentRestaurant.id === restaurant.id && (
+                    <Check className="w-4 h-4 text-blue-600 ml-auto" />
+                  )}
+                </button>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+      {addMemberButton}
+    </div>
+  );
+}
@@ -0,0 +1,232 @@
+import { useState, useEffect } from 'react';
+import { Download, AlertCircle } from 'lucide-react';
+import { supabase, MenuItem, Order } from '../lib/supabase';
+import { RECIPE_SELECT } from '../lib/recipes';
+import {
+  MENU_ENGINEERING_CLASSES, MenuEngineeringClass, getMenuEngineeringClass, analyzeMenu, downloadMenuEngineeringCSV
+} from '../lib/menuEngineering';
+
+interface MenuEngineeringReportProps {
+  orders: Order[];
+  startDate: string;
+  endDate: string;
+}
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 320;
+const CHART_PADDING = 24;
+
+// Where each class sits in the matrix
+const QUADRANTS: { value: MenuEngineeringClass; x: number; y: number; anchor: 'start' | 'end' }[] = [
+  { value: 'puzzle', x: CHART_PADDING, y: CHART_PADDING, anchor: 'start' },
+  { value: 'star', x: CHART_WIDTH - CHART_PADDING, y: CHART_PADDING, anchor: 'end' },
+  { value: 'dog', x: CHART_PADDING, y: CHART_HEIGHT - 8, anchor: 'start' },
+  { value: 'plowhorse', x: CHART_WIDTH - CHART_PADDING, y: CHART_HEIGHT - 8, anchor: 'end' }
+];
+
+export default function MenuEngineeringReport({ orders, startDate, endDate }: MenuEngineeringReportProps) {
+  const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
+  const [selectedCategory, setSelectedCategory] = useState('all');
+  const [selectedClass, setSelectedClass] = useState<MenuEngineeringClass | 'all'>('all');
+
+  const loadMenuItems = async () => {
+    const { data, error } = await supabase
+      .from('menu_items')
+      .select(`*, ${RECIPE_SELECT}`)
+      .order('category')
+      .order('name');
+
+    if (error) {
+      console.error('Error loading menu items:', error);
+      return;
+    }
+
+    setMenuItems(data || []);
+  };
+
+  useEffect(() => {
+    loadMenuItems();
+  }, []);
+
+  const categories = [...new Set(menuItems.map(item => item.category))].sort();
+  const analysis = analyzeMenu(
+    menuItems.filter(item => selectedCategory === 'all' || item.category === selectedCategory),
+    orders
+  );
+  const visibleItems = analysis.items.filter(item => selectedClass === 'all' || item.classification === selectedClass);
+
+  const maxPopularity = Math.max(...analysis.items.map(item => item.popularity), analysis.popularityThreshold * 2, 1);
+  const margins = analysis.items.map(item => item.unitMargin);
+  const maxMargin = Math.max(...margins, analysis.averageMargin * 2, 1);
+  const minMargin = Math.min(...margins, 0);
+  const x = (popularity: number) => CHART_PADDING + (popularity / maxPopularity) * (CHART_WIDTH - 2 * CHART_PADDING);
+  const y = (margin: number) => CHART_HEIGHT - CHART_PADDING - ((margin - minMargin) / (maxMargin - minMargin)) * (CHART_HEIGHT - 2 * CHART_PADDING);
+
+  return (
+    <div className="bg-white rounded-xl shadow-md border border-gray-100">
+      <div className="p-6 border-b border-gray-100">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Menu Engineering</h3>
+            <p className="text-sm text-gray-500">Popularity against margin per portion, {new Date(startDate).toLocaleDateString()} – {new Date(endDate).toLocaleDateString()}</p>
+          </div>
+          <div className="flex items-center gap-3">
+            <select
+              value={selectedCategory}
+              onChange={(e) => setSelectedCategory(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="all">All categories</option>
+              {categories.map(category => (
+                <option key={category} value={category}>{category}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => downloadMenuEngineeringCSV(analysis, `menu-engineering-${startDate}-${endDate}.csv`)}
+              className="flex items-center gap-2 px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm"
+            >
+              <Download className="w-4 h-4" />
+              Export CSV
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="p-6 space-y-6">
+        {analysis.items.length > 0 ? (
+          <div>
+            <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full bg-gray-50 rounded-lg">
+              <line
+                x1={x(analysis.popularityThreshold)}
+                x2={x(analysis.popularityThreshold)}
+                y1={0}
+                y2={CHART_HEIGHT}
+                stroke="#9ca3af"
+                strokeDasharray="6 4"
+              />
+              <line
+                x1={0}
+                x2={CHART_WIDTH}
+                y1={y(analysis.averageMargin)}
+                y2={y(analysis.averageMargin)}
+                stroke="#9ca3af"
+                strokeDasharray="6 4"
+              />
+              {QUADRANTS.map(quadrant => (
+                <text
+                  key={quadrant.value}
+                  x={quadrant.x}
+                  y={quadrant.y}
+                  textAnchor={quadrant.anchor}
+                  fontSize={12}
+                  fontWeight={600}
+                  fill={getMenuEngineeringClass(quadrant.value).fill}
+                >
+                  {getMenuEngineeringClass(quadrant.value).label}s
+                </text>
+              ))}
+              {visibleItems.map(item => (
+                <circle
+                  key={item.menuItem.id}
+                  cx={x(item.popularity)}
+                  cy={y(item.unitMargin)}
+                  r={6}
+                  fill={getMenuEngineeringClass(item.classification).fill}
+                  fillOpacity={0.8}
+                  stroke="white"
+                  strokeWidth={1.5}
+                >
+                  <title>
+                    {`${item.menuItem.name}: ${item.sold} sold (${item.popularity.toFixed(1)}%), $${item.unitMargin.toFixed(2)} margin per portion`}
+                  </title>
+                </circle>
+              ))}
+            </svg>
+            <div className="flex justify-between text-xs text-gray-500 mt-1">
+              <span>Less popular</span>
+              <span>
+                Lines: {analysis.popularityThreshold.toFixed(1)}% of sales · average margin ${analysis.averageMargin.toFixed(2)}
+              </span>
+              <span>More popular</span>
+            </div>
+          </div>
+        ) : (
+          <div className="text-center py-8 text-gray-500">
+            No menu items with a recipe cost in this selection
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={() => setSelectedClass('all')}
+            className={`px-3 py-1.5 rounded-full text-sm transition-colors ${
+              selectedClass === 'all' ? 'bg-gray-800 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            All ({analysis.items.length})
+          </button>
+          {MENU_ENGINEERING_CLASSES.map(menuEngineeringClass => (
+            <button
+              key={menuEngineeringClass.value}
+              onClick={() => setSelectedClass(menuEngineeringClass.value)}
+              className={`px-3 py-1.5 rounded-full text-sm transition-colors ${
+                selectedClass === menuEngineeringClass.value ? 'ring-2 ring-offset-1 ring-gray-400 ' : ''
+              }${menuEngineeringClass.color}`}
+            >
+              {menuEngineeringClass.label}s ({analysis.items.filter(item => item.classification === menuEngineeringClass.value).length})
+            </button>
+          ))}
+        </div>
+
+        {visibleItems.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200 text-left text-gray-500">
+                  <th className="py-2 pr-4 font-medium">Item</th>
+                  <th className="py-2 pr-4 font-medium text-right">Sold</th>
+                  <th className="py-2 pr-4 font-medium text-right">Popularity</th>
+                  <th className="py-2 pr-4 font-medium text-right">Margin / Portion</th>
+                  <th className="py-2 pr-4 font-medium text-right">Total Margin</th>
+                  <th className="py-2 font-medium">Action</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibleItems.map(item => {
+                  const menuEngineeringClass = getMenuEngineeringClass(item.classification);
+                  return (
+                    <tr key={item.menuItem.id} className="border-b border-gray-100 align-top">
+                      <td className="py-2 pr-4">
+                        <div className="font-medium text-gray-900">{item.menuItem.name}</div>
+                        <div className="text-xs text-gray-500">{item.menuItem.category}</div>
+                      </td>
+                      <td className="py-2 pr-4 text-right">{item.sold}</td>
+                      <td className="py-2 pr-4 text-right">{item.popularity.toFixed(1)}%</td>
+                      <td className="py-2 pr-4 text-right">${item.unitMargin.toFixed(2)}</td>
+                      <td className="py-2 pr-4 text-right font-medium text-gray-900">${item.totalMargin.toFixed(2)}</td>
+                      <td className="py-2">
+                        <span className={`inline-block px-2 py-0.5 rounded-full text-xs font-medium ${menuEngineeringClass.color}`}>
+                          {menuEngineeringClass.label}
+                        </span>
+                        <div className="text-xs text-gray-600 mt-1">{menuEngineeringClass.action}</div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {analysis.uncostedItems.length > 0 && (
+          <div className="flex items-start gap-2 text-sm text-orange-700 bg-orange-50 border border-orange-200 rounded-lg p-3">
+            <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+            <span>
+              Not rated, no recipe with ingredient costs: {analysis.uncostedItems.map(item => item.name).join(', ')}
+            </span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -4,14 +4,17 @@ import {
   AlertTriangle, Utensils, DollarSign, Tag, Clock,
   Volume2, Play, Pause, Save, Edit3, Camera, Image, Minus
 } from 'lucide-react';
-import { MenuItem, supabase } from '../lib/supabase';
+import { MenuItem, ModifierGroup, ModifierOption, OrderItemModifier, supabase } from '../lib/supabase';
+import {
+  getModifierGroups, toggleModifierOption, getInvalidModifierGroups, buildOrderItemModifiers, getModifiersPrice
+} from '../lib/modifiers';
 import { useLanguage } from '../contexts/LanguageContext';
 
 interface MenuItemDetailModalProps {
   isOpen: boolean;
   onClose: () => void;
   menuItem: MenuItem | null;
-  onAddToOrder: (menuItem: MenuItem, notes?: string) => void;
+  onAddToOrder: (menuItem: MenuItem, notes?: string, modifiers?: OrderItemModifier[]) => void;
 }
 
 interface AllergenInfo {
@@ -38,6 +41,8 @@ export default function MenuItemDetailModal({ isOpen, onClose, menuItem, onAddTo
   const [isGeneratingImage, setIsGeneratingImage] = useState(false);
   const [speechSupported, setSpeechSupported] = useState(false);
   const [quantity, setQuantity] = useState(1);
+  const [selectedModifierIds, setSelectedModifierIds] = useState<string[]>([]);
+  const [modifierError, setModifierError] = useState('');
   const [isSavingImage, setIsSavingImage] = useState(false);
 
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
@@ -128,6 +133,8 @@ export default function MenuItemDetailModal({ isOpen, onClose, menuItem, onAddTo
     setNotes('');
     setTranscript('');
     setQuantity(1);
+    setSelectedModifierIds([]);
+    setModifierError('');
     setAudioBlob(null);
   };
 
@@ -462,13 +469,33 @@ export default function MenuItemDetailModal({ isOpen, onClose, menuItem, onAddTo
 
   const handleAddToOrder = () => {
     if (menuItem) {
+      const missing = getInvalidModifierGroups(menuItem, selectedModifierIds);
+      if (missing.length > 0) {
+        setModifierError(`${t('modifiers.pleaseChoose')}: ${missing.map(group => group.name).join(', ')}`);
+        return;
+      }
+
+      const modifiers = buildOrderItemModifiers(menuItem, selectedModifierIds);
       for (let i = 0; i < quantity; i++) {
-        onAddToOrder(menuItem, notes.trim() || undefined);
+        onAddToOrder(menuItem, notes.trim() || undefined, modifiers);
       }
       onClose();
     }
   };
 
+  const handleModifierToggle = (group: ModifierGroup, option: ModifierOption) => {
+    setModifierError('');
+    setSelectedModifierIds(prev => toggleModifierOption(group, option, prev));
+  };
+
+  const getModifierRuleHint = (group: ModifierGroup) => {
+    if (group.min_select === 1 && group.max_select === 1) return t('modifiers.chooseOne');
+    return [
+      group.min_select > 0 ? `${t('modifiers.atLeast')} ${group.min_select}` : '',
+      group.max_select !== null ? `${t('modifiers.upTo')} ${group.max_select}` : ''
+    ].filter(Boolean).join(' · ');
+  };
+
   const getSeverityColor = (severity: string) => {
     switch (severity) {
       case 'severe': return 'bg-red-100 text-red-800 border-red-200';
@@ -492,6 +519,9 @@ export default function MenuItemDetailModal({ isOpen, onClose, menuItem, onAddTo
 
   if (!isOpen || !menuItem) return null;
 
+  const modifierGroups = getModifierGroups(menuItem);
+  const unitPrice = menuItem.price + getModifiersPrice(buildOrderItemModifiers(menuItem, selectedModifierIds));
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
       <div className="bg-white rounded-xl shadow-xl max-w-4xl w-full max-h-[90vh] overflow-hidden flex flex-col">
@@ -670,6 +700,53 @@ export default function MenuItemDetailModal({ isOpen, onClose, menuItem, onAddTo
                 )}
               </div>
 
+              {/* Modifiers */}
+              {modifierGroups.length > 0 && (
+                <div className="bg-amber-50 rounded-xl p-6">
+                  <h3 className="text-lg font-semibold text-gray-900 mb-4">{t('modifiers.options')}</h3>
+                  <div className="space-y-4">
+                    {modifierGroups.map(group => (
+                      <div key={group.id}>
+                        <div className="flex items-center gap-2 mb-2">
+                          <span className="font-medium text-gray-900">{group.name}</span>
+                          {group.min_select > 0 && (
+                            <span className="px-2 py-0.5 bg-red-100 text-red-700 rounded text-xs">{t('modifiers.required')}</span>
+                          )}
+                          <span className="text-xs text-gray-500">{getModifierRuleHint(group)}</span>
+                        </div>
+                        <div className="flex flex-wrap gap-2">
+                          {(group.modifier_options || []).map(option => {
+                            const selected = selectedModifierIds.includes(option.id);
+                            const priceDelta = Number(option.price_delta);
+                            return (
+                              <button
+                                key={option.id}
+                                onClick={() => handleModifierToggle(group, option)}
+                                className={`px-3 py-1.5 rounded-lg border text-sm transition-colors ${
+                                  selected
+                                    ? 'bg-amber-600 border-amber-600 text-white'
+                                    : 'bg-white border-gray-300 text-gray-700 hover:border-amber-400'
+                                }`}
+                              >
+                                {option.name}
+                                {priceDelta !== 0 && (
+                                  <span className={selected ? 'ml-1 opacity-90' : 'ml-1 text-gray-500'}>
+                                    {priceDelta > 0 ? '+' : '-'}${Math.abs(priceDelta).toFixed(2)}
+                                  </span>
+                                )}
+                              </button>
+                            );
+                          })}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                  {modifierError && (
+                    <p className="mt-3 text-sm text-red-600">{modifierError}</p>
+                  )}
+                </div>
+              )}
+
               {/* Notes Section with Voice Dictation */}
               <div className="bg-blue-50 rounded-xl p-6">
                 <h3 className="text-lg font-semibold text-gray-900 mb-4">{t('orders.specialInstructions')}</h3>
@@ -779,7 +856,7 @@ export default function MenuItemDetailModal({ isOpen, onClose, menuItem, onAddTo
               </div>
               
               <div className="text-lg font-bold text-gray-900">
-                {t('common.total')}: ${(menuItem.price * quantity).toFixed(2)}
+                {t('common.total')}: ${(unitPrice * quantity).toFixed(2)}
               </div>
             </div>
             
@@ -1,8 +1,13 @@
 import React, { useState, useEffect } from 'react';
-import { Search, Filter, Utensils, AlertCircle, RefreshCw, Plus, Edit, Trash2, Power, PowerOff, X, Check } from 'lucide-react';
+import { Search, Filter, Utensils, AlertCircle, RefreshCw, Plus, Edit, Trash2, Power, PowerOff, X, Check, BookOpen, CalendarClock, SlidersHorizontal } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { supabase, MenuItem } from '../lib/supabase';
+import { getDefaultTaxCategory } from '../lib/taxRates';
 import { useAuth } from '../contexts/AuthContext';
+import RecipeModal from './RecipeModal';
+import MenusModal from './MenusModal';
+import ModifiersModal from './ModifiersModal';
+import { filterActiveMenuItems } from '../lib/menus';
 
 export default function MenuPage() {
   const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
@@ -13,10 +18,14 @@ export default function MenuPage() {
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
   const [categories, setCategories] = useState<string[]>([]);
   const [editingItem, setEditingItem] = useState<MenuItem | null>(null);
+  const [recipeItem, setRecipeItem] = useState<MenuItem | null>(null);
+  const [showMenus, setShowMenus] = useState(false);
+  const [modifiersItem, setModifiersItem] = useState<MenuItem | null>(null);
   const [editFormData, setEditFormData] = useState({
     name: '',
     description: '',
     category: '',
+    tax_category: 'food' as NonNullable<MenuItem['tax_category']>,
     price: '',
     available: true
   });
@@ -84,10 +93,12 @@ export default function MenuPage() {
         return;
       }
 
-      setMenuItems(data);
+      // Customers only see what the menus offer right now, managers see everything
+      const items = user.role === 'customer' ? await filterActiveMenuItems(data) : data;
+      setMenuItems(items);
       
       // Extract unique categories
-      const uniqueCategories = [...new Set(data.map(item => item.category))];
+      const uniqueCategories = [...new Set(items.map(item => item.category))];
       setCategories(uniqueCategories);
       
       console.log('Categories found:', uniqueCategories);
@@ -157,6 +168,7 @@ export default function MenuPage() {
       name: item.name,
       description: item.description,
       category: item.category,
+      tax_category: item.tax_category || getDefaultTaxCategory(item.category),
       price: item.price.toString(),
       available: item.available
     });
@@ -169,6 +181,7 @@ export default function MenuPage() {
       name: '',
       description: '',
       category: '',
+      tax_category: 'food',
       price: '',
       available: true
     });
@@ -184,6 +197,13 @@ export default function MenuPage() {
         ...prev,
         [name]: checked
       }));
+    } else if (name === 'category') {
+      // Suggest the VAT category that fits the menu category
+      setEditFormData(prev => ({
+        ...prev,
+        category: value,
+        tax_category: getDefaultTaxCategory(value)
+      }));
     } else {
       setEditFormData(prev => ({
         ...prev,
@@ -224,6 +244,7 @@ export default function MenuPage() {
           name: editFormData.name.trim(),
           description: editFormData.description.trim(),
           category: editFormData.category,
+          tax_category: editFormData.tax_category,
           price: parseFloat(editFormData.price),
           available: editFormData.available
         })
@@ -243,6 +264,7 @@ export default function MenuPage() {
               name: editFormData.name.trim(),
               description: editFormData.description.trim(),
               category: editFormData.category,
+              tax_category: editFormData.tax_category,
               price: parseFloat(editFormData.price),
               available: editFormData.available
             }
@@ -397,6 +419,15 @@ export default function MenuPage() {
           <div className="text-sm text-gray-500">
             {filteredItems.length} of {menuItems.length} items
           </div>
+          {user?.role === 'manager' && (
+            <button
+              onClick={() => setShowMenus(true)}
+              className="flex items-center gap-2 bg-teal-600 text-white px-4 py-2 rounded-lg hover:bg-teal-700 transition-colors"
+            >
+              <CalendarClock className="w-4 h-4" />
+              Menus
+            </button>
+          )}
           {user?.role === 'manager' && (
             <button
               onClick={() => navigate('/add-menu-item')}
@@ -504,6 +535,11 @@ export default function MenuPage() {
                     {item.category}
                   </span>
                   <span className="text-xl font-bold text-gray-900">
+                    {item.regular_price !== undefined && (
+                      <span className="text-sm font-normal text-gray-400 line-through mr-2">
+                        €{item.regular_price.toFixed(2).replace('.', ',')}
+                      </span>
+                    )}
                     €{typeof item.price === 'number' ? item.price.toFixed(2).replace('.', ',') : item.price}
                   </span>
                 </div>
@@ -523,7 +559,7 @@ export default function MenuPage() {
                 )}
                 
                 {user?.role === 'manager' && (
-                  <div className="flex gap-2">
+                  <div className="grid grid-cols-2 gap-2">
                     <button 
                       onClick={() => openEditModal(item)}
                       className="flex-1 py-2 px-4 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors flex items-center justify-center gap-2"
@@ -531,6 +567,20 @@ export default function MenuPage() {
                       <Edit className="w-4 h-4" />
                       Edit
                     </button>
+                    <button 
+                      onClick={() => setRecipeItem(item)}
+                      className="flex-1 py-2 px-4 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition-colors flex items-center justify-center gap-2"
+                    >
+                      <BookOpen className="w-4 h-4" />
+                      Recipe
+                    </button>
+                    <button 
+                      onClick={() => setModifiersItem(item)}
+                      className="flex-1 py-2 px-4 bg-amber-600 text-white rounded-lg hover:bg-amber-700 transition-colors flex items-center justify-center gap-2"
+                    >
+                      <SlidersHorizontal className="w-4 h-4" />
+                      Options
+                    </button>
                     <button 
                       onClick={() => deleteMenuItem(item.id, item.name)}
                       className="flex-1 py-2 px-4 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors flex items-center justify-center gap-2"
@@ -644,7 +694,7 @@ export default function MenuPage() {
               </div>
 
               {/* Category and Price Row */}
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
                 {/* Category */}
                 <div>
                   <label htmlFor="edit-category" className="block text-sm font-medium text-gray-700 mb-2">
@@ -666,6 +716,24 @@ export default function MenuPage() {
                   </select>
                 </div>
 
+                {/* VAT Category */}
+                <div>
+                  <label htmlFor="edit-tax-category" className="block text-sm font-medium text-gray-700 mb-2">
+                    VAT Category *
+                  </label>
+                  <select
+                    id="edit-tax-category"
+                    name="tax_category"
+                    value={editFormData.tax_category}
+                    onChange={handleEditInputChange}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+                    required
+                  >
+                    <option value="food">Food</option>
+                    <option value="beverage">Beverage</option>
+                  </select>
+                </div>
+
                 {/* Price */}
                 <div>
                   <label htmlFor="edit-price" className="block text-sm font-medium text-gray-700 mb-2">
@@ -737,6 +805,24 @@ export default function MenuPage() {
           </div>
         </div>
       )}
+
+      <RecipeModal
+        isOpen={!!recipeItem}
+        onClose={() => setRecipeItem(null)}
+        menuItem={recipeItem}
+        onSaved={loadMenuItems}
+      />
+
+      <ModifiersModal
+        isOpen={!!modifiersItem}
+        onClose={() => setModifiersItem(null)}
+        menuItem={modifiersItem}
+      />
+
+      <MenusModal
+        isOpen={showMenus}
+        onClose={() => setShowMenus(false)}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,444 @@
+import { useState, useEffect } from 'react';
+import { X, Plus, Trash2, CalendarClock, AlertCircle, Check } from 'lucide-react';
+import { supabase, Menu, MenuItem } from '../lib/supabase';
+import {
+  WEEKDAYS, isMenuActive, getMenuScheduleLabel,
+  loadMenus, saveMenu, deleteMenu, setMenuEntry, removeMenuEntry
+} from '../lib/menus';
+
+interface MenusModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type MenuForm = Pick<Menu, 'name' | 'description' | 'is_active' | 'days_of_week' | 'start_time' | 'end_time' | 'start_date' | 'end_date'>;
+
+const toForm = (menu: Menu): MenuForm => ({
+  name: menu.name,
+  description: menu.description || '',
+  is_active: menu.is_active,
+  days_of_week: menu.days_of_week,
+  start_time: menu.start_time?.slice(0, 5) || '',
+  end_time: menu.end_time?.slice(0, 5) || '',
+  start_date: menu.start_date || '',
+  end_date: menu.end_date || ''
+});
+
+// Changes are saved right away, the order screens pick them up on their next reload
+export default function MenusModal({ isOpen, onClose }: MenusModalProps) {
+  const [menus, setMenus] = useState<Menu[]>([]);
+  const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
+  const [selectedMenuId, setSelectedMenuId] = useState<string | null>(null);
+  const [form, setForm] = useState<MenuForm | null>(null);
+  const [newMenuName, setNewMenuName] = useState('');
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const selectedMenu = menus.find(menu => menu.id === selectedMenuId) || null;
+
+  const loadData = async () => {
+    const [loadedMenus, { data: items, error: itemsError }] = await Promise.all([
+      loadMenus(),
+      supabase.from('menu_items').select('*').order('category').order('name')
+    ]);
+
+    if (itemsError) {
+      console.error('Error loading menu items:', itemsError);
+    }
+
+    setMenus(loadedMenus);
+    setMenuItems(items || []);
+  };
+
+  useEffect(() => {
+    if (isOpen) {
+      setError('');
+      setSelectedMenuId(null);
+      setForm(null);
+      loadData();
+    }
+  }, [isOpen]);
+
+  const runSave = async (action: () => Promise<void>, message: string) => {
+    setError('');
+    setSaving(true);
+    try {
+      await action();
+      await loadData();
+    } catch (err) {
+      console.error('Error saving menus:', err);
+      setError(message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const selectMenu = (menu: Menu) => {
+    setError('');
+    setSelectedMenuId(menu.id);
+    setForm(toForm(menu));
+  };
+
+  const handleAddMenu = () => {
+    if (!newMenuName.trim()) {
+      setError('Bitte einen Namen für das Menü eingeben');
+      return;
+    }
+    runSave(async () => {
+      const menu = await saveMenu({
+        name: newMenuName,
+        sort_order: Math.max(0, ...menus.map(menu => menu.sort_order)) + 1
+      });
+      setNewMenuName('');
+      selectMenu(menu);
+    }, 'Menü konnte nicht angelegt werden. Gibt es den Namen schon?');
+  };
+
+  const handleSaveMenu = () => {
+    if (!selectedMenu || !form) return;
+    if (!form.name.trim()) {
+      setError('Bitte einen Namen für das Menü eingeben');
+      return;
+    }
+    if (!!form.start_time !== !!form.end_time) {
+      setError('Bitte Beginn und Ende angeben oder beide leer lassen');
+      return;
+    }
+    if (form.start_date && form.end_date && form.end_date < form.start_date) {
+      setError('Das Enddatum liegt vor dem Startdatum');
+      return;
+    }
+    runSave(async () => {
+      await saveMenu({ ...selectedMenu, ...form });
+    }, 'Menü konnte nicht gespeichert werden. Gibt es den Namen schon?');
+  };
+
+  const handleDeleteMenu = (menu: Menu) => {
+    const itemCount = menu.menu_entries?.length || 0;
+    const message = itemCount > 0
+      ? `Menü "${menu.name}" löschen? ${itemCount} Artikel werden daraus entfernt.`
+      : `Menü "${menu.name}" löschen?`;
+    if (!confirm(message)) return;
+
+    runSave(async () => {
+      await deleteMenu(menu.id);
+      if (menu.id === selectedMenuId) {
+        setSelectedMenuId(null);
+        setForm(null);
+      }
+    }, 'Menü konnte nicht gelöscht werden');
+  };
+
+  const toggleWeekday = (day: number) => {
+    setForm(prev => prev && ({
+      ...prev,
+      days_of_week: prev.days_of_week.includes(day)
+        ? prev.days_of_week.filter(value => value !== day)
+        : [...prev.days_of_week, day]
+    }));
+  };
+
+  const handleEntryToggle = (menuItem: MenuItem, onMenu: boolean) => {
+    if (!selectedMenu) return;
+    runSave(
+      () => onMenu ? removeMenuEntry(selectedMenu.id, menuItem.id) : setMenuEntry(selectedMenu.id, menuItem.id, null),
+      'Zuordnung konnte nicht gespeichert werden'
+    );
+  };
+
+  const handlePriceOverride = (menuItem: MenuItem, value: string, current: number | null) => {
+    if (!selectedMenu) return;
+    const priceOverride = value.trim() === '' ? null : parseFloat(value.replace(',', '.'));
+    if (priceOverride !== null && (isNaN(priceOverride) || priceOverride < 0)) {
+      setError('Bitte einen gültigen Preis eingeben');
+      return;
+    }
+    if (priceOverride === current) return;
+
+    runSave(
+      () => setMenuEntry(selectedMenu.id, menuItem.id, priceOverride),
+      'Preis konnte nicht gespeichert werden'
+    );
+  };
+
+  if (!isOpen) return null;
+
+  const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  const categories = Array.from(new Set(menuItems.map(item => item.category)));
+  const scheduledItemIds = new Set(menus.flatMap(menu => (menu.menu_entries || []).map(entry => entry.menu_item_id)));
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl max-w-3xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-teal-500 to-teal-600 p-6 text-white">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="p-3 bg-white/20 rounded-lg">
+                <CalendarClock className="w-6 h-6" />
+              </div>
+              <div>
+                <h2 className="text-2xl font-bold">Menüs</h2>
+                <p className="opacity-90">Welche Artikel wann und zu welchem Preis angeboten werden</p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-white/20 rounded-lg transition-colors"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {error && (
+            <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+              <div className="flex items-start gap-2">
+                <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
+                <p className="text-red-700">{error}</p>
+              </div>
+            </div>
+          )}
+
+          {/* Menus */}
+          <div className="bg-gray-50 rounded-lg p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-1">Menüs</h3>
+            <p className="text-sm text-gray-600 mb-4">
+              Artikel ohne Menü gibt es immer. Artikel auf Menüs nur, solange eines davon gilt.
+            </p>
+            <div className="space-y-2">
+              {menus.map(menu => {
+                const active = isMenuActive(menu);
+                return (
+                  <div
+                    key={menu.id}
+                    onClick={() => selectMenu(menu)}
+                    className={`flex items-center gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${
+                      menu.id === selectedMenuId ? 'border-teal-500 bg-teal-50' : 'border-gray-200 bg-white hover:border-teal-300'
+                    }`}
+                  >
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium text-gray-900">{menu.name}</span>
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                          active ? 'bg-green-100 text-green-800'
+                            : menu.is_active ? 'bg-gray-100 text-gray-600'
+                            : 'bg-red-100 text-red-800'
+                        }`}>
+                          {active ? 'Gilt gerade' : menu.is_active ? 'Geplant' : 'Ausgeschaltet'}
+                        </span>
+                      </div>
+                      <div className="text-sm text-gray-500">
+                        {getMenuScheduleLabel(menu)} · {menu.menu_entries?.length || 0} Artikel
+                      </div>
+                    </div>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleDeleteMenu(menu);
+                      }}
+                      disabled={saving}
+                      className="p-2 text-gray-400 hover:text-red-600 rounded-lg transition-colors"
+                      title="Menü löschen"
+                    >
+                      <Trash2 className="w-5 h-5" />
+                    </button>
+                  </div>
+                );
+              })}
+
+              <div className="flex items-center gap-3 pt-3 border-t border-gray-200">
+                <input
+                  type="text"
+                  value={newMenuName}
+                  onChange={(e) => setNewMenuName(e.target.value)}
+                  className={inputClassName}
+                  placeholder="z.B. Mittagstisch, Happy Hour, Sommerkarte"
+                />
+                <button
+                  onClick={handleAddMenu}
+                  disabled={saving}
+                  className="flex items-center gap-1 px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 transition-colors disabled:opacity-50"
+                >
+                  <Plus className="w-4 h-4" />
+                  Hinzufügen
+                </button>
+              </div>
+            </div>
+          </div>
+
+          {selectedMenu && form && (
+            <>
+              {/* Schedule */}
+              <div className="bg-gray-50 rounded-lg p-6 space-y-4">
+                <h3 className="text-lg font-semibold text-gray-900">Zeitplan</h3>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                    <input
+                      type="text"
+                      value={form.name}
+                      onChange={(e) => setForm({ ...form, name: e.target.value })}
+                      className={inputClassName}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Beschreibung</label>
+                    <input
+                      type="text"
+                      value={form.description || ''}
+                      onChange={(e) => setForm({ ...form, description: e.target.value })}
+                      className={inputClassName}
+                    />
+                  </div>
+                </div>
+
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={form.is_active}
+                    onChange={(e) => setForm({ ...form, is_active: e.target.checked })}
+                    className="rounded border-gray-300 text-teal-600 focus:ring-teal-500"
+                  />
+                  Eingeschaltet
+                </label>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Wochentage</label>
+                  <div className="flex flex-wrap gap-2">
+                    {WEEKDAYS.map(day => (
+                      <button
+                        key={day.value}
+                        onClick={() => toggleWeekday(day.value)}
+                        className={`w-11 py-1.5 rounded-full text-sm font-medium transition-colors ${
+                          form.days_of_week.includes(day.value)
+                            ? 'bg-teal-600 text-white'
+                            : 'bg-white border border-gray-300 text-gray-600 hover:bg-gray-100'
+                        }`}
+                      >
+                        {day.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Von (Uhrzeit)</label>
+                    <input
+                      type="time"
+                      value={form.start_time || ''}
+                      onChange={(e) => setForm({ ...form, start_time: e.target.value })}
+                      className={inputClassName}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Bis (Uhrzeit)</label>
+                    <input
+                      type="time"
+                      value={form.end_time || ''}
+                      onChange={(e) => setForm({ ...form, end_time: e.target.value })}
+                      className={inputClassName}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Ab (Datum)</label>
+                    <input
+                      type="date"
+                      value={form.start_date || ''}
+                      onChange={(e) => setForm({ ...form, start_date: e.target.value })}
+                      className={inputClassName}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Bis (Datum)</label>
+                    <input
+                      type="date"
+                      value={form.end_date || ''}
+                      onChange={(e) => setForm({ ...form, end_date: e.target.value })}
+                      className={inputClassName}
+                    />
+                  </div>
+                </div>
+                <p className="text-xs text-gray-500">
+                  Ohne Uhrzeit gilt das Menü den ganzen Tag. Endet es vor dem Beginn, läuft es über Mitternacht, z.B. 22:00 bis 02:00.
+                </p>
+
+                <button
+                  onClick={handleSaveMenu}
+                  disabled={saving}
+                  className="flex items-center gap-2 px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 transition-colors disabled:opacity-50"
+                >
+                  <Check className="w-4 h-4" />
+                  Zeitplan speichern
+                </button>
+              </div>
+
+              {/* Items */}
+              <div className="bg-gray-50 rounded-lg p-6">
+                <h3 className="text-lg font-semibold text-gray-900 mb-1">Artikel auf „{selectedMenu.name}“</h3>
+                <p className="text-sm text-gray-600 mb-4">
+                  Ohne Menüpreis gilt der normale Preis. Gelten mehrere Menüs, zählt der niedrigste Preis.
+                </p>
+                <div className="space-y-4">
+                  {categories.map(category => (
+                    <div key={category}>
+                      <h4 className="text-sm font-medium text-gray-500 mb-2">{category}</h4>
+                      <div className="space-y-2">
+                        {menuItems.filter(item => item.category === category).map(item => {
+                          const entry = selectedMenu.menu_entries?.find(menuEntry => menuEntry.menu_item_id === item.id);
+                          return (
+                            <div key={item.id} className="grid grid-cols-3 gap-3 items-center">
+                              <label className="col-span-2 flex items-center gap-2 text-sm text-gray-900">
+                                <input
+                                  type="checkbox"
+                                  checked={!!entry}
+                                  onChange={() => handleEntryToggle(item, !!entry)}
+                                  disabled={saving}
+                                  className="rounded border-gray-300 text-teal-600 focus:ring-teal-500"
+                                />
+                                <span>{item.name}</span>
+                                <span className="text-gray-500">€{Number(item.price).toFixed(2)}</span>
+                                {!entry && !scheduledItemIds.has(item.id) && (
+                                  <span className="text-xs text-gray-400">immer im Angebot</span>
+                                )}
+                              </label>
+                              {entry && (
+                                <input
+                                  key={`${entry.id}-${entry.price_override ?? ''}`}
+                                  type="text"
+                                  inputMode="decimal"
+                                  defaultValue={entry.price_override != null ? Number(entry.price_override).toFixed(2) : ''}
+                                  onBlur={(e) => handlePriceOverride(item, e.target.value, entry.price_override != null ? Number(entry.price_override) : null)}
+                                  className={inputClassName}
+                                  placeholder="Menüpreis (€)"
+                                  disabled={saving}
+                                />
+                              )}
+                            </div>
+                          );
+                        })}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="border-t border-gray-200 p-6 bg-gray-50">
+          <button
+            onClick={onClose}
+            className="w-full px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            Schließen
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -26,6 +26,7 @@ const navigationItems = {
   kitchen: [
     { path: '/dashboard', icon: Home, labelKey: 'nav.home' },
     { path: '/pending-orders', icon: ClipboardList, labelKey: 'nav.pending' },
+    { path: '/kds', icon: ChefHat, labelKey: 'nav.kdsShort' },
     { path: '/inventory', icon: Package, labelKey: 'nav.stock' },
     { path: '/ai', icon: Bot, labelKey: 'nav.ai' },
   ],
@@ -0,0 +1,343 @@
+import { useState, useEffect } from 'react';
+import { X, Plus, Trash2, SlidersHorizontal, AlertCircle } from 'lucide-react';
+import { MenuItem, ModifierGroup, ModifierOption } from '../lib/supabase';
+import {
+  loadModifierGroups, saveModifierGroup, deleteModifierGroup, saveModifierOption, deleteModifierOption
+} from '../lib/modifiers';
+
+interface ModifiersModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  menuItem: MenuItem | null;
+  onSaved?: () => void;
+}
+
+// Starting rules for a new group, they can be changed afterwards
+const GROUP_PRESETS: { value: string; label: string; min_select: number; max_select: number | null }[] = [
+  { value: 'required', label: 'Pflichtauswahl (genau 1)', min_select: 1, max_select: 1 },
+  { value: 'optional', label: 'Optional (höchstens 1)', min_select: 0, max_select: 1 },
+  { value: 'multiple', label: 'Mehrfachauswahl', min_select: 0, max_select: null }
+];
+
+const parseAmount = (value: string) => parseFloat(value.replace(',', '.'));
+
+// Changes are saved right away and apply to new order items
+export default function ModifiersModal({ isOpen, onClose, menuItem, onSaved }: ModifiersModalProps) {
+  const [groups, setGroups] = useState<ModifierGroup[]>([]);
+  const [newGroup, setNewGroup] = useState({ name: '', preset: 'required' });
+  const [newOptions, setNewOptions] = useState<Record<string, { name: string; price_delta: string }>>({});
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const loadData = async (item: MenuItem) => {
+    setGroups(await loadModifierGroups(item.id));
+  };
+
+  useEffect(() => {
+    if (isOpen && menuItem) {
+      setError('');
+      setGroups([]);
+      setNewOptions({});
+      loadData(menuItem);
+    }
+  }, [isOpen, menuItem]);
+
+  const runSave = async (action: () => Promise<void>, message: string) => {
+    if (!menuItem) return;
+    setError('');
+    setSaving(true);
+    try {
+      await action();
+      await loadData(menuItem);
+      onSaved?.();
+    } catch (err) {
+      console.error('Error saving modifiers:', err);
+      setError(message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddGroup = () => {
+    if (!menuItem) return;
+    if (!newGroup.name.trim()) {
+      setError('Bitte einen Namen für die Gruppe eingeben, z.B. Größe oder Extras');
+      return;
+    }
+    const preset = GROUP_PRESETS.find(groupPreset => groupPreset.value === newGroup.preset) || GROUP_PRESETS[0];
+    runSave(async () => {
+      await saveModifierGroup({
+        menu_item_id: menuItem.id,
+        name: newGroup.name,
+        min_select: preset.min_select,
+        max_select: preset.max_select,
+        sort_order: Math.max(0, ...groups.map(group => group.sort_order)) + 1
+      });
+      setNewGroup({ name: '', preset: 'required' });
+    }, 'Gruppe konnte nicht angelegt werden. Gibt es den Namen schon?');
+  };
+
+  const handleGroupChange = (group: ModifierGroup, changes: Partial<ModifierGroup>) => {
+    const updated = { ...group, ...changes };
+    if (!updated.name.trim()) return;
+    if (updated.max_select !== null && updated.max_select < Math.max(updated.min_select, 1)) {
+      setError('Höchstens muss mindestens so groß sein wie Mindestens und wenigstens 1');
+      return;
+    }
+    if (updated.name === group.name && updated.min_select === group.min_select && updated.max_select === group.max_select) return;
+
+    runSave(async () => {
+      await saveModifierGroup(updated);
+    }, 'Gruppe konnte nicht gespeichert werden. Gibt es den Namen schon?');
+  };
+
+  const handleDeleteGroup = (group: ModifierGroup) => {
+    if (!confirm(`Gruppe "${group.name}" mit allen Optionen löschen?`)) return;
+    runSave(() => deleteModifierGroup(group.id), 'Gruppe konnte nicht gelöscht werden');
+  };
+
+  const handleAddOption = (group: ModifierGroup) => {
+    const newOption = newOptions[group.id] || { name: '', price_delta: '' };
+    if (!newOption.name.trim()) {
+      setError('Bitte einen Namen für die Option eingeben');
+      return;
+    }
+    const priceDelta = newOption.price_delta.trim() ? parseAmount(newOption.price_delta) : 0;
+    if (isNaN(priceDelta)) {
+      setError('Bitte einen gültigen Aufpreis eingeben');
+      return;
+    }
+
+    runSave(async () => {
+      await saveModifierOption({
+        group_id: group.id,
+        name: newOption.name,
+        price_delta: priceDelta,
+        sort_order: Math.max(0, ...(group.modifier_options || []).map(option => option.sort_order)) + 1
+      });
+      setNewOptions(prev => ({ ...prev, [group.id]: { name: '', price_delta: '' } }));
+    }, 'Option konnte nicht angelegt werden. Gibt es den Namen schon?');
+  };
+
+  const handleOptionChange = (option: ModifierOption, changes: { name?: string; price_delta?: string }) => {
+    const name = changes.name ?? option.name;
+    const priceDelta = changes.price_delta !== undefined
+      ? (changes.price_delta.trim() ? parseAmount(changes.price_delta) : 0)
+      : Number(option.price_delta);
+    if (!name.trim()) return;
+    if (isNaN(priceDelta)) {
+      setError('Bitte einen gültigen Aufpreis eingeben');
+      return;
+    }
+    if (name === option.name && priceDelta === Number(option.price_delta)) return;
+
+    runSave(async () => {
+      await saveModifierOption({ ...option, name, price_delta: priceDelta });
+    }, 'Option konnte nicht gespeichert werden. Gibt es den Namen schon?');
+  };
+
+  const handleDeleteOption = (option: ModifierOption) => {
+    runSave(() => deleteModifierOption(option.id), 'Option konnte nicht gelöscht werden');
+  };
+
+  if (!isOpen || !menuItem) return null;
+
+  const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl max-w-2xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-amber-500 to-amber-600 p-6 text-white">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="p-3 bg-white/20 rounded-lg">
+                <SlidersHorizontal className="w-6 h-6" />
+              </div>
+              <div>
+                <h2 className="text-2xl font-bold">Optionen: {menuItem.name}</h2>
+                <p className="opacity-90">Größen, Garstufen, Extras und Weglassungen mit Aufpreis</p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-white/20 rounded-lg transition-colors"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {error && (
+            <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+              <div className="flex items-start gap-2">
+                <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
+                <p className="text-red-700">{error}</p>
+              </div>
+            </div>
+          )}
+
+          {groups.length === 0 && (
+            <p className="text-sm text-gray-600">
+              Noch keine Optionen. Der Artikel wird ohne Auswahl bestellt.
+            </p>
+          )}
+
+          {groups.map(group => {
+            const newOption = newOptions[group.id] || { name: '', price_delta: '' };
+            return (
+              <div key={group.id} className="bg-gray-50 rounded-lg p-6 space-y-4">
+                <div className="flex items-end gap-3">
+                  <div className="flex-1">
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Gruppe</label>
+                    <input
+                      type="text"
+                      defaultValue={group.name}
+                      onBlur={(e) => handleGroupChange(group, { name: e.target.value })}
+                      className={inputClassName}
+                      disabled={saving}
+                    />
+                  </div>
+                  <div className="w-28">
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Mindestens</label>
+                    <input
+                      key={`${group.id}-min-${group.min_select}`}
+                      type="number"
+                      min="0"
+                      defaultValue={group.min_select}
+                      onBlur={(e) => handleGroupChange(group, { min_select: Math.max(0, parseInt(e.target.value) || 0) })}
+                      className={inputClassName}
+                      disabled={saving}
+                    />
+                  </div>
+                  <div className="w-28">
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Höchstens</label>
+                    <input
+                      key={`${group.id}-max-${group.max_select}`}
+                      type="number"
+                      min="1"
+                      defaultValue={group.max_select ?? ''}
+                      onBlur={(e) => handleGroupChange(group, { max_select: e.target.value ? parseInt(e.target.value) : null })}
+                      className={inputClassName}
+                      placeholder="beliebig"
+                      disabled={saving}
+                    />
+                  </div>
+                  <button
+                    onClick={() => handleDeleteGroup(group)}
+                    disabled={saving}
+                    className="p-2 text-gray-400 hover:text-red-600 rounded-lg transition-colors"
+                    title="Gruppe löschen"
+                  >
+                    <Trash2 className="w-5 h-5" />
+                  </button>
+                </div>
+
+                <div className="space-y-2">
+                  {(group.modifier_options || []).map(option => (
+                    <div key={option.id} className="flex items-center gap-3">
+                      <input
+                        type="text"
+                        defaultValue={option.name}
+                        onBlur={(e) => handleOptionChange(option, { name: e.target.value })}
+                        className={inputClassName}
+                        disabled={saving}
+                      />
+                      <input
+                        key={`${option.id}-${option.price_delta}`}
+                        type="text"
+                        inputMode="decimal"
+                        defaultValue={Number(option.price_delta) ? Number(option.price_delta).toFixed(2).replace('.', ',') : ''}
+                        onBlur={(e) => handleOptionChange(option, { price_delta: e.target.value })}
+                        className={`${inputClassName} max-w-[140px]`}
+                        placeholder="Aufpreis (€)"
+                        disabled={saving}
+                      />
+                      <button
+                        onClick={() => handleDeleteOption(option)}
+                        disabled={saving}
+                        className="p-2 text-gray-400 hover:text-red-600 rounded-lg transition-colors"
+                        title="Option löschen"
+                      >
+                        <Trash2 className="w-5 h-5" />
+                      </button>
+                    </div>
+                  ))}
+
+                  <div className="flex items-center gap-3 pt-2">
+                    <input
+                      type="text"
+                      value={newOption.name}
+                      onChange={(e) => setNewOptions(prev => ({ ...prev, [group.id]: { ...newOption, name: e.target.value } }))}
+                      className={inputClassName}
+                      placeholder="z.B. groß, medium, Käse, ohne Zwiebeln"
+                    />
+                    <input
+                      type="text"
+                      inputMode="decimal"
+                      value={newOption.price_delta}
+                      onChange={(e) => setNewOptions(prev => ({ ...prev, [group.id]: { ...newOption, price_delta: e.target.value } }))}
+                      className={`${inputClassName} max-w-[140px]`}
+                      placeholder="Aufpreis (€)"
+                    />
+                    <button
+                      onClick={() => handleAddOption(group)}
+                      disabled={saving}
+                      className="flex items-center gap-1 px-4 py-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700 transition-colors disabled:opacity-50"
+                    >
+                      <Plus className="w-4 h-4" />
+                      Option
+                    </button>
+                  </div>
+                </div>
+
+              </div>
+            );
+          })}
+
+          {/* New group */}
+          <div className="bg-gray-50 rounded-lg p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Neue Gruppe</h3>
+            <div className="flex items-center gap-3">
+              <input
+                type="text"
+                value={newGroup.name}
+                onChange={(e) => setNewGroup(prev => ({ ...prev, name: e.target.value }))}
+                className={inputClassName}
+                placeholder="z.B. Größe, Garstufe, Extras, Ohne"
+              />
+              <select
+                value={newGroup.preset}
+                onChange={(e) => setNewGroup(prev => ({ ...prev, preset: e.target.value }))}
+                className={`${inputClassName} max-w-[220px]`}
+              >
+                {GROUP_PRESETS.map(preset => (
+                  <option key={preset.value} value={preset.value}>{preset.label}</option>
+                ))}
+              </select>
+              <button
+                onClick={handleAddGroup}
+                disabled={saving}
+                className="flex items-center gap-1 px-4 py-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700 transition-colors disabled:opacity-50"
+              >
+                <Plus className="w-4 h-4" />
+                Hinzufügen
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="border-t border-gray-200 p-6 bg-gray-50">
+          <button
+            onClick={onClose}
+            className="w-full px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            Schließen
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -19,6 +19,7 @@ const navigationItems = {
     { path: '/staff', icon: Users, labelKey: 'nav.staffOverview' },
     { path: '/reports', icon: BarChart3, labelKey: 'nav.salesReports' },
     { path: '/pending-orders', icon: ClipboardList, labelKey: 'nav.pendingOrders' },
+    { path: '/kds', icon: ChefHat, labelKey: 'nav.kds' },
     { path: '/inventory', icon: Package, labelKey: 'nav.inventoryView' },
     { path: '/cart', icon: ShoppingBag, labelKey: 'nav.cartCheckout' },
     { path: '/ai', icon: Bot, labelKey: 'nav.aiAgent' },
@@ -34,6 +35,7 @@ const navigationItems = {
   kitchen: [
     { path: '/dashboard', icon: Home, labelKey: 'nav.home' },
     { path: '/pending-orders', icon: ClipboardList, labelKey: 'nav.pendingOrders' },
+    { path: '/kds', icon: ChefHat, labelKey: 'nav.kds' },
     { path: '/inventory', icon: Package, labelKey: 'nav.inventoryView' },
     { path: '/ai', icon: Bot, labelKey: 'nav.aiAgent' },
   ],
@@ -42,6 +44,7 @@ const navigationItems = {
     { path: '/pending-orders', icon: Wine, labelKey: 'nav.drinkOrders' },
     { path: '/bar-menu', icon: BookOpen, labelKey: 'nav.barMenu' },
     { path: '/bar-inventory', icon: Package, labelKey: 'nav.barInventory' },
+    { path: '/kds', icon: ChefHat, labelKey: 'nav.kds' },
     { path: '/ai', icon: Bot, labelKey: 'nav.aiAgent' },
   ],
   customer: [
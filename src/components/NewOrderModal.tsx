@@ -1,9 +1,13 @@
 import React, { useState, useEffect } from 'react';
 import { X, Plus, Minus, ShoppingCart, User, MapPin, Utensils, AlertCircle, CheckCircle, DollarSign } from 'lucide-react';
-import { supabase, MenuItem } from '../lib/supabase';
+import { supabase, MenuItem, Order, OrderItem as PlacedOrderItem, OrderItemModifier } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
 import { useLanguage } from '../contexts/LanguageContext';
 import MenuItemDetailModal from './MenuItemDetailModal';
+import { getOrderNumber } from '../lib/orderNumbers';
+import { COURSES, shouldHoldCourse } from '../lib/courses';
+import { filterActiveMenuItems } from '../lib/menus';
+import { MODIFIER_SELECT, getModifierGroups, getModifiersPrice, isSameModifiers, getModifierLines } from '../lib/modifiers';
 
 interface NewOrderModalProps {
   isOpen: boolean;
@@ -11,6 +15,7 @@ interface NewOrderModalProps {
   onOrderPlaced: () => void;
   prefilledTableNumber?: number;
   prefilledSeatNumber?: number;
+  existingSeatItems?: PlacedOrderItem[];
 }
 
 interface OrderItem {
@@ -18,14 +23,18 @@ interface OrderItem {
   quantity: number;
   notes?: string;
   seatNumber?: number;
+  course?: number;
+  modifiers: OrderItemModifier[];
 }
 
-export default function NewOrderModal({ isOpen, onClose, onOrderPlaced, prefilledTableNumber, prefilledSeatNumber }: NewOrderModalProps) {
+export default function NewOrderModal({ isOpen, onClose, onOrderPlaced, prefilledTableNumber, prefilledSeatNumber, existingSeatItems }: NewOrderModalProps) {
   const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
   const [orderItems, setOrderItems] = useState<OrderItem[]>([]);
   const [customerName, setCustomerName] = useState('');
   const [tableNumber, setTableNumber] = useState('');
   const [seatNumber, setSeatNumber] = useState('');
+  const [serviceType, setServiceType] = useState<NonNullable<Order['service_type']>>('dine_in');
+  const [course, setCourse] = useState<number | undefined>(undefined);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
@@ -42,6 +51,7 @@ export default function NewOrderModal({ isOpen, onClose, onOrderPlaced, prefille
       setCustomerName('');
       setTableNumber(prefilledTableNumber?.toString() || '');
       setSeatNumber(prefilledSeatNumber?.toString() || '');
+      setCourse(undefined);
       setError('');
       setSuccess('');
     }
@@ -54,7 +64,7 @@ export default function NewOrderModal({ isOpen, onClose, onOrderPlaced, prefille
 
       const { data, error: fetchError } = await supabase
         .from('menu_items')
-        .select('*')
+        .select(`*, ${MODIFIER_SELECT}`)
         .eq('available', true)
         .order('category', { ascending: true })
         .order('name', { ascending: true });
@@ -65,7 +75,7 @@ export default function NewOrderModal({ isOpen, onClose, onOrderPlaced, prefille
         return;
       }
 
-      setMenuItems(data || []);
+      setMenuItems(await filterActiveMenuItems(data || []));
     } catch (error) {
       console.error('Error loading menu items:', error);
       setError(t('error.failedToLoad'));
@@ -74,16 +84,17 @@ export default function NewOrderModal({ isOpen, onClose, onOrderPlaced, prefille
     }
   };
 
-  const addToOrder = (menuItem: MenuItem, itemNotes?: string) => {
+  const addToOrder = (menuItem: MenuItem, itemNotes?: string, modifiers: OrderItemModifier[] = []) => {
     setOrderItems(prev => {
       const existingItem = prev.find(item => 
         item.menuItem.id === menuItem.id && 
-        item.seatNumber === (seatNumber ? parseInt(seatNumber) : undefined)
+        item.seatNumber === (seatNumber ? parseInt(seatNumber) : undefined) &&
+        item.course === course &&
+        isSameModifiers(item.modifiers, modifiers)
       );
       if (existingItem) {
         return prev.map(item =>
-          item.menuItem.id === menuItem.id && 
-          item.seatNumber === (seatNumber ? parseInt(seatNumber) : undefined)
+          item === existingItem
             ? { ...item, quantity: item.quantity + 1, notes: itemNotes || item.notes }
             : item
         );
@@ -92,21 +103,21 @@ export default function NewOrderModal({ isOpen, onClose, onOrderPlaced, prefille
           menuItem, 
           quantity: 1, 
           notes: itemNotes,
-          seatNumber: seatNumber ? parseInt(seatNumber) : undefined
+          seatNumber: seatNumber ? parseInt(seatNumber) : undefined,
+          course,
+          modifiers
         }];
       }
     });
   };
 
-  const updateQuantity = (menuItemId: string, itemSeatNumber: number | undefined, newQuantity: number) => {
+  const updateQuantity = (orderItem: OrderItem, newQuantity: number) => {
     if (newQuantity <= 0) {
-      setOrderItems(prev => prev.filter(item => 
-        !(item.menuItem.id === menuItemId && item.seatNumber === itemSeatNumber)
-      ));
+      setOrderItems(prev => prev.filter(item => item !== orderItem));
     } else {
       setOrderItems(prev =>
         prev.map(item =>
-          item.menuItem.id === menuItemId && item.seatNumber === itemSeatNumber
+          item === orderItem
             ? { ...item, quantity: newQuantity }
             : item
         )
@@ -114,8 +125,11 @@ export default function NewOrderModal({ isOpen, onClose, onOrderPlaced, prefille
     }
   };
 
+  // Menu price plus the price of the picked options
+  const getUnitPrice = (item: OrderItem) => item.menuItem.price + getModifiersPrice(item.modifiers);
+
   const calculateTotal = () => {
-    return orderItems.reduce((total, item) => total + (item.menuItem.price * item.quantity), 0);
+    return orderItems.reduce((total, item) => total + (getUnitPrice(item) * item.quantity), 0);
   };
 
   const groupItemsByCategory = () => {
@@ -152,6 +166,11 @@ export default function NewOrderModal({ isOpen, onClose, onOrderPlaced, prefille
       return;
     }
 
+    if (orderItems.some(item => item.seatNumber !== undefined && (isNaN(item.seatNumber) || item.seatNumber <= 0))) {
+      setError(t('orders.validSeatNumber'));
+      return;
+    }
+
     try {
       setLoading(true);
       setError('');
@@ -167,6 +186,7 @@ export default function NewOrderModal({ isOpen, onClose, onOrderPlaced, prefille
         customer_id: null, // Waiter-created orders don't have a customer_id
         table_number: tableNum,
         customer_name: finalCustomerName,
+        service_type: serviceType,
         status: 'pending' as const,
         total: total,
       };
@@ -185,13 +205,19 @@ export default function NewOrderModal({ isOpen, onClose, onOrderPlaced, prefille
         return;
       }
 
-      // Create order items with notes and seat numbers
+      // Create order items with notes, seat numbers and courses. Later courses are held
+      const firedAt = new Date().toISOString();
+      const orderCourses = orderItems.map(item => item.course);
       const orderItemsData = orderItems.map(item => ({
         order_id: orderData_result.id,
         menu_item_id: item.menuItem.id,
         quantity: item.quantity,
-        price: item.menuItem.price,
-        notes: item.notes ? `${item.notes}${item.seatNumber ? ` (${t('tables.seat')} ${item.seatNumber})` : ''}` : (item.seatNumber ? `${t('tables.seat')} ${item.seatNumber}` : null),
+        price: getUnitPrice(item),
+        modifiers: item.modifiers,
+        notes: item.notes || null,
+        seat_number: item.seatNumber ?? null,
+        course: item.course ?? null,
+        fired_at: shouldHoldCourse(item.course, orderCourses) ? null : firedAt,
         status: 'pending'
       }));
 
@@ -205,13 +231,15 @@ export default function NewOrderModal({ isOpen, onClose, onOrderPlaced, prefille
         return;
       }
 
-      setSuccess(`${t('success.orderCreated')} ${t('orders.orderNumber')}${orderData_result.id.slice(0, 8)}`);
+      setSuccess(`${t('success.orderCreated')} ${t('orders.orderNumber')}${getOrderNumber(orderData_result)}`);
       
       // Reset form
       setOrderItems([]);
       setCustomerName('');
       setTableNumber('');
       setSeatNumber('');
+      setCourse(undefined);
+      setServiceType('dine_in');
 
       // Close modal and refresh orders after a short delay
       setTimeout(() => {
@@ -283,6 +311,11 @@ export default function NewOrderModal({ isOpen, onClose, onOrderPlaced, prefille
                           <div className="flex items-start justify-between mb-2">
                             <h5 className="font-medium text-gray-900">{item.name}</h5>
                             <span className="text-lg font-bold text-green-600">
+                              {item.regular_price !== undefined && (
+                                <span className="text-sm font-normal text-gray-400 line-through mr-1">
+                                  ${item.regular_price.toFixed(2)}
+                                </span>
+                              )}
                               ${item.price.toFixed(2)}
                             </span>
                           </div>
@@ -295,11 +328,11 @@ export default function NewOrderModal({ isOpen, onClose, onOrderPlaced, prefille
                               {t('menu.viewDetails')}
                             </button>
                             <button
-                              onClick={() => addToOrder(item)}
+                              onClick={() => getModifierGroups(item).length > 0 ? setSelectedMenuItem(item) : addToOrder(item)}
                               className="flex-1 bg-green-600 text-white py-2 px-4 rounded-lg hover:bg-green-700 transition-colors flex items-center justify-center gap-2 text-sm"
                             >
                               <Plus className="w-4 h-4" />
-                              {t('common.add')}
+                              {getModifierGroups(item).length > 0 ? t('modifiers.choose') : t('common.add')}
                             </button>
                           </div>
                         </div>
@@ -361,47 +394,113 @@ export default function NewOrderModal({ isOpen, onClose, onOrderPlaced, prefille
                   />
                 </div>
               </div>
+
+              <div className="flex gap-2">
+                {(['dine_in', 'takeaway'] as const).map(type => (
+                  <button
+                    key={type}
+                    type="button"
+                    onClick={() => setServiceType(type)}
+                    className={`flex-1 px-3 py-2 rounded-lg border text-sm font-medium transition-colors ${
+                      serviceType === type
+                        ? 'bg-green-600 border-green-600 text-white'
+                        : 'border-gray-300 text-gray-700 hover:bg-white'
+                    }`}
+                  >
+                    {t(`orders.serviceType.${type}`)}
+                  </button>
+                ))}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  {t('course.label')}
+                </label>
+                <div className="flex gap-1">
+                  {[undefined, ...COURSES].map(value => (
+                    <button
+                      key={value ?? 'none'}
+                      type="button"
+                      onClick={() => setCourse(value)}
+                      className={`flex-1 px-2 py-1.5 rounded-lg border text-xs font-medium transition-colors ${
+                        course === value
+                          ? 'bg-purple-600 border-purple-600 text-white'
+                          : 'border-gray-300 text-gray-700 hover:bg-white'
+                      }`}
+                    >
+                      {value ? t(`course.${value}`) : t('course.none')}
+                    </button>
+                  ))}
+                </div>
+                {orderItems.some(item => shouldHoldCourse(item.course, orderItems.map(other => other.course))) && (
+                  <p className="text-xs text-purple-700 mt-1">{t('course.heldHint')}</p>
+                )}
+              </div>
             </div>
 
             {/* Order Items - Scrollable */}
             <div className="flex-1 overflow-y-auto mb-6 min-h-0">
               <div className="pr-2"> {/* Add padding for scrollbar */}
+                {existingSeatItems && existingSeatItems.length > 0 && (
+                  <div className="mb-4 p-3 bg-blue-50 border border-blue-200 rounded-lg">
+                    <p className="text-xs font-medium text-blue-800 mb-2">
+                      {t('orders.alreadyOrderedForSeat')} {prefilledSeatNumber}
+                    </p>
+                    <ul className="space-y-1">
+                      {existingSeatItems.map(item => (
+                        <li key={item.id} className="flex items-center justify-between text-xs text-blue-900">
+                          <span>{item.quantity}x {item.menu_item?.name || t('common.items')}</span>
+                          <span className="text-blue-600">{t(`orders.${item.status}`)}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
                 {orderItems.length > 0 ? (
                   <div className="space-y-3">
                     {orderItems.map((item, index) => (
-                      <div key={`${item.menuItem.id}-${item.seatNumber}-${index}`} className="bg-white p-3 rounded-lg border border-gray-200">
+                      <div key={`${item.menuItem.id}-${item.seatNumber}-${item.course}-${index}`} className="bg-white p-3 rounded-lg border border-gray-200">
                         <div className="flex items-start justify-between mb-2">
                           <div className="flex-1">
                             <h6 className="font-medium text-gray-900 text-sm">{item.menuItem.name}</h6>
                             {item.seatNumber && (
                               <p className="text-xs text-blue-600">{t('tables.seat')} {item.seatNumber}</p>
                             )}
+                            {item.course && (
+                              <p className="text-xs text-purple-600">
+                                {t(`course.${item.course}`)}
+                                {shouldHoldCourse(item.course, orderItems.map(other => other.course)) && ` · ${t('course.held')}`}
+                              </p>
+                            )}
+                            {getModifierLines(item.modifiers).map(line => (
+                              <p key={line} className="text-xs text-amber-700">{line}</p>
+                            ))}
                             {item.notes && (
                               <p className="text-xs text-gray-500 italic">{item.notes}</p>
                             )}
                           </div>
                           <span className="text-sm font-bold text-gray-900">
-                            ${(item.menuItem.price * item.quantity).toFixed(2)}
+                            ${(getUnitPrice(item) * item.quantity).toFixed(2)}
                           </span>
                         </div>
                         <div className="flex items-center justify-between">
                           <div className="flex items-center gap-2">
                             <button
-                              onClick={() => updateQuantity(item.menuItem.id, item.seatNumber, item.quantity - 1)}
+                              onClick={() => updateQuantity(item, item.quantity - 1)}
                               className="p-1 rounded-full bg-gray-200 hover:bg-gray-300 transition-colors"
                             >
                               <Minus className="w-3 h-3" />
                             </button>
                             <span className="text-sm font-medium w-8 text-center">{item.quantity}</span>
                             <button
-                              onClick={() => updateQuantity(item.menuItem.id, item.seatNumber, item.quantity + 1)}
+                              onClick={() => updateQuantity(item, item.quantity + 1)}
                               className="p-1 rounded-full bg-gray-200 hover:bg-gray-300 transition-colors"
                             >
                               <Plus className="w-3 h-3" />
                             </button>
                           </div>
                           <span className="text-xs text-gray-500">
-                            ${item.menuItem.price.toFixed(2)} {t('orders.each')}
+                            ${getUnitPrice(item).toFixed(2)} {t('orders.each')}
                           </span>
                         </div>
                       </div>
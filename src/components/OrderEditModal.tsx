@@ -3,11 +3,17 @@ import {
   X, Save, Plus, Minus, Trash2, 
   AlertCircle, CheckCircle, Clock, User, MapPin,
   Edit3, DollarSign, Lock, Unlock, ShoppingCart,
-  Mic, MicOff, Search, Volume2, Play, Pause
+  Mic, MicOff, Search, Volume2, Play, Pause, Split
 } from 'lucide-react';
-import { supabase, Order, OrderItem, MenuItem } from '../lib/supabase';
+import { supabase, Order, OrderItem, MenuItem, OrderItemModifier } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
 import { useLanguage } from '../contexts/LanguageContext';
+import SplitBillModal from './SplitBillModal';
+import MenuItemDetailModal from './MenuItemDetailModal';
+import { getOrderNumber } from '../lib/orderNumbers';
+import { COURSES, isHeldItem, shouldHoldCourse } from '../lib/courses';
+import { filterActiveMenuItems } from '../lib/menus';
+import { MODIFIER_SELECT, getModifierGroups, getModifiersPrice, isSameModifiers, getModifierLines } from '../lib/modifiers';
 
 interface OrderEditModalProps {
   isOpen: boolean;
@@ -43,6 +49,10 @@ export default function OrderEditModal({ isOpen, onClose, order, onOrderUpdated
   const [isPlaying, setIsPlaying] = useState(false);
   const [speechSupported, setSpeechSupported] = useState(false);
   const [voiceNotes, setVoiceNotes] = useState('');
+  const [newItemSeat, setNewItemSeat] = useState('');
+  const [newItemCourse, setNewItemCourse] = useState('');
+  const [showSplitBill, setShowSplitBill] = useState(false);
+  const [modifierMenuItem, setModifierMenuItem] = useState<MenuItem | null>(null);
 
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
@@ -218,13 +228,14 @@ export default function OrderEditModal({ isOpen, onClose, order, onOrderUpdated
       setLoadingMenu(true);
       const { data, error } = await supabase
         .from('menu_items')
-        .select('*')
+        .select(`*, ${MODIFIER_SELECT}`)
         .eq('available', true)
         .order('name');
 
       if (error) throw error;
-      setMenuItems(data || []);
-      setFilteredMenuItems(data || []);
+      const items = await filterActiveMenuItems(data || []);
+      setMenuItems(items);
+      setFilteredMenuItems(items);
     } catch (error) {
       console.error('Error loading menu items:', error);
     } finally {
@@ -236,30 +247,42 @@ export default function OrderEditModal({ isOpen, onClose, order, onOrderUpdated
     setEditData(prev => ({ ...prev, [field]: value }));
   };
 
-  const addMenuItem = (menuItem: MenuItem) => {
-    const existingItem = orderItems.find(item => 
-      item.menu_item_id === menuItem.id && !item.isDeleted
-    );
+  // The detail modal adds one call per portion, so the state is updated from the previous one
+  const addMenuItem = (menuItem: MenuItem, itemNotes?: string, modifiers: OrderItemModifier[] = []) => {
+    const seatNumber = newItemSeat ? parseInt(newItemSeat) : null;
+    const course = newItemCourse ? parseInt(newItemCourse) : null;
+    const isSameLine = (item: EditOrderItem) =>
+      item.menu_item_id === menuItem.id && !item.isDeleted && (item.seat_number ?? null) === seatNumber &&
+      (item.course ?? null) === course && isSameModifiers(item.modifiers, modifiers);
+
+    setOrderItems(prev => {
+      const existingItem = prev.find(isSameLine);
+      if (existingItem) {
+        return prev.map(item =>
+          item.id === existingItem.id
+            ? { ...item, quantity: item.quantity + 1 }
+            : item
+        );
+      }
 
-    if (existingItem) {
-      setOrderItems(prev => prev.map(item =>
-        item.id === existingItem.id
-          ? { ...item, quantity: item.quantity + 1 }
-          : item
-      ));
-    } else {
       const newItem: EditOrderItem = {
-        id: `new-${Date.now()}`,
+        id: `new-${Date.now()}-${prev.length}`,
         order_id: order?.id || '',
         menu_item_id: menuItem.id,
         quantity: 1,
-        price: menuItem.price,
+        price: menuItem.price + getModifiersPrice(modifiers),
         status: 'pending',
         menu_item: menuItem,
-        notes: voiceNotes.trim() || undefined,
+        notes: itemNotes ?? (voiceNotes.trim() || undefined),
+        modifiers,
+        seat_number: seatNumber,
+        course,
         isNew: true
       };
-      setOrderItems(prev => [...prev, newItem]);
+      return [...prev, newItem];
+    });
+
+    if (!orderItems.some(isSameLine)) {
       setVoiceNotes(''); // Clear voice notes after adding
     }
   };
@@ -280,6 +303,22 @@ export default function OrderEditModal({ isOpen, onClose, order, onOrderUpdated
     }
   };
 
+  const updateItemSeat = (itemId: string, value: string) => {
+    setOrderItems(prev => prev.map(item =>
+      item.id === itemId
+        ? { ...item, seat_number: value ? parseInt(value) : null }
+        : item
+    ));
+  };
+
+  const updateItemCourse = (itemId: string, value: string) => {
+    setOrderItems(prev => prev.map(item =>
+      item.id === itemId
+        ? { ...item, course: value ? parseInt(value) : null }
+        : item
+    ));
+  };
+
   const removeItem = (itemId: string) => {
     setOrderItems(prev => prev.map(item =>
       item.id === itemId
@@ -302,68 +341,14 @@ export default function OrderEditModal({ isOpen, onClose, order, onOrderUpdated
       .reduce((total, item) => total + (item.price * item.quantity), 0);
   };
 
-  // Generate localized order number in format YYYY/DDD/NNN
-  const generateLocalizedOrderNumber = async (order: Order) => {
-    if (!order) return '';
-    
-    try {
-      const orderDate = new Date(order.created_at);
-      const year = orderDate.getFullYear();
-      
-      // Calculate day of year (1-366)
-      const startOfYear = new Date(year, 0, 0);
-      const dayOfYear = Math.floor((orderDate.getTime() - startOfYear.getTime()) / (1000 * 60 * 60 * 24));
-      
-      // Get all orders from the same day to determine sequence number
-      const startOfDay = new Date(orderDate);
-      startOfDay.setHours(0, 0, 0, 0);
-      
-      const endOfDay = new Date(orderDate);
-      endOfDay.setHours(23, 59, 59, 999);
-      
-      const { data: dayOrders, error } = await supabase
-        .from('orders')
-        .select('id, created_at')
-        .gte('created_at', startOfDay.toISOString())
-        .lte('created_at', endOfDay.toISOString())
-        .order('created_at', { ascending: true });
-      
-      if (error) {
-        console.error('Error fetching day orders:', error);
-        // Fallback to simple sequence based on order ID
-        const orderSequence = parseInt(order.id.slice(-4), 16) % 999 + 1;
-        return `${year}/${dayOfYear.toString().padStart(3, '0')}/${orderSequence.toString().padStart(3, '0')}`;
-      }
-      
-      // Find the position of current order in the day's orders
-      const orderIndex = dayOrders?.findIndex(o => o.id === order.id) ?? -1;
-      const sequenceNumber = orderIndex >= 0 ? orderIndex + 1 : 1;
-      
-      return `${year}/${dayOfYear.toString().padStart(3, '0')}/${sequenceNumber.toString().padStart(3, '0')}`;
-      
-    } catch (error) {
-      console.error('Error generating order number:', error);
-      // Fallback format
-      const date = new Date(order.created_at);
-      const year = date.getFullYear();
-      const dayOfYear = Math.floor((date.getTime() - new Date(year, 0, 0).getTime()) / (1000 * 60 * 60 * 24));
-      const orderSequence = parseInt(order.id.slice(-4), 16) % 999 + 1;
-      
-      return `${year}/${dayOfYear.toString().padStart(3, '0')}/${orderSequence.toString().padStart(3, '0')}`;
-    }
-  };
-
-  const [localizedOrderNumber, setLocalizedOrderNumber] = useState('');
-
-  useEffect(() => {
-    if (order) {
-      generateLocalizedOrderNumber(order).then(setLocalizedOrderNumber);
-    }
-  }, [order]);
-
   const saveOrder = async () => {
     if (!order || !user) return;
 
+    if (orderItems.some(item => !item.isDeleted && item.seat_number != null && (isNaN(item.seat_number) || item.seat_number <= 0))) {
+      setError(t('orders.validSeatNumber'));
+      return;
+    }
+
     try {
       setLoading(true);
       setError('');
@@ -402,8 +387,10 @@ export default function OrderEditModal({ isOpen, onClose, order, onOrderUpdated
         if (deleteError) throw deleteError;
       }
 
-      // Insert new items
+      // Insert new items, courses after the lowest one on the order are held
       if (newItems.length > 0) {
+        const firedAt = new Date().toISOString();
+        const orderCourses = activeItems.map(item => item.course);
         const { error: insertError } = await supabase
           .from('order_items')
           .insert(newItems.map(item => ({
@@ -412,13 +399,17 @@ export default function OrderEditModal({ isOpen, onClose, order, onOrderUpdated
             quantity: item.quantity,
             price: item.price,
             status: item.status,
-            notes: item.notes
+            notes: item.notes,
+            modifiers: item.modifiers || [],
+            seat_number: item.seat_number ?? null,
+            course: item.course ?? null,
+            fired_at: shouldHoldCourse(item.course, orderCourses) ? null : firedAt
           })));
 
         if (insertError) throw insertError;
       }
 
-      // Update existing items
+      // Update existing items, their options can't be changed here and are left out
       for (const item of updatedItems) {
         const { error: updateError } = await supabase
           .from('order_items')
@@ -426,7 +417,9 @@ export default function OrderEditModal({ isOpen, onClose, order, onOrderUpdated
             quantity: item.quantity,
             price: item.price,
             status: item.status,
-            notes: item.notes
+            notes: item.notes,
+            seat_number: item.seat_number ?? null,
+            course: item.course ?? null
           })
           .eq('id', item.id);
 
@@ -464,7 +457,7 @@ export default function OrderEditModal({ isOpen, onClose, order, onOrderUpdated
               </div>
               <div>
                 <h2 className="text-2xl font-bold">
-                  Rechnung Nr. {localizedOrderNumber || `${order.id.slice(0, 8)}`}
+                  Rechnung Nr. {getOrderNumber(order)}
                 </h2>
                 <p className="opacity-90">{t('orders.modifyOrderDetails')}</p>
               </div>
@@ -652,11 +645,38 @@ export default function OrderEditModal({ isOpen, onClose, order, onOrderUpdated
                             {item.isNew && <span className="ml-2 text-xs bg-green-100 text-green-800 px-2 py-1 rounded">NEU</span>}
                           </h4>
                           <p className="text-sm text-gray-600">€{item.price.toFixed(2).replace('.', ',')} {t('orders.each')}</p>
+                          {getModifierLines(item.modifiers).map(line => (
+                            <p key={line} className="text-sm text-amber-700">{line}</p>
+                          ))}
                           {item.notes && (
                             <p className="text-sm text-blue-600 italic">Notiz: {item.notes}</p>
                           )}
+                          {!item.isNew && isHeldItem(item) && (
+                            <p className="text-xs text-purple-600">{t(`course.${item.course}`)} · {t('course.held')}</p>
+                          )}
                         </div>
                         <div className="flex items-center gap-3">
+                          <select
+                            value={item.course ?? ''}
+                            onChange={(e) => updateItemCourse(item.id, e.target.value)}
+                            disabled={!item.isNew && !isHeldItem(item)}
+                            title={t('course.label')}
+                            className="px-2 py-1 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+                          >
+                            <option value="">{t('course.none')}</option>
+                            {COURSES.map(course => (
+                              <option key={course} value={course}>{t(`course.${course}`)}</option>
+                            ))}
+                          </select>
+                          <input
+                            type="number"
+                            min="1"
+                            value={item.seat_number ?? ''}
+                            onChange={(e) => updateItemSeat(item.id, e.target.value)}
+                            placeholder={t('tables.seat')}
+                            title={t('tables.seatNumber')}
+                            className="w-16 px-2 py-1 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-blue-500"
+                          />
                           <div className="flex items-center gap-2">
                             <button
                               onClick={() => updateItemQuantity(item.id, item.quantity - 1)}
@@ -744,6 +764,38 @@ export default function OrderEditModal({ isOpen, onClose, order, onOrderUpdated
                 </div>
               )}
             </div>
+
+            {/* Seat for new items */}
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {t('orders.seatForNewItems')}
+              </label>
+              <input
+                type="number"
+                min="1"
+                value={newItemSeat}
+                onChange={(e) => setNewItemSeat(e.target.value)}
+                placeholder={t('tables.seat')}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+
+            {/* Course for new items */}
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {t('course.label')}
+              </label>
+              <select
+                value={newItemCourse}
+                onChange={(e) => setNewItemCourse(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">{t('course.none')}</option>
+                {COURSES.map(course => (
+                  <option key={course} value={course}>{t(`course.${course}`)}</option>
+                ))}
+              </select>
+            </div>
             
             {loadingMenu ? (
               <div className="text-center py-8">
@@ -765,7 +817,7 @@ export default function OrderEditModal({ isOpen, onClose, order, onOrderUpdated
                         </span>
                       </div>
                       <button
-                        onClick={() => addMenuItem(item)}
+                        onClick={() => getModifierGroups(item).length > 0 ? setModifierMenuItem(item) : addMenuItem(item)}
                         className="w-full bg-blue-600 text-white py-2 px-2 rounded text-sm hover:bg-blue-700 flex items-center justify-center gap-1"
                       >
                         <Plus className="w-3 h-3" />
@@ -804,6 +856,14 @@ export default function OrderEditModal({ isOpen, onClose, order, onOrderUpdated
             >
               {t('common.cancel')}
             </button>
+            <button
+              onClick={() => setShowSplitBill(true)}
+              disabled={loading}
+              className="flex-1 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 flex items-center justify-center gap-2"
+            >
+              <Split className="w-4 h-4" />
+              {t('payments.splitBill')}
+            </button>
             <button
               onClick={saveOrder}
               disabled={loading}
@@ -821,6 +881,20 @@ export default function OrderEditModal({ isOpen, onClose, order, onOrderUpdated
           </div>
         </div>
       </div>
+
+      <SplitBillModal
+        isOpen={showSplitBill}
+        onClose={() => setShowSplitBill(false)}
+        order={order}
+      />
+
+      {/* Options of items that have modifiers */}
+      <MenuItemDetailModal
+        isOpen={!!modifierMenuItem}
+        onClose={() => setModifierMenuItem(null)}
+        menuItem={modifierMenuItem}
+        onAddToOrder={addMenuItem}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -8,6 +8,7 @@ import { supabase, Order, OrderItem } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
 import { useLanguage } from '../contexts/LanguageContext';
 import OrderEditModal from './OrderEditModal';
+import { getOrderNumber } from '../lib/orderNumbers';
 
 interface OrderWithItems extends Order {
   order_items?: (OrderItem & { menu_item: any })[];
@@ -136,57 +137,6 @@ export default function OrdersPage() {
     }
   };
 
-  // Generate localized order number in format YYYY/DDD/NNN
-  const generateLocalizedOrderNumber = async (order: Order) => {
-    if (!order) return '';
-    
-    try {
-      const orderDate = new Date(order.created_at);
-      const year = orderDate.getFullYear();
-      
-      // Calculate day of year (1-366)
-      const startOfYear = new Date(year, 0, 0);
-      const dayOfYear = Math.floor((orderDate.getTime() - startOfYear.getTime()) / (1000 * 60 * 60 * 24));
-      
-      // Get all orders from the same day to determine sequence number
-      const startOfDay = new Date(orderDate);
-      startOfDay.setHours(0, 0, 0, 0);
-      
-      const endOfDay = new Date(orderDate);
-      endOfDay.setHours(23, 59, 59, 999);
-      
-      const { data: dayOrders, error } = await supabase
-        .from('orders')
-        .select('id, created_at')
-        .gte('created_at', startOfDay.toISOString())
-        .lte('created_at', endOfDay.toISOString())
-        .order('created_at', { ascending: true });
-      
-      if (error) {
-        console.error('Error fetching day orders:', error);
-        // Fallback to simple sequence based on order ID
-        const orderSequence = parseInt(order.id.slice(-4), 16) % 999 + 1;
-        return `${year}/${dayOfYear.toString().padStart(3, '0')}/${orderSequence.toString().padStart(3, '0')}`;
-      }
-      
-      // Find the position of current order in the day's orders
-      const orderIndex = dayOrders?.findIndex(o => o.id === order.id) ?? -1;
-      const sequenceNumber = orderIndex >= 0 ? orderIndex + 1 : 1;
-      
-      return `${year}/${dayOfYear.toString().padStart(3, '0')}/${sequenceNumber.toString().padStart(3, '0')}`;
-      
-    } catch (error) {
-      console.error('Error generating order number:', error);
-      // Fallback format
-      const date = new Date(order.created_at);
-      const year = date.getFullYear();
-      const dayOfYear = Math.floor((date.getTime() - new Date(year, 0, 0).getTime()) / (1000 * 60 * 60 * 24));
-      const orderSequence = parseInt(order.id.slice(-4), 16) % 999 + 1;
-      
-      return `${year}/${dayOfYear.toString().padStart(3, '0')}/${orderSequence.toString().padStart(3, '0')}`;
-    }
-  };
-
   const getStatusColor = (status: string) => {
     const colors = {
       pending: 'bg-yellow-100 text-yellow-800',
@@ -331,7 +281,6 @@ export default function OrdersPage() {
                 getNextStatus={getNextStatus}
                 updateOrderStatus={updateOrderStatus}
                 setEditingOrder={setEditingOrder}
-                generateLocalizedOrderNumber={generateLocalizedOrderNumber}
                 user={user}
                 t={t}
               />
@@ -382,7 +331,7 @@ export default function OrdersPage() {
   );
 }
 
-// Separate component for order cards to handle async order number generation
+// Separate component for a single order card
 function OrderCard({ 
   order, 
   canEdit, 
@@ -391,16 +340,9 @@ function OrderCard({
   getNextStatus, 
   updateOrderStatus, 
   setEditingOrder, 
-  generateLocalizedOrderNumber,
   user,
   t 
 }: any) {
-  const [localizedOrderNumber, setLocalizedOrderNumber] = useState('');
-
-  useEffect(() => {
-    generateLocalizedOrderNumber(order).then(setLocalizedOrderNumber);
-  }, [order, generateLocalizedOrderNumber]);
-
   return (
     <div className="bg-white rounded-xl shadow-md border border-gray-100 overflow-hidden">
       <div className="p-6">
@@ -418,7 +360,7 @@ function OrderCard({
             <div>
               <div className="flex items-center gap-2">
                 <h3 className="text-lg font-semibold text-gray-900">
-                  {t('orders.orderNumber')}{localizedOrderNumber || order.id.slice(0, 8)}
+                  {t('orders.orderNumber')}{getOrderNumber(order)}
                 </h3>
                 <Unlock className="w-4 h-4 text-green-600" title="Order editable" />
               </div>
@@ -463,6 +405,11 @@ function OrderCard({
                     <span className="font-medium text-gray-900">
                       {item.quantity}x {item.menu_item?.name || 'Unknown Item'}
                     </span>
+                    {item.seat_number && (
+                      <span className="ml-2 text-xs bg-blue-100 text-blue-800 px-2 py-0.5 rounded">
+                        {t('tables.seat')} {item.seat_number}
+                      </span>
+                    )}
                     {item.notes && (
                       <p className="text-sm text-gray-600 italic">Note: {item.notes}</p>
                     )}
@@ -0,0 +1,118 @@
+import { useState, useEffect, useMemo } from 'react';
+import { X, QrCode, AlertCircle, CheckCircle } from 'lucide-react';
+import { useLanguage } from '../contexts/LanguageContext';
+import { CompanyData, loadCompanyData } from '../lib/companySettings';
+import { generateEPCPayload, getQRCodeDataURL, formatIBAN, isValidIBAN } from '../lib/paymentQRCode';
+
+interface PaymentQRModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  amount: number;
+  reference: string;
+  onTransferReceived?: () => void;
+}
+
+const formatEuro = (value: number) => `€${value.toFixed(2).replace('.', ',')}`;
+
+// Customer-facing screen: the guest scans the GiroCode with their banking app
+export default function PaymentQRModal({ isOpen, onClose, amount, reference, onTransferReceived }: PaymentQRModalProps) {
+  const [companyData, setCompanyData] = useState<CompanyData | null>(null);
+  const { t } = useLanguage();
+
+  useEffect(() => {
+    if (isOpen) {
+      loadCompanyData().then(setCompanyData);
+    }
+  }, [isOpen]);
+
+  const payment = useMemo(() => {
+    if (!companyData) return null;
+    if (!companyData.iban || !isValidIBAN(companyData.iban)) return null;
+
+    const accountHolder = companyData.accountHolder || companyData.name;
+    try {
+      const payload = generateEPCPayload({
+        name: accountHolder,
+        iban: companyData.iban,
+        bic: companyData.bic,
+        amount,
+        remittance: reference
+      });
+      return {
+        qrCode: getQRCodeDataURL(payload),
+        accountHolder,
+        iban: formatIBAN(companyData.iban),
+        bic: companyData.bic
+      };
+    } catch (error) {
+      console.error('Error generating GiroCode:', error);
+      return null;
+    }
+  }, [companyData, amount, reference]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center p-4 z-[60]">
+      <div className="bg-white rounded-xl shadow-xl max-w-lg w-full max-h-[95vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <div className="flex items-center gap-2 text-gray-900">
+            <QrCode className="w-5 h-5" />
+            <h2 className="text-lg font-semibold">{t('payments.girocode')}</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 text-center">
+          <p className="text-4xl font-bold text-gray-900 mb-2">{formatEuro(amount)}</p>
+
+          {payment ? (
+            <>
+              <p className="text-gray-600 mb-6">{t('payments.scanToPay')}</p>
+              <img
+                src={payment.qrCode}
+                alt={t('payments.girocode')}
+                className="w-72 h-72 mx-auto border border-gray-200 rounded-lg"
+              />
+              <div className="mt-6 space-y-1 text-sm text-gray-700">
+                <p>
+                  <span className="text-gray-500">{t('payments.accountHolder')}:</span> {payment.accountHolder}
+                </p>
+                <p className="font-mono">
+                  IBAN: {payment.iban}{payment.bic ? ` · BIC: ${payment.bic}` : ''}
+                </p>
+                <p>
+                  <span className="text-gray-500">{t('payments.reference')}:</span> {reference}
+                </p>
+              </div>
+            </>
+          ) : companyData && (
+            <div className="mt-4 p-4 bg-red-50 border border-red-200 rounded-lg">
+              <div className="flex items-start gap-2 text-left">
+                <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
+                <p className="text-red-700">{t('payments.ibanMissing')}</p>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {payment && onTransferReceived && (
+          <div className="border-t border-gray-200 p-4 bg-gray-50">
+            <button
+              onClick={onTransferReceived}
+              className="w-full bg-green-600 text-white px-4 py-3 rounded-lg hover:bg-green-700 flex items-center justify-center gap-2 font-medium"
+            >
+              <CheckCircle className="w-4 h-4" />
+              {t('payments.transferReceived')}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
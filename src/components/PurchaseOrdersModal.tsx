@@ -0,0 +1,371 @@
+import { useState, useEffect } from 'react';
+import { X, ClipboardList, AlertCircle, AlertTriangle, Trash2, Send, FileText, Download, PackageCheck, Wand2, Ban } from 'lucide-react';
+import { PurchaseOrder } from '../lib/supabase';
+import {
+  OPEN_PURCHASE_ORDER_STATUSES, getPurchaseOrderStatus, getPurchaseOrderTotal, isBelowMinimumOrder, getPurchaseOrderLabel,
+  loadPurchaseOrders, createDraftPurchaseOrders, updatePurchaseOrderItem, deletePurchaseOrderItem,
+  markPurchaseOrderSent, cancelPurchaseOrder, receivePurchaseOrder,
+  downloadPurchaseOrderCSV, downloadPurchaseOrderPDF
+} from '../lib/purchasing';
+import { formatMoney } from '../lib/invoiceSystem';
+
+interface PurchaseOrdersModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onReceived?: () => void;
+}
+
+export default function PurchaseOrdersModal({ isOpen, onClose, onReceived }: PurchaseOrdersModalProps) {
+  const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrder[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [showClosed, setShowClosed] = useState(false);
+  const [receivedPacks, setReceivedPacks] = useState<Record<string, string>>({});
+  const [closeOrder, setCloseOrder] = useState(false);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const loadData = async () => {
+    setPurchaseOrders(await loadPurchaseOrders());
+  };
+
+  useEffect(() => {
+    if (isOpen) {
+      setError('');
+      setNotice('');
+      setSelectedId(null);
+      loadData();
+    }
+  }, [isOpen]);
+
+  const selected = purchaseOrders.find(purchaseOrder => purchaseOrder.id === selectedId) || null;
+
+  // Receiving starts with what is still missing
+  useEffect(() => {
+    setCloseOrder(false);
+    setReceivedPacks(Object.fromEntries((selected?.purchase_order_items || []).map(item => [
+      item.id,
+      String(Math.max(0, item.packs_ordered - item.packs_received))
+    ])));
+  }, [selected]);
+
+  const runAction = async (action: () => Promise<void>, failure: string) => {
+    setError('');
+    setNotice('');
+    setBusy(true);
+    try {
+      await action();
+      await loadData();
+    } catch (err) {
+      console.error(failure, err);
+      setError(`${failure}: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCreateDrafts = () => runAction(async () => {
+    const added = await createDraftPurchaseOrders();
+    setNotice(added > 0
+      ? `${added} low stock item${added === 1 ? '' : 's'} added to draft purchase orders`
+      : 'Nothing to order: all low stock items are on open orders or have no supplier');
+    setShowClosed(false);
+  }, 'Failed to create purchase orders');
+
+  const handleReceive = (purchaseOrder: PurchaseOrder) => runAction(async () => {
+    const received = Object.entries(receivedPacks)
+      .map(([id, packs]) => ({ id, packs: parseFloat(packs) || 0 }))
+      .filter(item => item.packs > 0);
+
+    if (received.length === 0 && !closeOrder) {
+      throw new Error('Enter the received packs');
+    }
+
+    await receivePurchaseOrder(purchaseOrder.id, received, closeOrder);
+    setNotice('Goods received and booked into the inventory');
+    onReceived?.();
+  }, 'Failed to receive goods');
+
+  const handleExportPDF = async (purchaseOrder: PurchaseOrder) => {
+    try {
+      await downloadPurchaseOrderPDF(purchaseOrder);
+    } catch (err) {
+      console.error('Error generating purchase order PDF:', err);
+      setError('Failed to generate PDF');
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const visibleOrders = purchaseOrders.filter(purchaseOrder =>
+    showClosed || OPEN_PURCHASE_ORDER_STATUSES.includes(purchaseOrder.status)
+  );
+  const isDraft = selected?.status === 'draft';
+  const isReceiving = selected?.status === 'sent' || selected?.status === 'partially_received';
+  const inputClassName = 'w-20 px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-purple-500 focus:border-transparent text-right';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl max-w-6xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        <div className="bg-gradient-to-r from-purple-500 to-purple-600 p-6 text-white">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="p-3 bg-white/20 rounded-lg">
+                <ClipboardList className="w-6 h-6" />
+              </div>
+              <div>
+                <h2 className="text-xl font-bold">Purchase Orders</h2>
+                <p className="opacity-90">Reorder low stock and book deliveries</p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-white/20 rounded-lg transition-colors"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-hidden flex">
+          {/* Order List */}
+          <div className="w-72 border-r border-gray-200 overflow-y-auto p-4 space-y-2">
+            <button
+              onClick={handleCreateDrafts}
+              disabled={busy}
+              className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors disabled:opacity-50"
+            >
+              <Wand2 className="w-4 h-4" />
+              Order Low Stock
+            </button>
+            <label className="flex items-center gap-2 text-sm text-gray-600 px-1">
+              <input
+                type="checkbox"
+                checked={showClosed}
+                onChange={(e) => setShowClosed(e.target.checked)}
+                className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+              />
+              Show received and cancelled
+            </label>
+            {visibleOrders.map(purchaseOrder => {
+              const status = getPurchaseOrderStatus(purchaseOrder.status);
+              return (
+                <button
+                  key={purchaseOrder.id}
+                  onClick={() => setSelectedId(purchaseOrder.id)}
+                  className={`w-full text-left px-3 py-2 rounded-lg transition-colors ${
+                    purchaseOrder.id === selectedId ? 'bg-purple-100' : 'hover:bg-gray-100'
+                  }`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium text-gray-900">{getPurchaseOrderLabel(purchaseOrder)}</span>
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${status.color}`}>{status.label}</span>
+                  </div>
+                  <div className="flex items-center justify-between text-xs text-gray-500 mt-1">
+                    <span>{purchaseOrder.supplier?.name}</span>
+                    <span>{formatMoney(getPurchaseOrderTotal(purchaseOrder))}</span>
+                  </div>
+                </button>
+              );
+            })}
+            {visibleOrders.length === 0 && (
+              <p className="text-sm text-gray-500 text-center py-4">No purchase orders</p>
+            )}
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-6 space-y-4">
+            {error && (
+              <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center gap-2">
+                <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
+                <p className="text-red-700">{error}</p>
+              </div>
+            )}
+            {notice && (
+              <div className="p-4 bg-green-50 border border-green-200 rounded-lg">
+                <p className="text-green-700">{notice}</p>
+              </div>
+            )}
+
+            {selected ? (
+              <>
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <h3 className="text-2xl font-bold text-gray-900">{getPurchaseOrderLabel(selected)}</h3>
+                    <p className="text-gray-600">
+                      {selected.supplier?.name}
+                      {selected.supplier?.email && ` · ${selected.supplier.email}`}
+                      {selected.supplier?.phone && ` · ${selected.supplier.phone}`}
+                    </p>
+                    <p className="text-sm text-gray-500 mt-1">
+                      Created {new Date(selected.created_at).toLocaleDateString()}
+                      {selected.sent_at && ` · sent ${new Date(selected.sent_at).toLocaleDateString()}`}
+                      {selected.expected_at && ` · expected ${new Date(selected.expected_at).toLocaleDateString()}`}
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => handleExportPDF(selected)}
+                      className="flex items-center gap-2 px-3 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+                    >
+                      <FileText className="w-4 h-4" />
+                      PDF
+                    </button>
+                    <button
+                      onClick={() => downloadPurchaseOrderCSV(selected)}
+                      className="flex items-center gap-2 px-3 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+                    >
+                      <Download className="w-4 h-4" />
+                      CSV
+                    </button>
+                  </div>
+                </div>
+
+                {isDraft && isBelowMinimumOrder(selected) && (
+                  <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg flex items-center gap-2 text-sm text-yellow-800">
+                    <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                    Below the minimum order of {formatMoney(selected.supplier?.minimum_order || 0)} for this supplier
+                  </div>
+                )}
+
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Item</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Pack</th>
+                      <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Packs</th>
+                      <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Price</th>
+                      <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Total</th>
+                      {!isDraft && (
+                        <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Received</th>
+                      )}
+                      {isReceiving && (
+                        <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Receive Now</th>
+                      )}
+                      {isDraft && <th className="px-3 py-2"></th>}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {(selected.purchase_order_items || []).map(item => {
+                      const short = item.packs_received < item.packs_ordered;
+                      return (
+                        <tr key={item.id}>
+                          <td className="px-3 py-2">
+                            <div className="text-gray-900">{item.item_name}</div>
+                            {item.supplier_sku && <div className="text-xs text-gray-500">{item.supplier_sku}</div>}
+                          </td>
+                          <td className="px-3 py-2 text-gray-600">{item.pack_size} {item.unit}</td>
+                          <td className="px-3 py-2 text-right">
+                            {isDraft ? (
+                              <input
+                                type="number"
+                                min="1"
+                                step="1"
+                                defaultValue={item.packs_ordered}
+                                onBlur={(e) => {
+                                  const packs = parseFloat(e.target.value);
+                                  if (packs > 0 && packs !== item.packs_ordered) {
+                                    runAction(() => updatePurchaseOrderItem(item.id, { packs_ordered: packs }), 'Failed to update line');
+                                  }
+                                }}
+                                className={inputClassName}
+                              />
+                            ) : item.packs_ordered}
+                          </td>
+                          <td className="px-3 py-2 text-right text-gray-600">{formatMoney(item.pack_price)}</td>
+                          <td className="px-3 py-2 text-right text-gray-900">{formatMoney(item.packs_ordered * item.pack_price)}</td>
+                          {!isDraft && (
+                            <td className={`px-3 py-2 text-right ${short ? 'text-orange-600' : 'text-green-600'}`}>
+                              {item.packs_received}
+                              {short && item.packs_received > 0 && ` (${item.packs_received - item.packs_ordered})`}
+                            </td>
+                          )}
+                          {isReceiving && (
+                            <td className="px-3 py-2 text-right">
+                              <input
+                                type="number"
+                                min="0"
+                                step="1"
+                                value={receivedPacks[item.id] ?? ''}
+                                onChange={(e) => setReceivedPacks(prev => ({ ...prev, [item.id]: e.target.value }))}
+                                className={inputClassName}
+                              />
+                            </td>
+                          )}
+                          {isDraft && (
+                            <td className="px-3 py-2 text-right">
+                              <button
+                                onClick={() => runAction(() => deletePurchaseOrderItem(item.id), 'Failed to remove line')}
+                                className="p-1 text-gray-400 hover:text-red-600"
+                                title="Remove line"
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </button>
+                            </td>
+                          )}
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                  <tfoot>
+                    <tr className="border-t-2 border-gray-200">
+                      <td colSpan={4} className="px-3 py-2 font-semibold text-gray-900">Total (net)</td>
+                      <td className="px-3 py-2 text-right font-semibold text-gray-900">{formatMoney(getPurchaseOrderTotal(selected))}</td>
+                    </tr>
+                  </tfoot>
+                </table>
+
+                {isDraft && (
+                  <div className="flex gap-3">
+                    <button
+                      onClick={() => runAction(() => markPurchaseOrderSent(selected), 'Failed to send purchase order')}
+                      disabled={busy || !selected.purchase_order_items?.length}
+                      className="flex items-center gap-2 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors disabled:opacity-50"
+                    >
+                      <Send className="w-4 h-4" />
+                      Mark as Sent
+                    </button>
+                    <button
+                      onClick={() => runAction(() => cancelPurchaseOrder(selected.id), 'Failed to cancel purchase order')}
+                      disabled={busy}
+                      className="flex items-center gap-2 px-4 py-2 border border-red-300 text-red-600 rounded-lg hover:bg-red-50 transition-colors disabled:opacity-50"
+                    >
+                      <Ban className="w-4 h-4" />
+                      Cancel Order
+                    </button>
+                  </div>
+                )}
+
+                {isReceiving && (
+                  <div className="bg-gray-50 rounded-lg p-4 flex items-center justify-between gap-4">
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={closeOrder}
+                        onChange={(e) => setCloseOrder(e.target.checked)}
+                        className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+                      />
+                      Close the order, nothing more will be delivered
+                    </label>
+                    <button
+                      onClick={() => handleReceive(selected)}
+                      disabled={busy}
+                      className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+                    >
+                      <PackageCheck className="w-4 h-4" />
+                      Book Receipt
+                    </button>
+                  </div>
+                )}
+              </>
+            ) : (
+              <div className="text-center py-16 text-gray-500">
+                <ClipboardList className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+                Select a purchase order, or order everything that is running low
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
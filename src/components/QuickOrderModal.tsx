@@ -3,14 +3,22 @@ import {
   X, Mic, MicOff, Play, Pause, RotateCcw, Send, 
   AlertCircle, CheckCircle, Volume2, Loader, 
   ShoppingCart, User, MapPin, Utensils, RefreshCw,
-  FileText, Download, Mail, Calculator, Receipt,
+  FileText, Download, Mail, Calculator, Receipt, FileCode,
   QrCode, Building, Phone, Globe, Euro, Settings
 } from 'lucide-react';
-import { supabase, MenuItem } from '../lib/supabase';
+import { supabase, MenuItem, Order, OrderItemModifier, TaxRate } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
 import { useLanguage } from '../contexts/LanguageContext';
 import { aiChatBackend } from '../lib/aiChatBackend';
-import { generateInvoicePDF, sendInvoiceEmail, generateDATEVExport } from '../lib/invoiceSystem';
+import {
+  generateInvoicePDF, sendInvoiceEmail, retryFailedInvoiceEmails,
+  generateXRechnung, generateZUGFeRDInvoicePDF, EInvoiceValidationError
+} from '../lib/invoiceSystem';
+import { getOrderNumber, getFileSafeNumber } from '../lib/orderNumbers';
+import { filterActiveMenuItems } from '../lib/menus';
+import { exportDATEVForInvoices } from '../lib/datevExport';
+import { DEFAULT_TAX_RATES, loadTaxRates, getVatRate, calculateIncludedVat } from '../lib/taxRates';
+import { CompanyData, DEFAULT_COMPANY_DATA, loadCompanyData } from '../lib/companySettings';
 import CompanySettingsModal from './CompanySettingsModal';
 
 interface QuickOrderModalProps {
@@ -28,6 +36,7 @@ interface ParsedOrderItem {
   totalPrice: number;
   vatRate: number;
   vatAmount: number;
+  modifiers?: OrderItemModifier[];
 }
 
 interface ParsedOrder {
@@ -49,21 +58,9 @@ interface InvoiceData {
   subtotal: number;
   totalVat: number;
   grandTotal: number;
-  qrCode?: string;
   notes?: string;
 }
 
-interface CompanyData {
-  name: string;
-  address: string;
-  city: string;
-  phone: string;
-  email: string;
-  website: string;
-  taxNumber: string;
-  vatId: string;
-}
-
 export default function QuickOrderModal({ isOpen, onClose, onOrderPlaced }: QuickOrderModalProps) {
   const [isRecording, setIsRecording] = useState(false);
   const [audioBlob, setAudioBlob] = useState<Blob | null>(null);
@@ -75,25 +72,21 @@ export default function QuickOrderModal({ isOpen, onClose, onOrderPlaced }: Quic
   const [isPlaying, setIsPlaying] = useState(false);
   const [customerName, setCustomerName] = useState('');
   const [tableNumber, setTableNumber] = useState('');
+  const [serviceType, setServiceType] = useState<NonNullable<Order['service_type']>>('dine_in');
+  const [taxRates, setTaxRates] = useState<TaxRate[]>(DEFAULT_TAX_RATES);
   const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
   const [isCreatingOrder, setIsCreatingOrder] = useState(false);
   const [speechSupported, setSpeechSupported] = useState(false);
   const [permissionGranted, setPermissionGranted] = useState(false);
   const [invoiceData, setInvoiceData] = useState<InvoiceData | null>(null);
+  const [createdOrderId, setCreatedOrderId] = useState<string | null>(null);
   const [isGeneratingInvoice, setIsGeneratingInvoice] = useState(false);
   const [isSendingEmail, setIsSendingEmail] = useState(false);
   const [isExportingDATEV, setIsExportingDATEV] = useState(false);
+  const [isExportingEInvoice, setIsExportingEInvoice] = useState(false);
+  const [eInvoiceErrors, setEInvoiceErrors] = useState<string[]>([]);
   const [showCompanySettings, setShowCompanySettings] = useState(false);
-  const [companyData, setCompanyData] = useState<CompanyData>({
-    name: "RestaurantOS GmbH",
-    address: "Musterstraße 123",
-    city: "12345 Musterstadt",
-    phone: "+49 123 456789",
-    email: "info@restaurantos.de",
-    website: "www.restaurantos.de",
-    taxNumber: "DE123456789",
-    vatId: "DE987654321"
-  });
+  const [companyData, setCompanyData] = useState<CompanyData>(DEFAULT_COMPANY_DATA);
 
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
@@ -102,14 +95,12 @@ export default function QuickOrderModal({ isOpen, onClose, onOrderPlaced }: Quic
   const { user } = useAuth();
   const { t } = useLanguage();
 
-  // Tax accountant email
-  const accountantEmail = "buchhaltung@kanzlei.de";
-  const ccEmail = "info@meinbetrieb.de";
-
   useEffect(() => {
     if (isOpen) {
       loadMenuItems();
-      loadCompanyData();
+      loadCompanyData().then(setCompanyData);
+      loadTaxRates().then(setTaxRates);
+      retryFailedInvoiceEmails();
       checkSpeechSupport();
       resetForm();
     }
@@ -121,21 +112,10 @@ export default function QuickOrderModal({ isOpen, onClose, onOrderPlaced }: Quic
     };
   }, [isOpen]);
 
-  const loadCompanyData = () => {
-    const savedData = localStorage.getItem('company-settings');
-    if (savedData) {
-      try {
-        const parsed = JSON.parse(savedData);
-        setCompanyData(parsed);
-      } catch (error) {
-        console.error('Error loading company data:', error);
-      }
-    }
-  };
-
   const handleCompanyDataSave = (newCompanyData: CompanyData) => {
     setCompanyData(newCompanyData);
     setShowCompanySettings(false);
+    setEInvoiceErrors([]);
   };
 
   const checkSpeechSupport = () => {
@@ -165,10 +145,11 @@ export default function QuickOrderModal({ isOpen, onClose, onOrderPlaced }: Quic
         throw new Error(`${t('error.failedToLoad')}: ${error.message}`);
       }
       
-      console.log('Menu items loaded:', data?.length || 0);
-      setMenuItems(data || []);
+      const items = await filterActiveMenuItems(data || []);
+      console.log('Menu items loaded:', items.length);
+      setMenuItems(items);
       
-      if (!data || data.length === 0) {
+      if (items.length === 0) {
         setError(t('error.noMenuItems'));
       }
     } catch (error: any) {
@@ -262,11 +243,14 @@ export default function QuickOrderModal({ isOpen, onClose, onOrderPlaced }: Quic
     setAudioBlob(null);
     setCustomerName('');
     setTableNumber('');
+    setServiceType('dine_in');
     setIsProcessing(false);
     setIsCreatingOrder(false);
     setIsRecording(false);
     setIsPlaying(false);
     setInvoiceData(null);
+    setCreatedOrderId(null);
+    setEInvoiceErrors([]);
   };
 
   const requestMicrophonePermission = async () => {
@@ -435,7 +419,7 @@ ANWEISUNGEN:
 3. Identifiziere bestellte Artikel und Mengen
 4. Ordne Artikel den exakten Menüpunkt-Namen von oben zu
 5. Extrahiere besondere Anweisungen oder Notizen
-6. Berechne Preise mit 19% MwSt (im Preis enthalten)
+6. Preise sind Bruttopreise, die MwSt wird vom System berechnet
 7. Falls ein Artikel erwähnt aber nicht auf der Speisekarte ist, trotzdem aufnehmen aber markieren
 
 ANTWORTE NUR MIT GÜLTIGEM JSON:
@@ -448,14 +432,11 @@ ANTWORTE NUR MIT GÜLTIGEM JSON:
       "quantity": Zahl,
       "notes": "besondere Anweisungen oder null",
       "unitPrice": Preis pro Stück,
-      "vatRate": 19,
-      "vatAmount": MwSt-Betrag,
       "totalPrice": Gesamtpreis für diesen Artikel
     }
   ],
   "specialInstructions": "allgemeine Bestellnotizen oder null",
   "subtotal": Zwischensumme,
-  "totalVat": Gesamt-MwSt,
   "grandTotal": Gesamtbetrag
 }
 
@@ -464,7 +445,6 @@ WICHTIG:
 - Kundenname und Tischnummer sind optional
 - Menge muss eine positive Zahl sein
 - Alle Preise in Euro
-- MwSt ist im Preis enthalten (19%)
 - Gib nur gültiges JSON zurück, keinen anderen Text`;
 
       console.log('Sending prompt to AI backend...');
@@ -531,18 +511,15 @@ WICHTIG:
         
         console.log(`Matching "${item.name}" with menu item:`, menuItem?.name || 'No match found');
         
-        // Calculate VAT and prices
         const unitPrice = menuItem ? menuItem.price : item.unitPrice || 0;
-        const totalPrice = unitPrice * item.quantity;
-        const vatAmount = totalPrice * 0.19 / 1.19; // VAT included in price
         
         return {
           ...item,
           menuItem,
           unitPrice,
-          totalPrice,
-          vatRate: 19,
-          vatAmount
+          totalPrice: unitPrice * item.quantity,
+          vatRate: 0,
+          vatAmount: 0
         };
       });
 
@@ -551,17 +528,9 @@ WICHTIG:
         throw new Error(t('voice.noValidMenuItems'));
       }
 
-      // Recalculate totals
-      const subtotal = matchedItems.reduce((sum, item) => sum + item.totalPrice, 0);
-      const totalVat = matchedItems.reduce((sum, item) => sum + item.vatAmount, 0);
-
-      setParsedOrder({
-        ...parsed,
-        items: matchedItems,
-        subtotal,
-        totalVat,
-        grandTotal: subtotal
-      });
+      const orderServiceType = parsed.tableNumber ? 'dine_in' : serviceType;
+      setServiceType(orderServiceType);
+      setParsedOrder(applyVat({ ...parsed, items: matchedItems }, orderServiceType));
 
       if (parsed.customerName) {
         setCustomerName(parsed.customerName);
@@ -580,20 +549,41 @@ WICHTIG:
     }
   };
 
+  // Calculate VAT per item from its tax category and the service type, prices include VAT
+  const applyVat = (order: ParsedOrder, type: NonNullable<Order['service_type']>): ParsedOrder => {
+    const items = order.items.map(item => {
+      const vatRate = getVatRate(taxRates, item.menuItem, type);
+      return { ...item, vatRate, vatAmount: calculateIncludedVat(item.totalPrice, vatRate) };
+    });
+
+    // Only items found on the menu end up in the order, so only they count towards the totals
+    const billedItems = items.filter(item => item.menuItem);
+    const subtotal = billedItems.reduce((sum, item) => sum + item.totalPrice, 0);
+    const totalVat = billedItems.reduce((sum, item) => sum + item.vatAmount, 0);
+
+    return { ...order, items, subtotal, totalVat, grandTotal: subtotal };
+  };
+
+  const handleServiceTypeChange = (type: NonNullable<Order['service_type']>) => {
+    setServiceType(type);
+    if (parsedOrder) {
+      setParsedOrder(applyVat(parsedOrder, type));
+    }
+  };
+
+  const getVatBreakdown = (items: ParsedOrderItem[]) =>
+    Object.entries(
+      items.filter(item => item.menuItem).reduce((rates, item) => {
+        rates[item.vatRate] = (rates[item.vatRate] || 0) + item.vatAmount;
+        return rates;
+      }, {} as Record<number, number>)
+    ).map(([rate, amount]) => ({ rate: Number(rate), amount })).sort((a, b) => a.rate - b.rate);
+
   const generateGuestName = () => {
     const guestNumber = Math.floor(Math.random() * 9999) + 1;
     return `${t('common.guest')} ${guestNumber}`;
   };
 
-  const generateInvoiceNumber = () => {
-    const date = new Date();
-    const year = date.getFullYear();
-    const month = String(date.getMonth() + 1).padStart(2, '0');
-    const day = String(date.getDate()).padStart(2, '0');
-    const time = String(date.getHours()).padStart(2, '0') + String(date.getMinutes()).padStart(2, '0');
-    return `RG-${year}${month}${day}-${time}`;
-  };
-
   const createOrderAndInvoice = async () => {
     if (!parsedOrder || !user) {
       setError(t('voice.noOrderToCreate'));
@@ -627,6 +617,7 @@ WICHTIG:
         waiter_id: user.role === 'waiter' || user.role === 'manager' ? user.id : null,
         table_number: tableNum,
         customer_name: finalCustomerName,
+        service_type: serviceType,
         status: 'pending' as const,
         total: parsedOrder.grandTotal,
       };
@@ -652,15 +643,18 @@ WICHTIG:
         menu_item_id: item.menuItem!.id,
         quantity: item.quantity,
         price: item.unitPrice,
+        vat_rate: item.vatRate,
         notes: item.notes || parsedOrder.specialInstructions || `${t('voice.voiceOrder')}: "${transcript.slice(0, 100)}${transcript.length > 100 ? '...' : ''}"`,
+        modifiers: item.modifiers || [],
         status: 'pending' as const
       }));
 
       console.log('Inserting order items:', orderItemsData);
 
-      const { error: itemsError } = await supabase
+      const { data: createdItems, error: itemsError } = await supabase
         .from('order_items')
-        .insert(orderItemsData);
+        .insert(orderItemsData)
+        .select('modifiers');
 
       if (itemsError) {
         console.error('Error creating order items:', itemsError);
@@ -670,7 +664,8 @@ WICHTIG:
       console.log('Quick voice order created successfully!');
 
       // Generate invoice data
-      const invoiceNumber = generateInvoiceNumber();
+      // The invoice number is the order number assigned by the database
+      const invoiceNumber = getOrderNumber(createdOrder);
       const invoiceDate = new Date().toLocaleDateString('de-DE');
       
       const invoice: InvoiceData = {
@@ -678,7 +673,11 @@ WICHTIG:
         date: invoiceDate,
         customerName: finalCustomerName,
         tableNumber: tableNum || undefined,
-        items: validItems,
+        // The options of each line go on the invoice, their price is part of the unit price
+        items: validItems.map((item, index) => ({
+          ...item,
+          modifiers: createdItems?.[index]?.modifiers || []
+        })),
         subtotal: parsedOrder.subtotal,
         totalVat: parsedOrder.totalVat,
         grandTotal: parsedOrder.grandTotal,
@@ -686,7 +685,8 @@ WICHTIG:
       };
 
       setInvoiceData(invoice);
-      setSuccess(`${t('voice.voiceOrderCreated')} ${t('orders.orderNumber')}${createdOrder.id.slice(0, 8)} - ${t('common.total')}: €${parsedOrder.grandTotal.toFixed(2)}`);
+      setCreatedOrderId(createdOrder.id);
+      setSuccess(`${t('voice.voiceOrderCreated')} ${t('orders.orderNumber')}${invoiceNumber} - ${t('common.total')}: €${parsedOrder.grandTotal.toFixed(2)}`);
 
     } catch (error: any) {
       console.error('Error creating order:', error);
@@ -709,7 +709,7 @@ WICHTIG:
       const url = URL.createObjectURL(pdfBlob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = `Rechnung-${invoiceData.invoiceNumber}.pdf`;
+      a.download = `Rechnung-${getFileSafeNumber(invoiceData.invoiceNumber)}.pdf`;
       document.body.appendChild(a);
       a.click();
       document.body.removeChild(a);
@@ -727,15 +727,24 @@ WICHTIG:
   const handleSendEmail = async () => {
     if (!invoiceData) return;
 
+    if (!companyData.accountantEmail?.trim()) {
+      setError(t('quickOrder.accountantEmailMissing'));
+      setShowCompanySettings(true);
+      return;
+    }
+
     try {
       setIsSendingEmail(true);
       console.log('Sending invoice email...');
 
-      await sendInvoiceEmail(invoiceData, companyData, accountantEmail, ccEmail);
+      await sendInvoiceEmail(invoiceData, companyData, {
+        orderId: createdOrderId || undefined,
+        createdBy: user?.id
+      });
       setSuccess(t('quickOrder.invoiceEmailSent'));
     } catch (error) {
       console.error('Error sending email:', error);
-      setError(t('quickOrder.emailSendingError'));
+      setError(`${t('quickOrder.emailSendingError')}: ${error instanceof Error ? error.message : error}. ${t('quickOrder.emailWillBeRetried')}`);
     } finally {
       setIsSendingEmail(false);
     }
@@ -748,13 +757,13 @@ WICHTIG:
       setIsExportingDATEV(true);
       console.log('Generating DATEV export...');
 
-      const csvBlob = await generateDATEVExport([invoiceData]);
+      const csvBlob = await exportDATEVForInvoices([invoiceData], taxRates);
       
       // Download the CSV
       const url = URL.createObjectURL(csvBlob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = `DATEV-Export-${invoiceData.date.replace(/\./g, '')}.csv`;
+      a.download = `EXTF_Buchungsstapel_${getFileSafeNumber(invoiceData.invoiceNumber)}.csv`;
       document.body.appendChild(a);
       a.click();
       document.body.removeChild(a);
@@ -763,12 +772,48 @@ WICHTIG:
       setSuccess(t('quickOrder.datevExportGenerated'));
     } catch (error) {
       console.error('Error generating DATEV export:', error);
-      setError(t('quickOrder.datevExportError'));
+      setError(`${t('quickOrder.datevExportError')}: ${error instanceof Error ? error.message : error}`);
     } finally {
       setIsExportingDATEV(false);
     }
   };
 
+  const handleEInvoiceExport = async (format: 'xrechnung' | 'zugferd') => {
+    if (!invoiceData) return;
+
+    try {
+      setIsExportingEInvoice(true);
+      setEInvoiceErrors([]);
+      console.log(`Generating ${format} e-invoice...`);
+
+      const blob = format === 'xrechnung'
+        ? await generateXRechnung(invoiceData, companyData)
+        : await generateZUGFeRDInvoicePDF(invoiceData, companyData);
+
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = format === 'xrechnung'
+        ? `XRechnung-${getFileSafeNumber(invoiceData.invoiceNumber)}.xml`
+        : `Rechnung-${getFileSafeNumber(invoiceData.invoiceNumber)}-ZUGFeRD.pdf`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+
+      setSuccess(t('quickOrder.eInvoiceGenerated'));
+    } catch (error) {
+      console.error('Error generating e-invoice:', error);
+      if (error instanceof EInvoiceValidationError) {
+        setEInvoiceErrors(error.errors);
+      } else {
+        setError(t('quickOrder.eInvoiceError'));
+      }
+    } finally {
+      setIsExportingEInvoice(false);
+    }
+  };
+
   const calculateTotal = () => {
     if (!parsedOrder) return 0;
     return parsedOrder.grandTotal;
@@ -1043,6 +1088,23 @@ WICHTIG:
                 </div>
               </div>
 
+              {/* Service type decides the VAT rate of food */}
+              <div className="flex gap-2 mb-4">
+                {(['dine_in', 'takeaway'] as const).map(type => (
+                  <button
+                    key={type}
+                    onClick={() => handleServiceTypeChange(type)}
+                    className={`flex-1 px-3 py-2 rounded-lg border text-sm font-medium transition-colors ${
+                      serviceType === type
+                        ? 'bg-green-600 border-green-600 text-white'
+                        : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    {t(`orders.serviceType.${type}`)}
+                  </button>
+                ))}
+              </div>
+
               {/* Order Items */}
               <div className="bg-white rounded-lg border border-green-200 p-4 mb-4">
                 <h4 className="font-medium text-gray-900 mb-3">{t('quickOrder.orderItems')}:</h4>
@@ -1071,7 +1133,7 @@ WICHTIG:
                           {item.menuItem && (
                             <div className="text-sm text-gray-500 mt-1">
                               <p>€{item.unitPrice.toFixed(2)} {t('orders.each')}</p>
-                              <p>{t('quickOrder.vat')} (19%): €{item.vatAmount.toFixed(2)}</p>
+                              <p>{t('quickOrder.vat')} ({item.vatRate}%): €{item.vatAmount.toFixed(2)}</p>
                             </div>
                           )}
                         </div>
@@ -1103,10 +1165,12 @@ WICHTIG:
                     <span>{t('quickOrder.subtotal')}:</span>
                     <span>€{(parsedOrder.subtotal - parsedOrder.totalVat).toFixed(2)}</span>
                   </div>
-                  <div className="flex justify-between items-center">
-                    <span>{t('quickOrder.vat')} (19%):</span>
-                    <span>€{parsedOrder.totalVat.toFixed(2)}</span>
-                  </div>
+                  {getVatBreakdown(parsedOrder.items).map(entry => (
+                    <div key={entry.rate} className="flex justify-between items-center">
+                      <span>{t('quickOrder.vat')} ({entry.rate}%):</span>
+                      <span>€{entry.amount.toFixed(2)}</span>
+                    </div>
+                  ))}
                   <div className="border-t border-gray-200 pt-2">
                     <div className="flex justify-between items-center text-lg font-bold">
                       <span>{t('common.total')}:</span>
@@ -1206,11 +1270,61 @@ WICHTIG:
                   )}
                   {t('quickOrder.datevExport')}
                 </button>
+
+                <button
+                  onClick={() => handleEInvoiceExport('zugferd')}
+                  disabled={isExportingEInvoice}
+                  className="flex items-center gap-2 px-4 py-3 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50"
+                >
+                  {isExportingEInvoice ? (
+                    <Loader className="w-5 h-5 animate-spin" />
+                  ) : (
+                    <FileText className="w-5 h-5" />
+                  )}
+                  {t('quickOrder.zugferdInvoice')}
+                </button>
+
+                <button
+                  onClick={() => handleEInvoiceExport('xrechnung')}
+                  disabled={isExportingEInvoice}
+                  className="flex items-center gap-2 px-4 py-3 bg-slate-600 text-white rounded-lg hover:bg-slate-700 transition-colors disabled:opacity-50"
+                >
+                  {isExportingEInvoice ? (
+                    <Loader className="w-5 h-5 animate-spin" />
+                  ) : (
+                    <FileCode className="w-5 h-5" />
+                  )}
+                  {t('quickOrder.xrechnungExport')}
+                </button>
               </div>
 
+              {eInvoiceErrors.length > 0 && (
+                <div className="mt-4 p-4 bg-red-50 border border-red-200 rounded-lg">
+                  <div className="flex items-center gap-2 mb-2">
+                    <AlertCircle className="w-4 h-4 text-red-600" />
+                    <p className="text-red-800 text-sm font-medium">{t('quickOrder.eInvoiceMissingData')}</p>
+                  </div>
+                  <ul className="list-disc list-inside text-sm text-red-700 space-y-1">
+                    {eInvoiceErrors.map(message => (
+                      <li key={message}>{message}</li>
+                    ))}
+                  </ul>
+                  <button
+                    onClick={() => setShowCompanySettings(true)}
+                    className="mt-3 flex items-center gap-1 text-sm text-red-700 hover:text-red-900 font-medium"
+                  >
+                    <Settings className="w-4 h-4" />
+                    {t('quickOrder.openCompanySettings')}
+                  </button>
+                </div>
+              )}
+
               <div className="mt-4 p-3 bg-blue-50 rounded-lg">
                 <p className="text-sm text-blue-800">
-                  <strong>{t('quickOrder.automaticSending')}:</strong> {t('quickOrder.invoiceWillBeSent')} {accountantEmail} (CC: {ccEmail})
+                  <strong>{t('quickOrder.automaticSending')}:</strong>{' '}
+                  {companyData.accountantEmail
+                    ? <>{t('quickOrder.invoiceWillBeSent')} {companyData.accountantEmail}{companyData.invoiceCcEmail && ` (CC: ${companyData.invoiceCcEmail})`}</>
+                    : t('quickOrder.accountantEmailMissing')}
                 </p>
               </div>
             </div>
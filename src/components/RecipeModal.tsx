@@ -0,0 +1,295 @@
+import { useState, useEffect } from 'react';
+import { X, Plus, Trash2, BookOpen, AlertCircle } from 'lucide-react';
+import { supabase, MenuItem, InventoryItem, RecipeUnit } from '../lib/supabase';
+import { RECIPE_UNITS, loadRecipe, saveRecipe, normalizeUnit, toStockQuantity } from '../lib/recipes';
+import { getNetPrice } from '../lib/costing';
+import { formatMoney } from '../lib/invoiceSystem';
+
+interface RecipeModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  menuItem: MenuItem | null;
+  onSaved?: () => void;
+}
+
+interface RecipeRow {
+  inventory_item_id: string;
+  quantity: string;
+  unit: RecipeUnit;
+}
+
+const parseAmount = (value: string) => parseFloat(value.replace(',', '.'));
+
+const formatAmount = (value: number) => value.toLocaleString('de-DE', { maximumFractionDigits: 3 });
+
+export default function RecipeModal({ isOpen, onClose, menuItem, onSaved }: RecipeModalProps) {
+  const [rows, setRows] = useState<RecipeRow[]>([]);
+  const [recipeYield, setRecipeYield] = useState('1');
+  const [inventoryItems, setInventoryItems] = useState<InventoryItem[]>([]);
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const loadData = async (item: MenuItem) => {
+    try {
+      const [recipe, { data: stock, error: stockError }] = await Promise.all([
+        loadRecipe(item.id),
+        supabase.from('inventory_items').select('*').order('category').order('name')
+      ]);
+
+      if (stockError) throw stockError;
+
+      setInventoryItems(stock || []);
+      setRows(recipe.map(recipeItem => ({
+        inventory_item_id: recipeItem.inventory_item_id,
+        quantity: String(recipeItem.quantity).replace('.', ','),
+        unit: recipeItem.unit
+      })));
+      setRecipeYield(String(item.recipe_yield ?? 1).replace('.', ','));
+    } catch (err) {
+      console.error('Error loading recipe:', err);
+      setError('Rezept konnte nicht geladen werden');
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen && menuItem) {
+      setError('');
+      setRows([]);
+      loadData(menuItem);
+    }
+  }, [isOpen, menuItem]);
+
+  const updateRow = (index: number, changes: Partial<RecipeRow>) => {
+    setRows(prev => prev.map((row, rowIndex) => rowIndex === index ? { ...row, ...changes } : row));
+  };
+
+  // Start with the unit the ingredient is counted in, or the content of its container
+  const handleIngredientChange = (index: number, inventoryItemId: string) => {
+    const stock = inventoryItems.find(item => item.id === inventoryItemId);
+    updateRow(index, {
+      inventory_item_id: inventoryItemId,
+      unit: normalizeUnit(stock?.unit) || normalizeUnit(stock?.content_unit) || 'pcs'
+    });
+  };
+
+  const handleSave = async () => {
+    if (!menuItem) return;
+
+    const portions = parseAmount(recipeYield);
+    if (!portions || portions <= 0) {
+      setError('Die Ausbeute muss größer als 0 sein');
+      return;
+    }
+
+    const items = rows
+      .filter(row => row.inventory_item_id)
+      .map(row => ({ inventory_item_id: row.inventory_item_id, quantity: parseAmount(row.quantity), unit: row.unit }));
+
+    if (items.some(item => !item.quantity || item.quantity <= 0)) {
+      setError('Bitte für jede Zutat eine Menge größer als 0 eingeben');
+      return;
+    }
+
+    if (new Set(items.map(item => item.inventory_item_id)).size !== items.length) {
+      setError('Jede Zutat darf nur einmal im Rezept stehen');
+      return;
+    }
+
+    setError('');
+    setSaving(true);
+    try {
+      await saveRecipe(menuItem.id, portions, items);
+      onSaved?.();
+      onClose();
+    } catch (err) {
+      console.error('Error saving recipe:', err);
+      setError('Rezept konnte nicht gespeichert werden');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!isOpen || !menuItem) return null;
+
+  const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  const portions = parseAmount(recipeYield) || 1;
+
+  // Cost of each ingredient per portion at its average purchase cost, null when unknown
+  const rowCosts = rows.map(row => {
+    const stock = inventoryItems.find(item => item.id === row.inventory_item_id);
+    const quantity = parseAmount(row.quantity);
+    const stockQuantity = stock && quantity > 0 ? toStockQuantity(quantity, row.unit, stock) : null;
+    return stockQuantity !== null && stock?.unit_cost != null ? stockQuantity / portions * Number(stock.unit_cost) : null;
+  });
+  const portionCost = rowCosts.reduce<number>((sum, cost) => sum + (cost || 0), 0);
+  const isCostComplete = rows.every((row, index) => !row.inventory_item_id || rowCosts[index] !== null);
+  const netPrice = getNetPrice(menuItem.price);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl max-w-3xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-emerald-500 to-emerald-600 p-6 text-white">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="p-3 bg-white/20 rounded-lg">
+                <BookOpen className="w-6 h-6" />
+              </div>
+              <div>
+                <h2 className="text-2xl font-bold">Rezept</h2>
+                <p className="opacity-90">{menuItem.name}</p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-white/20 rounded-lg transition-colors"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {error && (
+            <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+              <div className="flex items-start gap-2">
+                <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
+                <p className="text-red-700">{error}</p>
+              </div>
+            </div>
+          )}
+
+          {/* Yield */}
+          <div className="bg-gray-50 rounded-lg p-6">
+            <label className="block text-sm font-medium text-gray-700 mb-2">Ausbeute (Portionen pro Rezept)</label>
+            <input
+              type="text"
+              inputMode="decimal"
+              value={recipeYield}
+              onChange={(e) => setRecipeYield(e.target.value)}
+              className={`${inputClassName} max-w-[160px]`}
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Bei Cocktails und Tellergerichten 1. Bei Ansätzen, z.B. einem Topf Suppe für 20 Teller, die Zahl der Portionen.
+            </p>
+          </div>
+
+          {/* Ingredients */}
+          <div className="bg-gray-50 rounded-lg p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Zutaten</h3>
+            <div className="space-y-3">
+              {rows.map((row, index) => {
+                const stock = inventoryItems.find(item => item.id === row.inventory_item_id);
+                const quantity = parseAmount(row.quantity);
+                const stockQuantity = stock && quantity > 0 ? toStockQuantity(quantity, row.unit, stock) : null;
+
+                return (
+                  <div key={index}>
+                    <div className="flex items-center gap-3">
+                      <select
+                        value={row.inventory_item_id}
+                        onChange={(e) => handleIngredientChange(index, e.target.value)}
+                        className={inputClassName}
+                      >
+                        <option value="">Zutat wählen</option>
+                        {inventoryItems.map(item => (
+                          <option key={item.id} value={item.id}>{item.name}</option>
+                        ))}
+                      </select>
+                      <input
+                        type="text"
+                        inputMode="decimal"
+                        value={row.quantity}
+                        onChange={(e) => updateRow(index, { quantity: e.target.value })}
+                        placeholder="Menge"
+                        className={`${inputClassName} max-w-[100px]`}
+                      />
+                      <select
+                        value={row.unit}
+                        onChange={(e) => updateRow(index, { unit: e.target.value as RecipeUnit })}
+                        className={`${inputClassName} max-w-[100px]`}
+                      >
+                        {RECIPE_UNITS.map(unit => (
+                          <option key={unit.value} value={unit.value}>{unit.label}</option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={() => setRows(prev => prev.filter((_, rowIndex) => rowIndex !== index))}
+                        className="p-2 text-gray-400 hover:text-red-600 rounded-lg transition-colors"
+                        title="Zutat entfernen"
+                      >
+                        <Trash2 className="w-5 h-5" />
+                      </button>
+                    </div>
+                    {stock && quantity > 0 && (
+                      stockQuantity !== null ? (
+                        <p className="text-xs text-gray-500 mt-1">
+                          = {formatAmount(stockQuantity / portions)} {stock.unit} pro Portion
+                          {rowCosts[index] !== null && ` · ${formatMoney(rowCosts[index]!)}`}
+                        </p>
+                      ) : (
+                        <p className="text-xs text-orange-600 mt-1">
+                          {RECIPE_UNITS.find(unit => unit.value === row.unit)?.label} lässt sich nicht in {stock.unit} umrechnen.
+                          Beim Lagerartikel den Inhalt pro Einheit hinterlegen, sonst wird nichts abgebucht.
+                        </p>
+                      )
+                    )}
+                  </div>
+                );
+              })}
+
+              <button
+                onClick={() => setRows(prev => [...prev, { inventory_item_id: '', quantity: '', unit: 'pcs' }])}
+                className="flex items-center gap-1 px-4 py-2 border border-dashed border-gray-300 text-gray-700 rounded-lg hover:bg-white transition-colors"
+              >
+                <Plus className="w-4 h-4" />
+                Zutat hinzufügen
+              </button>
+            </div>
+          </div>
+
+          {/* Cost */}
+          {rows.some(row => row.inventory_item_id) && (
+            <div className="bg-emerald-50 rounded-lg p-6">
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <p className="text-sm text-emerald-800">Wareneinsatz pro Portion</p>
+                  <p className="text-2xl font-bold text-emerald-900">{formatMoney(portionCost)}</p>
+                </div>
+                <div className="text-right">
+                  <p className="text-sm text-emerald-800">Anteil am Nettopreis ({formatMoney(netPrice)})</p>
+                  <p className="text-2xl font-bold text-emerald-900">
+                    {netPrice > 0 ? `${formatAmount(Math.round(portionCost / netPrice * 1000) / 10)} %` : '–'}
+                  </p>
+                </div>
+              </div>
+              {!isCostComplete && (
+                <p className="text-xs text-orange-600 mt-2">
+                  Nicht für alle Zutaten ist ein Einkaufspreis hinterlegt, der Wareneinsatz ist unvollständig.
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="border-t border-gray-200 p-6 bg-gray-50 flex gap-3">
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            Abbrechen
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="flex-1 px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition-colors disabled:opacity-50"
+          >
+            {saving ? 'Speichern...' : 'Rezept speichern'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
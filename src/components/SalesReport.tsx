@@ -2,10 +2,17 @@ import React, { useState, useEffect } from 'react';
 import { 
   Calendar, Clock, DollarSign, TrendingUp, TrendingDown, 
   FileText, Download, Filter, RefreshCw, AlertCircle,
-  BarChart3, PieChart, Users, ShoppingBag
+  BarChart3, PieChart, Users, ShoppingBag, Calculator, Settings, MapPin
 } from 'lucide-react';
-import { supabase, Order } from '../lib/supabase';
+import { supabase, Order, LocationOrder } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
+import { useRestaurant } from '../contexts/useRestaurant';
+import { getOrderNumber } from '../lib/orderNumbers';
+import { exportDATEVForOrders } from '../lib/datevExport';
+import { MarginGrouping, getMarginSummaries, getGrossMargin, getMarginPercent } from '../lib/costing';
+import { RECIPE_SELECT } from '../lib/recipes';
+import MenuEngineeringReport from './MenuEngineeringReport';
+import DatevSettingsModal from './DatevSettingsModal';
 
 interface BillSummary {
   date: string;
@@ -16,6 +23,14 @@ interface BillSummary {
   total: number;
   status: string;
   itemCount: number;
+  location?: string;
+}
+
+interface LocationSummary {
+  location: string;
+  billCount: number;
+  totalRevenue: number;
+  averageBill: number;
 }
 
 interface DailySummary {
@@ -28,6 +43,10 @@ interface DailySummary {
 export default function SalesReport() {
   const [bills, setBills] = useState<BillSummary[]>([]);
   const [dailySummaries, setDailySummaries] = useState<DailySummary[]>([]);
+  const [locationSummaries, setLocationSummaries] = useState<LocationSummary[]>([]);
+  const [allLocations, setAllLocations] = useState(false);
+  const [marginOrders, setMarginOrders] = useState<Order[]>([]);
+  const [marginGrouping, setMarginGrouping] = useState<MarginGrouping>('item');
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string>('');
   const [dateRange, setDateRange] = useState({
@@ -35,6 +54,8 @@ export default function SalesReport() {
     endDate: new Date().toISOString().split('T')[0]
   });
   const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [isExportingDATEV, setIsExportingDATEV] = useState(false);
+  const [showDatevSettings, setShowDatevSettings] = useState(false);
   const [stats, setStats] = useState({
     totalBills: 0,
     totalRevenue: 0,
@@ -44,6 +65,7 @@ export default function SalesReport() {
     growthRate: 0
   });
   const { user } = useAuth();
+  const { restaurants } = useRestaurant();
 
   useEffect(() => {
     if (user && user.role === 'manager') {
@@ -51,7 +73,29 @@ export default function SalesReport() {
     } else if (user) {
       setLoading(false);
     }
-  }, [user, dateRange, statusFilter]);
+  }, [user, dateRange, statusFilter, allLocations]);
+
+  const toBillSummary = (order: Order | LocationOrder, itemCount: number, location?: string): BillSummary => {
+    const orderDate = new Date(order.created_at);
+    return {
+      date: orderDate.toLocaleDateString(),
+      time: orderDate.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
+      billNumber: `#${getOrderNumber(order)}`,
+      customerName: order.customer_name || '',
+      tableNumber: order.table_number ?? undefined,
+      total: Number(order.total),
+      status: order.status,
+      itemCount,
+      location
+    };
+  };
+
+  // Orders of all locations of the manager, see get_location_orders
+  const loadLocationOrders = async (start: string, end: string): Promise<LocationOrder[]> => {
+    const { data, error } = await supabase.rpc('get_location_orders', { start_at: start, end_at: end });
+    if (error) throw error;
+    return data || [];
+  };
 
   const loadSalesData = async () => {
     if (!user || user.role !== 'manager') {
@@ -66,6 +110,23 @@ export default function SalesReport() {
 
       console.log('Loading sales data for date range:', dateRange);
 
+      const periodDays = Math.ceil((new Date(dateRange.endDate).getTime() - new Date(dateRange.startDate).getTime()) / (1000 * 60 * 60 * 24));
+      const previousStartDate = new Date(new Date(dateRange.startDate).getTime() - periodDays * 24 * 60 * 60 * 1000);
+      const previousEndDate = new Date(dateRange.startDate);
+
+      let billSummaries: BillSummary[];
+      let previousRevenue: number;
+
+      if (allLocations) {
+        const locationOrders = await loadLocationOrders(`${dateRange.startDate}T00:00:00.000Z`, `${dateRange.endDate}T23:59:59.999Z`);
+        billSummaries = locationOrders
+          .filter(order => statusFilter === 'all' || order.status === statusFilter)
+          .map(order => toBillSummary(order, Number(order.item_count), order.restaurant_name));
+
+        const previousOrders = await loadLocationOrders(previousStartDate.toISOString(), previousEndDate.toISOString());
+        previousRevenue = previousOrders.reduce((sum, order) => sum + Number(order.total), 0);
+        setMarginOrders([]);
+      } else {
       // Build query with date range
       let query = supabase
         .from('orders')
@@ -73,7 +134,7 @@ export default function SalesReport() {
           *,
           order_items (
             *,
-            menu_item:menu_items (name)
+            menu_item:menu_items (*, ${RECIPE_SELECT})
           )
         `)
         .gte('created_at', `${dateRange.startDate}T00:00:00.000Z`)
@@ -94,23 +155,22 @@ export default function SalesReport() {
       }
 
       console.log('Orders loaded:', ordersData?.length || 0);
+      setMarginOrders(ordersData || []);
 
       // Transform orders into bill summaries
-      const billSummaries: BillSummary[] = (ordersData || []).map((order, index) => {
-        const orderDate = new Date(order.created_at);
-        const itemCount = order.order_items?.reduce((sum: number, item: any) => sum + item.quantity, 0) || 0;
-        
-        return {
-          date: orderDate.toLocaleDateString(),
-          time: orderDate.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
-          billNumber: `#${order.id.slice(0, 8)}`,
-          customerName: order.customer_name,
-          tableNumber: order.table_number,
-          total: Number(order.total),
-          status: order.status,
-          itemCount
-        };
-      });
+      billSummaries = (ordersData || []).map(order => toBillSummary(
+        order,
+        order.order_items?.reduce((sum: number, item: any) => sum + item.quantity, 0) || 0
+      ));
+
+      const { data: previousData } = await supabase
+        .from('orders')
+        .select('total')
+        .gte('created_at', previousStartDate.toISOString())
+        .lt('created_at', previousEndDate.toISOString());
+
+      previousRevenue = previousData?.reduce((sum, order) => sum + Number(order.total), 0) || 0;
+      }
 
       setBills(billSummaries);
 
@@ -137,6 +197,25 @@ export default function SalesReport() {
 
       setDailySummaries(dailySummariesData);
 
+      // Per location comparison
+      const locationMap = new Map<string, { billCount: number; revenue: number }>();
+      billSummaries.forEach(bill => {
+        if (!bill.location) return;
+        const locationData = locationMap.get(bill.location) || { billCount: 0, revenue: 0 };
+        locationData.billCount++;
+        locationData.revenue += bill.total;
+        locationMap.set(bill.location, locationData);
+      });
+
+      setLocationSummaries(Array.from(locationMap.entries())
+        .map(([location, data]) => ({
+          location,
+          billCount: data.billCount,
+          totalRevenue: data.revenue,
+          averageBill: data.revenue / data.billCount
+        }))
+        .sort((a, b) => b.totalRevenue - a.totalRevenue));
+
       // Calculate overall stats
       const totalBills = billSummaries.length;
       const totalRevenue = billSummaries.reduce((sum, bill) => sum + bill.total, 0);
@@ -148,17 +227,6 @@ export default function SalesReport() {
       const todayRevenue = todayBills.reduce((sum, bill) => sum + bill.total, 0);
 
       // Calculate growth rate (compare with previous period)
-      const periodDays = Math.ceil((new Date(dateRange.endDate).getTime() - new Date(dateRange.startDate).getTime()) / (1000 * 60 * 60 * 24));
-      const previousStartDate = new Date(new Date(dateRange.startDate).getTime() - periodDays * 24 * 60 * 60 * 1000);
-      const previousEndDate = new Date(dateRange.startDate);
-
-      const { data: previousData } = await supabase
-        .from('orders')
-        .select('total')
-        .gte('created_at', previousStartDate.toISOString())
-        .lt('created_at', previousEndDate.toISOString());
-
-      const previousRevenue = previousData?.reduce((sum, order) => sum + Number(order.total), 0) || 0;
       const growthRate = previousRevenue > 0 ? ((totalRevenue - previousRevenue) / previousRevenue) * 100 : 0;
 
       setStats({
@@ -180,6 +248,7 @@ export default function SalesReport() {
 
   const exportToCSV = () => {
     const headers = ['Date', 'Time', 'Bill Number', 'Customer', 'Table', 'Items', 'Total', 'Status'];
+    if (allLocations) headers.push('Location');
     const csvContent = [
       headers.join(','),
       ...bills.map(bill => [
@@ -190,7 +259,8 @@ export default function SalesReport() {
         bill.tableNumber || 'N/A',
         bill.itemCount,
         bill.total.toFixed(2),
-        bill.status
+        bill.status,
+        ...(allLocations ? [`"${bill.location}"`] : [])
       ].join(','))
     ].join('\n');
 
@@ -203,6 +273,33 @@ export default function SalesReport() {
     window.URL.revokeObjectURL(url);
   };
 
+  const exportToDATEV = async () => {
+    try {
+      setIsExportingDATEV(true);
+
+      // Date inputs are local dates
+      const [startYear, startMonth, startDay] = dateRange.startDate.split('-').map(Number);
+      const [endYear, endMonth, endDay] = dateRange.endDate.split('-').map(Number);
+
+      const blob = await exportDATEVForOrders(
+        new Date(startYear, startMonth - 1, startDay),
+        new Date(endYear, endMonth - 1, endDay)
+      );
+
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `EXTF_Buchungsstapel_${dateRange.startDate}_${dateRange.endDate}.csv`;
+      a.click();
+      window.URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Error generating DATEV export:', err);
+      alert(`DATEV export failed:\n${err instanceof Error ? err.message : err}`);
+    } finally {
+      setIsExportingDATEV(false);
+    }
+  };
+
   // Redirect if not manager
   if (user && user.role !== 'manager') {
     return (
@@ -252,6 +349,17 @@ export default function SalesReport() {
     );
   }
 
+  const marginSummaries = getMarginSummaries(marginOrders, marginGrouping);
+  const marginTotal = getMarginSummaries(marginOrders, 'category').reduce((total, summary) => ({
+    ...total,
+    quantity: total.quantity + summary.quantity,
+    revenue: total.revenue + summary.revenue,
+    costedRevenue: total.costedRevenue + summary.costedRevenue,
+    cost: total.cost + summary.cost,
+    uncostedQuantity: total.uncostedQuantity + summary.uncostedQuantity
+  }), { key: 'total', label: 'Total', quantity: 0, revenue: 0, costedRevenue: 0, cost: 0, uncostedQuantity: 0 });
+  const marginPercent = getMarginPercent(marginTotal);
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -275,12 +383,28 @@ export default function SalesReport() {
             <Download className="w-4 h-4" />
             Export CSV
           </button>
+          <button
+            onClick={exportToDATEV}
+            disabled={isExportingDATEV || allLocations}
+            title={allLocations ? 'DATEV export covers the current location only' : undefined}
+            className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+          >
+            <Calculator className="w-4 h-4" />
+            {isExportingDATEV ? 'Exporting...' : 'DATEV Export'}
+          </button>
+          <button
+            onClick={() => setShowDatevSettings(true)}
+            className="p-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+            title="DATEV settings"
+          >
+            <Settings className="w-5 h-5" />
+          </button>
         </div>
       </div>
 
       {/* Filters */}
       <div className="bg-white p-6 rounded-xl shadow-md border border-gray-100">
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className={`grid grid-cols-1 gap-4 ${restaurants.length > 1 ? 'md:grid-cols-4' : 'md:grid-cols-3'}`}>
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">Start Date</label>
             <input
@@ -314,6 +438,19 @@ export default function SalesReport() {
               <option value="completed">Completed</option>
             </select>
           </div>
+          {restaurants.length > 1 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Locations</label>
+              <select
+                value={allLocations ? 'all' : 'current'}
+                onChange={(e) => setAllLocations(e.target.value === 'all')}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="current">Current Location</option>
+                <option value="all">All Locations</option>
+              </select>
+            </div>
+          )}
         </div>
       </div>
 
@@ -386,6 +523,49 @@ export default function SalesReport() {
         </div>
       </div>
 
+      {/* Location Comparison */}
+      {allLocations && (
+        <div className="bg-white rounded-xl shadow-md border border-gray-100">
+          <div className="p-6 border-b border-gray-100">
+            <h3 className="text-lg font-semibold text-gray-900">Location Comparison</h3>
+          </div>
+          <div className="p-6">
+            {locationSummaries.length > 0 ? (
+              <div className="space-y-4">
+                {locationSummaries.map(location => {
+                  const share = stats.totalRevenue > 0 ? (location.totalRevenue / stats.totalRevenue) * 100 : 0;
+
+                  return (
+                    <div key={location.location}>
+                      <div className="flex items-center justify-between mb-1">
+                        <div className="flex items-center gap-2">
+                          <MapPin className="w-4 h-4 text-gray-400" />
+                          <span className="text-sm font-medium text-gray-900">{location.location}</span>
+                        </div>
+                        <div className="text-sm text-gray-600">
+                          {location.billCount} bills · avg ${location.averageBill.toFixed(2)} ·{' '}
+                          <span className="font-bold text-gray-900">${location.totalRevenue.toFixed(2)}</span>
+                        </div>
+                      </div>
+                      <div className="w-full bg-gray-100 rounded-full h-2">
+                        <div
+                          className="bg-blue-500 h-2 rounded-full transition-all duration-500"
+                          style={{ width: `${share}%` }}
+                        ></div>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            ) : (
+              <div className="text-center py-8 text-gray-500">
+                No data available for the selected period
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* Daily Summary Chart */}
       <div className="bg-white rounded-xl shadow-md border border-gray-100">
         <div className="p-6 border-b border-gray-100">
@@ -426,6 +606,118 @@ export default function SalesReport() {
         </div>
       </div>
 
+      {/* Cost of Goods and Gross Margin */}
+      {!allLocations && (
+        <div className="bg-white rounded-xl shadow-md border border-gray-100">
+          <div className="p-6 border-b border-gray-100">
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900">Cost of Goods & Gross Margin</h3>
+                <p className="text-sm text-gray-500">Net of VAT, at the cost of the stock each item took</p>
+              </div>
+              <div className="flex rounded-lg border border-gray-200 overflow-hidden">
+                {(['item', 'category', 'day'] as MarginGrouping[]).map(grouping => (
+                  <button
+                    key={grouping}
+                    onClick={() => setMarginGrouping(grouping)}
+                    className={`px-3 py-1.5 text-sm capitalize transition-colors ${
+                      marginGrouping === grouping ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    By {grouping}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+          <div className="p-6 space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="bg-gray-50 rounded-lg p-4">
+                <p className="text-sm text-gray-600">Net Revenue</p>
+                <p className="text-xl font-bold text-gray-900">${marginTotal.revenue.toFixed(2)}</p>
+              </div>
+              <div className="bg-gray-50 rounded-lg p-4">
+                <p className="text-sm text-gray-600">Cost of Goods</p>
+                <p className="text-xl font-bold text-gray-900">${marginTotal.cost.toFixed(2)}</p>
+              </div>
+              <div className="bg-gray-50 rounded-lg p-4">
+                <p className="text-sm text-gray-600">Gross Margin</p>
+                <p className="text-xl font-bold text-green-600">${getGrossMargin(marginTotal).toFixed(2)}</p>
+              </div>
+              <div className="bg-gray-50 rounded-lg p-4">
+                <p className="text-sm text-gray-600">Margin / Cost Ratio</p>
+                <p className="text-xl font-bold text-gray-900">
+                  {marginPercent === null ? '—' : `${marginPercent.toFixed(1)}% / ${(100 - marginPercent).toFixed(1)}%`}
+                </p>
+              </div>
+            </div>
+
+            {marginTotal.uncostedQuantity > 0 && (
+              <div className="flex items-center gap-2 text-sm text-orange-700 bg-orange-50 border border-orange-200 rounded-lg p-3">
+                <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                {marginTotal.uncostedQuantity} sold items have no recipe or ingredient cost and are left out of the margin
+              </div>
+            )}
+
+            {marginSummaries.length > 0 ? (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-gray-200 text-left text-gray-500">
+                      <th className="py-2 pr-4 font-medium capitalize">{marginGrouping}</th>
+                      <th className="py-2 pr-4 font-medium text-right">Sold</th>
+                      <th className="py-2 pr-4 font-medium text-right">Net Revenue</th>
+                      <th className="py-2 pr-4 font-medium text-right">COGS</th>
+                      <th className="py-2 pr-4 font-medium text-right">Gross Margin</th>
+                      <th className="py-2 pr-4 font-medium text-right">Margin %</th>
+                      <th className="py-2 font-medium text-right">Cost %</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {marginSummaries.map(summary => {
+                      const percent = getMarginPercent(summary);
+                      return (
+                        <tr key={summary.key} className="border-b border-gray-100">
+                          <td className="py-2 pr-4 font-medium text-gray-900">
+                            {summary.label}
+                            {summary.uncostedQuantity > 0 && (
+                              <span className="ml-2 text-xs text-orange-600">{summary.uncostedQuantity} without cost</span>
+                            )}
+                          </td>
+                          <td className="py-2 pr-4 text-right">{summary.quantity}</td>
+                          <td className="py-2 pr-4 text-right">${summary.revenue.toFixed(2)}</td>
+                          <td className="py-2 pr-4 text-right">${summary.cost.toFixed(2)}</td>
+                          <td className="py-2 pr-4 text-right font-medium text-gray-900">${getGrossMargin(summary).toFixed(2)}</td>
+                          <td className="py-2 pr-4 text-right text-gray-900">
+                            {percent === null ? '—' : `${percent.toFixed(1)}%`}
+                          </td>
+                          <td className="py-2 text-right text-gray-600">
+                            {percent === null ? '—' : `${(100 - percent).toFixed(1)}%`}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <div className="text-center py-8 text-gray-500">
+                No data available for the selected period
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Menu Engineering */}
+      {!allLocations && (
+        <MenuEngineeringReport
+          orders={marginOrders}
+          startDate={dateRange.startDate}
+          endDate={dateRange.endDate}
+        />
+      )}
+
       {/* Bills Overview Table */}
       <div className="bg-white rounded-xl shadow-md border border-gray-100">
         <div className="p-6 border-b border-gray-100">
@@ -445,6 +737,11 @@ export default function SalesReport() {
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Bill Number
                   </th>
+                  {allLocations && (
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Location
+                    </th>
+                  )}
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Customer
                   </th>
@@ -480,6 +777,11 @@ export default function SalesReport() {
                     <td className="px-6 py-4 whitespace-nowrap">
                       <span className="text-sm font-medium text-blue-600">{bill.billNumber}</span>
                     </td>
+                    {allLocations && (
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className="text-sm text-gray-900">{bill.location}</span>
+                      </td>
+                    )}
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="flex items-center">
                         <Users className="w-4 h-4 text-gray-400 mr-2" />
@@ -530,6 +832,11 @@ export default function SalesReport() {
           )}
         </div>
       </div>
+
+      <DatevSettingsModal
+        isOpen={showDatevSettings}
+        onClose={() => setShowDatevSettings(false)}
+      />
     </div>
   );
-}
\ No newline at end of file
+}
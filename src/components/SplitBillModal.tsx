@@ -0,0 +1,582 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  X, Users, CreditCard, Banknote, Smartphone, Split, List,
+  DollarSign, AlertCircle, CheckCircle, Minus, Plus, Trash2, QrCode
+} from 'lucide-react';
+import { supabase, Order, OrderItem, Payment } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { useLanguage } from '../contexts/LanguageContext';
+import { getOrderNumber } from '../lib/orderNumbers';
+import PaymentQRModal from './PaymentQRModal';
+
+interface SplitBillModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  order: Order | null;
+  onPaymentRecorded?: () => void;
+}
+
+type SplitMode = 'seat' | 'item' | 'even' | 'custom';
+
+interface PendingPayment {
+  amount: number;
+  splitType: Payment['split_type'];
+  label: string;
+  lines: Array<{ item: OrderItem; quantity: number }>;
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+const formatEuro = (value: number) => `€${value.toFixed(2).replace('.', ',')}`;
+
+export default function SplitBillModal({ isOpen, onClose, order, onPaymentRecorded }: SplitBillModalProps) {
+  const [orderTotal, setOrderTotal] = useState(0);
+  const [items, setItems] = useState<OrderItem[]>([]);
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [mode, setMode] = useState<SplitMode>('seat');
+  const [method, setMethod] = useState<Payment['method']>('cash');
+  const [selectedSeat, setSelectedSeat] = useState<number | null>(null);
+  const [selectedQuantities, setSelectedQuantities] = useState<Record<string, number>>({});
+  const [splitWays, setSplitWays] = useState(2);
+  const [customAmount, setCustomAmount] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const [qrPayment, setQrPayment] = useState<PendingPayment | null>(null);
+
+  const { user } = useAuth();
+  const { t } = useLanguage();
+
+  useEffect(() => {
+    if (isOpen && order) {
+      setMode('seat');
+      setMethod('cash');
+      setSelectedSeat(null);
+      setSelectedQuantities({});
+      setSplitWays(2);
+      setCustomAmount('');
+      setError('');
+      setSuccess('');
+      setQrPayment(null);
+    }
+  }, [isOpen, order]);
+
+  const loadBill = useCallback(async () => {
+    if (!order) return;
+
+    try {
+      setLoading(true);
+
+      const { data: orderData, error: orderError } = await supabase
+        .from('orders')
+        .select(`
+          total,
+          order_items (
+            *,
+            menu_item:menu_items (*)
+          )
+        `)
+        .eq('id', order.id)
+        .single();
+
+      if (orderError) throw orderError;
+
+      const { data: paymentData, error: paymentError } = await supabase
+        .from('payments')
+        .select('*, payment_items (*)')
+        .eq('order_id', order.id)
+        .order('created_at', { ascending: true });
+
+      if (paymentError) throw paymentError;
+
+      setOrderTotal(Number(orderData.total) || 0);
+      setItems(orderData.order_items || []);
+      setPayments(paymentData || []);
+    } catch (error) {
+      console.error('Error loading bill:', error);
+      setError(t('error.failedToLoadPayments'));
+    } finally {
+      setLoading(false);
+    }
+  }, [order, t]);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadBill();
+    }
+  }, [isOpen, loadBill]);
+
+  const paidTotal = roundCents(payments.reduce((sum, payment) => sum + Number(payment.amount), 0));
+  const openAmount = Math.max(0, roundCents(orderTotal - paidTotal));
+  const isFullyPaid = orderTotal > 0 && openAmount === 0;
+
+  // Quantity of each order item that is still unpaid (only payments by seat or item are tied to items)
+  const getOpenQuantity = (item: OrderItem) => {
+    const paidQuantity = payments
+      .flatMap(payment => payment.payment_items || [])
+      .filter(paymentItem => paymentItem.order_item_id === item.id)
+      .reduce((sum, paymentItem) => sum + paymentItem.quantity, 0);
+    return Math.max(0, item.quantity - paidQuantity);
+  };
+
+  const openItems = items.filter(item => getOpenQuantity(item) > 0);
+
+  const seatGroups = openItems.reduce((groups, item) => {
+    const seat = item.seat_number ?? 0;
+    if (!groups[seat]) groups[seat] = [];
+    groups[seat].push(item);
+    return groups;
+  }, {} as Record<number, OrderItem[]>);
+
+  const seatNumbers = Object.keys(seatGroups).map(Number).sort((a, b) => (a || Infinity) - (b || Infinity));
+
+  const getSeatLabel = (seat: number) => seat === 0 ? t('payments.noSeat') : `${t('tables.seat')} ${seat}`;
+
+  // Items and amount covered by the current selection
+  const getSelection = (): { amount: number; lines: Array<{ item: OrderItem; quantity: number }>; label: string } => {
+    switch (mode) {
+      case 'seat': {
+        if (selectedSeat === null || !seatGroups[selectedSeat]) {
+          return { amount: 0, lines: [], label: '' };
+        }
+        const lines = seatGroups[selectedSeat].map(item => ({ item, quantity: getOpenQuantity(item) }));
+        const amount = lines.reduce((sum, line) => sum + line.item.price * line.quantity, 0);
+        return { amount: Math.min(roundCents(amount), openAmount), lines, label: getSeatLabel(selectedSeat) };
+      }
+      case 'item': {
+        const lines = openItems
+          .filter(item => (selectedQuantities[item.id] || 0) > 0)
+          .map(item => ({ item, quantity: selectedQuantities[item.id] }));
+        const amount = lines.reduce((sum, line) => sum + line.item.price * line.quantity, 0);
+        return { amount: Math.min(roundCents(amount), openAmount), lines, label: t('payments.selectedItems') };
+      }
+      case 'even': {
+        // The last part takes whatever rounding left over
+        const amount = splitWays <= 1 ? openAmount : roundCents(openAmount / splitWays);
+        return { amount, lines: [], label: `${t('payments.share')} 1/${splitWays}` };
+      }
+      case 'custom': {
+        const amount = roundCents(parseFloat(customAmount.replace(',', '.')) || 0);
+        return { amount, lines: [], label: t('payments.customAmount') };
+      }
+    }
+  };
+
+  const selection = getSelection();
+
+  const changeItemQuantity = (item: OrderItem, delta: number) => {
+    setSelectedQuantities(prev => {
+      const next = Math.min(getOpenQuantity(item), Math.max(0, (prev[item.id] || 0) + delta));
+      return { ...prev, [item.id]: next };
+    });
+  };
+
+  const recordPayment = async (
+    amount: number,
+    splitType: Payment['split_type'],
+    label: string,
+    lines: Array<{ item: OrderItem; quantity: number }>,
+    paymentMethod: Payment['method'] = method
+  ) => {
+    if (!order || !user) return;
+
+    if (amount <= 0) {
+      setError(t('payments.nothingSelected'));
+      return;
+    }
+
+    if (amount > openAmount) {
+      setError(t('payments.exceedsOpenAmount'));
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError('');
+      setSuccess('');
+
+      const { error: paymentError } = await supabase.rpc('record_payment', {
+        target_order_id: order.id,
+        payment_method: paymentMethod,
+        payment_amount: amount,
+        payment_split_type: splitType,
+        payment_label: label || null,
+        payment_lines: lines.map(line => ({
+          order_item_id: line.item.id,
+          quantity: line.quantity,
+          amount: roundCents(line.item.price * line.quantity)
+        }))
+      });
+
+      if (paymentError) throw paymentError;
+
+      setSuccess(`${t('payments.paymentRecorded')}: ${formatEuro(amount)}`);
+      setSelectedSeat(null);
+      setSelectedQuantities({});
+      setCustomAmount('');
+      if (splitType === 'even' && splitWays > 1) {
+        setSplitWays(prev => prev - 1);
+      }
+
+      await loadBill();
+      onPaymentRecorded?.();
+    } catch (error) {
+      console.error('Error recording payment:', error);
+      setError(t('error.failedToRecordPayment'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleVoidPayment = async (payment: Payment) => {
+    if (!confirm(`${t('payments.confirmVoid')} ${formatEuro(Number(payment.amount))}?`)) return;
+
+    try {
+      const { error } = await supabase
+        .from('payments')
+        .delete()
+        .eq('id', payment.id);
+
+      if (error) throw error;
+
+      await loadBill();
+      onPaymentRecorded?.();
+    } catch (error) {
+      console.error('Error voiding payment:', error);
+      setError(t('error.failedToVoidPayment'));
+    }
+  };
+
+  // GiroCode for the current selection, or the open amount if nothing is selected
+  const handleShowGiroCode = () => {
+    setQrPayment(selection.amount > 0
+      ? { amount: selection.amount, splitType: mode, label: selection.label, lines: selection.lines }
+      : {
+        amount: openAmount,
+        splitType: payments.length === 0 ? 'full' : 'custom',
+        label: payments.length === 0 ? '' : t('payments.remainder'),
+        lines: []
+      });
+  };
+
+  const handleTransferReceived = async () => {
+    if (!qrPayment) return;
+    const { amount, splitType, label, lines } = qrPayment;
+    setQrPayment(null);
+    await recordPayment(amount, splitType, label, lines, 'digital');
+  };
+
+  if (!isOpen || !order) return null;
+
+  const modes: Array<{ id: SplitMode; label: string; icon: React.ElementType }> = [
+    { id: 'seat', label: t('payments.bySeat'), icon: Users },
+    { id: 'item', label: t('payments.byItem'), icon: List },
+    { id: 'even', label: t('payments.evenly'), icon: Split },
+    { id: 'custom', label: t('payments.customAmount'), icon: DollarSign }
+  ];
+
+  const methods: Array<{ id: Payment['method']; label: string; icon: React.ElementType }> = [
+    { id: 'cash', label: t('payments.cash'), icon: Banknote },
+    { id: 'card', label: t('payments.card'), icon: CreditCard },
+    { id: 'digital', label: t('payments.digital'), icon: Smartphone }
+  ];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl max-w-4xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-blue-500 to-blue-600 p-6 text-white">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="p-3 bg-white/20 rounded-lg">
+                <Split className="w-6 h-6" />
+              </div>
+              <div>
+                <h2 className="text-2xl font-bold">{t('payments.splitBill')}</h2>
+                <p className="opacity-90">
+                  {order.table_number ? `${t('common.table')} ${order.table_number}` : order.customer_name || `#${getOrderNumber(order)}`}
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-white/20 rounded-lg transition-colors"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="w-8 h-8 border-2 border-gray-300 border-t-blue-600 rounded-full animate-spin"></div>
+          </div>
+        ) : (
+          <div className="flex-1 flex overflow-hidden">
+            {/* Split Section */}
+            <div className="flex-1 p-6 overflow-y-auto">
+              {error && (
+                <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+                  <div className="flex items-center gap-2">
+                    <AlertCircle className="w-4 h-4 text-red-600" />
+                    <p className="text-red-700 text-sm">{error}</p>
+                  </div>
+                </div>
+              )}
+
+              {success && (
+                <div className="mb-4 p-3 bg-green-50 border border-green-200 rounded-lg">
+                  <div className="flex items-center gap-2">
+                    <CheckCircle className="w-4 h-4 text-green-600" />
+                    <p className="text-green-700 text-sm">{success}</p>
+                  </div>
+                </div>
+              )}
+
+              {isFullyPaid ? (
+                <div className="text-center py-12">
+                  <CheckCircle className="w-16 h-16 text-green-500 mx-auto mb-4" />
+                  <h3 className="text-xl font-semibold text-gray-900">{t('payments.fullyPaid')}</h3>
+                  <p className="text-gray-600 mt-1">{formatEuro(orderTotal)}</p>
+                </div>
+              ) : (
+                <>
+                  {/* Split mode */}
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mb-6">
+                    {modes.map(({ id, label, icon: Icon }) => (
+                      <button
+                        key={id}
+                        onClick={() => { setMode(id); setError(''); }}
+                        className={`flex flex-col items-center gap-1 p-3 rounded-lg border text-sm font-medium transition-colors ${
+                          mode === id
+                            ? 'bg-blue-50 border-blue-500 text-blue-700'
+                            : 'border-gray-200 text-gray-700 hover:bg-gray-50'
+                        }`}
+                      >
+                        <Icon className="w-5 h-5" />
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+
+                  {mode === 'seat' && (
+                    <div className="space-y-3">
+                      {seatNumbers.length > 0 ? seatNumbers.map(seat => {
+                        const seatAmount = seatGroups[seat].reduce((sum, item) => sum + item.price * getOpenQuantity(item), 0);
+                        return (
+                          <button
+                            key={seat}
+                            onClick={() => setSelectedSeat(seat)}
+                            className={`w-full text-left p-4 rounded-lg border transition-colors ${
+                              selectedSeat === seat ? 'bg-blue-50 border-blue-500' : 'border-gray-200 hover:bg-gray-50'
+                            }`}
+                          >
+                            <div className="flex items-center justify-between mb-1">
+                              <span className="font-medium text-gray-900">{getSeatLabel(seat)}</span>
+                              <span className="font-bold text-gray-900">{formatEuro(seatAmount)}</span>
+                            </div>
+                            <p className="text-sm text-gray-600">
+                              {seatGroups[seat].map(item => `${getOpenQuantity(item)}x ${item.menu_item?.name || ''}`).join(', ')}
+                            </p>
+                          </button>
+                        );
+                      }) : (
+                        <p className="text-gray-500 text-center py-4">{t('payments.noOpenItems')}</p>
+                      )}
+                    </div>
+                  )}
+
+                  {mode === 'item' && (
+                    <div className="space-y-3">
+                      {openItems.length > 0 ? openItems.map(item => (
+                        <div key={item.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                          <div className="flex-1">
+                            <h4 className="font-medium text-gray-900">{item.menu_item?.name || 'Unknown Item'}</h4>
+                            <p className="text-sm text-gray-600">
+                              {formatEuro(item.price)} {t('orders.each')} · {getOpenQuantity(item)} {t('payments.open')}
+                              {item.seat_number && ` · ${t('tables.seat')} ${item.seat_number}`}
+                            </p>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <button
+                              onClick={() => changeItemQuantity(item, -1)}
+                              className="p-1 rounded-full bg-gray-200 hover:bg-gray-300"
+                            >
+                              <Minus className="w-3 h-3" />
+                            </button>
+                            <span className="w-8 text-center font-medium">{selectedQuantities[item.id] || 0}</span>
+                            <button
+                              onClick={() => changeItemQuantity(item, 1)}
+                              className="p-1 rounded-full bg-gray-200 hover:bg-gray-300"
+                            >
+                              <Plus className="w-3 h-3" />
+                            </button>
+                          </div>
+                        </div>
+                      )) : (
+                        <p className="text-gray-500 text-center py-4">{t('payments.noOpenItems')}</p>
+                      )}
+                    </div>
+                  )}
+
+                  {mode === 'even' && (
+                    <div className="bg-gray-50 rounded-lg p-4">
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        {t('payments.numberOfWays')}
+                      </label>
+                      <div className="flex items-center gap-3 mb-4">
+                        <button
+                          onClick={() => setSplitWays(prev => Math.max(1, prev - 1))}
+                          className="p-2 rounded-full bg-gray-200 hover:bg-gray-300"
+                        >
+                          <Minus className="w-4 h-4" />
+                        </button>
+                        <span className="w-12 text-center text-2xl font-bold">{splitWays}</span>
+                        <button
+                          onClick={() => setSplitWays(prev => Math.min(20, prev + 1))}
+                          className="p-2 rounded-full bg-gray-200 hover:bg-gray-300"
+                        >
+                          <Plus className="w-4 h-4" />
+                        </button>
+                      </div>
+                      <p className="text-sm text-gray-600">
+                        {splitWays} × {formatEuro(selection.amount)} ({t('payments.lastShareRounding')})
+                      </p>
+                    </div>
+                  )}
+
+                  {mode === 'custom' && (
+                    <div className="bg-gray-50 rounded-lg p-4">
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        {t('payments.amount')}
+                      </label>
+                      <input
+                        type="number"
+                        min="0.01"
+                        step="0.01"
+                        max={openAmount}
+                        value={customAmount}
+                        onChange={(e) => setCustomAmount(e.target.value)}
+                        placeholder={openAmount.toFixed(2)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
+                  )}
+
+                  {/* Payment method */}
+                  <div className="mt-6">
+                    <h3 className="text-sm font-medium text-gray-700 mb-2">{t('payments.method')}</h3>
+                    <div className="grid grid-cols-3 gap-2">
+                      {methods.map(({ id, label, icon: Icon }) => (
+                        <button
+                          key={id}
+                          onClick={() => setMethod(id)}
+                          className={`flex items-center justify-center gap-2 p-3 rounded-lg border text-sm font-medium transition-colors ${
+                            method === id
+                              ? 'bg-green-50 border-green-500 text-green-700'
+                              : 'border-gray-200 text-gray-700 hover:bg-gray-50'
+                          }`}
+                        >
+                          <Icon className="w-4 h-4" />
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                </>
+              )}
+            </div>
+
+            {/* Summary Section */}
+            <div className="w-80 bg-gray-50 p-6 border-l border-gray-200 overflow-y-auto flex flex-col">
+              <div className="space-y-2 mb-6">
+                <div className="flex justify-between text-gray-700">
+                  <span>{t('common.total')}:</span>
+                  <span className="font-medium">{formatEuro(orderTotal)}</span>
+                </div>
+                <div className="flex justify-between text-green-700">
+                  <span>{t('payments.paid')}:</span>
+                  <span className="font-medium">{formatEuro(paidTotal)}</span>
+                </div>
+                <div className="flex justify-between text-lg font-bold border-t border-gray-200 pt-2">
+                  <span>{t('payments.openAmount')}:</span>
+                  <span className="text-blue-600">{formatEuro(openAmount)}</span>
+                </div>
+              </div>
+
+              <h3 className="text-sm font-medium text-gray-700 mb-2">{t('payments.recordedPayments')}</h3>
+              {payments.length > 0 ? (
+                <div className="space-y-2 mb-6">
+                  {payments.map(payment => (
+                    <div key={payment.id} className="flex items-center justify-between p-2 bg-white rounded-lg border border-gray-200 text-sm">
+                      <div>
+                        <div className="font-medium text-gray-900">{formatEuro(Number(payment.amount))}</div>
+                        <div className="text-xs text-gray-500">
+                          {t(`payments.${payment.method}`)}{payment.label ? ` · ${payment.label}` : ''}
+                        </div>
+                      </div>
+                      {user?.role === 'manager' && (
+                        <button
+                          onClick={() => handleVoidPayment(payment)}
+                          className="p-1 text-red-600 hover:bg-red-50 rounded"
+                          title={t('payments.void')}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500 mb-6">{t('payments.noPaymentsYet')}</p>
+              )}
+
+              {!isFullyPaid && (
+                <div className="mt-auto space-y-2">
+                  <button
+                    onClick={() => recordPayment(selection.amount, mode, selection.label, selection.lines)}
+                    disabled={saving || selection.amount <= 0}
+                    className="w-full bg-green-600 text-white px-4 py-3 rounded-lg hover:bg-green-700 disabled:opacity-50 flex items-center justify-center gap-2 font-medium"
+                  >
+                    {saving ? (
+                      <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                    ) : (
+                      <>
+                        <DollarSign className="w-4 h-4" />
+                        {t('payments.pay')} {formatEuro(selection.amount)}
+                      </>
+                    )}
+                  </button>
+                  <button
+                    onClick={() => recordPayment(openAmount, payments.length === 0 ? 'full' : 'custom', payments.length === 0 ? '' : t('payments.remainder'), [])}
+                    disabled={saving}
+                    className="w-full border border-gray-300 text-gray-700 px-4 py-2 rounded-lg hover:bg-white disabled:opacity-50 text-sm"
+                  >
+                    {t('payments.payRemaining')} ({formatEuro(openAmount)})
+                  </button>
+                  <button
+                    onClick={handleShowGiroCode}
+                    disabled={saving}
+                    className="w-full border border-gray-300 text-gray-700 px-4 py-2 rounded-lg hover:bg-white disabled:opacity-50 text-sm flex items-center justify-center gap-2"
+                  >
+                    <QrCode className="w-4 h-4" />
+                    {t('payments.girocode')} ({formatEuro(selection.amount > 0 ? selection.amount : openAmount)})
+                  </button>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <PaymentQRModal
+        isOpen={!!qrPayment}
+        onClose={() => setQrPayment(null)}
+        amount={qrPayment?.amount ?? 0}
+        reference={`Rechnung ${getOrderNumber(order)}`}
+        onTransferReceived={handleTransferReceived}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,257 @@
+import { useState, useEffect } from 'react';
+import { X, Plus, Trash2, Flame, AlertCircle, Star } from 'lucide-react';
+import { supabase, MenuItem, Station } from '../lib/supabase';
+import {
+  STATION_KINDS, StationKind,
+  loadStations, saveStation, setDefaultStation, deleteStation, setMenuItemStation
+} from '../lib/stations';
+
+interface StationsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Changes are saved right away, the screens pick them up on their next reload
+export default function StationsModal({ isOpen, onClose }: StationsModalProps) {
+  const [stations, setStations] = useState<Station[]>([]);
+  const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
+  const [newStation, setNewStation] = useState<{ name: string; kind: StationKind }>({ name: '', kind: 'kitchen' });
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const loadData = async () => {
+    const [loadedStations, { data: items, error: itemsError }] = await Promise.all([
+      loadStations(),
+      supabase.from('menu_items').select('*').order('category').order('name')
+    ]);
+
+    if (itemsError) {
+      console.error('Error loading menu items:', itemsError);
+    }
+
+    setStations(loadedStations);
+    setMenuItems(items || []);
+  };
+
+  useEffect(() => {
+    if (isOpen) {
+      setError('');
+      loadData();
+    }
+  }, [isOpen]);
+
+  const runSave = async (action: () => Promise<void>, message: string) => {
+    setError('');
+    setSaving(true);
+    try {
+      await action();
+      await loadData();
+    } catch (err) {
+      console.error('Error saving stations:', err);
+      setError(message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddStation = () => {
+    if (!newStation.name.trim()) {
+      setError('Bitte einen Namen für die Station eingeben');
+      return;
+    }
+    runSave(async () => {
+      await saveStation({
+        ...newStation,
+        sort_order: Math.max(0, ...stations.map(station => station.sort_order)) + 1
+      });
+      setNewStation({ name: '', kind: 'kitchen' });
+    }, 'Station konnte nicht angelegt werden. Gibt es den Namen schon?');
+  };
+
+  const handleRename = (station: Station, name: string) => {
+    if (!name.trim() || name.trim() === station.name) return;
+    runSave(async () => {
+      await saveStation({ ...station, name });
+    }, 'Station konnte nicht umbenannt werden. Gibt es den Namen schon?');
+  };
+
+  const handleKindChange = (station: Station, kind: StationKind) => {
+    runSave(async () => {
+      await saveStation({ ...station, kind });
+    }, 'Station konnte nicht gespeichert werden');
+  };
+
+  const handleDelete = (station: Station) => {
+    const itemCount = menuItems.filter(item => item.station_id === station.id).length;
+    const message = itemCount > 0
+      ? `Station "${station.name}" löschen? ${itemCount} Artikel gehen dann an die Standardstation.`
+      : `Station "${station.name}" löschen?`;
+    if (!confirm(message)) return;
+
+    runSave(() => deleteStation(station.id), 'Station konnte nicht gelöscht werden');
+  };
+
+  const handleMenuItemStationChange = (menuItem: MenuItem, stationId: string) => {
+    runSave(() => setMenuItemStation(menuItem.id, stationId || null), 'Zuordnung konnte nicht gespeichert werden');
+  };
+
+  if (!isOpen) return null;
+
+  const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  const categories = Array.from(new Set(menuItems.map(item => item.category)));
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl max-w-2xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-orange-500 to-orange-600 p-6 text-white">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="p-3 bg-white/20 rounded-lg">
+                <Flame className="w-6 h-6" />
+              </div>
+              <div>
+                <h2 className="text-2xl font-bold">Stationen</h2>
+                <p className="opacity-90">Wo welche Artikel zubereitet werden</p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-white/20 rounded-lg transition-colors"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {error && (
+            <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+              <div className="flex items-start gap-2">
+                <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
+                <p className="text-red-700">{error}</p>
+              </div>
+            </div>
+          )}
+
+          {/* Stations */}
+          <div className="bg-gray-50 rounded-lg p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Stationen</h3>
+            <div className="space-y-3">
+              {stations.map(station => (
+                <div key={station.id} className="flex items-center gap-3">
+                  <input
+                    type="text"
+                    defaultValue={station.name}
+                    onBlur={(e) => handleRename(station, e.target.value)}
+                    className={inputClassName}
+                    disabled={saving}
+                  />
+                  <select
+                    value={station.kind}
+                    onChange={(e) => handleKindChange(station, e.target.value as StationKind)}
+                    className={`${inputClassName} max-w-[120px]`}
+                    disabled={saving}
+                  >
+                    {STATION_KINDS.map(kind => (
+                      <option key={kind.value} value={kind.value}>{kind.label}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => !station.is_default && runSave(() => setDefaultStation(station.id), 'Standardstation konnte nicht gesetzt werden')}
+                    disabled={saving}
+                    className={`p-2 rounded-lg transition-colors ${
+                      station.is_default ? 'text-yellow-500' : 'text-gray-300 hover:text-yellow-500'
+                    }`}
+                    title={station.is_default ? 'Standardstation für Artikel ohne Station' : 'Als Standardstation festlegen'}
+                  >
+                    <Star className="w-5 h-5" fill={station.is_default ? 'currentColor' : 'none'} />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(station)}
+                    disabled={saving || station.is_default}
+                    className="p-2 text-gray-400 hover:text-red-600 rounded-lg transition-colors disabled:opacity-30 disabled:hover:text-gray-400"
+                    title={station.is_default ? 'Die Standardstation kann nicht gelöscht werden' : 'Station löschen'}
+                  >
+                    <Trash2 className="w-5 h-5" />
+                  </button>
+                </div>
+              ))}
+
+              <div className="flex items-center gap-3 pt-3 border-t border-gray-200">
+                <input
+                  type="text"
+                  value={newStation.name}
+                  onChange={(e) => setNewStation(prev => ({ ...prev, name: e.target.value }))}
+                  className={inputClassName}
+                  placeholder="z.B. Grill, Fritteuse, Kalte Küche"
+                />
+                <select
+                  value={newStation.kind}
+                  onChange={(e) => setNewStation(prev => ({ ...prev, kind: e.target.value as StationKind }))}
+                  className={`${inputClassName} max-w-[120px]`}
+                >
+                  {STATION_KINDS.map(kind => (
+                    <option key={kind.value} value={kind.value}>{kind.label}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={handleAddStation}
+                  disabled={saving}
+                  className="flex items-center gap-1 px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 transition-colors disabled:opacity-50"
+                >
+                  <Plus className="w-4 h-4" />
+                  Hinzufügen
+                </button>
+              </div>
+            </div>
+          </div>
+
+          {/* Menu mapping */}
+          <div className="bg-gray-50 rounded-lg p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-1">Zuordnung der Speisekarte</h3>
+            <p className="text-sm text-gray-600 mb-4">
+              Gilt für neue Bestellungen. Artikel ohne Station gehen an die Standardstation.
+            </p>
+            <div className="space-y-4">
+              {categories.map(category => (
+                <div key={category}>
+                  <h4 className="text-sm font-medium text-gray-500 mb-2">{category}</h4>
+                  <div className="space-y-2">
+                    {menuItems.filter(item => item.category === category).map(item => (
+                      <div key={item.id} className="grid grid-cols-2 gap-3 items-center">
+                        <span className="text-sm text-gray-900">{item.name}</span>
+                        <select
+                          value={item.station_id || ''}
+                          onChange={(e) => handleMenuItemStationChange(item, e.target.value)}
+                          className={inputClassName}
+                          disabled={saving}
+                        >
+                          <option value="">Standardstation</option>
+                          {stations.map(station => (
+                            <option key={station.id} value={station.id}>{station.name}</option>
+                          ))}
+                        </select>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="border-t border-gray-200 p-6 bg-gray-50">
+          <button
+            onClick={onClose}
+            className="w-full px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            Schließen
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,533 @@
+import { useState, useEffect } from 'react';
+import { X, ClipboardCheck, AlertCircle, ArrowLeft, Search, Send, CheckCircle, RotateCcw, Ban, Download, Play } from 'lucide-react';
+import { StockTake, StockTakeItem } from '../lib/supabase';
+import {
+  NO_STORAGE_LOCATION, getStockTakeStatus, isStockTakeOpen, getVariance, getVarianceValue,
+  groupByStorageLocation, getCategoryVariances, loadStockTakes, loadStockTakeItems, startStockTake,
+  saveStockTakeCount, submitStockTake, reopenStockTake, cancelStockTake, approveStockTake, downloadStockTakeCSV
+} from '../lib/stockTakes';
+import { formatMoney } from '../lib/invoiceSystem';
+import { useAuth } from '../contexts/AuthContext';
+
+interface StockTakeModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onApproved?: () => void;
+}
+
+const formatQuantity = (value: number) => Number(value.toFixed(3)).toString();
+
+const formatVariance = (value: number) => `${value > 0 ? '+' : ''}${formatQuantity(value)}`;
+
+const getVarianceColor = (value: number | null) =>
+  value == null || value === 0 ? 'text-gray-500' : value < 0 ? 'text-red-600' : 'text-green-600';
+
+export default function StockTakeModal({ isOpen, onClose, onApproved }: StockTakeModalProps) {
+  const [stockTakes, setStockTakes] = useState<StockTake[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [items, setItems] = useState<StockTakeItem[]>([]);
+  const [counts, setCounts] = useState<Record<string, string>>({});
+  const [showReport, setShowReport] = useState(false);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [selectedLocation, setSelectedLocation] = useState('all');
+  const [notes, setNotes] = useState('');
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  const [busy, setBusy] = useState(false);
+  const { user } = useAuth();
+
+  const loadData = async () => {
+    const data = await loadStockTakes();
+    setStockTakes(data);
+    return data;
+  };
+
+  // Goes straight to the open stock take, there is at most one
+  useEffect(() => {
+    if (isOpen) {
+      setError('');
+      setNotice('');
+      setNotes('');
+      loadData().then(data => setSelectedId(data.find(isStockTakeOpen)?.id || null));
+    }
+  }, [isOpen]);
+
+  const selected = stockTakes.find(stockTake => stockTake.id === selectedId) || null;
+  const selectedStatus = selected?.status;
+
+  // Also reloads the lines when the status changes, e.g. after submitting
+  useEffect(() => {
+    setItems([]);
+    setSearchTerm('');
+    setSelectedLocation('all');
+    setShowReport(selectedStatus != null && selectedStatus !== 'counting');
+    if (selectedId) {
+      loadStockTakeItems(selectedId).then(data => {
+        setItems(data);
+        setCounts(Object.fromEntries(data.map(item => [
+          item.id,
+          item.counted_quantity == null ? '' : formatQuantity(Number(item.counted_quantity))
+        ])));
+      });
+    }
+  }, [selectedId, selectedStatus]);
+
+  const runAction = async (action: () => Promise<void>, failure: string) => {
+    setError('');
+    setNotice('');
+    setBusy(true);
+    try {
+      await action();
+      await loadData();
+    } catch (err) {
+      console.error(failure, err);
+      setError(`${failure}: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleStart = () => runAction(async () => {
+    const stockTake = await startStockTake(notes.trim());
+    setNotes('');
+    setSelectedId(stockTake.id);
+  }, 'Failed to start stock take');
+
+  const handleSaveCount = async (item: StockTakeItem) => {
+    const value = (counts[item.id] || '').trim().replace(',', '.');
+    const countedQuantity = value === '' ? null : parseFloat(value);
+
+    if (countedQuantity != null && (isNaN(countedQuantity) || countedQuantity < 0)) {
+      setError(`Enter a valid count for ${item.item_name}`);
+      return;
+    }
+    if (countedQuantity === (item.counted_quantity == null ? null : Number(item.counted_quantity))) return;
+
+    try {
+      setError('');
+      const saved = await saveStockTakeCount(item.id, countedQuantity);
+      setItems(prev => prev.map(existing => existing.id === saved.id ? saved : existing));
+    } catch (err) {
+      console.error('Error saving count:', err);
+      setError(`Failed to save count for ${item.item_name}`);
+    }
+  };
+
+  const handleSubmit = (stockTake: StockTake) => {
+    const missing = items.filter(item => item.counted_quantity == null).length;
+    if (missing > 0 && !confirm(`${missing} item${missing === 1 ? ' is' : 's are'} not counted and will keep their stock. Submit anyway?`)) return;
+
+    runAction(async () => {
+      await submitStockTake(stockTake.id, user!.id);
+      setShowReport(true);
+      setNotice('Count submitted, a manager can now approve it');
+    }, 'Failed to submit stock take');
+  };
+
+  const handleApprove = (stockTake: StockTake) => {
+    if (!confirm('Approve the count and correct the stock of every item with a variance?')) return;
+
+    runAction(async () => {
+      await approveStockTake(stockTake.id);
+      setNotice('Stock take approved, the corrections are booked');
+      onApproved?.();
+    }, 'Failed to approve stock take');
+  };
+
+  const handleReopen = (stockTake: StockTake) => runAction(async () => {
+    await reopenStockTake(stockTake.id);
+    setShowReport(false);
+  }, 'Failed to reopen stock take');
+
+  const handleCancel = (stockTake: StockTake) => {
+    if (!confirm('Cancel this stock take? The counts are kept but no stock is corrected.')) return;
+
+    runAction(async () => {
+      await cancelStockTake(stockTake.id);
+      setSelectedId(null);
+    }, 'Failed to cancel stock take');
+  };
+
+  if (!isOpen) return null;
+
+  const isManager = user?.role === 'manager';
+  const openStockTake = stockTakes.find(isStockTakeOpen);
+  const countedItems = items.filter(item => item.counted_quantity != null);
+  const progress = items.length > 0 ? Math.round(countedItems.length / items.length * 100) : 0;
+  const locations = groupByStorageLocation(items).map(group => group.location);
+  const visibleGroups = groupByStorageLocation(items.filter(item =>
+    item.item_name.toLowerCase().includes(searchTerm.toLowerCase()) &&
+    (selectedLocation === 'all' || (item.storage_location || NO_STORAGE_LOCATION) === selectedLocation)
+  ));
+  const categoryVariances = getCategoryVariances(items);
+  const shortageValue = categoryVariances.reduce((sum, summary) => sum + summary.shortageValue, 0);
+  const surplusValue = categoryVariances.reduce((sum, summary) => sum + summary.surplusValue, 0);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center sm:p-4 z-50">
+      <div className="bg-white sm:rounded-xl shadow-xl max-w-5xl w-full h-full sm:h-auto sm:max-h-[90vh] overflow-hidden flex flex-col">
+        <div className="bg-gradient-to-r from-purple-500 to-purple-600 p-4 sm:p-6 text-white">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="p-3 bg-white/20 rounded-lg">
+                <ClipboardCheck className="w-6 h-6" />
+              </div>
+              <div>
+                <h2 className="text-xl font-bold">Stock Take</h2>
+                <p className="opacity-90">Count the shelves and correct the stock</p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-white/20 rounded-lg transition-colors"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 sm:p-6 space-y-4">
+          {error && (
+            <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center gap-2">
+              <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
+              <p className="text-red-700">{error}</p>
+            </div>
+          )}
+          {notice && (
+            <div className="p-4 bg-green-50 border border-green-200 rounded-lg">
+              <p className="text-green-700">{notice}</p>
+            </div>
+          )}
+
+          {selected ? (
+            <>
+              <div className="flex flex-wrap items-start justify-between gap-3">
+                <div>
+                  <button
+                    onClick={() => setSelectedId(null)}
+                    className="flex items-center gap-1 text-sm text-purple-600 hover:text-purple-700 mb-1"
+                  >
+                    <ArrowLeft className="w-4 h-4" />
+                    All stock takes
+                  </button>
+                  <div className="flex items-center gap-2">
+                    <h3 className="text-2xl font-bold text-gray-900">
+                      {new Date(selected.started_at).toLocaleDateString()}
+                    </h3>
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${getStockTakeStatus(selected.status).color}`}>
+                      {getStockTakeStatus(selected.status).label}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-500">
+                    Started {new Date(selected.started_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                    {selected.started_by_user && ` by ${selected.started_by_user.name}`}
+                    {selected.approved_at && ` · approved ${new Date(selected.approved_at).toLocaleDateString()}`}
+                    {selected.approved_by_user && ` by ${selected.approved_by_user.name}`}
+                  </p>
+                  {selected.notes && <p className="text-sm text-gray-600 mt-1">{selected.notes}</p>}
+                </div>
+                <div className="flex items-center gap-2">
+                  {selected.status === 'counting' && (
+                    <button
+                      onClick={() => setShowReport(!showReport)}
+                      className="px-3 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+                    >
+                      {showReport ? 'Back to Count' : 'Variance Report'}
+                    </button>
+                  )}
+                  <button
+                    onClick={() => downloadStockTakeCSV(selected, items)}
+                    className="flex items-center gap-2 px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                  >
+                    <Download className="w-4 h-4" />
+                    CSV
+                  </button>
+                </div>
+              </div>
+
+              <div>
+                <div className="flex items-center justify-between text-sm text-gray-600 mb-1">
+                  <span>{countedItems.length} of {items.length} items counted</span>
+                  <span>{progress}%</span>
+                </div>
+                <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+                  <div className="h-full bg-purple-600 transition-all" style={{ width: `${progress}%` }} />
+                </div>
+              </div>
+
+              {showReport ? (
+                <>
+                  {/* Variance Report */}
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                    <div className="bg-gray-50 rounded-lg p-3">
+                      <p className="text-xs text-gray-500">Counted</p>
+                      <p className="text-lg font-bold text-gray-900">{countedItems.length} / {items.length}</p>
+                    </div>
+                    <div className="bg-gray-50 rounded-lg p-3">
+                      <p className="text-xs text-gray-500">With variance</p>
+                      <p className="text-lg font-bold text-gray-900">{countedItems.filter(item => getVariance(item)).length}</p>
+                    </div>
+                    <div className="bg-red-50 rounded-lg p-3">
+                      <p className="text-xs text-red-600">Shortage</p>
+                      <p className="text-lg font-bold text-red-700">{formatMoney(shortageValue)}</p>
+                    </div>
+                    <div className="bg-green-50 rounded-lg p-3">
+                      <p className="text-xs text-green-600">Surplus</p>
+                      <p className="text-lg font-bold text-green-700">{formatMoney(surplusValue)}</p>
+                    </div>
+                  </div>
+
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b border-gray-200 text-left text-gray-500">
+                          <th className="py-2 pr-4 font-medium">Category</th>
+                          <th className="py-2 pr-4 font-medium text-right">Counted</th>
+                          <th className="py-2 pr-4 font-medium text-right">With variance</th>
+                          <th className="py-2 pr-4 font-medium text-right">Shortage</th>
+                          <th className="py-2 pr-4 font-medium text-right">Surplus</th>
+                          <th className="py-2 font-medium text-right">Net</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {categoryVariances.map(summary => (
+                          <tr key={summary.category} className="border-b border-gray-100">
+                            <td className="py-2 pr-4 font-medium text-gray-900">{summary.category}</td>
+                            <td className="py-2 pr-4 text-right">{summary.countedCount} / {summary.itemCount}</td>
+                            <td className="py-2 pr-4 text-right">{summary.varianceCount}</td>
+                            <td className="py-2 pr-4 text-right text-red-600">{formatMoney(summary.shortageValue)}</td>
+                            <td className="py-2 pr-4 text-right text-green-600">{formatMoney(summary.surplusValue)}</td>
+                            <td className={`py-2 text-right font-medium ${getVarianceColor(summary.shortageValue + summary.surplusValue)}`}>
+                              {formatMoney(summary.shortageValue + summary.surplusValue)}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b border-gray-200 text-left text-gray-500">
+                          <th className="py-2 pr-4 font-medium">Item</th>
+                          <th className="py-2 pr-4 font-medium text-right">Expected</th>
+                          <th className="py-2 pr-4 font-medium text-right">Counted</th>
+                          <th className="py-2 pr-4 font-medium text-right">Variance</th>
+                          <th className="py-2 font-medium text-right">Value</th>
+                        </tr>
+                      </thead>
+                      {groupByStorageLocation(items).map(group => (
+                        <tbody key={group.location}>
+                          <tr>
+                            <td colSpan={5} className="pt-4 pb-1 text-xs font-semibold uppercase tracking-wide text-gray-500">
+                              {group.location}
+                            </td>
+                          </tr>
+                          {group.items.map(item => {
+                            const variance = getVariance(item);
+                            const value = getVarianceValue(item);
+                            return (
+                              <tr key={item.id} className="border-b border-gray-100">
+                                <td className="py-2 pr-4">
+                                  <div className="font-medium text-gray-900">{item.item_name}</div>
+                                  <div className="text-xs text-gray-500">{item.category}</div>
+                                </td>
+                                <td className="py-2 pr-4 text-right">
+                                  {item.expected_quantity == null ? '—' : `${formatQuantity(Number(item.expected_quantity))} ${item.unit}`}
+                                </td>
+                                <td className="py-2 pr-4 text-right">
+                                  {item.counted_quantity == null
+                                    ? <span className="text-gray-400">Not counted</span>
+                                    : `${formatQuantity(Number(item.counted_quantity))} ${item.unit}`}
+                                </td>
+                                <td className={`py-2 pr-4 text-right font-medium ${getVarianceColor(variance)}`}>
+                                  {variance == null ? '—' : formatVariance(variance)}
+                                </td>
+                                <td className={`py-2 text-right ${getVarianceColor(value)}`}>
+                                  {value == null ? '—' : formatMoney(value)}
+                                </td>
+                              </tr>
+                            );
+                          })}
+                        </tbody>
+                      ))}
+                    </table>
+                  </div>
+                </>
+              ) : (
+                <>
+                  {/* Count */}
+                  <div className="relative">
+                    <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+                    <input
+                      type="text"
+                      value={searchTerm}
+                      onChange={(e) => setSearchTerm(e.target.value)}
+                      placeholder="Search items..."
+                      className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                    />
+                  </div>
+                  <div className="flex gap-2 overflow-x-auto pb-1">
+                    {['all', ...locations].map(location => (
+                      <button
+                        key={location}
+                        onClick={() => setSelectedLocation(location)}
+                        className={`px-3 py-1.5 rounded-full text-sm whitespace-nowrap transition-colors ${
+                          selectedLocation === location ? 'bg-purple-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                        }`}
+                      >
+                        {location === 'all' ? 'All locations' : location}
+                      </button>
+                    ))}
+                  </div>
+
+                  {visibleGroups.map(group => (
+                    <div key={group.location}>
+                      <h4 className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-2">
+                        {group.location} · {group.items.filter(item => item.counted_quantity != null).length}/{group.items.length}
+                      </h4>
+                      <div className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                        {group.items.map(item => (
+                          <div
+                            key={item.id}
+                            className={`flex items-center gap-3 p-3 ${item.counted_quantity != null ? 'bg-green-50/50' : ''}`}
+                          >
+                            <div className="flex-1 min-w-0">
+                              <div className="font-medium text-gray-900 truncate">{item.item_name}</div>
+                              <div className="text-xs text-gray-500">{item.category}</div>
+                            </div>
+                            {item.counted_quantity != null && (
+                              <CheckCircle className="w-5 h-5 text-green-600 flex-shrink-0" />
+                            )}
+                            <input
+                              type="text"
+                              inputMode="decimal"
+                              value={counts[item.id] || ''}
+                              onChange={(e) => setCounts(prev => ({ ...prev, [item.id]: e.target.value }))}
+                              onBlur={() => handleSaveCount(item)}
+                              onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+                              disabled={selected.status !== 'counting'}
+                              placeholder="–"
+                              className="w-24 px-3 py-2 text-lg border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent text-right disabled:bg-gray-100"
+                            />
+                            <span className="w-14 text-sm text-gray-500">{item.unit}</span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                  {visibleGroups.length === 0 && (
+                    <p className="text-sm text-gray-500 text-center py-8">No items found</p>
+                  )}
+                </>
+              )}
+
+              {selected.status === 'submitted' && !isManager && (
+                <p className="text-sm text-yellow-700 bg-yellow-50 border border-yellow-200 rounded-lg p-3">
+                  Waiting for a manager to approve the count
+                </p>
+              )}
+
+              {isStockTakeOpen(selected) && (
+                <div className="flex flex-wrap justify-end gap-2 pt-2 border-t border-gray-200">
+                  <button
+                    onClick={() => handleCancel(selected)}
+                    disabled={busy}
+                    className="flex items-center gap-2 px-4 py-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50"
+                  >
+                    <Ban className="w-4 h-4" />
+                    Cancel Stock Take
+                  </button>
+                  {selected.status === 'counting' && (
+                    <button
+                      onClick={() => handleSubmit(selected)}
+                      disabled={busy || countedItems.length === 0}
+                      className="flex items-center gap-2 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors disabled:opacity-50"
+                    >
+                      <Send className="w-4 h-4" />
+                      Submit for Approval
+                    </button>
+                  )}
+                  {selected.status === 'submitted' && isManager && (
+                    <>
+                      <button
+                        onClick={() => handleReopen(selected)}
+                        disabled={busy}
+                        className="flex items-center gap-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+                      >
+                        <RotateCcw className="w-4 h-4" />
+                        Reopen Count
+                      </button>
+                      <button
+                        onClick={() => handleApprove(selected)}
+                        disabled={busy}
+                        className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+                      >
+                        <CheckCircle className="w-4 h-4" />
+                        Approve & Post Corrections
+                      </button>
+                    </>
+                  )}
+                </div>
+              )}
+            </>
+          ) : (
+            <>
+              {!openStockTake && (
+                <div className="border border-purple-200 bg-purple-50 rounded-lg p-4 space-y-3">
+                  <p className="text-sm text-purple-900">
+                    Starting a stock take freezes the current stock of every item. Serving can go on while you count,
+                    anything booked in the meantime is taken into account.
+                  </p>
+                  <div className="flex flex-col sm:flex-row gap-2">
+                    <input
+                      type="text"
+                      value={notes}
+                      onChange={(e) => setNotes(e.target.value)}
+                      placeholder="Notes, e.g. Monthly count July"
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                    />
+                    <button
+                      onClick={handleStart}
+                      disabled={busy}
+                      className="flex items-center justify-center gap-2 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors disabled:opacity-50"
+                    >
+                      <Play className="w-4 h-4" />
+                      Start Stock Take
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                {stockTakes.map(stockTake => {
+                  const status = getStockTakeStatus(stockTake.status);
+                  return (
+                    <button
+                      key={stockTake.id}
+                      onClick={() => setSelectedId(stockTake.id)}
+                      className="w-full text-left px-4 py-3 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors"
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-medium text-gray-900">{new Date(stockTake.started_at).toLocaleDateString()}</span>
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${status.color}`}>{status.label}</span>
+                      </div>
+                      <div className="text-xs text-gray-500 mt-1">
+                        {stockTake.notes || 'No notes'}
+                        {stockTake.started_by_user && ` · ${stockTake.started_by_user.name}`}
+                      </div>
+                    </button>
+                  );
+                })}
+                {stockTakes.length === 0 && (
+                  <p className="text-sm text-gray-500 text-center py-8">No stock takes yet</p>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
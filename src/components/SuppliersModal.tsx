@@ -0,0 +1,447 @@
+import { useState, useEffect } from 'react';
+import { X, Truck, Plus, Trash2, Save, AlertCircle, Star } from 'lucide-react';
+import { supabase, Supplier, SupplierItem, InventoryItem } from '../lib/supabase';
+import {
+  loadSuppliers, saveSupplier, deleteSupplier,
+  loadSupplierItems, saveSupplierItem, deleteSupplierItem
+} from '../lib/purchasing';
+import { formatMoney } from '../lib/invoiceSystem';
+
+interface SuppliersModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const emptySupplier = {
+  name: '',
+  contact_name: '',
+  email: '',
+  phone: '',
+  lead_time_days: 1,
+  minimum_order: 0,
+  notes: ''
+};
+
+const emptyCatalogItem = {
+  inventory_item_id: '',
+  supplier_sku: '',
+  pack_size: '1',
+  pack_price: '',
+  is_preferred: false
+};
+
+export default function SuppliersModal({ isOpen, onClose }: SuppliersModalProps) {
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [inventoryItems, setInventoryItems] = useState<InventoryItem[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [formData, setFormData] = useState(emptySupplier);
+  const [catalog, setCatalog] = useState<SupplierItem[]>([]);
+  const [catalogForm, setCatalogForm] = useState(emptyCatalogItem);
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const loadData = async () => {
+    const [supplierList, { data: stock, error: stockError }] = await Promise.all([
+      loadSuppliers(),
+      supabase.from('inventory_items').select('*').order('category').order('name')
+    ]);
+
+    if (stockError) {
+      console.error('Error loading inventory items:', stockError);
+    }
+
+    setSuppliers(supplierList);
+    setInventoryItems(stock || []);
+  };
+
+  useEffect(() => {
+    if (isOpen) {
+      setError('');
+      setSelectedId(null);
+      setFormData(emptySupplier);
+      setCatalog([]);
+      loadData();
+    }
+  }, [isOpen]);
+
+  const selectSupplier = async (supplier: Supplier | null) => {
+    setError('');
+    setSelectedId(supplier?.id || null);
+    setCatalogForm(emptyCatalogItem);
+    setFormData(supplier ? {
+      name: supplier.name,
+      contact_name: supplier.contact_name || '',
+      email: supplier.email || '',
+      phone: supplier.phone || '',
+      lead_time_days: supplier.lead_time_days,
+      minimum_order: supplier.minimum_order,
+      notes: supplier.notes || ''
+    } : emptySupplier);
+    setCatalog(supplier ? await loadSupplierItems(supplier.id) : []);
+  };
+
+  const handleSaveSupplier = async () => {
+    if (!formData.name.trim()) {
+      setError('Please enter a supplier name');
+      return;
+    }
+
+    setError('');
+    setSaving(true);
+    try {
+      const saved = await saveSupplier({
+        id: selectedId || undefined,
+        name: formData.name.trim(),
+        contact_name: formData.contact_name.trim() || null,
+        email: formData.email.trim() || null,
+        phone: formData.phone.trim() || null,
+        lead_time_days: Math.max(0, Math.round(formData.lead_time_days)),
+        minimum_order: Math.max(0, formData.minimum_order),
+        notes: formData.notes.trim() || null
+      });
+      setSelectedId(saved.id);
+      setSuppliers(await loadSuppliers());
+    } catch (err) {
+      console.error('Error saving supplier:', err);
+      setError('Failed to save supplier');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteSupplier = async () => {
+    if (!selectedId || !confirm('Are you sure you want to delete this supplier and its catalog?')) return;
+
+    try {
+      await deleteSupplier(selectedId);
+      setSuppliers(prev => prev.filter(supplier => supplier.id !== selectedId));
+      selectSupplier(null);
+    } catch (err) {
+      console.error('Error deleting supplier:', err);
+      setError('Failed to delete supplier. Suppliers with purchase orders can\'t be deleted.');
+    }
+  };
+
+  const handleAddCatalogItem = async () => {
+    if (!selectedId) return;
+
+    const packSize = parseFloat(catalogForm.pack_size);
+    const packPrice = parseFloat(catalogForm.pack_price);
+    if (!catalogForm.inventory_item_id || !(packSize > 0) || isNaN(packPrice) || packPrice < 0) {
+      setError('Please choose an item and enter pack size and price');
+      return;
+    }
+
+    setError('');
+    try {
+      await saveSupplierItem({
+        supplier_id: selectedId,
+        inventory_item_id: catalogForm.inventory_item_id,
+        supplier_sku: catalogForm.supplier_sku.trim() || null,
+        pack_size: packSize,
+        pack_price: packPrice,
+        is_preferred: catalogForm.is_preferred
+      });
+      setCatalogForm(emptyCatalogItem);
+      setCatalog(await loadSupplierItems(selectedId));
+    } catch (err) {
+      console.error('Error saving supplier item:', err);
+      setError('Failed to add item. Each item can only be listed once per supplier.');
+    }
+  };
+
+  const handleTogglePreferred = async (item: SupplierItem) => {
+    if (!selectedId) return;
+
+    try {
+      await saveSupplierItem({ ...item, is_preferred: !item.is_preferred });
+      setCatalog(await loadSupplierItems(selectedId));
+    } catch (err) {
+      console.error('Error saving supplier item:', err);
+      setError('Failed to update item');
+    }
+  };
+
+  const handleDeleteCatalogItem = async (id: string) => {
+    try {
+      await deleteSupplierItem(id);
+      setCatalog(prev => prev.filter(item => item.id !== id));
+    } catch (err) {
+      console.error('Error deleting supplier item:', err);
+      setError('Failed to remove item');
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent';
+  const catalogItemIds = catalog.map(item => item.inventory_item_id);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl max-w-5xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        <div className="bg-gradient-to-r from-purple-500 to-purple-600 p-6 text-white">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="p-3 bg-white/20 rounded-lg">
+                <Truck className="w-6 h-6" />
+              </div>
+              <div>
+                <h2 className="text-xl font-bold">Suppliers</h2>
+                <p className="opacity-90">Contacts, lead times and what each supplier delivers</p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-white/20 rounded-lg transition-colors"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-hidden flex">
+          {/* Supplier List */}
+          <div className="w-64 border-r border-gray-200 overflow-y-auto p-4 space-y-2">
+            <button
+              onClick={() => selectSupplier(null)}
+              className="w-full flex items-center justify-center gap-2 px-3 py-2 border border-dashed border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              <Plus className="w-4 h-4" />
+              New Supplier
+            </button>
+            {suppliers.map(supplier => (
+              <button
+                key={supplier.id}
+                onClick={() => selectSupplier(supplier)}
+                className={`w-full text-left px-3 py-2 rounded-lg transition-colors ${
+                  supplier.id === selectedId ? 'bg-purple-100 text-purple-900' : 'hover:bg-gray-100 text-gray-700'
+                }`}
+              >
+                <div className="font-medium">{supplier.name}</div>
+                <div className="text-xs text-gray-500">
+                  {supplier.lead_time_days} day{supplier.lead_time_days === 1 ? '' : 's'} lead time
+                </div>
+              </button>
+            ))}
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-6 space-y-6">
+            {error && (
+              <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center gap-2">
+                <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
+                <p className="text-red-700">{error}</p>
+              </div>
+            )}
+
+            {/* Supplier Details */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-1">Name *</label>
+                <input
+                  type="text"
+                  value={formData.name}
+                  onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Contact Person</label>
+                <input
+                  type="text"
+                  value={formData.contact_name}
+                  onChange={(e) => setFormData(prev => ({ ...prev, contact_name: e.target.value }))}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Email</label>
+                <input
+                  type="email"
+                  value={formData.email}
+                  onChange={(e) => setFormData(prev => ({ ...prev, email: e.target.value }))}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Phone</label>
+                <input
+                  type="tel"
+                  value={formData.phone}
+                  onChange={(e) => setFormData(prev => ({ ...prev, phone: e.target.value }))}
+                  className={inputClassName}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Lead Time (days)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={formData.lead_time_days}
+                    onChange={(e) => setFormData(prev => ({ ...prev, lead_time_days: parseInt(e.target.value) || 0 }))}
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Minimum Order</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={formData.minimum_order}
+                    onChange={(e) => setFormData(prev => ({ ...prev, minimum_order: parseFloat(e.target.value) || 0 }))}
+                    className={inputClassName}
+                  />
+                </div>
+              </div>
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+                <textarea
+                  value={formData.notes}
+                  onChange={(e) => setFormData(prev => ({ ...prev, notes: e.target.value }))}
+                  rows={2}
+                  placeholder="e.g. order by Thursday noon for Friday delivery"
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+
+            <div className="flex gap-3">
+              <button
+                onClick={handleSaveSupplier}
+                disabled={saving}
+                className="flex items-center gap-2 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors disabled:opacity-50"
+              >
+                <Save className="w-4 h-4" />
+                {saving ? 'Saving...' : selectedId ? 'Save Supplier' : 'Add Supplier'}
+              </button>
+              {selectedId && (
+                <button
+                  onClick={handleDeleteSupplier}
+                  className="flex items-center gap-2 px-4 py-2 border border-red-300 text-red-600 rounded-lg hover:bg-red-50 transition-colors"
+                >
+                  <Trash2 className="w-4 h-4" />
+                  Delete
+                </button>
+              )}
+            </div>
+
+            {/* Catalog */}
+            {selectedId && (
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900 mb-3">Catalog</h3>
+                {catalog.length > 0 ? (
+                  <table className="w-full text-sm mb-4">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Item</th>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Article No.</th>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Pack</th>
+                        <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Price</th>
+                        <th className="px-3 py-2"></th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {catalog.map(item => (
+                        <tr key={item.id}>
+                          <td className="px-3 py-2 text-gray-900">{item.inventory_item?.name}</td>
+                          <td className="px-3 py-2 text-gray-600">{item.supplier_sku || '—'}</td>
+                          <td className="px-3 py-2 text-gray-600">{item.pack_size} {item.inventory_item?.unit}</td>
+                          <td className="px-3 py-2 text-right text-gray-900">{formatMoney(item.pack_price)}</td>
+                          <td className="px-3 py-2 text-right whitespace-nowrap">
+                            <button
+                              onClick={() => handleTogglePreferred(item)}
+                              className={`p-1 ${item.is_preferred ? 'text-yellow-500' : 'text-gray-300 hover:text-yellow-500'}`}
+                              title={item.is_preferred ? 'Preferred supplier for this item' : 'Make preferred supplier for this item'}
+                            >
+                              <Star className="w-4 h-4" fill={item.is_preferred ? 'currentColor' : 'none'} />
+                            </button>
+                            <button
+                              onClick={() => handleDeleteCatalogItem(item.id)}
+                              className="p-1 text-gray-400 hover:text-red-600"
+                              title="Remove from catalog"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                ) : (
+                  <p className="text-sm text-gray-500 mb-4">No items in this supplier's catalog yet</p>
+                )}
+
+                <div className="bg-gray-50 rounded-lg p-4 grid grid-cols-1 md:grid-cols-5 gap-3 items-end">
+                  <div className="md:col-span-2">
+                    <label className="block text-xs font-medium text-gray-700 mb-1">Item</label>
+                    <select
+                      value={catalogForm.inventory_item_id}
+                      onChange={(e) => setCatalogForm(prev => ({ ...prev, inventory_item_id: e.target.value }))}
+                      className={inputClassName}
+                    >
+                      <option value="">Choose item</option>
+                      {inventoryItems
+                        .filter(item => !catalogItemIds.includes(item.id))
+                        .map(item => (
+                          <option key={item.id} value={item.id}>{item.name} ({item.unit})</option>
+                        ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">Article No.</label>
+                    <input
+                      type="text"
+                      value={catalogForm.supplier_sku}
+                      onChange={(e) => setCatalogForm(prev => ({ ...prev, supplier_sku: e.target.value }))}
+                      className={inputClassName}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">Units per Pack</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.001"
+                      value={catalogForm.pack_size}
+                      onChange={(e) => setCatalogForm(prev => ({ ...prev, pack_size: e.target.value }))}
+                      className={inputClassName}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">Pack Price (net)</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={catalogForm.pack_price}
+                      onChange={(e) => setCatalogForm(prev => ({ ...prev, pack_price: e.target.value }))}
+                      className={inputClassName}
+                    />
+                  </div>
+                  <label className="md:col-span-3 flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={catalogForm.is_preferred}
+                      onChange={(e) => setCatalogForm(prev => ({ ...prev, is_preferred: e.target.checked }))}
+                      className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+                    />
+                    Preferred supplier for this item
+                  </label>
+                  <button
+                    onClick={handleAddCatalogItem}
+                    className="md:col-span-2 flex items-center justify-center gap-2 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors"
+                  >
+                    <Plus className="w-4 h-4" />
+                    Add to Catalog
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,24 +1,20 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { 
   Plus, Users, Clock, DollarSign, Edit, Eye, Save, X,
-  Square, Circle, Minus, RotateCcw, MapPin, Settings,
-  ShoppingCart, User, Utensils, AlertCircle, Check
+  Square, Circle, Minus, RotateCcw, RotateCw, MapPin, Settings,
+  ShoppingCart, User, Utensils, AlertCircle, Check, Trash2, Layers, Split
 } from 'lucide-react';
 import { useSearchParams } from 'react-router-dom';
-import { supabase, Order } from '../lib/supabase';
+import { supabase, Order, OrderItem, RestaurantTable, FloorArea, FloorElement } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
 import { useLanguage } from '../contexts/LanguageContext';
 import NewOrderModal from './NewOrderModal';
+import SplitBillModal from './SplitBillModal';
+import { getOrderNumber } from '../lib/orderNumbers';
+import { isHeldItem, getHeldCourses, fireCourse } from '../lib/courses';
 
-interface Table {
-  id: string;
-  number: number;
-  seats: number;
-  shape: 'round' | 'square' | 'rectangular' | 'oval';
-  status: 'available' | 'occupied' | 'reserved' | 'cleaning';
+interface Table extends RestaurantTable {
   currentOrders?: Order[];
-  x?: number;
-  y?: number;
 }
 
 interface SeatOrderModalProps {
@@ -33,9 +29,69 @@ interface TableEditModalProps {
   isOpen: boolean;
   onClose: () => void;
   table: Table | null;
+  areas: FloorArea[];
   onTableUpdated: (updatedTable: Table) => void;
+  onTableDeleted: (tableId: string) => void;
+}
+
+type LayoutItemKind = 'table' | 'element';
+
+interface LayoutBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
 }
 
+interface DragState {
+  kind: LayoutItemKind;
+  id: string;
+  mode: 'move' | 'resize';
+  startX: number;
+  startY: number;
+  origin: LayoutBox;
+  bounds: { width: number; height: number };
+  patch: Partial<LayoutBox> | null;
+}
+
+// Floor plan grid size in px; positions and sizes snap to it while dragging
+const GRID_SIZE = 20;
+const MIN_TABLE_SIZE = 60;
+const MIN_ELEMENT_SIZE = 20;
+const ROTATION_STEP = 15;
+
+const ELEMENT_DEFAULTS: Record<FloorElement['type'], { width: number; height: number }> = {
+  wall: { width: 200, height: 20 },
+  bar: { width: 240, height: 60 },
+  decor: { width: 60, height: 60 }
+};
+
+const snapToGrid = (value: number) => Math.round(value / GRID_SIZE) * GRID_SIZE;
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), Math.max(min, max));
+
+// A table with live orders is always shown as occupied, otherwise the stored status applies
+const getEffectiveStatus = (table: Table): Table['status'] =>
+  table.currentOrders && table.currentOrders.length > 0 ? 'occupied' : table.status;
+
+const getSeatItems = (table: Table, seatNumber: number): OrderItem[] =>
+  (table.currentOrders || []).flatMap(order =>
+    (order.order_items || []).filter(item => item.seat_number === seatNumber)
+  );
+
+const saveLayoutChange = async (kind: LayoutItemKind, id: string, patch: Partial<LayoutBox> | { rotation: number }) => {
+  const { error } = await supabase
+    .from(kind === 'table' ? 'restaurant_tables' : 'floor_elements')
+    .update(patch)
+    .eq('id', id);
+
+  if (error) {
+    console.error('Error saving floor plan layout:', error);
+    return false;
+  }
+  return true;
+};
+
 function SeatOrderModal({ isOpen, onClose, table, seatNumber, onOrderPlaced }: SeatOrderModalProps) {
   if (!isOpen || !table || !seatNumber) return null;
 
@@ -49,18 +105,21 @@ function SeatOrderModal({ isOpen, onClose, table, seatNumber, onOrderPlaced }: S
       }}
       prefilledTableNumber={table.number}
       prefilledSeatNumber={seatNumber}
+      existingSeatItems={getSeatItems(table, seatNumber)}
     />
   );
 }
 
-function TableEditModal({ isOpen, onClose, table, onTableUpdated }: TableEditModalProps) {
+function TableEditModal({ isOpen, onClose, table, areas, onTableUpdated, onTableDeleted }: TableEditModalProps) {
   const [editData, setEditData] = useState({
     number: 1,
     seats: 4,
     shape: 'square' as Table['shape'],
-    status: 'available' as Table['status']
+    status: 'available' as Table['status'],
+    area_id: ''
   });
   const [saving, setSaving] = useState(false);
+  const [deleting, setDeleting] = useState(false);
   const [error, setError] = useState('');
   const { t } = useLanguage();
 
@@ -70,12 +129,14 @@ function TableEditModal({ isOpen, onClose, table, onTableUpdated }: TableEditMod
         number: table.number,
         seats: table.seats,
         shape: table.shape,
-        status: table.status
+        status: table.status,
+        area_id: table.area_id || ''
       });
+      setError('');
     }
   }, [table]);
 
-  const handleSave = () => {
+  const handleSave = async () => {
     if (editData.seats < 1 || editData.seats > 20) {
       setError(t('error.seatsRange'));
       return;
@@ -89,20 +150,65 @@ function TableEditModal({ isOpen, onClose, table, onTableUpdated }: TableEditMod
     setSaving(true);
     setError('');
 
-    // Simulate save (in real app, this would update the database)
-    setTimeout(() => {
-      const updatedTable: Table = {
-        ...table!,
-        number: editData.number,
-        seats: editData.seats,
-        shape: editData.shape,
-        status: editData.status
-      };
-      
-      onTableUpdated(updatedTable);
+    try {
+      const { data, error: updateError } = await supabase
+        .from('restaurant_tables')
+        .update({
+          number: editData.number,
+          seats: editData.seats,
+          shape: editData.shape,
+          status: editData.status,
+          area_id: editData.area_id || null
+        })
+        .eq('id', table!.id)
+        .select()
+        .single();
+
+      if (updateError) {
+        console.error('Error updating table:', updateError);
+        // 23505 = unique_violation on the table number
+        setError(updateError.code === '23505' ? t('error.tableNumberTaken') : t('error.failedToUpdateTable'));
+        return;
+      }
+
+      onTableUpdated({ ...table!, ...data });
+      onClose();
+    } catch (err) {
+      console.error('Error updating table:', err);
+      setError(t('error.failedToUpdateTable'));
+    } finally {
       setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!confirm(`${t('tables.confirmDelete')} ${table!.number}?`)) {
+      return;
+    }
+
+    setDeleting(true);
+    setError('');
+
+    try {
+      const { error: deleteError } = await supabase
+        .from('restaurant_tables')
+        .delete()
+        .eq('id', table!.id);
+
+      if (deleteError) {
+        console.error('Error deleting table:', deleteError);
+        setError(t('error.failedToDeleteTable'));
+        return;
+      }
+
+      onTableDeleted(table!.id);
       onClose();
-    }, 500);
+    } catch (err) {
+      console.error('Error deleting table:', err);
+      setError(t('error.failedToDeleteTable'));
+    } finally {
+      setDeleting(false);
+    }
   };
 
   const getShapeIcon = (shape: string, isSelected: boolean = false) => {
@@ -232,6 +338,24 @@ function TableEditModal({ isOpen, onClose, table, onTableUpdated }: TableEditMod
             </div>
           </div>
 
+          {/* Area */}
+          {areas.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                {t('tables.area')}
+              </label>
+              <select
+                value={editData.area_id}
+                onChange={(e) => setEditData(prev => ({ ...prev, area_id: e.target.value }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {areas.map(area => (
+                  <option key={area.id} value={area.id}>{area.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
           {/* Table Status */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -273,6 +397,18 @@ function TableEditModal({ isOpen, onClose, table, onTableUpdated }: TableEditMod
 
           {/* Action Buttons */}
           <div className="flex gap-3 pt-4">
+            <button
+              onClick={handleDelete}
+              disabled={saving || deleting}
+              className="px-4 py-2 border border-red-300 text-red-600 rounded-lg hover:bg-red-50 transition-colors disabled:opacity-50"
+              title={t('tables.deleteTable')}
+            >
+              {deleting ? (
+                <div className="w-4 h-4 border-2 border-red-600 border-t-transparent rounded-full animate-spin"></div>
+              ) : (
+                <Trash2 className="w-4 h-4" />
+              )}
+            </button>
             <button
               onClick={onClose}
               className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
@@ -281,7 +417,7 @@ function TableEditModal({ isOpen, onClose, table, onTableUpdated }: TableEditMod
             </button>
             <button
               onClick={handleSave}
-              disabled={saving}
+              disabled={saving || deleting}
               className="flex-1 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
             >
               {saving ? (
@@ -307,12 +443,32 @@ export default function TableView() {
   const [showSeatOrderModal, setShowSeatOrderModal] = useState(false);
   const [showEditModal, setShowEditModal] = useState(false);
   const [selectedSeat, setSelectedSeat] = useState<number | null>(null);
+  const [billingOrder, setBillingOrder] = useState<Order | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [editMode, setEditMode] = useState(false);
+  const [addingTable, setAddingTable] = useState(false);
+  const [areas, setAreas] = useState<FloorArea[]>([]);
+  const [activeAreaId, setActiveAreaId] = useState<string | null>(null);
+  const [elements, setElements] = useState<FloorElement[]>([]);
+  const [selectedItem, setSelectedItem] = useState<{ kind: LayoutItemKind; id: string } | null>(null);
+  const [dragging, setDragging] = useState(false);
+  const [layoutError, setLayoutError] = useState(false);
+  const [showAddArea, setShowAddArea] = useState(false);
+  const [newAreaName, setNewAreaName] = useState('');
+  const [firingCourse, setFiringCourse] = useState(false);
+  const dragRef = useRef<DragState | null>(null);
   const { user } = useAuth();
   const { t } = useLanguage();
   const [searchParams] = useSearchParams();
+  const canEditLayout = user?.role === 'manager';
+
+  const activeArea = areas.find(area => area.id === activeAreaId) || null;
+  // Tables without an area are shown on the first area so they never disappear
+  const visibleTables = tables.filter(table =>
+    !activeArea || table.area_id === activeArea.id || (!table.area_id && activeArea.id === areas[0]?.id)
+  );
+  const visibleElements = elements.filter(element => element.area_id === activeArea?.id);
 
   useEffect(() => {
     if (user) {
@@ -330,6 +486,9 @@ export default function TableView() {
       const table = tables.find(t => t.number === tableNumber);
       if (table) {
         setSelectedTable(table);
+        if (table.area_id) {
+          setActiveAreaId(table.area_id);
+        }
         // Scroll to the table or highlight it
         setTimeout(() => {
           const tableElement = document.querySelector(`[data-table="${tableNumber}"]`);
@@ -346,27 +505,104 @@ export default function TableView() {
     }
   }, [searchParams, tables]);
 
+  useEffect(() => {
+    if (!dragging) return;
+
+    const handlePointerMove = (event: PointerEvent) => {
+      const drag = dragRef.current;
+      if (!drag) return;
+
+      const dx = event.clientX - drag.startX;
+      const dy = event.clientY - drag.startY;
+      const minSize = drag.kind === 'table' ? MIN_TABLE_SIZE : MIN_ELEMENT_SIZE;
+
+      const patch: Partial<LayoutBox> = drag.mode === 'move'
+        ? {
+            x: clamp(snapToGrid(drag.origin.x + dx), 0, drag.bounds.width - drag.origin.width),
+            y: clamp(snapToGrid(drag.origin.y + dy), 0, drag.bounds.height - drag.origin.height)
+          }
+        : {
+            width: clamp(snapToGrid(drag.origin.width + dx), minSize, drag.bounds.width - drag.origin.x),
+            height: clamp(snapToGrid(drag.origin.height + dy), minSize, drag.bounds.height - drag.origin.y)
+          };
+
+      drag.patch = patch;
+      if (drag.kind === 'table') {
+        setTables(prev => prev.map(table => table.id === drag.id ? { ...table, ...patch } : table));
+      } else {
+        setElements(prev => prev.map(element => element.id === drag.id ? { ...element, ...patch } : element));
+      }
+    };
+
+    const handlePointerUp = async () => {
+      const drag = dragRef.current;
+      dragRef.current = null;
+      setDragging(false);
+
+      if (!drag || !drag.patch) return;
+
+      const saved = await saveLayoutChange(drag.kind, drag.id, drag.patch);
+      setLayoutError(!saved);
+    };
+
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', handlePointerUp);
+    return () => {
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+    };
+  }, [dragging]);
+
   const loadTables = async () => {
     try {
       setLoading(true);
       setError('');
 
-      // Generate mock tables with different shapes and configurations
-      const mockTables: Table[] = [
-        { id: '1', number: 1, seats: 2, shape: 'round', status: 'available', x: 100, y: 100 },
-        { id: '2', number: 2, seats: 4, shape: 'square', status: 'occupied', x: 300, y: 100 },
-        { id: '3', number: 3, seats: 6, shape: 'rectangular', status: 'available', x: 500, y: 100 },
-        { id: '4', number: 4, seats: 4, shape: 'oval', status: 'reserved', x: 100, y: 300 },
-        { id: '5', number: 5, seats: 8, shape: 'rectangular', status: 'occupied', x: 300, y: 300 },
-        { id: '6', number: 6, seats: 2, shape: 'round', status: 'cleaning', x: 500, y: 300 },
-        { id: '7', number: 7, seats: 6, shape: 'oval', status: 'available', x: 100, y: 500 },
-        { id: '8', number: 8, seats: 4, shape: 'square', status: 'available', x: 300, y: 500 },
-      ];
-
-      // Load current orders for each table
+      const { data: areaRows, error: areasError } = await supabase
+        .from('floor_areas')
+        .select('*')
+        .order('sort_order', { ascending: true });
+
+      if (areasError) {
+        console.error('Error loading floor areas:', areasError);
+        setError(areasError.message);
+        return;
+      }
+
+      const { data: elementRows, error: elementsError } = await supabase
+        .from('floor_elements')
+        .select('*');
+
+      if (elementsError) {
+        console.error('Error loading floor elements:', elementsError);
+      }
+
+      const { data: tableRows, error: tablesError } = await supabase
+        .from('restaurant_tables')
+        .select('*')
+        .order('number', { ascending: true });
+
+      if (tablesError) {
+        console.error('Error loading tables:', tablesError);
+        setError(tablesError.message);
+        return;
+      }
+
+      // Load current orders for each table, including which seat each item belongs to
       const { data: orders, error: ordersError } = await supabase
         .from('orders')
-        .select('*')
+        .select(`
+          *,
+          order_items (
+            id,
+            quantity,
+            seat_number,
+            status,
+            course,
+            fired_at,
+            menu_item:menu_items (name)
+          )
+        `)
         .in('status', ['pending', 'preparing', 'ready', 'served'])
         .not('table_number', 'is', null);
 
@@ -384,16 +620,18 @@ export default function TableView() {
         return acc;
       }, {} as Record<number, Order[]>);
 
-      // Update table statuses based on orders
-      const tablesWithOrders = mockTables.map(table => {
-        const tableOrders = ordersByTable[table.number] || [];
-        return {
-          ...table,
-          currentOrders: tableOrders,
-          status: tableOrders.length > 0 ? 'occupied' as const : table.status
-        };
-      });
+      // Attach live orders; the stored status is kept and combined via getEffectiveStatus
+      const tablesWithOrders: Table[] = (tableRows || []).map((table: RestaurantTable) => ({
+        ...table,
+        currentOrders: ordersByTable[table.number] || []
+      }));
 
+      const loadedAreas: FloorArea[] = areaRows || [];
+      setAreas(loadedAreas);
+      setElements(elementRows || []);
+      setActiveAreaId(prev =>
+        prev && loadedAreas.some(area => area.id === prev) ? prev : loadedAreas[0]?.id ?? null
+      );
       setTables(tablesWithOrders);
     } catch (error) {
       console.error('Error loading tables:', error);
@@ -441,17 +679,24 @@ export default function TableView() {
 
   const handleTableClick = (table: Table) => {
     if (editMode) {
-      setSelectedTable(table);
-      setShowEditModal(true);
+      // Layout editors select with a single click and open the properties with a double click
+      if (canEditLayout) return;
+      openTableEditor(table);
       return;
     }
 
     setSelectedTable(table);
-    if (table.status === 'available' || table.status === 'occupied') {
+    const status = getEffectiveStatus(table);
+    if (status === 'available' || status === 'occupied') {
       setShowNewOrderModal(true);
     }
   };
 
+  const openTableEditor = (table: Table) => {
+    setSelectedTable(table);
+    setShowEditModal(true);
+  };
+
   const handleSeatClick = (table: Table, seatNumber: number, event: React.MouseEvent) => {
     event.stopPropagation(); // Prevent table click
     if (editMode) return; // Don't allow seat clicks in edit mode
@@ -461,12 +706,241 @@ export default function TableView() {
     setShowSeatOrderModal(true);
   };
 
+  // Keep the details panel up to date when the tables are reloaded
+  useEffect(() => {
+    setSelectedTable(prev => prev && (tables.find(table => table.id === prev.id) || prev));
+  }, [tables]);
+
+  const handleFireCourse = async (tableNumber: number, course: number) => {
+    try {
+      setFiringCourse(true);
+      await fireCourse(tableNumber, course);
+      await loadTables();
+    } catch (error) {
+      console.error('Error firing course:', error);
+      setError(t('course.fireFailed'));
+    } finally {
+      setFiringCourse(false);
+    }
+  };
+
   const handleTableUpdated = (updatedTable: Table) => {
     setTables(prev => prev.map(table => 
       table.id === updatedTable.id ? updatedTable : table
     ));
   };
 
+  const handleTableDeleted = (tableId: string) => {
+    setTables(prev => prev.filter(table => table.id !== tableId));
+  };
+
+  const handleAddTable = async () => {
+    setAddingTable(true);
+    setError('');
+
+    try {
+      const nextNumber = tables.reduce((max, table) => Math.max(max, table.number), 0) + 1;
+      // Place new tables in the top-left corner, offset so they don't stack exactly
+      const offset = (tables.length % 5) * GRID_SIZE;
+
+      const { data, error: insertError } = await supabase
+        .from('restaurant_tables')
+        .insert({
+          number: nextNumber,
+          seats: 4,
+          shape: 'square',
+          status: 'available',
+          x: 2 * GRID_SIZE + offset,
+          y: 2 * GRID_SIZE + offset,
+          width: 120,
+          height: 120,
+          rotation: 0,
+          area_id: activeAreaId
+        })
+        .select()
+        .single();
+
+      if (insertError) {
+        console.error('Error creating table:', insertError);
+        alert(t('error.failedToCreateTable'));
+        return;
+      }
+
+      const newTable: Table = { ...data, currentOrders: [] };
+      setTables(prev => [...prev, newTable]);
+      setSelectedTable(newTable);
+      setShowEditModal(true);
+    } catch (err) {
+      console.error('Error creating table:', err);
+      alert(t('error.failedToCreateTable'));
+    } finally {
+      setAddingTable(false);
+    }
+  };
+
+  const startDrag = (
+    kind: LayoutItemKind,
+    item: LayoutBox & { id: string },
+    mode: DragState['mode'],
+    event: React.PointerEvent
+  ) => {
+    if (!editMode || !canEditLayout || !activeArea || event.button !== 0) return;
+
+    event.stopPropagation();
+    event.preventDefault();
+    setSelectedItem({ kind, id: item.id });
+    dragRef.current = {
+      kind,
+      id: item.id,
+      mode,
+      startX: event.clientX,
+      startY: event.clientY,
+      origin: { x: item.x, y: item.y, width: item.width, height: item.height },
+      bounds: { width: activeArea.width, height: activeArea.height },
+      patch: null
+    };
+    setDragging(true);
+  };
+
+  const rotateSelectedItem = async (direction: 1 | -1) => {
+    if (!selectedItem) return;
+
+    const current = selectedItem.kind === 'table'
+      ? tables.find(table => table.id === selectedItem.id)
+      : elements.find(element => element.id === selectedItem.id);
+    if (!current) return;
+
+    const rotation = (((current.rotation || 0) + direction * ROTATION_STEP) % 360 + 360) % 360;
+    if (selectedItem.kind === 'table') {
+      setTables(prev => prev.map(table => table.id === selectedItem.id ? { ...table, rotation } : table));
+    } else {
+      setElements(prev => prev.map(element => element.id === selectedItem.id ? { ...element, rotation } : element));
+    }
+
+    const saved = await saveLayoutChange(selectedItem.kind, selectedItem.id, { rotation });
+    setLayoutError(!saved);
+  };
+
+  const handleAddElement = async (type: FloorElement['type']) => {
+    if (!activeArea) return;
+
+    const { data, error: insertError } = await supabase
+      .from('floor_elements')
+      .insert({
+        area_id: activeArea.id,
+        type,
+        label: type === 'wall' ? null : t(`tables.element.${type}`),
+        x: 2 * GRID_SIZE,
+        y: 2 * GRID_SIZE,
+        ...ELEMENT_DEFAULTS[type]
+      })
+      .select()
+      .single();
+
+    if (insertError) {
+      console.error('Error creating floor element:', insertError);
+      setLayoutError(true);
+      return;
+    }
+
+    setElements(prev => [...prev, data]);
+    setSelectedItem({ kind: 'element', id: data.id });
+  };
+
+  const handleDeleteElement = async (elementId: string) => {
+    const { error: deleteError } = await supabase
+      .from('floor_elements')
+      .delete()
+      .eq('id', elementId);
+
+    if (deleteError) {
+      console.error('Error deleting floor element:', deleteError);
+      setLayoutError(true);
+      return;
+    }
+
+    setElements(prev => prev.filter(element => element.id !== elementId));
+    setSelectedItem(null);
+  };
+
+  const handleAddArea = async () => {
+    const name = newAreaName.trim();
+    if (!name) return;
+
+    const { data, error: insertError } = await supabase
+      .from('floor_areas')
+      .insert({
+        name,
+        sort_order: areas.reduce((max, area) => Math.max(max, area.sort_order), -1) + 1
+      })
+      .select()
+      .single();
+
+    if (insertError) {
+      console.error('Error creating floor area:', insertError);
+      alert(insertError.code === '23505' ? t('error.areaNameTaken') : t('error.failedToCreateArea'));
+      return;
+    }
+
+    setAreas(prev => [...prev, data]);
+    setActiveAreaId(data.id);
+    setNewAreaName('');
+    setShowAddArea(false);
+  };
+
+  const handleDeleteArea = async (area: FloorArea) => {
+    if (tables.some(table => table.area_id === area.id)) {
+      alert(t('tables.areaNotEmpty'));
+      return;
+    }
+
+    if (!confirm(`${t('tables.confirmDeleteArea')} "${area.name}"?`)) {
+      return;
+    }
+
+    const { error: deleteError } = await supabase
+      .from('floor_areas')
+      .delete()
+      .eq('id', area.id);
+
+    if (deleteError) {
+      console.error('Error deleting floor area:', deleteError);
+      alert(t('error.failedToDeleteArea'));
+      return;
+    }
+
+    const remainingAreas = areas.filter(a => a.id !== area.id);
+    setAreas(remainingAreas);
+    setElements(prev => prev.filter(element => element.area_id !== area.id));
+    setActiveAreaId(remainingAreas[0]?.id ?? null);
+  };
+
+  const getElementClasses = (type: FloorElement['type']) => {
+    switch (type) {
+      case 'wall':
+        return 'bg-gray-700 border-gray-800 text-white';
+      case 'bar':
+        return 'bg-amber-200 border-amber-400 text-amber-900 rounded-lg';
+      case 'decor':
+        return 'bg-emerald-100 border-emerald-300 text-emerald-800 rounded-full';
+      default:
+        return 'bg-gray-200 border-gray-300 text-gray-700';
+    }
+  };
+
+  const renderResizeHandle = (kind: LayoutItemKind, item: LayoutBox & { id: string }) => {
+    if (!editMode || !canEditLayout || selectedItem?.id !== item.id) return null;
+
+    return (
+      <div
+        onPointerDown={(e) => startDrag(kind, item, 'resize', e)}
+        onClick={(e) => e.stopPropagation()}
+        className="absolute -bottom-1.5 -right-1.5 w-3 h-3 bg-white border-2 border-blue-500 rounded-sm cursor-se-resize z-10"
+        title={t('tables.dragToResize')}
+      />
+    );
+  };
+
   const renderTableSeats = (table: Table) => {
     if (editMode) return null; // Don't show seats in edit mode
     
@@ -475,17 +949,23 @@ export default function TableView() {
     
     for (let i = 1; i <= table.seats; i++) {
       const position = seatPositions[i - 1] || { x: 0, y: 0 };
+      const itemCount = getSeatItems(table, i).reduce((sum, item) => sum + item.quantity, 0);
       seats.push(
         <button
           key={i}
           onClick={(e) => handleSeatClick(table, i, e)}
-          className="absolute w-6 h-6 bg-blue-500 text-white rounded-full text-xs font-bold hover:bg-blue-600 transition-colors flex items-center justify-center shadow-md"
+          className={`absolute w-6 h-6 text-white rounded-full text-xs font-bold transition-colors flex items-center justify-center shadow-md ${
+            itemCount > 0 ? 'bg-emerald-500 hover:bg-emerald-600 ring-2 ring-white' : 'bg-blue-500 hover:bg-blue-600'
+          }`}
           style={{
             left: `${position.x}%`,
             top: `${position.y}%`,
             transform: 'translate(-50%, -50%)'
           }}
-          title={`${t('tables.seatNumber')} ${i} - ${t('common.clickToOrder')}`}
+          title={itemCount > 0
+            ? `${t('tables.seatNumber')} ${i} - ${itemCount} ${t('common.items')}`
+            : `${t('tables.seatNumber')} ${i} - ${t('common.clickToOrder')}`
+          }
         >
           {i}
         </button>
@@ -625,8 +1105,21 @@ export default function TableView() {
           </p>
         </div>
         <div className="flex items-center gap-3">
+          {editMode && canEditLayout && (
+            <button
+              onClick={handleAddTable}
+              disabled={addingTable}
+              className="flex items-center gap-2 px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition-colors disabled:opacity-50"
+            >
+              <Plus className="w-4 h-4" />
+              {t('tables.addTable')}
+            </button>
+          )}
           <button
-            onClick={() => setEditMode(!editMode)}
+            onClick={() => {
+              setEditMode(!editMode);
+              setSelectedItem(null);
+            }}
             className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors ${
               editMode 
                 ? 'bg-green-600 text-white hover:bg-green-700' 
@@ -658,7 +1151,7 @@ export default function TableView() {
       {/* Legend */}
       <div className="bg-white rounded-xl shadow-md border border-gray-100 p-6">
         <h3 className="text-lg font-semibold text-gray-900 mb-4">{t('common.legend')}</h3>
-        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
           <div className="flex items-center gap-3">
             <div className="w-8 h-8 bg-green-100 border-2 border-green-300 rounded-lg flex items-center justify-center">
               <Square className="w-4 h-4 text-green-800" />
@@ -683,6 +1176,12 @@ export default function TableView() {
             </div>
             <span className="text-sm text-gray-700">{t('tables.seatNumber')}</span>
           </div>
+          <div className="flex items-center gap-3">
+            <div className="w-6 h-6 bg-emerald-500 text-white rounded-full text-xs font-bold flex items-center justify-center">
+              1
+            </div>
+            <span className="text-sm text-gray-700">{t('tables.seatWithItems')}</span>
+          </div>
         </div>
         <div className="mt-4 p-3 bg-blue-50 rounded-lg">
           <p className="text-sm text-blue-800">
@@ -697,100 +1196,279 @@ export default function TableView() {
 
       {/* Table Layout */}
       <div className="bg-white rounded-xl shadow-md border border-gray-100 overflow-hidden">
-        <div className="p-6 border-b border-gray-100">
-          <h3 className="text-lg font-semibold text-gray-900">{t('tables.floorPlan')}</h3>
-        </div>
-        <div className="relative bg-gray-50 min-h-[600px] p-8">
-          {/* Grid background */}
-          <div className="absolute inset-0 opacity-10">
-            <div className="grid grid-cols-12 grid-rows-8 h-full w-full">
-              {Array.from({ length: 96 }).map((_, i) => (
-                <div key={i} className="border border-gray-300"></div>
-              ))}
-            </div>
+        <div className="p-6 border-b border-gray-100 space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-semibold text-gray-900">{t('tables.floorPlan')}</h3>
+            {layoutError && (
+              <div className="flex items-center gap-2 text-sm text-red-700">
+                <AlertCircle className="w-4 h-4" />
+                {t('error.failedToSaveLayout')}
+              </div>
+            )}
           </div>
 
-          {/* Tables */}
-          {tables.map((table) => (
-            <div
-              key={table.id}
-              data-table={table.number}
-              className={`absolute cursor-pointer transition-all duration-200 transform hover:scale-105 ${
-                editMode ? 'cursor-pointer ring-2 ring-blue-300' : 'cursor-pointer'
-              }`}
-              style={{
-                left: `${table.x}px`,
-                top: `${table.y}px`,
-                width: '120px',
-                height: '120px'
-              }}
-              onClick={() => handleTableClick(table)}
-            >
-              {/* Table Shape */}
-              <div className={`relative w-full h-full border-2 rounded-lg ${getStatusColor(table.status)} flex items-center justify-center shadow-lg ${
-                editMode ? 'ring-2 ring-blue-400 ring-opacity-50' : ''
-              }`}>
-                {/* Table Icon */}
-                <div className="text-center">
-                  {getTableIcon(table.shape, 'large')}
-                  <div className="mt-1">
-                    <div className="font-bold text-lg">T{table.number}</div>
-                    <div className="text-xs opacity-75">{table.seats} {t('tables.seats')}</div>
-                  </div>
+          {/* Area Tabs */}
+          <div className="flex items-center gap-2 flex-wrap">
+            <Layers className="w-4 h-4 text-gray-500" />
+            {areas.map(area => (
+              <div key={area.id} className="flex items-center">
+                <button
+                  onClick={() => {
+                    setActiveAreaId(area.id);
+                    setSelectedItem(null);
+                  }}
+                  className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                    area.id === activeAreaId
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                >
+                  {area.name}
+                </button>
+                {editMode && canEditLayout && area.id === activeAreaId && areas.length > 1 && (
+                  <button
+                    onClick={() => handleDeleteArea(area)}
+                    className="ml-1 p-1.5 text-gray-400 hover:text-red-600 transition-colors"
+                    title={t('tables.deleteArea')}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            ))}
+            {editMode && canEditLayout && (
+              showAddArea ? (
+                <div className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={newAreaName}
+                    onChange={(e) => setNewAreaName(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleAddArea()}
+                    placeholder={t('tables.areaNamePlaceholder')}
+                    className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    autoFocus
+                  />
+                  <button
+                    onClick={handleAddArea}
+                    className="p-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                  >
+                    <Check className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => {
+                      setShowAddArea(false);
+                      setNewAreaName('');
+                    }}
+                    className="p-1.5 text-gray-500 hover:text-gray-700"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
                 </div>
+              ) : (
+                <button
+                  onClick={() => setShowAddArea(true)}
+                  className="flex items-center gap-1 px-3 py-2 border border-dashed border-gray-300 text-gray-600 rounded-lg text-sm hover:bg-gray-50 transition-colors"
+                >
+                  <Plus className="w-4 h-4" />
+                  {t('tables.addArea')}
+                </button>
+              )
+            )}
+          </div>
 
-                {/* Edit Mode Indicator */}
-                {editMode && (
-                  <div className="absolute -top-2 -left-2 w-6 h-6 bg-blue-500 text-white rounded-full text-xs font-bold flex items-center justify-center">
-                    <Edit className="w-3 h-3" />
-                  </div>
-                )}
+          {/* Layout Toolbar */}
+          {editMode && canEditLayout && activeArea && (
+            <div className="flex items-center gap-2 flex-wrap p-3 bg-gray-50 rounded-lg">
+              <span className="text-sm font-medium text-gray-700 mr-2">{t('tables.addElement')}:</span>
+              {(['wall', 'bar', 'decor'] as const).map(type => (
+                <button
+                  key={type}
+                  onClick={() => handleAddElement(type)}
+                  className="flex items-center gap-1 px-3 py-1.5 bg-white border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-100 transition-colors"
+                >
+                  <Plus className="w-3 h-3" />
+                  {t(`tables.element.${type}`)}
+                </button>
+              ))}
+              {selectedItem && (
+                <>
+                  <div className="w-px h-6 bg-gray-300 mx-2" />
+                  <button
+                    onClick={() => rotateSelectedItem(-1)}
+                    className="p-2 bg-white border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-100 transition-colors"
+                    title={t('tables.rotateLeft')}
+                  >
+                    <RotateCcw className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => rotateSelectedItem(1)}
+                    className="p-2 bg-white border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-100 transition-colors"
+                    title={t('tables.rotateRight')}
+                  >
+                    <RotateCw className="w-4 h-4" />
+                  </button>
+                  {selectedItem.kind === 'table' && (
+                    <button
+                      onClick={() => {
+                        const table = tables.find(t => t.id === selectedItem.id);
+                        if (table) openTableEditor(table);
+                      }}
+                      className="flex items-center gap-1 px-3 py-1.5 bg-white border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-100 transition-colors"
+                    >
+                      <Settings className="w-4 h-4" />
+                      {t('tables.editTable')}
+                    </button>
+                  )}
+                  {selectedItem.kind === 'element' && (
+                    <button
+                      onClick={() => handleDeleteElement(selectedItem.id)}
+                      className="p-2 bg-white border border-red-300 rounded-lg text-red-600 hover:bg-red-50 transition-colors"
+                      title={t('common.delete')}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+        </div>
+        <div className="overflow-auto bg-gray-100">
+          <div
+            className="relative bg-gray-50"
+            style={{
+              width: activeArea ? `${activeArea.width}px` : '100%',
+              height: activeArea ? `${activeArea.height}px` : '600px',
+              backgroundImage: editMode
+                ? 'linear-gradient(to right, rgba(156, 163, 175, 0.25) 1px, transparent 1px), linear-gradient(to bottom, rgba(156, 163, 175, 0.25) 1px, transparent 1px)'
+                : undefined,
+              backgroundSize: `${GRID_SIZE}px ${GRID_SIZE}px`
+            }}
+            onPointerDown={() => setSelectedItem(null)}
+          >
+            {/* Empty State */}
+            {visibleTables.length === 0 && visibleElements.length === 0 && (
+              <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+                <div className="text-center text-gray-500">
+                  <Square className="w-12 h-12 mx-auto mb-3 text-gray-300" />
+                  <p className="font-medium">{t('tables.noTables')}</p>
+                  <p className="text-sm">{t('tables.noTablesHint')}</p>
+                </div>
+              </div>
+            )}
+
+            {/* Walls, Bar Counters and Decor */}
+            {visibleElements.map((element) => (
+              <div
+                key={element.id}
+                className={`absolute border-2 flex items-center justify-center text-xs font-medium select-none ${getElementClasses(element.type)} ${
+                  editMode && canEditLayout ? 'cursor-move' : ''
+                } ${selectedItem?.id === element.id ? 'ring-2 ring-blue-500' : ''}`}
+                style={{
+                  left: `${element.x}px`,
+                  top: `${element.y}px`,
+                  width: `${element.width}px`,
+                  height: `${element.height}px`,
+                  transform: `rotate(${element.rotation}deg)`
+                }}
+                onPointerDown={(e) => startDrag('element', element, 'move', e)}
+              >
+                {element.label && <span className="truncate px-1">{element.label}</span>}
+                {renderResizeHandle('element', element)}
+              </div>
+            ))}
 
-                {/* Order Count Badge */}
-                {!editMode && table.currentOrders && table.currentOrders.length > 0 && (
-                  <div className="absolute -top-2 -right-2 w-6 h-6 bg-red-500 text-white rounded-full text-xs font-bold flex items-center justify-center">
-                    {table.currentOrders.length}
+            {/* Tables */}
+            {visibleTables.map((table) => (
+              <div
+                key={table.id}
+                data-table={table.number}
+                className={`absolute transition-shadow duration-200 ${
+                  editMode && canEditLayout ? 'cursor-move select-none' : 'cursor-pointer transform hover:scale-105 transition-transform'
+                }`}
+                style={{
+                  left: `${table.x}px`,
+                  top: `${table.y}px`,
+                  width: `${table.width}px`,
+                  height: `${table.height}px`
+                }}
+                onPointerDown={(e) => startDrag('table', table, 'move', e)}
+                onClick={() => handleTableClick(table)}
+                onDoubleClick={() => editMode && canEditLayout && openTableEditor(table)}
+              >
+                {/* Table Shape */}
+                <div
+                  className={`relative w-full h-full border-2 ${table.shape === 'round' || table.shape === 'oval' ? 'rounded-full' : 'rounded-lg'} ${getStatusColor(getEffectiveStatus(table))} flex items-center justify-center shadow-lg ${
+                    editMode ? 'ring-2 ring-blue-400 ring-opacity-50' : ''
+                  } ${selectedItem?.id === table.id ? 'ring-blue-600 ring-opacity-100' : ''}`}
+                  style={{ transform: `rotate(${table.rotation || 0}deg)` }}
+                >
+                  {/* Table Icon */}
+                  <div className="text-center">
+                    {getTableIcon(table.shape, table.width < 100 || table.height < 100 ? 'small' : 'large')}
+                    <div className="mt-1">
+                      <div className="font-bold text-lg">T{table.number}</div>
+                      <div className="text-xs opacity-75">{table.seats} {t('tables.seats')}</div>
+                    </div>
                   </div>
-                )}
 
-                {/* Seat Numbers */}
-                {!editMode && renderTableSeats(table)}
-              </div>
+                  {/* Edit Mode Indicator */}
+                  {editMode && (
+                    <div className="absolute -top-2 -left-2 w-6 h-6 bg-blue-500 text-white rounded-full text-xs font-bold flex items-center justify-center">
+                      <Edit className="w-3 h-3" />
+                    </div>
+                  )}
 
-              {/* Table Info Tooltip */}
-              <div className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-2 opacity-0 hover:opacity-100 transition-opacity bg-black text-white text-xs rounded px-2 py-1 whitespace-nowrap pointer-events-none">
-                {t('tables.table')} {table.number} • {table.seats} {t('tables.seats')} • {t(`tables.${table.status}`)}
-                {table.currentOrders && table.currentOrders.length > 0 && (
-                  <span> • {table.currentOrders.length} {t('orders.title')}</span>
-                )}
-                {editMode && <span> • {t('common.clickToEdit')}</span>}
+                  {/* Order Count Badge */}
+                  {!editMode && table.currentOrders && table.currentOrders.length > 0 && (
+                    <div className="absolute -top-2 -right-2 w-6 h-6 bg-red-500 text-white rounded-full text-xs font-bold flex items-center justify-center">
+                      {table.currentOrders.length}
+                    </div>
+                  )}
+
+                  {/* Seat Numbers */}
+                  {!editMode && renderTableSeats(table)}
+                </div>
+
+                {renderResizeHandle('table', table)}
+
+                {/* Table Info Tooltip */}
+                <div className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-2 opacity-0 hover:opacity-100 transition-opacity bg-black text-white text-xs rounded px-2 py-1 whitespace-nowrap pointer-events-none">
+                  {t('tables.table')} {table.number} • {table.seats} {t('tables.seats')} • {t(`tables.${getEffectiveStatus(table)}`)}
+                  {table.currentOrders && table.currentOrders.length > 0 && (
+                    <span> • {table.currentOrders.length} {t('orders.title')}</span>
+                  )}
+                  {editMode && !canEditLayout && <span> • {t('common.clickToEdit')}</span>}
+                </div>
               </div>
-            </div>
-          ))}
-
-          {/* Instructions */}
-          <div className="absolute bottom-4 left-4 bg-white p-4 rounded-lg shadow-md border border-gray-200 max-w-sm">
-            <h4 className="font-semibold text-gray-900 mb-2">
-              {editMode ? t('tables.editMode') : t('tables.quickActions')}
-            </h4>
-            <ul className="text-sm text-gray-600 space-y-1">
-              {editMode ? (
-                <>
-                  <li>• {t('tables.clickToEdit')}</li>
-                  <li>• {t('tables.changeProperties')}</li>
-                  <li>• {t('tables.clickDoneWhenFinished')}</li>
-                </>
-              ) : (
-                <>
-                  <li>• {t('tables.clickTableForOrder')}</li>
-                  <li>• {t('tables.clickSeatForSpecific')}</li>
-                  <li>• {t('tables.shapesRepresentTypes')}</li>
-                  <li>• {t('tables.redBadgeShowsOrders')}</li>
-                </>
-              )}
-            </ul>
+            ))}
           </div>
         </div>
+
+        {/* Instructions */}
+        <div className="p-4 border-t border-gray-100">
+          <h4 className="font-semibold text-gray-900 mb-2">
+            {editMode ? t('tables.editMode') : t('tables.quickActions')}
+          </h4>
+          <ul className="text-sm text-gray-600 space-y-1">
+            {editMode ? (
+              <>
+                <li>• {canEditLayout ? t('tables.doubleClickToEdit') : t('tables.clickToEdit')}</li>
+                {canEditLayout && <li>• {t('tables.dragToMove')}</li>}
+                {canEditLayout && <li>• {t('tables.dragCornerToResize')}</li>}
+                <li>• {t('tables.changeProperties')}</li>
+                <li>• {t('tables.clickDoneWhenFinished')}</li>
+              </>
+            ) : (
+              <>
+                <li>• {t('tables.clickTableForOrder')}</li>
+                <li>• {t('tables.clickSeatForSpecific')}</li>
+                <li>• {t('tables.shapesRepresentTypes')}</li>
+                <li>• {t('tables.redBadgeShowsOrders')}</li>
+              </>
+            )}
+          </ul>
+        </div>
       </div>
 
       {/* Table Details Panel */}
@@ -820,9 +1498,14 @@ export default function TableView() {
               </div>
               <div className="flex items-center gap-2">
                 <MapPin className="w-5 h-5 text-gray-600" />
-                <span className={`px-2 py-1 rounded-full text-sm ${getStatusColor(selectedTable.status)}`}>
-                  {t(`tables.${selectedTable.status}`).toUpperCase()}
+                <span className={`px-2 py-1 rounded-full text-sm ${getStatusColor(getEffectiveStatus(selectedTable))}`}>
+                  {t(`tables.${getEffectiveStatus(selectedTable)}`).toUpperCase()}
                 </span>
+                {areas.length > 1 && selectedTable.area_id && (
+                  <span className="text-sm text-gray-600">
+                    {areas.find(area => area.id === selectedTable.area_id)?.name}
+                  </span>
+                )}
               </div>
             </div>
 
@@ -833,7 +1516,7 @@ export default function TableView() {
                   {selectedTable.currentOrders.map((order) => (
                     <div key={order.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
                       <div>
-                        <span className="font-medium">{t('orders.orderNumber')}{order.id.slice(0, 8)}</span>
+                        <span className="font-medium">{t('orders.orderNumber')}{getOrderNumber(order)}</span>
                         <span className="text-gray-600 ml-2">{order.customer_name}</span>
                       </div>
                       <div className="flex items-center gap-3">
@@ -841,10 +1524,69 @@ export default function TableView() {
                         <span className={`px-2 py-1 rounded-full text-xs ${getStatusColor(order.status)}`}>
                           {t(`orders.${order.status}`)}
                         </span>
+                        {order.payment_status && order.payment_status !== 'unpaid' && (
+                          <span className={`px-2 py-1 rounded-full text-xs ${
+                            order.payment_status === 'paid' ? 'bg-green-100 text-green-800' : 'bg-orange-100 text-orange-800'
+                          }`}>
+                            {t(`payments.status.${order.payment_status}`)}
+                          </span>
+                        )}
+                        {(user?.role === 'manager' || user?.role === 'waiter') && (
+                          <button
+                            onClick={() => setBillingOrder(order)}
+                            className="flex items-center gap-1 px-3 py-1 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm"
+                          >
+                            <Split className="w-4 h-4" />
+                            {t('payments.splitBill')}
+                          </button>
+                        )}
                       </div>
                     </div>
                   ))}
                 </div>
+
+                {/* Held courses */}
+                {(user?.role === 'manager' || user?.role === 'waiter') && getHeldCourses(selectedTable.currentOrders).length > 0 && (
+                  <div className="flex flex-wrap gap-2 mt-3">
+                    {getHeldCourses(selectedTable.currentOrders).map(course => (
+                      <button
+                        key={course}
+                        onClick={() => handleFireCourse(selectedTable.number, course)}
+                        disabled={firingCourse}
+                        className="flex items-center gap-2 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors disabled:opacity-50"
+                      >
+                        <Utensils className="w-4 h-4" />
+                        {t(`course.fire.${course}`)}
+                      </button>
+                    ))}
+                  </div>
+                )}
+
+                {/* Items per seat */}
+                {Array.from({ length: selectedTable.seats }, (_, i) => i + 1).some(seat => getSeatItems(selectedTable, seat).length > 0) && (
+                  <>
+                    <h4 className="font-medium text-gray-900 mt-4 mb-3">{t('tables.itemsBySeat')}</h4>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                      {Array.from({ length: selectedTable.seats }, (_, i) => i + 1).map(seat => {
+                        const seatItems = getSeatItems(selectedTable, seat);
+                        if (seatItems.length === 0) return null;
+                        return (
+                          <div key={seat} className="p-3 bg-emerald-50 border border-emerald-100 rounded-lg">
+                            <div className="text-sm font-medium text-emerald-800 mb-1">{t('tables.seat')} {seat}</div>
+                            <ul className="text-sm text-gray-700 space-y-0.5">
+                              {seatItems.map(item => (
+                                <li key={item.id} className={isHeldItem(item) ? 'text-gray-400' : ''}>
+                                  {item.quantity}x {item.menu_item?.name}
+                                  {isHeldItem(item) && item.course && ` · ${t(`course.${item.course}`)} ${t('course.held')}`}
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </>
+                )}
               </div>
             )}
           </div>
@@ -907,7 +1649,20 @@ export default function TableView() {
           setSelectedTable(null);
         }}
         table={selectedTable}
+        areas={areas}
         onTableUpdated={handleTableUpdated}
+        onTableDeleted={handleTableDeleted}
+      />
+
+      {/* Split Bill Modal */}
+      <SplitBillModal
+        isOpen={!!billingOrder}
+        onClose={() => {
+          setBillingOrder(null);
+          setSelectedTable(null);
+          loadTables(); // Refresh payment status once the bill is closed
+        }}
+        order={billingOrder}
       />
     </div>
   );
@@ -8,6 +8,8 @@ import { supabase, MenuItem } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
 import { useLanguage } from '../contexts/LanguageContext';
 import { aiChatBackend } from '../lib/aiChatBackend';
+import { getOrderNumber } from '../lib/orderNumbers';
+import { filterActiveMenuItems } from '../lib/menus';
 
 interface VoiceOrderModalProps {
   isOpen: boolean;
@@ -93,10 +95,11 @@ export default function VoiceOrderModal({ isOpen, onClose, onOrderPlaced }: Voic
         throw new Error(`${t('error.failedToLoad')}: ${error.message}`);
       }
       
-      console.log('Menu items loaded:', data?.length || 0);
-      setMenuItems(data || []);
+      const items = await filterActiveMenuItems(data || []);
+      console.log('Menu items loaded:', items.length);
+      setMenuItems(items);
       
-      if (!data || data.length === 0) {
+      if (items.length === 0) {
         setError(t('error.noMenuItems'));
       }
     } catch (error: any) {
@@ -589,7 +592,7 @@ IMPORTANT:
 
       console.log('Voice order created successfully!');
 
-      setSuccess(`${t('voice.voiceOrderCreated')} ${t('orders.orderNumber')}${createdOrder.id.slice(0, 8)} - ${t('common.total')}: $${total.toFixed(2)}`);
+      setSuccess(`${t('voice.voiceOrderCreated')} ${t('orders.orderNumber')}${getOrderNumber(createdOrder)} - ${t('common.total')}: $${total.toFixed(2)}`);
       
       setTimeout(() => {
         onOrderPlaced();
@@ -4,6 +4,9 @@ import { supabase, Order, OrderItem } from '../../lib/supabase';
 import { useAuth } from '../../contexts/AuthContext';
 import { useLanguage } from '../../contexts/LanguageContext';
 import { useNavigate } from 'react-router-dom';
+import { getOrderNumber } from '../../lib/orderNumbers';
+import { loadStations, filterOrderItemsByKind, isStationKindItem } from '../../lib/stations';
+import { getModifierLines } from '../../lib/modifiers';
 
 export default function BarDashboard() {
   const [drinkOrders, setDrinkOrders] = useState<(Order & { order_items: (OrderItem & { menu_item: any })[] })[]>([]);
@@ -109,36 +112,11 @@ export default function BarDashboard() {
       console.log('All orders loaded:', data?.length || 0);
       console.log('Sample order items:', data?.[0]?.order_items);
 
-      // Filter orders to only include those with drink items
-      // Define drink categories in lowercase for case-insensitive comparison
-      const drinkCategories = ['drink', 'beverage', 'alcohol', 'coffee', 'tea', 'wine', 'beer', 'cocktail'];
-      
-      const ordersWithDrinks = (data || []).map(order => {
-        // Log each order's items for debugging
-        console.log(`Order #${order.id.slice(0, 8)} items:`, order.order_items?.map(item => ({
-          name: item.menu_item?.name,
-          category: item.menu_item?.category,
-          isDrink: item.menu_item && drinkCategories.some(category => 
-            (item.menu_item.category || '').toLowerCase().includes(category)
-          )
-        })));
-        
-        return {
-          ...order,
-          order_items: (order.order_items || []).filter(item => {
-            // Check if this item is a drink
-            const isDrink = item.menu_item && drinkCategories.some(category => 
-              (item.menu_item.category || '').toLowerCase().includes(category.toLowerCase())
-            );
-            
-            if (isDrink) {
-              console.log(`Found drink item: ${item.menu_item?.name} (${item.menu_item?.category})`);
-            }
-            
-            return isDrink;
-          })
-        };
-      }).filter(order => order.order_items.length > 0);
+      // Only the items made at bar stations
+      const stations = await loadStations();
+      const ordersWithDrinks = (data || [])
+        .map(order => filterOrderItemsByKind(order, stations, 'bar'))
+        .filter(order => order.order_items.length > 0);
 
       console.log('Drink orders filtered:', ordersWithDrinks.length);
       ordersWithDrinks.forEach(order => {
@@ -205,13 +183,9 @@ export default function BarDashboard() {
         return;
       }
 
-      // Filter for drink items only
-      const drinkCategories = ['drink', 'beverage', 'alcohol', 'coffee', 'tea', 'wine', 'beer', 'cocktail'];
-      const completedDrinks = (data || []).filter(item => 
-        item.menu_item && drinkCategories.some(category => 
-          (item.menu_item.category || '').toLowerCase().includes(category.toLowerCase())
-        )
-      );
+      // Only items made at bar stations
+      const stations = await loadStations();
+      const completedDrinks = (data || []).filter(item => isStationKindItem(item, stations, 'bar'));
 
       console.log('Completed drinks today:', completedDrinks.length);
       
@@ -247,68 +221,15 @@ export default function BarDashboard() {
     }
   };
 
-  const updateDrinkStatus = async (itemId: string, status: string) => {
+  const updateDrinkStatus = async (item: OrderItem, status: OrderItem['status']) => {
     try {
-      console.log('Updating drink status:', itemId, 'to', status);
-
-      // Get the order item to access its menu_item
-      const { data: orderItem, error: itemError } = await supabase
-        .from('order_items')
-        .select('*, menu_item:menu_items(*)')
-        .eq('id', itemId)
-        .single();
-        
-      if (itemError) {
-        console.error('Error fetching order item:', itemError);
-        return;
-      }
-      
-      // Update inventory if needed
-      if (status === 'ready' && orderItem.menu_item && orderItem.menu_item.required_inventory) {
-        console.log('Updating inventory for required ingredients:', orderItem.menu_item.required_inventory);
-        
-        // Get inventory items for these ingredients
-        const { data: inventoryItems, error: invError } = await supabase
-          .from('inventory_items')
-          .select('*')
-          .in('name', orderItem.menu_item.required_inventory);
-          
-        if (invError) {
-          console.error('Error fetching inventory items:', invError);
-        } else {
-          // Update each inventory item
-          for (const item of inventoryItems || []) {
-            // Skip non-critical ingredients that are already at 0
-            if (item.is_critical === false && item.quantity <= 0) {
-              console.log(`Skipping non-critical ingredient ${item.name} that is already at 0`);
-              continue;
-            }
-            
-            // Reduce quantity by 1 (or to 0 for non-critical items)
-            const newQuantity = Math.max(0, item.quantity - 1);
-            
-            const { error: updateError } = await supabase
-              .from('inventory_items')
-              .update({
-                quantity: newQuantity,
-                last_updated: new Date().toISOString()
-              })
-              .eq('id', item.id);
-              
-            if (updateError) {
-              console.error(`Error updating inventory for ${item.name}:`, updateError);
-            } else {
-              console.log(`Updated inventory for ${item.name}: ${item.quantity} -> ${newQuantity}`);
-            }
-          }
-        }
-      }
+      console.log('Updating drink status:', item.id, 'to', status);
 
       // Update the order item status
       const { error } = await supabase
         .from('order_items')
         .update({ status })
-        .eq('id', itemId);
+        .eq('id', item.id);
 
       if (error) {
         console.error('Error updating drink status:', error);
@@ -531,7 +452,7 @@ export default function BarDashboard() {
                         )}
                       </div>
                       <div>
-                        <h4 className="font-medium text-gray-900">Order #{order.id.slice(0, 8)}</h4>
+                        <h4 className="font-medium text-gray-900">Order #{getOrderNumber(order)}</h4>
                         <p className="text-sm text-gray-500">{order.customer_name}</p>
                       </div>
                     </div>
@@ -549,7 +470,15 @@ export default function BarDashboard() {
                             <span className="font-medium">
                               {item.quantity}x {item.menu_item?.name || 'Unknown Drink'}
                             </span>
+                            {item.seat_number && (
+                              <span className="text-xs bg-blue-100 text-blue-800 px-2 py-0.5 rounded">
+                                {t('tables.seat')} {item.seat_number}
+                              </span>
+                            )}
                           </div>
+                          {getModifierLines(item.modifiers).map(line => (
+                            <p key={line} className="text-sm font-medium text-amber-700">{line}</p>
+                          ))}
                           {item.notes && (
                             <p className="text-sm text-gray-600 italic">Note: {item.notes}</p>
                           )}
@@ -565,7 +494,7 @@ export default function BarDashboard() {
                           <div className="flex gap-2">
                             {item.status === 'pending' && (
                               <button
-                                onClick={() => updateDrinkStatus(item.id, 'preparing')}
+                                onClick={() => updateDrinkStatus(item, 'preparing')}
                                 className="px-3 py-1 bg-blue-600 text-white rounded text-xs hover:bg-blue-700 transition-colors"
                               >
                                 Start
@@ -573,7 +502,7 @@ export default function BarDashboard() {
                             )}
                             {item.status === 'preparing' && (
                               <button
-                                onClick={() => updateDrinkStatus(item.id, 'ready')}
+                                onClick={() => updateDrinkStatus(item, 'ready')}
                                 className="px-3 py-1 bg-green-600 text-white rounded text-xs hover:bg-green-700 transition-colors"
                               >
                                 Ready
@@ -4,6 +4,8 @@ import { useNavigate } from 'react-router-dom';
 import { supabase, MenuItem, Order } from '../../lib/supabase';
 import { useAuth } from '../../contexts/AuthContext';
 import { useLanguage } from '../../contexts/LanguageContext';
+import { getOrderNumber } from '../../lib/orderNumbers';
+import { filterActiveMenuItems } from '../../lib/menus';
 
 export default function CustomerDashboard() {
   const [cartItems, setCartItems] = useState<any[]>([]);
@@ -41,15 +43,15 @@ export default function CustomerDashboard() {
       const { data: menuData, error: menuError } = await supabase
         .from('menu_items')
         .select('*')
-        .eq('available', true)
-        .limit(6); // Show more items on dashboard
+        .eq('available', true);
 
       if (menuError) {
         console.error('Error loading menu items:', menuError);
         setError(`${t('error.failedToLoad')} ${t('menu.title')}: ${menuError.message}`);
       } else {
         console.log('Menu items loaded:', menuData?.length || 0, 'items');
-        setMenuItems(menuData || []);
+        // Only what the menus offer right now
+        setMenuItems((await filterActiveMenuItems(menuData || [])).slice(0, 6)); // Show more items on dashboard
       }
 
       // Load recent orders
@@ -362,6 +364,11 @@ export default function CustomerDashboard() {
                   </div>
                   <div className="flex items-center justify-between">
                     <span className="text-lg font-bold text-gray-900">
+                      {item.regular_price !== undefined && (
+                        <span className="text-sm font-normal text-gray-400 line-through mr-2">
+                          €{item.regular_price.toFixed(2).replace('.', ',')}
+                        </span>
+                      )}
                       €{typeof item.price === 'number' ? item.price.toFixed(2).replace('.', ',') : item.price}
                     </span>
                     <button
@@ -430,7 +437,7 @@ export default function CustomerDashboard() {
                       </div>
                       <div>
                         <h4 className="font-bold text-gray-900 group-hover:text-purple-800 transition-colors text-lg">
-                          {t('orders.orderNumber')}{order.id.slice(0, 8)}
+                          {t('orders.orderNumber')}{getOrderNumber(order)}
                         </h4>
                         <p className="text-gray-600 text-sm">
                           {order.customer_name || 'Anonymous Order'}
@@ -3,10 +3,16 @@ import { Clock, ChefHat, AlertTriangle, CheckCircle2 } from 'lucide-react';
 import { supabase, Order, OrderItem } from '../../lib/supabase';
 import { useAuth } from '../../contexts/AuthContext';
 import { useLanguage } from '../../contexts/LanguageContext';
+import { getOrderNumber } from '../../lib/orderNumbers';
+import { loadStations, filterOrderItemsByKind } from '../../lib/stations';
+import { isHeldItem } from '../../lib/courses';
+import { getModifierLines } from '../../lib/modifiers';
+import { getItemRemainingMs, formatCountdown } from '../../lib/kitchenDisplay';
 
 export default function KitchenDashboard() {
   const [orders, setOrders] = useState<(Order & { order_items: (OrderItem & { menu_item: any })[] })[]>([]);
   const [loading, setLoading] = useState(true);
+  const [now, setNow] = useState(Date.now());
   const [stats, setStats] = useState({
     pendingOrders: 0,
     completedToday: 0,
@@ -27,27 +33,11 @@ export default function KitchenDashboard() {
     }
   }, [user]);
 
-  // Define drink categories in lowercase for case-insensitive comparison
-  const drinkCategories = ['drink', 'beverage', 'alcohol', 'coffee', 'tea', 'wine', 'beer', 'cocktail'];
-  
-  // Helper function to filter out drink items from an order
-  const filterOutDrinkItems = (order: any) => {
-    // Filter out drink items
-    const filteredItems = order.order_items?.filter(item => {
-      // Check if this item is NOT a drink
-      const isDrink = item.menu_item && drinkCategories.some(category => 
-        (item.menu_item.category || '').toLowerCase().includes(category.toLowerCase())
-      );
-      
-      // Keep items that are NOT drinks
-      return !isDrink;
-    }) || [];
-    
-    return {
-      ...order,
-      order_items: filteredItems
-    };
-  };
+  // Ticks the countdowns of fired courses
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
 
   const loadOrders = async () => {
     if (!user || user.role !== 'kitchen') {
@@ -71,12 +61,13 @@ export default function KitchenDashboard() {
       if (error) {
         console.error('Error loading orders:', error);
       } else {
-        // Filter out drink items from each order
-        const ordersWithFilteredItems = data?.map(filterOutDrinkItems) || [];
+        // Only the items made at kitchen stations
+        const stations = await loadStations();
+        const ordersWithFilteredItems = data?.map(order => filterOrderItemsByKind(order, stations, 'kitchen')) || [];
         
-        // Only keep orders that still have items after filtering
+        // Only keep orders the kitchen still has to work on, the bar may not be done yet
         const ordersWithItems = ordersWithFilteredItems.filter(order => 
-          order.order_items && order.order_items.length > 0
+          order.order_items.some(item => item.status !== 'ready')
         );
         
         setOrders(ordersWithItems);
@@ -114,8 +105,9 @@ export default function KitchenDashboard() {
       if (error) {
         console.error('Error loading stats:', error);
       } else {
-        // Filter out drink items from each order
-        const ordersWithFilteredItems = data?.map(filterOutDrinkItems) || [];
+        // Only the items made at kitchen stations
+        const stations = await loadStations();
+        const ordersWithFilteredItems = data?.map(order => filterOrderItemsByKind(order, stations, 'kitchen')) || [];
         
         // Only count orders that have food items
         const ordersWithFoodItems = ordersWithFilteredItems.filter(order => 
@@ -129,12 +121,17 @@ export default function KitchenDashboard() {
     }
   };
 
-  const updateOrderStatus = async (orderId: string, status: string) => {
+  // Updates the kitchen's fired items of the order, the order is ready once the bar and
+  // the held courses are done too
+  const updateKitchenItemsStatus = async (order: Order & { order_items: OrderItem[] }, status: OrderItem['status']) => {
     try {
       const { error } = await supabase
-        .from('orders')
+        .from('order_items')
         .update({ status })
-        .eq('id', orderId);
+        .in('id', order.order_items
+          .filter(item => !isHeldItem(item))
+          .filter(item => status === 'ready' ? item.status !== 'ready' : item.status === 'pending')
+          .map(item => item.id));
 
       if (error) {
         console.error('Error updating order status:', error);
@@ -257,7 +254,7 @@ export default function KitchenDashboard() {
                         </span>
                       </div>
                       <div>
-                        <h4 className="font-medium text-gray-900">{t('orders.orderNumber')}{order.id.slice(0, 8)}</h4>
+                        <h4 className="font-medium text-gray-900">{t('orders.orderNumber')}{getOrderNumber(order)}</h4>
                         <p className="text-sm text-gray-500">{order.customer_name}</p>
                       </div>
                     </div>
@@ -276,56 +273,85 @@ export default function KitchenDashboard() {
                   
                   <div className="space-y-2">
                     {order.order_items?.map((item) => (
-                      <div key={item.id} className="flex items-center justify-between p-2 bg-gray-50 rounded">
+                      <div key={item.id} className={`flex items-center justify-between p-2 bg-gray-50 rounded ${
+                        isHeldItem(item) ? 'opacity-50' : ''
+                      }`}>
                         <div>
                           <span className="font-medium">
                             {item.quantity}x {item.menu_item?.name || 'Unbekannter Artikel'}
                           </span>
+                          {item.course && (
+                            <span className="ml-2 text-xs bg-purple-100 text-purple-800 px-2 py-0.5 rounded">
+                              {t(`course.${item.course}`)}
+                            </span>
+                          )}
+                          {item.seat_number && (
+                            <span className="ml-2 text-xs bg-blue-100 text-blue-800 px-2 py-0.5 rounded">
+                              {t('tables.seat')} {item.seat_number}
+                            </span>
+                          )}
+                          {getModifierLines(item.modifiers).map(line => (
+                            <p key={line} className="text-sm font-medium text-amber-700">{line}</p>
+                          ))}
                           {item.notes && (
                             <p className="text-sm text-gray-600 italic">Notiz: {item.notes}</p>
                           )}
                         </div>
-                        <div className="flex items-center gap-2">
-                          <span className={`px-2 py-1 rounded text-xs font-medium ${
-                            item.status === 'pending' ? 'bg-yellow-100 text-yellow-800' :
-                            item.status === 'preparing' ? 'bg-blue-100 text-blue-800' :
-                            'bg-green-100 text-green-800'
-                          }`}>
-                            {t(`orders.${item.status}`)}
+                        {isHeldItem(item) ? (
+                          <span className="px-2 py-1 rounded text-xs font-medium bg-gray-200 text-gray-700">
+                            {t('course.held')}
                           </span>
-                          {item.status === 'pending' && (
-                            <button
-                              onClick={() => updateOrderItemStatus(item.id, 'preparing')}
-                              className="px-2 py-1 bg-blue-600 text-white rounded text-xs hover:bg-blue-700"
-                            >
-                              Starten
-                            </button>
-                          )}
-                          {item.status === 'preparing' && (
-                            <button
-                              onClick={() => updateOrderItemStatus(item.id, 'ready')}
-                              className="px-2 py-1 bg-green-600 text-white rounded text-xs hover:bg-green-700"
-                            >
-                              Fertig
-                            </button>
-                          )}
-                        </div>
+                        ) : (
+                          <div className="flex items-center gap-2">
+                            {item.course && item.status !== 'ready' && (
+                              <span className={`flex items-center gap-1 font-mono text-xs font-medium ${
+                                getItemRemainingMs(item, now) < 0 ? 'text-red-600' : 'text-gray-600'
+                              }`}>
+                                <Clock className="w-3 h-3" />
+                                {formatCountdown(getItemRemainingMs(item, now))}
+                              </span>
+                            )}
+                            <span className={`px-2 py-1 rounded text-xs font-medium ${
+                              item.status === 'pending' ? 'bg-yellow-100 text-yellow-800' :
+                              item.status === 'preparing' ? 'bg-blue-100 text-blue-800' :
+                              'bg-green-100 text-green-800'
+                            }`}>
+                              {t(`orders.${item.status}`)}
+                            </span>
+                            {item.status === 'pending' && (
+                              <button
+                                onClick={() => updateOrderItemStatus(item.id, 'preparing')}
+                                className="px-2 py-1 bg-blue-600 text-white rounded text-xs hover:bg-blue-700"
+                              >
+                                Starten
+                              </button>
+                            )}
+                            {item.status === 'preparing' && (
+                              <button
+                                onClick={() => updateOrderItemStatus(item.id, 'ready')}
+                                className="px-2 py-1 bg-green-600 text-white rounded text-xs hover:bg-green-700"
+                              >
+                                Fertig
+                              </button>
+                            )}
+                          </div>
+                        )}
                       </div>
                     ))}
                   </div>
 
                   <div className="flex gap-2 mt-4">
-                    {order.status === 'pending' && (
+                    {order.status === 'pending' && order.order_items.some(item => !isHeldItem(item)) && (
                       <button
-                        onClick={() => updateOrderStatus(order.id, 'preparing')}
+                        onClick={() => updateKitchenItemsStatus(order, 'preparing')}
                         className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 transition-colors"
                       >
                         Kochen beginnen
                       </button>
                     )}
-                    {order.status === 'preparing' && (
+                    {order.status === 'preparing' && order.order_items.some(item => !isHeldItem(item) && item.status !== 'ready') && (
                       <button
-                        onClick={() => updateOrderStatus(order.id, 'ready')}
+                        onClick={() => updateKitchenItemsStatus(order, 'ready')}
                         className="px-4 py-2 bg-green-600 text-white rounded-lg text-sm hover:bg-green-700 transition-colors"
                       >
                         Als fertig markieren
@@ -1,7 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { 
   TrendingUp, Users, ClipboardList, DollarSign, 
-  Clock, CheckCircle, AlertTriangle, BarChart3, Mic, Plus, Zap, Settings
+  Clock, CheckCircle, AlertTriangle, BarChart3, Mic, Plus, Zap, Settings, Flame, ClipboardCheck
 } from 'lucide-react';
 import { supabase, Order } from '../../lib/supabase';
 import { useAuth } from '../../contexts/AuthContext';
@@ -10,17 +10,11 @@ import VoiceOrderModal from '../VoiceOrderModal';
 import NewOrderModal from '../NewOrderModal';
 import QuickOrderModal from '../QuickOrderModal';
 import CompanySettingsModal from '../CompanySettingsModal';
-
-interface CompanyData {
-  name: string;
-  address: string;
-  city: string;
-  phone: string;
-  email: string;
-  website: string;
-  taxNumber: string;
-  vatId: string;
-}
+import StationsModal from '../StationsModal';
+import StockTakeModal from '../StockTakeModal';
+import { getOrderNumber } from '../../lib/orderNumbers';
+import { retryFailedInvoiceEmails } from '../../lib/invoiceSystem';
+import { CompanyData } from '../../lib/companySettings';
 
 export default function ManagerDashboard() {
   const [orders, setOrders] = useState<Order[]>([]);
@@ -29,6 +23,8 @@ export default function ManagerDashboard() {
   const [showNewOrderModal, setShowNewOrderModal] = useState(false);
   const [showQuickOrderModal, setShowQuickOrderModal] = useState(false);
   const [showCompanySettings, setShowCompanySettings] = useState(false);
+  const [showStations, setShowStations] = useState(false);
+  const [showStockTake, setShowStockTake] = useState(false);
   const [stats, setStats] = useState({
     totalRevenue: 0,
     todayOrders: 0,
@@ -42,6 +38,7 @@ export default function ManagerDashboard() {
     // Only load data if user exists and is a manager
     if (user && user.role === 'manager') {
       loadDashboardData();
+      retryFailedInvoiceEmails();
     } else if (user) {
       // If user exists but not manager, stop loading
       setLoading(false);
@@ -137,6 +134,20 @@ export default function ManagerDashboard() {
             <Settings className="w-4 h-4" />
             Firmeneinstellungen
           </button>
+          <button 
+            onClick={() => setShowStations(true)}
+            className="bg-orange-600 text-white px-4 py-2 rounded-lg flex items-center gap-2 hover:bg-orange-700 transition-colors"
+          >
+            <Flame className="w-4 h-4" />
+            Stationen
+          </button>
+          <button 
+            onClick={() => setShowStockTake(true)}
+            className="bg-indigo-600 text-white px-4 py-2 rounded-lg flex items-center gap-2 hover:bg-indigo-700 transition-colors"
+          >
+            <ClipboardCheck className="w-4 h-4" />
+            Inventur
+          </button>
           <button 
             onClick={() => setShowQuickOrderModal(true)}
             className="bg-emerald-600 text-white px-4 py-2 rounded-lg flex items-center gap-2 hover:bg-emerald-700 transition-colors"
@@ -326,7 +337,7 @@ export default function ManagerDashboard() {
                     <div>
                       <h4 className="font-medium text-gray-900">{order.customer_name}</h4>
                       <p className="text-sm text-gray-500">
-                        {t('orders.orderNumber')}{order.id.slice(0, 8)} • €{order.total.toFixed(2).replace('.', ',')}
+                        {t('orders.orderNumber')}{getOrderNumber(order)} • €{order.total.toFixed(2).replace('.', ',')}
                       </p>
                     </div>
                   </div>
@@ -380,6 +391,18 @@ export default function ManagerDashboard() {
         onClose={() => setShowCompanySettings(false)}
         onSave={handleCompanyDataSave}
       />
+
+      {/* Stations Modal */}
+      <StationsModal
+        isOpen={showStations}
+        onClose={() => setShowStations(false)}
+      />
+
+      {/* Stock Take Modal */}
+      <StockTakeModal
+        isOpen={showStockTake}
+        onClose={() => setShowStockTake(false)}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -7,6 +7,8 @@ import { useLanguage } from '../../contexts/LanguageContext';
 import NewOrderModal from '../NewOrderModal';
 import VoiceOrderModal from '../VoiceOrderModal';
 import QuickOrderModal from '../QuickOrderModal';
+import { getOrderNumber } from '../../lib/orderNumbers';
+import { getHeldCourses, fireCourse } from '../../lib/courses';
 
 export default function WaiterDashboard() {
   const [myOrders, setMyOrders] = useState<Order[]>([]);
@@ -14,6 +16,7 @@ export default function WaiterDashboard() {
   const [showNewOrderModal, setShowNewOrderModal] = useState(false);
   const [showVoiceOrderModal, setShowVoiceOrderModal] = useState(false);
   const [showQuickOrderModal, setShowQuickOrderModal] = useState(false);
+  const [firingCourse, setFiringCourse] = useState(false);
   const { user } = useAuth();
   const { t } = useLanguage();
   const navigate = useNavigate();
@@ -37,7 +40,14 @@ export default function WaiterDashboard() {
     try {
       const { data, error } = await supabase
         .from('orders')
-        .select('*')
+        .select(`
+          *,
+          order_items (
+            id,
+            course,
+            fired_at
+          )
+        `)
         .eq('waiter_id', user.id)
         .in('status', ['pending', 'preparing', 'ready', 'served'])
         .order('created_at', { ascending: false });
@@ -73,6 +83,19 @@ export default function WaiterDashboard() {
     }
   };
 
+  const handleFireCourse = async (tableNumber: number, course: number) => {
+    try {
+      setFiringCourse(true);
+      await fireCourse(tableNumber, course);
+      await loadMyOrders();
+    } catch (error) {
+      console.error('Error firing course:', error);
+      alert(t('course.fireFailed'));
+    } finally {
+      setFiringCourse(false);
+    }
+  };
+
   const handleNewOrderPlaced = () => {
     // Refresh orders when a new order is placed
     loadMyOrders();
@@ -265,7 +288,7 @@ export default function WaiterDashboard() {
                       </div>
                       <div>
                         <h4 className="font-bold text-gray-900 group-hover:text-green-800 transition-colors text-lg">
-                          {t('orders.orderNumber')}{order.id.slice(0, 8)}
+                          {t('orders.orderNumber')}{getOrderNumber(order)}
                         </h4>
                         <p className="text-gray-600 text-sm">
                           {order.customer_name || 'Anonymous Order'}
@@ -319,6 +342,21 @@ export default function WaiterDashboard() {
                           {t('orders.served')}
                         </button>
                       )}
+
+                      {/* Held courses of the table */}
+                      {order.table_number && getHeldCourses([order]).map(course => (
+                        <button
+                          key={course}
+                          onClick={(e) => {
+                            e.stopPropagation(); // Prevent card click
+                            handleFireCourse(order.table_number!, course);
+                          }}
+                          disabled={firingCourse}
+                          className="px-3 py-1 bg-purple-600 text-white rounded text-xs hover:bg-purple-700 transition-colors disabled:opacity-50"
+                        >
+                          {t(`course.fire.${course}`)}
+                        </button>
+                      ))}
                       
                       {/* Edit Indicator */}
                       <div className="flex items-center gap-2 text-green-600 group-hover:text-green-700 transition-colors">
@@ -123,6 +123,7 @@ const translations = {
     'nav.drinkOrders': 'Drink Orders',
     'nav.barInventory': 'Bar Inventory',
     'nav.barMenu': 'Bar Menu',
+    'nav.kds': 'Kitchen Display',
     
     // Navigation - Mobile (shorter labels)
     'nav.order': 'Order',
@@ -132,6 +133,7 @@ const translations = {
     'nav.cart': 'Cart',
     'nav.quick': 'Quick',
     'nav.drinks': 'Drinks',
+    'nav.kdsShort': 'KDS',
     
     // Dashboard
     'dashboard.welcome': 'Welcome Back',
@@ -199,6 +201,13 @@ const translations = {
     'orders.updateOrder': 'Update Order',
     'orders.orderDetails': 'Order Details',
     'orders.specialInstructions': 'Special Instructions',
+    'modifiers.options': 'Options',
+    'modifiers.required': 'Required',
+    'modifiers.chooseOne': 'Choose one',
+    'modifiers.atLeast': 'At least',
+    'modifiers.upTo': 'Up to',
+    'modifiers.pleaseChoose': 'Please choose',
+    'modifiers.choose': 'Choose',
     'orders.orderItems': 'Order Items',
     'orders.addItems': 'Add Items',
     'orders.removeItem': 'Remove Item',
@@ -221,11 +230,75 @@ const translations = {
     'orders.autoGeneratesGuest': 'auto-generates guest name',
     'orders.enterCustomerName': 'Enter customer name (optional)',
     'orders.enterTableNumber': 'Enter table number (optional)',
+    'orders.serviceType.dine_in': 'Dine-in',
+    'orders.serviceType.takeaway': 'Takeaway',
+    'course.label': 'Course',
+    'course.none': 'Right away',
+    'course.1': 'Starter',
+    'course.2': 'Main',
+    'course.3': 'Dessert',
+    'course.held': 'held',
+    'course.heldHint': 'Later courses are held until you fire them',
+    'course.fire.1': 'Fire starters',
+    'course.fire.2': 'Fire mains',
+    'course.fire.3': 'Fire desserts',
+    'course.fireFailed': 'Could not fire the course',
     'orders.each': 'each',
     'orders.noItemsAdded': 'No items added yet',
     'orders.selectItemsFromMenu': 'Select items from the menu',
     'orders.pleaseAddItems': 'Please add at least one item to the order',
     'orders.validTableNumber': 'Please enter a valid table number or leave empty',
+    'orders.validSeatNumber': 'Please enter a valid seat number or leave empty',
+    'orders.alreadyOrderedForSeat': 'Already ordered for seat',
+    'orders.seatForNewItems': 'Seat for new items (optional)',
+    'payments.splitBill': 'Split Bill',
+    'payments.bySeat': 'By Seat',
+    'payments.byItem': 'By Item',
+    'payments.evenly': 'Evenly',
+    'payments.customAmount': 'Custom Amount',
+    'payments.method': 'Payment Method',
+    'payments.cash': 'Cash',
+    'payments.card': 'Card',
+    'payments.digital': 'Digital',
+    'payments.noSeat': 'No seat',
+    'payments.selectedItems': 'Selected items',
+    'payments.share': 'Share',
+    'payments.numberOfWays': 'Split between how many guests?',
+    'payments.lastShareRounding': 'the last share covers rounding differences',
+    'payments.amount': 'Amount',
+    'payments.open': 'open',
+    'payments.noOpenItems': 'All items have been paid',
+    'payments.nothingSelected': 'Please select what should be paid',
+    'payments.exceedsOpenAmount': 'The amount is higher than the open amount',
+    'payments.paymentRecorded': 'Payment recorded',
+    'payments.paid': 'Paid',
+    'payments.openAmount': 'Open',
+    'payments.fullyPaid': 'Bill fully paid',
+    'payments.recordedPayments': 'Payments',
+    'payments.noPaymentsYet': 'No payments recorded yet',
+    'payments.pay': 'Pay',
+    'payments.payRemaining': 'Pay remaining',
+    'payments.remainder': 'Remainder',
+    'payments.void': 'Void payment',
+    'payments.confirmVoid': 'Void payment of',
+    'payments.girocode': 'GiroCode',
+    'payments.scanToPay': 'Scan with your banking app to pay by bank transfer',
+    'payments.accountHolder': 'Account holder',
+    'payments.reference': 'Reference',
+    'payments.ibanMissing': 'No IBAN configured. Please add the bank account in the company settings.',
+    'payments.transferReceived': 'Transfer received',
+    'location.switch': 'Switch location',
+    'location.switchFailed': 'Could not switch the location',
+    'location.addMember': 'Add staff member',
+    'location.memberEmail': 'E-mail of the staff member',
+    'location.memberAdded': 'Staff member added to this location',
+    'location.addMemberFailed': 'Could not add the staff member. Has this e-mail signed up?',
+    'location.noLocation': 'You have not been added to a location yet. Please ask a manager to add you.',
+    'orderNumber.counterRequired': 'The format must contain a counter, e.g. {NNNNN}',
+    'orderNumber.yearRequired': 'With a yearly restart the format must contain the year ({YYYY} or {YY})',
+    'payments.status.unpaid': 'Unpaid',
+    'payments.status.partially_paid': 'Partially paid',
+    'payments.status.paid': 'Paid',
     'orders.removedItems': 'Removed Items',
     'orders.restore': 'Restore',
     
@@ -298,6 +371,8 @@ const translations = {
     'tables.table': 'Table',
     'tables.seats': 'seats',
     'tables.seat': 'Seat',
+    'tables.seatWithItems': 'Seat with items',
+    'tables.itemsBySeat': 'Items by Seat',
     'tables.shape': 'Shape',
     'tables.capacity': 'Capacity',
     'tables.maxSeats': 'Maximum 20 seats per table',
@@ -315,6 +390,27 @@ const translations = {
     'tables.clickSeatForSpecific': 'Click seat number for seat-specific order',
     'tables.shapesRepresentTypes': 'Different shapes represent table types',
     'tables.redBadgeShowsOrders': 'Red badge shows active order count',
+    'tables.area': 'Area',
+    'tables.addTable': 'Add Table',
+    'tables.deleteTable': 'Delete Table',
+    'tables.confirmDelete': 'Are you sure you want to delete table',
+    'tables.noTables': 'No tables configured yet',
+    'tables.noTablesHint': 'Switch to edit mode and add tables to build your floor plan.',
+    'tables.addArea': 'Add Area',
+    'tables.deleteArea': 'Delete Area',
+    'tables.areaNamePlaceholder': 'e.g., Terrace, Upstairs',
+    'tables.confirmDeleteArea': 'Are you sure you want to delete the area',
+    'tables.areaNotEmpty': 'Move or delete all tables in this area before deleting it.',
+    'tables.addElement': 'Add',
+    'tables.element.wall': 'Wall',
+    'tables.element.bar': 'Bar Counter',
+    'tables.element.decor': 'Decor',
+    'tables.rotateLeft': 'Rotate left',
+    'tables.rotateRight': 'Rotate right',
+    'tables.dragToResize': 'Drag to resize',
+    'tables.dragToMove': 'Drag tables and elements to move them (snaps to grid)',
+    'tables.dragCornerToResize': 'Select an item and drag its corner to resize',
+    'tables.doubleClickToEdit': 'Double-click a table to edit its properties',
     
     // AI
     'ai.title': 'AI Assistant',
@@ -417,8 +513,16 @@ const translations = {
     'quickOrder.invoiceGenerationError': 'Error generating invoice',
     'quickOrder.invoiceEmailSent': 'Invoice successfully sent to accountant by email!',
     'quickOrder.emailSendingError': 'Error sending email',
+    'quickOrder.emailWillBeRetried': 'Failed e-mails are retried automatically.',
+    'quickOrder.accountantEmailMissing': 'No recipient for invoice e-mails set in the company settings',
     'quickOrder.datevExportGenerated': 'DATEV export successfully generated and downloaded!',
     'quickOrder.datevExportError': 'Error generating DATEV export',
+    'quickOrder.zugferdInvoice': 'ZUGFeRD PDF',
+    'quickOrder.xrechnungExport': 'XRechnung (XML)',
+    'quickOrder.eInvoiceGenerated': 'E-invoice successfully generated and downloaded!',
+    'quickOrder.eInvoiceError': 'Error generating e-invoice',
+    'quickOrder.eInvoiceMissingData': 'The e-invoice cannot be created because required data is missing:',
+    'quickOrder.openCompanySettings': 'Open company settings',
     'quickOrder.example1': '"Two beers, one currywurst with fries, one Fanta"',
     'quickOrder.example2': '"Table 5 would like two margherita pizzas and a Caesar salad"',
     'quickOrder.example3': '"One grilled salmon without sauce and two house wines for table 3"',
@@ -464,6 +568,29 @@ const translations = {
     'cart.title': 'Cart/Checkout',
     'cart.comingSoon': 'Cart/checkout coming soon...',
     
+    // Kitchen Display
+    'kds.title': 'Kitchen Display',
+    'kds.station': 'Stations on this screen',
+    'kds.allStations': 'All stations',
+    'kds.kitchenStations': 'Kitchen stations',
+    'kds.barStations': 'Bar stations',
+    'kds.openTickets': 'open tickets',
+    'kds.allDay': 'All Day',
+    'kds.inProgress': 'in progress',
+    'kds.recentlyBumped': 'Recently bumped',
+    'kds.recall': 'Recall',
+    'kds.bump': 'Bump',
+    'kds.bumped': 'bumped',
+    'kds.start': 'Start',
+    'kds.undo': 'Undo',
+    'kds.noTickets': 'No open tickets',
+    'kds.exit': 'Exit',
+    'kds.fullscreen': 'Full screen',
+    'kds.shortcuts': 'Shortcuts',
+    'kds.shortcutSelect': 'select ticket',
+    'kds.shortcutRecall': 'recall last ticket',
+    'kds.actionFailed': 'The ticket could not be updated. Please try again.',
+    
     // Bar Dashboard
     'bar.soundOn': 'Sound On',
     'bar.soundOff': 'Sound Off',
@@ -499,6 +626,17 @@ const translations = {
     'error.failedToCreate': 'Failed to create order',
     'error.failedToAddItems': 'Failed to add items to order',
     'error.failedToUpdate': 'Failed to update order',
+    'error.tableNumberTaken': 'A table with this number already exists',
+    'error.failedToCreateTable': 'Failed to create table',
+    'error.failedToUpdateTable': 'Failed to update table',
+    'error.failedToDeleteTable': 'Failed to delete table',
+    'error.failedToSaveLayout': 'Failed to save floor plan changes',
+    'error.areaNameTaken': 'An area with this name already exists',
+    'error.failedToCreateArea': 'Failed to create area',
+    'error.failedToDeleteArea': 'Failed to delete area',
+    'error.failedToLoadPayments': 'Failed to load payments',
+    'error.failedToRecordPayment': 'Failed to record payment',
+    'error.failedToVoidPayment': 'Failed to void payment',
     'success.orderCreated': 'Order created successfully!',
     'success.orderUpdated': 'Order updated successfully!',
     'success.itemAdded': 'Item added to cart!',
@@ -619,6 +757,7 @@ const translations = {
     'nav.drinkOrders': 'Getränkebestellungen',
     'nav.barInventory': 'Bar-Lagerbestand',
     'nav.barMenu': 'Bar-Menü',
+    'nav.kds': 'Küchenmonitor',
     
     // Navigation - Mobile (shorter labels)
     'nav.order': 'Bestellen',
@@ -628,6 +767,7 @@ const translations = {
     'nav.cart': 'Warenkorb',
     'nav.quick': 'Quick',
     'nav.drinks': 'Getränke',
+    'nav.kdsShort': 'KDS',
     
     // Dashboard
     'dashboard.welcome': 'Willkommen zurück',
@@ -695,6 +835,13 @@ const translations = {
     'orders.updateOrder': 'Bestellung aktualisieren',
     'orders.orderDetails': 'Bestelldetails',
     'orders.specialInstructions': 'Besondere Anweisungen',
+    'modifiers.options': 'Optionen',
+    'modifiers.required': 'Pflicht',
+    'modifiers.chooseOne': 'Eine Auswahl',
+    'modifiers.atLeast': 'Mindestens',
+    'modifiers.upTo': 'Bis zu',
+    'modifiers.pleaseChoose': 'Bitte auswählen',
+    'modifiers.choose': 'Auswählen',
     'orders.orderItems': 'Bestellartikel',
     'orders.addItems': 'Artikel hinzufügen',
     'orders.removeItem': 'Artikel entfernen',
@@ -717,11 +864,75 @@ const translations = {
     'orders.autoGeneratesGuest': 'generiert automatisch Gastnamen',
     'orders.enterCustomerName': 'Kundennamen eingeben (optional)',
     'orders.enterTableNumber': 'Tischnummer eingeben (optional)',
+    'orders.serviceType.dine_in': 'Vor Ort',
+    'orders.serviceType.takeaway': 'Außer Haus',
+    'course.label': 'Gang',
+    'course.none': 'Sofort',
+    'course.1': 'Vorspeise',
+    'course.2': 'Hauptgang',
+    'course.3': 'Dessert',
+    'course.held': 'wartet',
+    'course.heldHint': 'Spätere Gänge warten, bis Sie sie abrufen',
+    'course.fire.1': 'Vorspeise abrufen',
+    'course.fire.2': 'Hauptgang abrufen',
+    'course.fire.3': 'Dessert abrufen',
+    'course.fireFailed': 'Gang konnte nicht abgerufen werden',
     'orders.each': 'je',
     'orders.noItemsAdded': 'Noch keine Artikel hinzugefügt',
     'orders.selectItemsFromMenu': 'Wählen Sie Artikel aus der Speisekarte',
     'orders.pleaseAddItems': 'Bitte fügen Sie mindestens einen Artikel zur Bestellung hinzu',
     'orders.validTableNumber': 'Bitte geben Sie eine gültige Tischnummer ein oder lassen Sie das Feld leer',
+    'orders.validSeatNumber': 'Bitte geben Sie eine gültige Platznummer ein oder lassen Sie das Feld leer',
+    'orders.alreadyOrderedForSeat': 'Bereits bestellt für Platz',
+    'orders.seatForNewItems': 'Platz für neue Artikel (optional)',
+    'payments.splitBill': 'Rechnung teilen',
+    'payments.bySeat': 'Nach Platz',
+    'payments.byItem': 'Nach Artikel',
+    'payments.evenly': 'Gleichmäßig',
+    'payments.customAmount': 'Freier Betrag',
+    'payments.method': 'Zahlungsart',
+    'payments.cash': 'Bar',
+    'payments.card': 'Karte',
+    'payments.digital': 'Digital',
+    'payments.noSeat': 'Ohne Platz',
+    'payments.selectedItems': 'Ausgewählte Artikel',
+    'payments.share': 'Anteil',
+    'payments.numberOfWays': 'Auf wie viele Gäste aufteilen?',
+    'payments.lastShareRounding': 'der letzte Anteil gleicht Rundungsdifferenzen aus',
+    'payments.amount': 'Betrag',
+    'payments.open': 'offen',
+    'payments.noOpenItems': 'Alle Artikel wurden bezahlt',
+    'payments.nothingSelected': 'Bitte wählen Sie aus, was bezahlt werden soll',
+    'payments.exceedsOpenAmount': 'Der Betrag ist höher als der offene Betrag',
+    'payments.paymentRecorded': 'Zahlung erfasst',
+    'payments.paid': 'Bezahlt',
+    'payments.openAmount': 'Offen',
+    'payments.fullyPaid': 'Rechnung vollständig bezahlt',
+    'payments.recordedPayments': 'Zahlungen',
+    'payments.noPaymentsYet': 'Noch keine Zahlungen erfasst',
+    'payments.pay': 'Bezahlen',
+    'payments.payRemaining': 'Restbetrag bezahlen',
+    'payments.remainder': 'Restbetrag',
+    'payments.void': 'Zahlung stornieren',
+    'payments.confirmVoid': 'Zahlung stornieren über',
+    'payments.girocode': 'GiroCode',
+    'payments.scanToPay': 'Mit der Banking-App scannen und per Überweisung bezahlen',
+    'payments.accountHolder': 'Kontoinhaber',
+    'payments.reference': 'Verwendungszweck',
+    'payments.ibanMissing': 'Keine IBAN hinterlegt. Bitte die Bankverbindung in den Firmeneinstellungen eintragen.',
+    'payments.transferReceived': 'Überweisung erhalten',
+    'location.switch': 'Standort wechseln',
+    'location.switchFailed': 'Standort konnte nicht gewechselt werden',
+    'location.addMember': 'Mitarbeiter hinzufügen',
+    'location.memberEmail': 'E-Mail des Mitarbeiters',
+    'location.memberAdded': 'Mitarbeiter wurde diesem Standort hinzugefügt',
+    'location.addMemberFailed': 'Mitarbeiter konnte nicht hinzugefügt werden. Ist diese E-Mail registriert?',
+    'location.noLocation': 'Sie wurden noch keinem Standort zugeordnet. Bitte wenden Sie sich an einen Manager.',
+    'orderNumber.counterRequired': 'Das Format muss einen Zähler enthalten, z.B. {NNNNN}',
+    'orderNumber.yearRequired': 'Bei jährlichem Neustart muss das Format das Jahr enthalten ({YYYY} oder {YY})',
+    'payments.status.unpaid': 'Unbezahlt',
+    'payments.status.partially_paid': 'Teilweise bezahlt',
+    'payments.status.paid': 'Bezahlt',
     'orders.removedItems': 'Entfernte Artikel',
     'orders.restore': 'Wiederherstellen',
     
@@ -794,6 +1005,8 @@ const translations = {
     'tables.table': 'Tisch',
     'tables.seats': 'Plätze',
     'tables.seat': 'Platz',
+    'tables.seatWithItems': 'Platz mit Bestellung',
+    'tables.itemsBySeat': 'Artikel nach Platz',
     'tables.shape': 'Form',
     'tables.capacity': 'Kapazität',
     'tables.maxSeats': 'Maximal 20 Sitzplätze pro Tisch',
@@ -811,6 +1024,27 @@ const translations = {
     'tables.clickSeatForSpecific': 'Sitzplatznummer für spezifische Bestellung anklicken',
     'tables.shapesRepresentTypes': 'Verschiedene Formen repräsentieren Tischtypen',
     'tables.redBadgeShowsOrders': 'Rotes Abzeichen zeigt aktive Bestellungsanzahl',
+    'tables.area': 'Bereich',
+    'tables.addTable': 'Tisch hinzufügen',
+    'tables.deleteTable': 'Tisch löschen',
+    'tables.confirmDelete': 'Wirklich löschen: Tisch',
+    'tables.noTables': 'Noch keine Tische eingerichtet',
+    'tables.noTablesHint': 'Wechseln Sie in den Bearbeitungsmodus und fügen Sie Tische hinzu, um Ihren Grundriss zu erstellen.',
+    'tables.addArea': 'Bereich hinzufügen',
+    'tables.deleteArea': 'Bereich löschen',
+    'tables.areaNamePlaceholder': 'z.B. Terrasse, Obergeschoss',
+    'tables.confirmDeleteArea': 'Möchten Sie den Bereich wirklich löschen:',
+    'tables.areaNotEmpty': 'Verschieben oder löschen Sie zuerst alle Tische in diesem Bereich.',
+    'tables.addElement': 'Hinzufügen',
+    'tables.element.wall': 'Wand',
+    'tables.element.bar': 'Theke',
+    'tables.element.decor': 'Deko',
+    'tables.rotateLeft': 'Nach links drehen',
+    'tables.rotateRight': 'Nach rechts drehen',
+    'tables.dragToResize': 'Ziehen zum Skalieren',
+    'tables.dragToMove': 'Tische und Elemente per Drag & Drop verschieben (rastet am Raster ein)',
+    'tables.dragCornerToResize': 'Element auswählen und an der Ecke ziehen, um die Größe zu ändern',
+    'tables.doubleClickToEdit': 'Tisch doppelklicken, um Eigenschaften zu bearbeiten',
     
     // AI
     'ai.title': 'KI-Assistent',
@@ -913,8 +1147,16 @@ const translations = {
     'quickOrder.invoiceGenerationError': 'Fehler beim Generieren der Rechnung',
     'quickOrder.invoiceEmailSent': 'Rechnung erfolgreich per E-Mail an Steuerberater gesendet!',
     'quickOrder.emailSendingError': 'Fehler beim Versenden der E-Mail',
+    'quickOrder.emailWillBeRetried': 'Fehlgeschlagene E-Mails werden automatisch erneut gesendet.',
+    'quickOrder.accountantEmailMissing': 'Kein Empfänger für Rechnungs-E-Mails in den Firmeneinstellungen hinterlegt',
     'quickOrder.datevExportGenerated': 'DATEV-Export erfolgreich generiert und heruntergeladen!',
     'quickOrder.datevExportError': 'Fehler beim Generieren des DATEV-Exports',
+    'quickOrder.zugferdInvoice': 'ZUGFeRD-PDF',
+    'quickOrder.xrechnungExport': 'XRechnung (XML)',
+    'quickOrder.eInvoiceGenerated': 'E-Rechnung erfolgreich generiert und heruntergeladen!',
+    'quickOrder.eInvoiceError': 'Fehler beim Generieren der E-Rechnung',
+    'quickOrder.eInvoiceMissingData': 'Die E-Rechnung kann nicht erstellt werden, da Pflichtangaben fehlen:',
+    'quickOrder.openCompanySettings': 'Firmeneinstellungen öffnen',
     'quickOrder.example1': '"Zwei Bier, eine Currywurst mit Pommes, eine Fanta"',
     'quickOrder.example2': '"Tisch 5 möchte zwei Margherita-Pizzen und einen Caesar-Salat"',
     'quickOrder.example3': '"Ein gegrillter Lachs ohne Sauce und zwei Hausweine für Tisch 3"',
@@ -960,6 +1202,29 @@ const translations = {
     'cart.title': 'Warenkorb/Kasse',
     'cart.comingSoon': 'Warenkorb/Kasse kommt bald...',
     
+    // Kitchen Display
+    'kds.title': 'Küchenmonitor',
+    'kds.station': 'Stationen auf diesem Bildschirm',
+    'kds.allStations': 'Alle Stationen',
+    'kds.kitchenStations': 'Küchenstationen',
+    'kds.barStations': 'Barstationen',
+    'kds.openTickets': 'offene Bons',
+    'kds.allDay': 'Gesamtmengen',
+    'kds.inProgress': 'in Arbeit',
+    'kds.recentlyBumped': 'Zuletzt abgeräumt',
+    'kds.recall': 'Zurückholen',
+    'kds.bump': 'Fertig',
+    'kds.bumped': 'abgeräumt',
+    'kds.start': 'Starten',
+    'kds.undo': 'Rückgängig',
+    'kds.noTickets': 'Keine offenen Bons',
+    'kds.exit': 'Beenden',
+    'kds.fullscreen': 'Vollbild',
+    'kds.shortcuts': 'Tastenkürzel',
+    'kds.shortcutSelect': 'Bon auswählen',
+    'kds.shortcutRecall': 'letzten Bon zurückholen',
+    'kds.actionFailed': 'Der Bon konnte nicht aktualisiert werden. Bitte erneut versuchen.',
+    
     // Bar Dashboard
     'bar.soundOn': 'Ton An',
     'bar.soundOff': 'Ton Aus',
@@ -995,6 +1260,17 @@ const translations = {
     'error.failedToCreate': 'Bestellung konnte nicht erstellt werden',
     'error.failedToAddItems': 'Artikel konnten nicht zur Bestellung hinzugefügt werden',
     'error.failedToUpdate': 'Bestellung konnte nicht aktualisiert werden',
+    'error.tableNumberTaken': 'Ein Tisch mit dieser Nummer existiert bereits',
+    'error.failedToCreateTable': 'Tisch konnte nicht erstellt werden',
+    'error.failedToUpdateTable': 'Tisch konnte nicht aktualisiert werden',
+    'error.failedToDeleteTable': 'Tisch konnte nicht gelöscht werden',
+    'error.failedToSaveLayout': 'Änderungen am Grundriss konnten nicht gespeichert werden',
+    'error.areaNameTaken': 'Ein Bereich mit diesem Namen existiert bereits',
+    'error.failedToCreateArea': 'Bereich konnte nicht erstellt werden',
+    'error.failedToDeleteArea': 'Bereich konnte nicht gelöscht werden',
+    'error.failedToLoadPayments': 'Fehler beim Laden der Zahlungen',
+    'error.failedToRecordPayment': 'Fehler beim Erfassen der Zahlung',
+    'error.failedToVoidPayment': 'Fehler beim Stornieren der Zahlung',
     'success.orderCreated': 'Bestellung erfolgreich erstellt!',
     'success.orderUpdated': 'Bestellung erfolgreich aktualisiert!',
     'success.itemAdded': 'Artikel in den Warenkorb gelegt!',
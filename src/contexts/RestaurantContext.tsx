@@ -0,0 +1,70 @@
+import React, { useState, useEffect } from 'react';
+import { supabase, Restaurant } from '../lib/supabase';
+import { useAuth } from './AuthContext';
+import { RestaurantContext } from './useRestaurant';
+
+// Locations of the signed in user and the one they are working in.
+// The database scopes all queries to users.current_restaurant_id.
+export function RestaurantProvider({ children }: { children: React.ReactNode }) {
+  const [restaurants, setRestaurants] = useState<Restaurant[]>([]);
+  const [currentRestaurantId, setCurrentRestaurantId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (!user) {
+      setRestaurants([]);
+      setCurrentRestaurantId(null);
+      setLoading(true);
+      return;
+    }
+
+    const loadRestaurants = async () => {
+      const { data, error } = await supabase
+        .from('restaurants')
+        .select('*')
+        .order('name');
+
+      setLoading(false);
+
+      if (error) {
+        console.error('Error loading restaurants:', error);
+        return;
+      }
+
+      setRestaurants(data || []);
+      setCurrentRestaurantId(user.current_restaurant_id || data?.[0]?.id || null);
+    };
+
+    loadRestaurants();
+  }, [user]);
+
+  const switchRestaurant = async (restaurantId: string) => {
+    const { error } = await supabase.rpc('switch_restaurant', { target_restaurant_id: restaurantId });
+
+    if (error) {
+      console.error('Error switching restaurant:', error);
+      throw error;
+    }
+
+    setCurrentRestaurantId(restaurantId);
+  };
+
+  // New users belong to no location until a manager adds them to theirs
+  const addMember = async (email: string) => {
+    const { error } = await supabase.rpc('add_restaurant_member', { member_email: email });
+
+    if (error) {
+      console.error('Error adding restaurant member:', error);
+      throw error;
+    }
+  };
+
+  const currentRestaurant = restaurants.find(restaurant => restaurant.id === currentRestaurantId) || null;
+
+  return (
+    <RestaurantContext.Provider value={{ restaurants, currentRestaurant, loading, switchRestaurant, addMember }}>
+      {children}
+    </RestaurantContext.Provider>
+  );
+}
@@ -0,0 +1,21 @@
+import { createContext, useContext } from 'react';
+import { Restaurant } from '../lib/supabase';
+
+export interface RestaurantContextType {
+  restaurants: Restaurant[];
+  currentRestaurant: Restaurant | null;
+  loading: boolean;
+  switchRestaurant: (restaurantId: string) => Promise<void>;
+  addMember: (email: string) => Promise<void>;
+}
+
+// Separate from the provider so the provider file only exports components (fast refresh)
+export const RestaurantContext = createContext<RestaurantContextType | undefined>(undefined);
+
+export function useRestaurant() {
+  const context = useContext(RestaurantContext);
+  if (context === undefined) {
+    throw new Error('useRestaurant must be used within a RestaurantProvider');
+  }
+  return context;
+}
@@ -0,0 +1,158 @@
+// Company data printed on invoices, stored once per restaurant in company_settings
+import { supabase, CompanySettings, CompanySettingsAudit } from './supabase';
+
+export const WEEKDAYS = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'] as const;
+
+export type Weekday = typeof WEEKDAYS[number];
+
+// null = closed on that day
+export type OpeningHours = Partial<Record<Weekday, { open: string; close: string } | null>>;
+
+export interface CompanyData {
+  name: string;
+  address: string;
+  city: string;
+  phone: string;
+  email: string;
+  website: string;
+  taxNumber: string;
+  vatId: string;
+  // Bank account for transfers and the GiroCode on invoices
+  accountHolder?: string;
+  iban?: string;
+  bic?: string;
+  // Invoice e-mails
+  invoiceSenderEmail?: string;
+  accountantEmail?: string;
+  invoiceCcEmail?: string;
+  logoUrl?: string;
+  openingHours?: OpeningHours;
+  currency?: string;
+}
+
+export const DEFAULT_COMPANY_DATA: CompanyData = {
+  name: "RestaurantOS GmbH",
+  address: "Musterstraße 123",
+  city: "12345 Musterstadt",
+  phone: "+49 123 456789",
+  email: "info@restaurantos.de",
+  website: "www.restaurantos.de",
+  taxNumber: "DE123456789",
+  vatId: "DE987654321",
+  accountHolder: "",
+  iban: "",
+  bic: "",
+  invoiceSenderEmail: "",
+  accountantEmail: "",
+  invoiceCcEmail: "",
+  logoUrl: "",
+  openingHours: {},
+  currency: "EUR"
+};
+
+// Settings were stored per device before they moved to the database
+const LEGACY_STORAGE_KEY = 'company-settings';
+
+const fromSettings = (settings: CompanySettings): CompanyData => ({
+  name: settings.name,
+  address: settings.address,
+  city: settings.city,
+  phone: settings.phone,
+  email: settings.email,
+  website: settings.website,
+  taxNumber: settings.tax_number,
+  vatId: settings.vat_id,
+  accountHolder: settings.account_holder || '',
+  iban: settings.iban || '',
+  bic: settings.bic || '',
+  invoiceSenderEmail: settings.invoice_sender_email || '',
+  accountantEmail: settings.accountant_email || '',
+  invoiceCcEmail: settings.invoice_cc_email || '',
+  logoUrl: settings.logo_url || '',
+  openingHours: settings.opening_hours || {},
+  currency: settings.currency
+});
+
+const toSettings = (companyData: CompanyData): CompanySettings => ({
+  name: companyData.name.trim(),
+  address: companyData.address.trim(),
+  city: companyData.city.trim(),
+  phone: companyData.phone.trim(),
+  email: companyData.email.trim(),
+  website: companyData.website.trim(),
+  tax_number: companyData.taxNumber.trim(),
+  vat_id: companyData.vatId.trim(),
+  account_holder: companyData.accountHolder?.trim() || null,
+  iban: companyData.iban?.replace(/\s+/g, '').toUpperCase() || null,
+  bic: companyData.bic?.replace(/\s+/g, '').toUpperCase() || null,
+  invoice_sender_email: companyData.invoiceSenderEmail?.trim() || null,
+  accountant_email: companyData.accountantEmail?.trim() || null,
+  invoice_cc_email: companyData.invoiceCcEmail?.trim() || null,
+  logo_url: companyData.logoUrl?.trim() || null,
+  opening_hours: companyData.openingHours || {},
+  currency: companyData.currency || 'EUR'
+});
+
+// Company data stored on this device before the move to the database, if any
+export const loadLegacyCompanyData = (): CompanyData | null => {
+  const savedData = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!savedData) return null;
+
+  try {
+    return { ...DEFAULT_COMPANY_DATA, ...JSON.parse(savedData) };
+  } catch (error) {
+    console.error('Error loading company data:', error);
+    return null;
+  }
+};
+
+// Returns null if the settings have not been saved yet
+export const loadCompanySettings = async (): Promise<CompanyData | null> => {
+  const { data, error } = await supabase
+    .from('company_settings')
+    .select('*')
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading company settings:', error);
+    return null;
+  }
+
+  return data ? fromSettings(data) : null;
+};
+
+// Company data for invoices, falls back to the defaults until the settings are saved
+export const loadCompanyData = async (): Promise<CompanyData> =>
+  (await loadCompanySettings()) || DEFAULT_COMPANY_DATA;
+
+export const saveCompanyData = async (companyData: CompanyData, userId?: string): Promise<CompanyData> => {
+  const { data, error } = await supabase
+    .from('company_settings')
+    .upsert({
+      ...toSettings(companyData),
+      updated_at: new Date().toISOString(),
+      updated_by: userId || null
+    }, { onConflict: 'restaurant_id' })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+  return fromSettings(data);
+};
+
+export const loadCompanySettingsAudit = async (limit = 10): Promise<CompanySettingsAudit[]> => {
+  const { data, error } = await supabase
+    .from('company_settings_audit')
+    .select('*, changed_by_user:users(name)')
+    .order('changed_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error('Error loading company settings audit:', error);
+    return [];
+  }
+
+  return data || [];
+};
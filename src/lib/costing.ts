@@ -0,0 +1,105 @@
+import { InventoryItem, MenuItem, Order, OrderItem } from './supabase';
+import { getPortionStockQuantity } from './recipes';
+import { getLocalDate } from './menus';
+
+// Stock below zero is worth nothing rather than a negative amount
+export const getStockValue = (item: InventoryItem): number =>
+  Math.max(Number(item.quantity), 0) * Number(item.unit_cost || 0);
+
+// Theoretical cost of one portion at today's average costs. Null without a recipe or when
+// an ingredient has no cost or can't be converted
+export const getRecipeCost = (menuItem: MenuItem): number | null => {
+  const recipeItems = menuItem.recipe_items || [];
+  if (recipeItems.length === 0) return null;
+
+  let cost = 0;
+  for (const recipeItem of recipeItems) {
+    const quantity = getPortionStockQuantity(recipeItem, menuItem.recipe_yield);
+    const unitCost = recipeItem.inventory_item?.unit_cost;
+    if (quantity === null || unitCost == null) return null;
+    cost += quantity * Number(unitCost);
+  }
+
+  return cost;
+};
+
+// Menu prices include VAT, costs don't
+export const getNetPrice = (grossPrice: number, vatRate?: number | null): number =>
+  grossPrice / (1 + Number(vatRate ?? 19) / 100);
+
+// Cost of the stock the item really took, the recipe cost until it was made
+export const getOrderItemCost = (orderItem: OrderItem): number | null => {
+  if (orderItem.stock_cost != null) return Number(orderItem.stock_cost);
+  const recipeCost = orderItem.menu_item ? getRecipeCost(orderItem.menu_item) : null;
+  return recipeCost === null ? null : recipeCost * orderItem.quantity;
+};
+
+export type MarginGrouping = 'item' | 'category' | 'day';
+
+export interface MarginSummary {
+  key: string;
+  label: string;
+  quantity: number;
+  // Net of VAT
+  revenue: number;
+  // Revenue of the lines with a cost, the margin is taken from these only
+  costedRevenue: number;
+  cost: number;
+  uncostedQuantity: number;
+}
+
+export const getGrossMargin = (summary: MarginSummary): number => summary.costedRevenue - summary.cost;
+
+export const getMarginPercent = (summary: MarginSummary): number | null =>
+  summary.costedRevenue > 0 ? getGrossMargin(summary) / summary.costedRevenue * 100 : null;
+
+const getGroup = (order: Order, orderItem: OrderItem, grouping: MarginGrouping): { key: string; label: string } => {
+  if (grouping === 'item') {
+    return { key: orderItem.menu_item_id, label: orderItem.menu_item?.name || 'Unknown item' };
+  }
+  if (grouping === 'category') {
+    const category = orderItem.menu_item?.category || 'Other';
+    return { key: category, label: category };
+  }
+  // Local day, orders after midnight belong to the new day and not to the UTC one
+  const createdAt = new Date(order.created_at);
+  return { key: getLocalDate(createdAt), label: createdAt.toLocaleDateString() };
+};
+
+// Items and categories by gross margin, days in date order
+export const getMarginSummaries = (orders: Order[], grouping: MarginGrouping): MarginSummary[] => {
+  const summaries = new Map<string, MarginSummary>();
+
+  orders.forEach(order => {
+    (order.order_items || []).forEach(orderItem => {
+      const { key, label } = getGroup(order, orderItem, grouping);
+      const summary = summaries.get(key) || {
+        key,
+        label,
+        quantity: 0,
+        revenue: 0,
+        costedRevenue: 0,
+        cost: 0,
+        uncostedQuantity: 0
+      };
+      const revenue = getNetPrice(Number(orderItem.price) * orderItem.quantity, orderItem.vat_rate);
+      const cost = getOrderItemCost(orderItem);
+
+      summary.quantity += orderItem.quantity;
+      summary.revenue += revenue;
+      if (cost === null) {
+        summary.uncostedQuantity += orderItem.quantity;
+      } else {
+        summary.costedRevenue += revenue;
+        summary.cost += cost;
+      }
+
+      summaries.set(key, summary);
+    });
+  });
+
+  const result = Array.from(summaries.values());
+  return grouping === 'day'
+    ? result.sort((a, b) => a.key.localeCompare(b.key))
+    : result.sort((a, b) => getGrossMargin(b) - getGrossMargin(a));
+};
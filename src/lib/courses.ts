@@ -0,0 +1,34 @@
+import { supabase, Order, OrderItem } from './supabase';
+
+// Labels are the translation keys course.1, course.2, ...
+export const COURSES = [1, 2, 3];
+
+// Items loaded without the fired_at column count as fired
+export const isHeldItem = (item: Pick<OrderItem, 'fired_at'>): boolean => item.fired_at === null;
+
+// The first course goes out right away, later courses wait until the waiter fires them
+export const shouldHoldCourse = (
+  course: number | null | undefined,
+  orderCourses: (number | null | undefined)[]
+): boolean =>
+  course != null && orderCourses.some(other => other != null && other < course);
+
+// Courses still held on the orders of a table, lowest first
+export const getHeldCourses = (orders: Pick<Order, 'order_items'>[]): number[] =>
+  Array.from(new Set(
+    orders
+      .flatMap(order => order.order_items || [])
+      .filter(item => isHeldItem(item) && item.course != null)
+      .map(item => item.course as number)
+  )).sort((a, b) => a - b);
+
+// Sends the held items of a course on all open orders of the table to the stations
+export const fireCourse = async (tableNumber: number, course: number): Promise<number> => {
+  const { data, error } = await supabase.rpc('fire_course', {
+    target_table_number: tableNumber,
+    target_course: course
+  });
+
+  if (error) throw error;
+  return data || 0;
+};
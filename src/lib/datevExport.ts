@@ -0,0 +1,356 @@
+// DATEV Buchungsstapel export (EXTF format 700, Buchungsstapel version 13)
+import { supabase, DatevSettings, Payment, TaxRate } from './supabase';
+import { getDatevBooking, loadTaxRates } from './taxRates';
+import { getOrderNumber } from './orderNumbers';
+import { InvoiceData, getVatSummary } from './invoiceSystem';
+
+export interface DatevBooking {
+  amount: number; // gross, always positive
+  account: string;
+  contraAccount: string;
+  buKey: string;
+  date: Date;
+  documentNumber: string;
+  documentNumber2?: string;
+  text: string;
+}
+
+type AccountPreset = Pick<DatevSettings, 'cash_account' | 'card_account' | 'digital_account' | 'receivable_account'> & {
+  revenue_account: string;
+};
+
+// Standard accounts of both charts, revenue accounts are booked with the BU key of the VAT rate
+export const DATEV_ACCOUNT_PRESETS: Record<DatevSettings['chart_of_accounts'], AccountPreset> = {
+  SKR03: { cash_account: '1000', card_account: '1360', digital_account: '1360', receivable_account: '1400', revenue_account: '8200' },
+  SKR04: { cash_account: '1600', card_account: '1460', digital_account: '1460', receivable_account: '1200', revenue_account: '4200' }
+};
+
+export const DEFAULT_DATEV_SETTINGS: DatevSettings = {
+  consultant_number: null,
+  client_number: null,
+  fiscal_year_start_month: 1,
+  account_length: 4,
+  chart_of_accounts: 'SKR03',
+  cash_account: '1000',
+  card_account: '1360',
+  digital_account: '1360',
+  receivable_account: '1400'
+};
+
+const DATEV_COLUMNS = [
+  'Umsatz (ohne Soll/Haben-Kz)', 'Soll/Haben-Kennzeichen', 'WKZ Umsatz', 'Kurs', 'Basis-Umsatz', 'WKZ Basis-Umsatz',
+  'Konto', 'Gegenkonto (ohne BU-Schlüssel)', 'BU-Schlüssel', 'Belegdatum', 'Belegfeld 1', 'Belegfeld 2', 'Skonto',
+  'Buchungstext', 'Postensperre', 'Diverse Adressnummer', 'Geschäftspartnerbank', 'Sachverhalt', 'Zinssperre', 'Beleglink',
+  ...Array.from({ length: 8 }, (_, i) => [`Beleginfo - Art ${i + 1}`, `Beleginfo - Inhalt ${i + 1}`]).flat(),
+  'KOST1 - Kostenstelle', 'KOST2 - Kostenstelle', 'Kost-Menge', 'EU-Land u. UStID (Bestimmung)', 'EU-Steuersatz (Bestimmung)',
+  'Abw. Versteuerungsart', 'Sachverhalt L+L', 'Funktionsergänzung L+L', 'BU 49 Hauptfunktionstyp', 'BU 49 Hauptfunktionsnummer',
+  'BU 49 Funktionsergänzung',
+  ...Array.from({ length: 20 }, (_, i) => [`Zusatzinformation - Art ${i + 1}`, `Zusatzinformation - Inhalt ${i + 1}`]).flat(),
+  'Stück', 'Gewicht', 'Zahlweise', 'Forderungsart', 'Veranlagungsjahr', 'Zugeordnete Fälligkeit', 'Skontotyp', 'Auftragsnummer',
+  'Buchungstyp', 'USt-Schlüssel (Anzahlungen)', 'EU-Land (Anzahlungen)', 'Sachverhalt L+L (Anzahlungen)',
+  'EU-Steuersatz (Anzahlungen)', 'Erlöskonto (Anzahlungen)', 'Herkunft-Kz', 'Buchungs GUID', 'KOST-Datum',
+  'SEPA-Mandatsreferenz', 'Skontosperre', 'Gesellschaftername', 'Beteiligtennummer', 'Identifikationsnummer',
+  'Zeichnernummer', 'Postensperre bis', 'Bezeichnung SoBil-Sachverhalt', 'Kennzeichen SoBil-Buchung', 'Festschreibung',
+  'Leistungsdatum', 'Datum Zuord. Steuerperiode', 'Fälligkeit', 'Generalumkehr (GU)', 'Steuersatz', 'Land',
+  'Abrechnungsreferenz', 'BVV-Position', 'EU-Land u. UStID (Ursprung)', 'EU-Steuersatz (Ursprung)', 'Abw. Skontokonto'
+];
+
+const PAYMENT_METHOD_LABELS: Record<Payment['method'] | 'open', string> = {
+  cash: 'Bar',
+  card: 'Karte',
+  digital: 'Digital',
+  open: 'offen'
+};
+
+export const loadDatevSettings = async (): Promise<DatevSettings> => {
+  const { data, error } = await supabase
+    .from('datev_settings')
+    .select('*')
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading DATEV settings, using defaults:', error);
+  }
+
+  return data || DEFAULT_DATEV_SETTINGS;
+};
+
+export const saveDatevSettings = async (settings: DatevSettings): Promise<void> => {
+  const { error } = await supabase
+    .from('datev_settings')
+    .upsert({ ...settings, updated_at: new Date().toISOString() }, { onConflict: 'restaurant_id' });
+
+  if (error) throw error;
+};
+
+// Returns error messages for settings DATEV would reject on import
+export const validateDatevSettings = (settings: DatevSettings): string[] => {
+  const errors: string[] = [];
+
+  if (!settings.consultant_number || settings.consultant_number < 1001 || settings.consultant_number > 9999999) {
+    errors.push('Beraternummer fehlt oder ist ungültig (1001 - 9999999)');
+  }
+  if (!settings.client_number || settings.client_number < 1 || settings.client_number > 99999) {
+    errors.push('Mandantennummer fehlt oder ist ungültig (1 - 99999)');
+  }
+
+  const accounts = [settings.cash_account, settings.card_account, settings.digital_account, settings.receivable_account];
+  if (accounts.some(account => !/^\d+$/.test(account) || account.length > settings.account_length)) {
+    errors.push(`Konten müssen aus höchstens ${settings.account_length} Ziffern bestehen`);
+  }
+
+  return errors;
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// German dates in invoices are "5.7.2025" or "05.07.2025"
+const parseGermanDate = (value: string): Date => {
+  const [day, month, year] = value.split('.').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const getPaymentAccount = (settings: DatevSettings, method: Payment['method'] | 'open') => ({
+  cash: settings.cash_account,
+  card: settings.card_account,
+  digital: settings.digital_account,
+  open: settings.receivable_account
+})[method];
+
+// Bookings for invoices that only exist in memory (Quick Mode), booked against the receivable account
+export const getDatevBookingsForInvoices = (
+  invoices: InvoiceData[],
+  taxRates: TaxRate[],
+  settings: DatevSettings
+): DatevBooking[] =>
+  invoices.flatMap(invoice =>
+    getVatSummary(invoice).map(entry => {
+      const booking = getDatevBooking(taxRates, entry.rate);
+      return {
+        amount: round2(entry.gross),
+        account: settings.receivable_account,
+        contraAccount: booking.revenueAccount,
+        buKey: booking.buKey,
+        date: parseGermanDate(invoice.date),
+        documentNumber: invoice.invoiceNumber,
+        documentNumber2: invoice.customerName,
+        text: `Umsatz ${entry.rate}% ${invoice.invoiceNumber}`
+      };
+    })
+  );
+
+// Splits an amount across VAT rates in proportion to the weights, the last rate takes the rounding rest
+const splitByRate = (amount: number, weights: Map<number, number>): Map<number, number> => {
+  const rates = Array.from(weights.keys()).filter(rate => weights.get(rate)! > 0).sort((a, b) => a - b);
+  const total = rates.reduce((sum, rate) => sum + weights.get(rate)!, 0);
+  const shares = new Map<number, number>();
+  let rest = round2(amount);
+  rates.forEach((rate, index) => {
+    const share = index === rates.length - 1 ? rest : round2(amount * weights.get(rate)! / total);
+    rest = round2(rest - share);
+    shares.set(rate, share);
+  });
+  return shares;
+};
+
+// Bookings for all orders created in the date range (inclusive, local dates).
+// Payments for selected items are booked at the VAT rates of those items, all other payments
+// are split across the rates in proportion to what is still open, the unpaid rest is booked
+// against the receivable account.
+export const loadDatevBookingsForOrders = async (
+  startDate: Date,
+  endDate: Date,
+  taxRates: TaxRate[],
+  settings: DatevSettings
+): Promise<DatevBooking[]> => {
+  const rangeEnd = new Date(endDate);
+  rangeEnd.setHours(23, 59, 59, 999);
+
+  const { data: orders, error } = await supabase
+    .from('orders')
+    .select(`
+      id,
+      order_number,
+      customer_name,
+      created_at,
+      order_items (id, quantity, price, vat_rate),
+      payments (amount, method, payment_items (order_item_id, amount))
+    `)
+    .gte('created_at', startDate.toISOString())
+    .lte('created_at', rangeEnd.toISOString())
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+
+  return (orders || []).flatMap(order => {
+    const grossByRate = new Map<number, number>();
+    const rateByItem = new Map<string, number>();
+    (order.order_items || []).forEach(item => {
+      const rate = Number(item.vat_rate ?? 19);
+      rateByItem.set(item.id, rate);
+      grossByRate.set(rate, (grossByRate.get(rate) || 0) + Number(item.price) * item.quantity);
+    });
+
+    const orderGross = Array.from(grossByRate.values()).reduce((sum, gross) => sum + gross, 0);
+    if (orderGross <= 0) return [];
+
+    const amounts = new Map<string, number>(); // `${method}|${rate}` -> gross
+    const addAmount = (method: Payment['method'] | 'open', rate: number, amount: number) => {
+      const key = `${method}|${rate}`;
+      amounts.set(key, round2((amounts.get(key) || 0) + amount));
+    };
+
+    const openByRate = new Map(grossByRate);
+    const bookPayment = (method: Payment['method'], shares: Map<number, number>) => {
+      shares.forEach((share, rate) => {
+        addAmount(method, rate, share);
+        openByRate.set(rate, (openByRate.get(rate) || 0) - share);
+      });
+    };
+
+    const getItemGrossByRate = (payment: { payment_items?: { order_item_id: string; amount: number }[] | null }) => {
+      const itemGross = new Map<number, number>();
+      (payment.payment_items || []).forEach(paymentItem => {
+        const rate = rateByItem.get(paymentItem.order_item_id);
+        if (rate === undefined || Number(paymentItem.amount) <= 0) return;
+        itemGross.set(rate, (itemGross.get(rate) || 0) + Number(paymentItem.amount));
+      });
+      return itemGross;
+    };
+
+    const payments = (order.payments || []).map(payment => ({ payment, itemGross: getItemGrossByRate(payment) }));
+
+    payments
+      .filter(({ itemGross }) => itemGross.size > 0)
+      .forEach(({ payment, itemGross }) => bookPayment(payment.method, splitByRate(Number(payment.amount), itemGross)));
+
+    // Once everything is covered, overpayments follow the order's own split
+    payments
+      .filter(({ itemGross }) => itemGross.size === 0)
+      .forEach(({ payment }) => {
+        const open = new Map(Array.from(openByRate).filter(([, amount]) => round2(amount) > 0));
+        bookPayment(payment.method, splitByRate(Number(payment.amount), open.size > 0 ? open : grossByRate));
+      });
+
+    openByRate.forEach((open, rate) => {
+      if (round2(open) > 0) addAmount('open', rate, open);
+    });
+
+    const orderNumber = getOrderNumber(order);
+
+    return Array.from(amounts.entries())
+      .filter(([, amount]) => amount > 0)
+      .map(([key, amount]) => {
+        const [method, rate] = key.split('|') as [Payment['method'] | 'open', string];
+        const booking = getDatevBooking(taxRates, Number(rate));
+        return {
+          amount,
+          account: getPaymentAccount(settings, method),
+          contraAccount: booking.revenueAccount,
+          buKey: booking.buKey,
+          date: new Date(order.created_at),
+          documentNumber: orderNumber,
+          documentNumber2: order.customer_name || undefined,
+          text: `Umsatz ${Number(rate)}% ${PAYMENT_METHOD_LABELS[method]} ${orderNumber}`
+        };
+      });
+  });
+};
+
+const formatDate = (date: Date) =>
+  `${date.getFullYear()}${String(date.getMonth() + 1).padStart(2, '0')}${String(date.getDate()).padStart(2, '0')}`;
+
+const quote = (value: string, maxLength?: number) =>
+  `"${(maxLength ? value.slice(0, maxLength) : value).replace(/"/g, '""')}"`;
+
+// First day of the fiscal year a date belongs to
+const getFiscalYearStart = (date: Date, startMonth: number) => {
+  const year = date.getMonth() + 1 >= startMonth ? date.getFullYear() : date.getFullYear() - 1;
+  return new Date(year, startMonth - 1, 1);
+};
+
+// DATEV expects ANSI (Windows-1252)
+const encodeWindows1252 = (text: string): Uint8Array => {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    bytes[i] = code === 0x20AC ? 0x80 : code < 256 ? code : 0x3F; // € or "?"
+  }
+  return bytes;
+};
+
+export const generateDATEVExport = (
+  bookings: DatevBooking[],
+  settings: DatevSettings,
+  period: { startDate: Date; endDate: Date; description?: string }
+): Blob => {
+  console.log('Generating DATEV export for', bookings.length, 'bookings');
+
+  const errors = validateDatevSettings(settings);
+  if (errors.length > 0) {
+    throw new Error(errors.join('\n'));
+  }
+
+  const fiscalYearStart = getFiscalYearStart(period.startDate, settings.fiscal_year_start_month);
+  if (getFiscalYearStart(period.endDate, settings.fiscal_year_start_month).getTime() !== fiscalYearStart.getTime()) {
+    throw new Error('Der Zeitraum muss innerhalb eines Wirtschaftsjahres liegen');
+  }
+
+  const now = new Date();
+  const createdAt = `${formatDate(now)}${[now.getHours(), now.getMinutes(), now.getSeconds()]
+    .map(value => String(value).padStart(2, '0')).join('')}${String(now.getMilliseconds()).padStart(3, '0')}`;
+
+  const header = [
+    quote('EXTF'), 700, 21, quote('Buchungsstapel'), 13, createdAt, '', quote('RE'), quote(''), quote(''),
+    settings.consultant_number, settings.client_number, formatDate(fiscalYearStart), settings.account_length,
+    formatDate(period.startDate), formatDate(period.endDate),
+    quote(period.description || `RestaurantOS ${formatDate(period.startDate)}-${formatDate(period.endDate)}`, 30),
+    quote(''), 1, 0, 0, quote('EUR'), '', quote(''), '', '',
+    quote(settings.chart_of_accounts.slice(-2)), '', '', quote(''), quote('')
+  ];
+
+  const column = (name: string) => DATEV_COLUMNS.indexOf(name);
+
+  const rows = bookings.map(booking => {
+    const row: string[] = new Array(DATEV_COLUMNS.length).fill('');
+    row[column('Umsatz (ohne Soll/Haben-Kz)')] = booking.amount.toFixed(2).replace('.', ',');
+    row[column('Soll/Haben-Kennzeichen')] = quote('S');
+    row[column('WKZ Umsatz')] = quote('EUR');
+    row[column('Konto')] = booking.account;
+    row[column('Gegenkonto (ohne BU-Schlüssel)')] = booking.contraAccount;
+    row[column('BU-Schlüssel')] = booking.buKey ? quote(booking.buKey) : '';
+    row[column('Belegdatum')] = `${String(booking.date.getDate()).padStart(2, '0')}${String(booking.date.getMonth() + 1).padStart(2, '0')}`;
+    // Belegfeld 1 only allows letters, digits and $ & % * + - /
+    row[column('Belegfeld 1')] = quote(booking.documentNumber.replace(/[^A-Za-z0-9$&%*+\-/]/g, ''), 36);
+    row[column('Belegfeld 2')] = booking.documentNumber2 ? quote(booking.documentNumber2, 12) : '';
+    row[column('Buchungstext')] = quote(booking.text, 60);
+    row[column('Leistungsdatum')] = `${String(booking.date.getDate()).padStart(2, '0')}${String(booking.date.getMonth() + 1).padStart(2, '0')}${booking.date.getFullYear()}`;
+    return row.join(';');
+  });
+
+  const content = [
+    header.join(';'),
+    DATEV_COLUMNS.join(';'),
+    ...rows
+  ].join('\r\n');
+
+  console.log('DATEV export generated successfully');
+  return new Blob([encodeWindows1252(content)], { type: 'text/csv;charset=windows-1252' });
+};
+
+// Export all orders of a date range with the saved settings and tax rates
+export const exportDATEVForOrders = async (startDate: Date, endDate: Date): Promise<Blob> => {
+  const [settings, taxRates] = await Promise.all([loadDatevSettings(), loadTaxRates()]);
+  const bookings = await loadDatevBookingsForOrders(startDate, endDate, taxRates, settings);
+  return generateDATEVExport(bookings, settings, { startDate, endDate });
+};
+
+// Export Quick Mode invoices with the saved settings
+export const exportDATEVForInvoices = async (invoices: InvoiceData[], taxRates: TaxRate[]): Promise<Blob> => {
+  const settings = await loadDatevSettings();
+  const bookings = getDatevBookingsForInvoices(invoices, taxRates, settings);
+  const dates = bookings.map(booking => booking.date.getTime());
+  const startDate = dates.length > 0 ? new Date(Math.min(...dates)) : new Date();
+  const endDate = dates.length > 0 ? new Date(Math.max(...dates)) : new Date();
+  return generateDATEVExport(bookings, settings, { startDate, endDate });
+};
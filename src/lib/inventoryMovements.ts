@@ -0,0 +1,64 @@
+import { supabase, InventoryMovement, InventoryMovementType } from './supabase';
+
+export const MOVEMENT_TYPES: { value: InventoryMovementType; label: string; color: string }[] = [
+  { value: 'receipt', label: 'Receipt', color: 'bg-green-100 text-green-800' },
+  { value: 'consumption', label: 'Consumption', color: 'bg-blue-100 text-blue-800' },
+  { value: 'restore', label: 'Restored', color: 'bg-sky-100 text-sky-800' },
+  { value: 'waste', label: 'Waste', color: 'bg-orange-100 text-orange-800' },
+  { value: 'breakage', label: 'Breakage', color: 'bg-red-100 text-red-800' },
+  { value: 'correction', label: 'Correction', color: 'bg-gray-100 text-gray-800' },
+  { value: 'transfer', label: 'Transfer', color: 'bg-purple-100 text-purple-800' }
+];
+
+// Movements staff can book by hand, consumption and restore come from the orders
+export const MANUAL_MOVEMENT_TYPES: InventoryMovementType[] = ['receipt', 'waste', 'breakage', 'correction', 'transfer'];
+
+// Same rule as record_inventory_movement
+export const isReasonRequired = (type: InventoryMovementType): boolean =>
+  type === 'waste' || type === 'breakage' || type === 'transfer';
+
+export const getMovementType = (type: InventoryMovementType) =>
+  MOVEMENT_TYPES.find(movementType => movementType.value === type) || MOVEMENT_TYPES[0];
+
+// Newest first
+export const loadInventoryMovements = async (inventoryItemId: string, limit = 200): Promise<InventoryMovement[]> => {
+  const { data, error } = await supabase
+    .from('inventory_movements')
+    .select('*, created_by_user:users(name), order:orders(order_number), purchase_order:purchase_orders(po_number)')
+    .eq('inventory_item_id', inventoryItemId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error('Error loading inventory movements:', error);
+    return [];
+  }
+
+  return data || [];
+};
+
+// Changes the stock by quantityChange and logs it. Returns null when the stock didn't
+// change, e.g. taking out of an empty item
+export const recordInventoryMovement = async (
+  inventoryItemId: string,
+  type: InventoryMovementType,
+  quantityChange: number,
+  reason?: string
+): Promise<InventoryMovement | null> => {
+  const { data, error } = await supabase.rpc('record_inventory_movement', {
+    target_inventory_item_id: inventoryItemId,
+    target_movement_type: type,
+    quantity_change: quantityChange,
+    movement_reason: reason || null
+  });
+
+  if (error) throw error;
+  return data?.id ? data : null;
+};
+
+// Stock level after each movement, oldest first, for the stock chart
+export const getStockHistory = (movements: InventoryMovement[]): { date: string; quantity: number }[] =>
+  movements
+    .filter(movement => movement.quantity_after != null)
+    .map(movement => ({ date: movement.created_at, quantity: Number(movement.quantity_after) }))
+    .reverse();
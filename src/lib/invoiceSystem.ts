@@ -1,4 +1,12 @@
 // Invoice generation and management system
+import { AFRelationship, PDFDocument, PDFFont, PDFImage, PDFName, RGB, StandardFonts, rgb } from 'pdf-lib';
+import { supabase, InvoiceEmail, OrderItemModifier } from './supabase';
+import { getFileSafeNumber } from './orderNumbers';
+import { mailTransport, MailMessage } from './mailTransport';
+import { CompanyData } from './companySettings';
+import { groupModifiers, getModifierLines } from './modifiers';
+import { generateEPCPayload, getQRCodeModules, getQRCodeSVG, isValidIBAN, normalizeIBAN, formatIBAN } from './paymentQRCode';
+
 export interface InvoiceData {
   invoiceNumber: string;
   date: string;
@@ -12,46 +20,830 @@ export interface InvoiceData {
     vatRate: number;
     vatAmount: number;
     notes?: string;
+    // Picked options, already included in the unit price
+    modifiers?: OrderItemModifier[];
   }>;
   subtotal: number;
   totalVat: number;
   grandTotal: number;
-  qrCode?: string;
   notes?: string;
+  // Only needed for e-invoices (XRechnung requires buyer address and e-mail)
+  customerEmail?: string;
+  customerAddress?: {
+    street?: string;
+    postcode: string;
+    city: string;
+    countryCode?: string;
+  };
+  buyerReference?: string;
 }
 
-export interface CompanyData {
-  name: string;
-  address: string;
-  city: string;
-  phone: string;
-  email: string;
-  website: string;
-  taxNumber: string;
-  vatId: string;
-}
+// Net, VAT and gross amounts per VAT rate (item prices are gross)
+export const getVatSummary = (invoiceData: InvoiceData) => {
+  const rates = new Map<number, { rate: number; net: number; vat: number; gross: number }>();
+
+  invoiceData.items.forEach(item => {
+    const entry = rates.get(item.vatRate) || { rate: item.vatRate, net: 0, vat: 0, gross: 0 };
+    entry.gross += item.totalPrice;
+    entry.vat += item.vatAmount;
+    entry.net = entry.gross - entry.vat;
+    rates.set(item.vatRate, entry);
+  });
+
+  return Array.from(rates.values()).sort((a, b) => a.rate - b.rate);
+};
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  EUR: '€',
+  CHF: 'CHF ',
+  GBP: '£',
+  USD: '$'
+};
+
+// Amount with the company's currency symbol, e.g. "€12.50"
+export const formatMoney = (value: number, currency = 'EUR'): string =>
+  `${CURRENCY_SYMBOLS[currency] ?? `${currency} `}${value.toFixed(2)}`;
+
+// GiroCode payload for the open invoice amount, null without a valid IBAN (EPC QR codes are EUR only)
+export const getInvoicePaymentPayload = (invoiceData: InvoiceData, companyData: CompanyData): string | null => {
+  if (!companyData.iban || !isValidIBAN(companyData.iban) || (companyData.currency || 'EUR') !== 'EUR' || invoiceData.grandTotal < 0.01) {
+    return null;
+  }
+
+  try {
+    return generateEPCPayload({
+      name: companyData.accountHolder || companyData.name,
+      iban: companyData.iban,
+      bic: companyData.bic,
+      amount: invoiceData.grandTotal,
+      remittance: `Rechnung ${invoiceData.invoiceNumber}`
+    });
+  } catch (error) {
+    console.error('Error generating GiroCode payload:', error);
+    return null;
+  }
+};
+
+const getBankDetailLines = (invoiceData: InvoiceData, companyData: CompanyData): string[] =>
+  companyData.iban && isValidIBAN(companyData.iban)
+    ? [
+      `Kontoinhaber: ${companyData.accountHolder || companyData.name}`,
+      `IBAN: ${formatIBAN(companyData.iban)}${companyData.bic ? ` · BIC: ${companyData.bic}` : ''}`,
+      `Verwendungszweck: Rechnung ${invoiceData.invoiceNumber}`
+    ]
+    : [];
+
+const PAGE_WIDTH = 595.28; // A4 in pt
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 50;
+const TEXT_COLOR = rgb(0.2, 0.2, 0.2);
+const MUTED_COLOR = rgb(0.4, 0.4, 0.4);
+const BORDER_COLOR = rgb(0.87, 0.87, 0.87);
+const HEADER_FILL = rgb(0.96, 0.96, 0.96);
+
+// Columns of the line item table: left edge, width and alignment
+const ITEM_COLUMNS = [
+  { title: 'Pos.', x: MARGIN, width: 30, align: 'left' },
+  { title: 'Artikel', x: MARGIN + 30, width: 215, align: 'left' },
+  { title: 'Menge', x: MARGIN + 245, width: 45, align: 'right' },
+  { title: 'Einzelpreis', x: MARGIN + 290, width: 75, align: 'right' },
+  { title: 'MwSt %', x: MARGIN + 365, width: 55, align: 'right' },
+  { title: 'Gesamtpreis', x: MARGIN + 420, width: 75, align: 'right' }
+] as const;
+
+const CELL_PADDING = 5;
+const QR_SIZE = 90;
+const LOGO_MAX_WIDTH = 150;
+const LOGO_MAX_HEIGHT = 50;
+
+// PNG or JPEG logo, a logo that cannot be loaded is left out instead of failing the invoice
+const embedLogo = async (pdfDoc: PDFDocument, url: string): Promise<PDFImage | null> => {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    const isPng = bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47;
+    return isPng ? await pdfDoc.embedPng(bytes) : await pdfDoc.embedJpg(bytes);
+  } catch (error) {
+    console.error('Error loading invoice logo:', error);
+    return null;
+  }
+};
+
+// Lay out the invoice with pdf-lib, following generateInvoiceHTML
+const buildInvoicePDF = async (invoiceData: InvoiceData, companyData: CompanyData): Promise<PDFDocument> => {
+  const pdfDoc = await PDFDocument.create();
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  const boldFont = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+  const italicFont = await pdfDoc.embedFont(StandardFonts.HelveticaOblique);
+
+  pdfDoc.setTitle(`Rechnung ${invoiceData.invoiceNumber}`);
+  pdfDoc.setAuthor(companyData.name);
+  pdfDoc.setSubject(`Rechnung ${invoiceData.invoiceNumber} vom ${invoiceData.date}`);
+  pdfDoc.setCreator('RestaurantOS');
+  pdfDoc.setProducer('RestaurantOS (pdf-lib)');
+  pdfDoc.setLanguage('de-DE');
+  pdfDoc.setCreationDate(new Date());
+  pdfDoc.setModificationDate(new Date());
+
+  // The standard fonts only cover WinAnsi, replace anything else so drawing never throws
+  const supportedChars = new Set(font.getCharacterSet());
+  const clean = (text: string) =>
+    Array.from(text.replace(/\s+/g, ' ')).map(char => supportedChars.has(char.codePointAt(0) || 0) ? char : '?').join('');
+
+  const money = (value: number) => formatMoney(value, companyData.currency);
+
+  let page = pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const drawText = (text: string, x: number, size: number, options: { font?: PDFFont; color?: RGB; align?: 'left' | 'right'; width?: number } = {}) => {
+    const textFont = options.font || font;
+    const value = clean(text);
+    const textX = options.align === 'right' && options.width !== undefined
+      ? x + options.width - textFont.widthOfTextAtSize(value, size)
+      : x;
+    page.drawText(value, { x: textX, y, size, font: textFont, color: options.color || TEXT_COLOR });
+  };
+
+  const wrapText = (text: string, textFont: PDFFont, size: number, maxWidth: number): string[] => {
+    const lines: string[] = [];
+    let line = '';
+    clean(text).split(' ').forEach(word => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (textFont.widthOfTextAtSize(candidate, size) <= maxWidth || !line) {
+        line = candidate;
+      } else {
+        lines.push(line);
+        line = word;
+      }
+    });
+    if (line) lines.push(line);
+    return lines;
+  };
+
+  const drawItemTableHeader = () => {
+    const rowHeight = 22;
+    page.drawRectangle({
+      x: MARGIN,
+      y: y - rowHeight,
+      width: PAGE_WIDTH - 2 * MARGIN,
+      height: rowHeight,
+      color: HEADER_FILL,
+      borderColor: BORDER_COLOR,
+      borderWidth: 1
+    });
+    y -= 15;
+    ITEM_COLUMNS.forEach(column => {
+      drawText(column.title, column.x + CELL_PADDING, 9, { font: boldFont, align: column.align, width: column.width - 2 * CELL_PADDING });
+    });
+    y -= rowHeight - 15;
+  };
+
+  // Start a new page when the next block does not fit anymore
+  const ensureSpace = (height: number, repeatTableHeader = false) => {
+    if (y - height >= MARGIN + 30) return;
+    page = pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    y = PAGE_HEIGHT - MARGIN;
+    if (repeatTableHeader) drawItemTableHeader();
+  };
+
+  // Header: company on the left, invoice info on the right
+  const headerTop = y;
+  const logo = companyData.logoUrl ? await embedLogo(pdfDoc, companyData.logoUrl) : null;
+  if (logo) {
+    const { width, height } = logo.scaleToFit(LOGO_MAX_WIDTH, LOGO_MAX_HEIGHT);
+    page.drawImage(logo, { x: MARGIN, y: y - height, width, height });
+    y -= height + 10;
+  }
+  y -= 18;
+  drawText(companyData.name, MARGIN, 18, { font: boldFont });
+  [
+    companyData.address,
+    companyData.city,
+    `Tel: ${companyData.phone}`,
+    `E-Mail: ${companyData.email}`,
+    `Web: ${companyData.website}`
+  ].forEach(line => {
+    y -= 14;
+    drawText(line, MARGIN, 10);
+  });
+  const companyBottom = y;
+
+  const infoX = PAGE_WIDTH - MARGIN - 200;
+  y = headerTop - 16;
+  drawText('RECHNUNG', infoX, 16, { font: boldFont, align: 'right', width: 200 });
+  y -= 20;
+  drawText(`Rechnungsnummer: ${invoiceData.invoiceNumber}`, infoX, 10, { align: 'right', width: 200 });
+  y -= 14;
+  drawText(`Datum: ${invoiceData.date}`, infoX, 10, { align: 'right', width: 200 });
+
+  // Recipient
+  y = Math.min(companyBottom, y) - 40;
+  drawText('Rechnungsempfänger:', MARGIN, 12, { font: boldFont });
+  y -= 16;
+  drawText(invoiceData.customerName, MARGIN, 10, { font: boldFont });
+  y -= 14;
+  drawText(invoiceData.tableNumber ? `Tisch ${invoiceData.tableNumber}` : 'Abholung', MARGIN, 10);
+
+  // Line items
+  y -= 30;
+  drawItemTableHeader();
+
+  const nameColumn = ITEM_COLUMNS[1];
+  invoiceData.items.forEach((item, index) => {
+    const nameLines = wrapText(item.name, font, 9, nameColumn.width - 2 * CELL_PADDING);
+    const modifierLines = getModifierLines(item.modifiers)
+      .flatMap(line => wrapText(line, font, 8, nameColumn.width - 2 * CELL_PADDING));
+    const noteLines = item.notes ? wrapText(item.notes, italicFont, 8, nameColumn.width - 2 * CELL_PADDING) : [];
+    const rowHeight = 10 + nameLines.length * 11 + (modifierLines.length + noteLines.length) * 10;
+
+    ensureSpace(rowHeight, true);
 
-// Generate PDF invoice using jsPDF (would need to be installed)
+    const rowTop = y;
+    page.drawRectangle({
+      x: MARGIN,
+      y: rowTop - rowHeight,
+      width: PAGE_WIDTH - 2 * MARGIN,
+      height: rowHeight,
+      borderColor: BORDER_COLOR,
+      borderWidth: 1
+    });
+
+    y = rowTop - 14;
+    const cells = [
+      `${index + 1}`,
+      '',
+      `${item.quantity}`,
+      money(item.unitPrice),
+      `${item.vatRate}%`,
+      money(item.totalPrice)
+    ];
+    ITEM_COLUMNS.forEach((column, columnIndex) => {
+      if (columnIndex === 1) return;
+      drawText(cells[columnIndex], column.x + CELL_PADDING, 9, { align: column.align, width: column.width - 2 * CELL_PADDING });
+    });
+
+    nameLines.forEach((line, lineIndex) => {
+      if (lineIndex > 0) y -= 11;
+      drawText(line, nameColumn.x + CELL_PADDING, 9);
+    });
+    modifierLines.forEach(line => {
+      y -= 10;
+      drawText(line, nameColumn.x + CELL_PADDING, 8);
+    });
+    noteLines.forEach(line => {
+      y -= 10;
+      drawText(line, nameColumn.x + CELL_PADDING, 8, { font: italicFont, color: MUTED_COLOR });
+    });
+
+    y = rowTop - rowHeight;
+  });
+
+  // Totals with one VAT line per rate
+  const vatSummary = getVatSummary(invoiceData);
+  const netAmount = invoiceData.subtotal - invoiceData.totalVat;
+  const totalsX = PAGE_WIDTH - MARGIN - 250;
+
+  ensureSpace(40 + (vatSummary.length + 2) * 15);
+  y -= 30;
+  drawText(`Nettobetrag: ${money(netAmount)}`, totalsX, 10, { align: 'right', width: 250 });
+  vatSummary.forEach(entry => {
+    y -= 15;
+    drawText(`MwSt (${entry.rate}%) auf ${money(entry.net)}: ${money(entry.vat)}`, totalsX, 10, { align: 'right', width: 250 });
+  });
+  y -= 12;
+  page.drawLine({
+    start: { x: totalsX, y },
+    end: { x: PAGE_WIDTH - MARGIN, y },
+    thickness: 2,
+    color: TEXT_COLOR
+  });
+  y -= 18;
+  drawText(`Gesamtbetrag: ${money(invoiceData.grandTotal)}`, totalsX, 14, { font: boldFont, align: 'right', width: 250 });
+
+  // Remarks
+  if (invoiceData.notes) {
+    const noteLines = wrapText(invoiceData.notes, font, 10, PAGE_WIDTH - 2 * MARGIN);
+    ensureSpace(40 + noteLines.length * 13);
+    y -= 30;
+    drawText('Bemerkungen:', MARGIN, 11, { font: boldFont });
+    noteLines.forEach(line => {
+      y -= 13;
+      drawText(line, MARGIN, 10);
+    });
+  }
+
+  // Footer with payment and tax information, the GiroCode next to it
+  const paymentPayload = getInvoicePaymentPayload(invoiceData, companyData);
+  ensureSpace(paymentPayload ? 160 : 120);
+  y -= 45;
+
+  if (paymentPayload) {
+    const modules = getQRCodeModules(paymentPayload);
+    const moduleSize = QR_SIZE / modules.length;
+    const qrX = PAGE_WIDTH - MARGIN - QR_SIZE;
+    const qrTop = y + 10;
+    modules.forEach((row, rowIndex) => row.forEach((dark, colIndex) => {
+      if (!dark) return;
+      page.drawRectangle({
+        x: qrX + colIndex * moduleSize,
+        y: qrTop - (rowIndex + 1) * moduleSize,
+        width: moduleSize,
+        height: moduleSize,
+        color: rgb(0, 0, 0)
+      });
+    }));
+    const label = 'GiroCode';
+    page.drawText(label, {
+      x: qrX + (QR_SIZE - font.widthOfTextAtSize(label, 8)) / 2,
+      y: qrTop - QR_SIZE - 12,
+      size: 8,
+      font,
+      color: MUTED_COLOR
+    });
+  }
+
+  drawText('Zahlungsinformationen:', MARGIN, 9, { font: boldFont, color: MUTED_COLOR });
+  [
+    'Bitte begleichen Sie den Rechnungsbetrag innerhalb von 14 Tagen.',
+    ...getBankDetailLines(invoiceData, companyData),
+    'Vielen Dank für Ihren Besuch!'
+  ].forEach(line => {
+    y -= 12;
+    drawText(line, MARGIN, 9, { color: MUTED_COLOR });
+  });
+  y -= 20;
+  drawText('Steuerliche Angaben:', MARGIN, 9, { font: boldFont, color: MUTED_COLOR });
+  [
+    `Steuernummer: ${companyData.taxNumber}`,
+    `USt-IdNr.: ${companyData.vatId}`
+  ].forEach(line => {
+    y -= 12;
+    drawText(line, MARGIN, 9, { color: MUTED_COLOR });
+  });
+
+  // Page numbers
+  const pages = pdfDoc.getPages();
+  pages.forEach((pdfPage, index) => {
+    const label = `Seite ${index + 1} von ${pages.length}`;
+    pdfPage.drawText(label, {
+      x: PAGE_WIDTH - MARGIN - font.widthOfTextAtSize(label, 8),
+      y: MARGIN / 2,
+      size: 8,
+      font,
+      color: MUTED_COLOR
+    });
+  });
+
+  return pdfDoc;
+};
+
+// Generate a real PDF invoice in the browser
 export const generateInvoicePDF = async (
   invoiceData: InvoiceData, 
   companyData: CompanyData
 ): Promise<Blob> => {
   console.log('Generating PDF invoice for:', invoiceData.invoiceNumber);
-  
-  // For now, create a simple HTML-based PDF simulation
-  // In a real implementation, you would use jsPDF or similar
-  const htmlContent = generateInvoiceHTML(invoiceData, companyData);
-  
-  // Convert HTML to PDF (simplified simulation)
-  const blob = new Blob([htmlContent], { type: 'text/html' });
-  
+
+  const pdfDoc = await buildInvoicePDF(invoiceData, companyData);
+  const pdfBytes = await pdfDoc.save();
+  const blob = new Blob([pdfBytes], { type: 'application/pdf' });
+
   console.log('PDF invoice generated successfully');
   return blob;
 };
 
+// ---------------------------------------------------------------------------
+// E-invoicing (XRechnung / ZUGFeRD)
+// Both use the UN/CEFACT Cross Industry Invoice (CII) syntax of EN 16931 and
+// only differ in the guideline ID and a few additional German business rules.
+// ---------------------------------------------------------------------------
+
+export type EInvoiceProfile = 'xrechnung' | 'zugferd';
+
+const GUIDELINE_IDS: Record<EInvoiceProfile, string> = {
+  xrechnung: 'urn:cen.eu:en16931:2017#compliant#urn:xeinkauf.de:kosit:xrechnung_3.0',
+  zugferd: 'urn:cen.eu:en16931:2017'
+};
+
+export class EInvoiceValidationError extends Error {
+  errors: string[];
+
+  constructor(errors: string[]) {
+    super(`E-Rechnung unvollständig:\n- ${errors.join('\n- ')}`);
+    this.name = 'EInvoiceValidationError';
+    this.errors = errors;
+  }
+}
+
+const roundAmount = (value: number) => Math.round(value * 100) / 100;
+const formatAmount = (value: number) => roundAmount(value).toFixed(2);
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+// "03.07.2025" (de-DE) -> "20250703" (CII date format 102)
+const toCIIDate = (date: string): string | null => {
+  const match = date.trim().match(/^(\d{1,2})\.(\d{1,2})\.(\d{4})$/);
+  if (!match) return null;
+  const [, day, month, year] = match;
+  const parsed = new Date(Number(year), Number(month) - 1, Number(day));
+  if (parsed.getMonth() !== Number(month) - 1 || parsed.getDate() !== Number(day)) return null;
+  return `${year}${month.padStart(2, '0')}${day.padStart(2, '0')}`;
+};
+
+// CompanyData keeps postcode and city in one field ("12345 Musterstadt")
+const splitPostcodeCity = (value: string): { postcode: string; city: string } | null => {
+  const match = value.trim().match(/^(\d{4,5})\s+(.+)$/);
+  return match ? { postcode: match[1], city: match[2] } : null;
+};
+
+// Net line amounts and tax breakdown as required by EN 16931 (item prices are gross)
+const getEInvoiceTotals = (invoiceData: InvoiceData) => {
+  const lines = invoiceData.items.map(item => {
+    const netAmount = roundAmount(item.totalPrice / (1 + item.vatRate / 100));
+    return {
+      ...item,
+      netAmount,
+      netUnitPrice: item.quantity > 0 ? Math.round((netAmount / item.quantity) * 10000) / 10000 : 0
+    };
+  });
+
+  const breakdown = Array.from(
+    lines.reduce((rates, line) => {
+      rates.set(line.vatRate, roundAmount((rates.get(line.vatRate) || 0) + line.netAmount));
+      return rates;
+    }, new Map<number, number>())
+  )
+    .sort(([a], [b]) => a - b)
+    .map(([rate, basis]) => ({ rate, basis, tax: roundAmount(basis * rate / 100) }));
+
+  const lineTotal = roundAmount(lines.reduce((sum, line) => sum + line.netAmount, 0));
+  const taxTotal = roundAmount(breakdown.reduce((sum, entry) => sum + entry.tax, 0));
+  const grandTotal = roundAmount(lineTotal + taxTotal);
+  // Difference to the gross total actually charged, caused by converting gross prices to net
+  const rounding = roundAmount(invoiceData.grandTotal - grandTotal);
+
+  return { lines, breakdown, lineTotal, taxTotal, grandTotal, rounding };
+};
+
+// Check all fields an EN 16931 invoice needs, returns readable messages for everything that is missing
+export const validateEInvoice = (
+  invoiceData: InvoiceData,
+  companyData: CompanyData,
+  profile: EInvoiceProfile = 'zugferd'
+): string[] => {
+  const errors: string[] = [];
+
+  if (!invoiceData.invoiceNumber?.trim()) {
+    errors.push('Rechnungsnummer fehlt');
+  }
+  if (!toCIIDate(invoiceData.date || '')) {
+    errors.push(`Rechnungsdatum "${invoiceData.date || ''}" ist ungültig (erwartet TT.MM.JJJJ)`);
+  }
+
+  // Seller (company settings)
+  if (!companyData.name?.trim()) {
+    errors.push('Firmeneinstellungen: Firmenname fehlt');
+  }
+  if (!companyData.address?.trim()) {
+    errors.push('Firmeneinstellungen: Straße und Hausnummer fehlen');
+  }
+  if (!splitPostcodeCity(companyData.city || '')) {
+    errors.push('Firmeneinstellungen: PLZ und Ort müssen im Format "12345 Musterstadt" angegeben sein');
+  }
+  if (!companyData.vatId?.trim()) {
+    errors.push('Firmeneinstellungen: USt-IdNr. fehlt');
+  } else if (!/^[A-Z]{2}[A-Z0-9]{2,13}$/.test(companyData.vatId.replace(/\s/g, '').toUpperCase())) {
+    errors.push(`Firmeneinstellungen: USt-IdNr. "${companyData.vatId}" ist ungültig (z.B. DE123456789)`);
+  }
+  if (profile === 'xrechnung') {
+    if (!companyData.email?.trim() || !companyData.email.includes('@')) {
+      errors.push('Firmeneinstellungen: E-Mail-Adresse fehlt (Pflicht für XRechnung)');
+    }
+    if (!companyData.phone?.trim()) {
+      errors.push('Firmeneinstellungen: Telefonnummer fehlt (Pflicht für XRechnung)');
+    }
+  }
+
+  // Buyer
+  if (!invoiceData.customerName?.trim()) {
+    errors.push('Name des Rechnungsempfängers fehlt');
+  }
+  if (profile === 'xrechnung') {
+    if (!invoiceData.customerAddress?.postcode?.trim() || !invoiceData.customerAddress?.city?.trim()) {
+      errors.push('PLZ und Ort des Rechnungsempfängers fehlen (Pflicht für XRechnung)');
+    }
+    if (!invoiceData.customerEmail?.trim()) {
+      errors.push('E-Mail-Adresse des Rechnungsempfängers fehlt (Pflicht für XRechnung)');
+    }
+  }
+
+  // Lines and tax breakdown
+  if (invoiceData.items.length === 0) {
+    errors.push('Rechnung enthält keine Positionen');
+  }
+  invoiceData.items.forEach((item, index) => {
+    if (!item.name?.trim()) {
+      errors.push(`Position ${index + 1}: Bezeichnung fehlt`);
+    }
+    if (!(item.quantity > 0)) {
+      errors.push(`Position ${index + 1}: Menge muss größer als 0 sein`);
+    }
+    if (typeof item.vatRate !== 'number' || isNaN(item.vatRate) || item.vatRate < 0) {
+      errors.push(`Position ${index + 1}: MwSt-Satz fehlt oder ist ungültig`);
+    }
+  });
+
+  const itemsGross = roundAmount(invoiceData.items.reduce((sum, item) => sum + item.totalPrice, 0));
+  if (Math.abs(itemsGross - invoiceData.grandTotal) > 0.01) {
+    errors.push(`Summe der Positionen (€${formatAmount(itemsGross)}) stimmt nicht mit dem Gesamtbetrag (€${formatAmount(invoiceData.grandTotal)}) überein`);
+  }
+  const itemsVat = roundAmount(invoiceData.items.reduce((sum, item) => sum + item.vatAmount, 0));
+  if (Math.abs(itemsVat - invoiceData.totalVat) > 0.05) {
+    errors.push(`MwSt-Aufschlüsselung (€${formatAmount(itemsVat)}) stimmt nicht mit der Gesamt-MwSt (€${formatAmount(invoiceData.totalVat)}) überein`);
+  }
+
+  return errors;
+};
+
+const buildPostalAddress = (postcode: string, street: string, city: string, countryCode: string) => `
+        <ram:PostalTradeAddress>
+          ${postcode ? `<ram:PostcodeCode>${escapeXml(postcode)}</ram:PostcodeCode>` : ''}
+          ${street ? `<ram:LineOne>${escapeXml(street)}</ram:LineOne>` : ''}
+          ${city ? `<ram:CityName>${escapeXml(city)}</ram:CityName>` : ''}
+          <ram:CountryID>${escapeXml(countryCode)}</ram:CountryID>
+        </ram:PostalTradeAddress>`;
+
+// Generate the invoice as EN 16931 CII XML (XRechnung or ZUGFeRD/Factur-X profile)
+export const generateEInvoiceXML = (
+  invoiceData: InvoiceData,
+  companyData: CompanyData,
+  profile: EInvoiceProfile = 'xrechnung'
+): string => {
+  const errors = validateEInvoice(invoiceData, companyData, profile);
+  if (errors.length > 0) {
+    throw new EInvoiceValidationError(errors);
+  }
+
+  const issueDate = toCIIDate(invoiceData.date) as string;
+  const seller = splitPostcodeCity(companyData.city) as { postcode: string; city: string };
+  const buyer = invoiceData.customerAddress;
+  const totals = getEInvoiceTotals(invoiceData);
+  const categoryCode = (rate: number) => rate > 0 ? 'S' : 'Z';
+  const notes = [
+    invoiceData.notes,
+    invoiceData.tableNumber ? `Tisch ${invoiceData.tableNumber}` : undefined
+  ].filter(Boolean) as string[];
+
+  const lineItems = totals.lines.map((line, index) => `
+    <ram:IncludedSupplyChainTradeLineItem>
+      <ram:AssociatedDocumentLineDocument>
+        <ram:LineID>${index + 1}</ram:LineID>
+        ${line.notes ? `<ram:IncludedNote><ram:Content>${escapeXml(line.notes)}</ram:Content></ram:IncludedNote>` : ''}
+      </ram:AssociatedDocumentLineDocument>
+      <ram:SpecifiedTradeProduct>
+        <ram:Name>${escapeXml(line.name)}</ram:Name>${line.modifiers?.length ? `
+        <ram:Description>${escapeXml(getModifierLines(line.modifiers).join('; '))}</ram:Description>${groupModifiers(line.modifiers).map(({ group, options }) => `
+        <ram:ApplicableProductCharacteristic>
+          <ram:Description>${escapeXml(group)}</ram:Description>
+          <ram:Value>${escapeXml(options.join(', '))}</ram:Value>
+        </ram:ApplicableProductCharacteristic>`).join('')}` : ''}
+      </ram:SpecifiedTradeProduct>
+      <ram:SpecifiedLineTradeAgreement>
+        <ram:NetPriceProductTradePrice>
+          <ram:ChargeAmount>${line.netUnitPrice}</ram:ChargeAmount>
+        </ram:NetPriceProductTradePrice>
+      </ram:SpecifiedLineTradeAgreement>
+      <ram:SpecifiedLineTradeDelivery>
+        <ram:BilledQuantity unitCode="C62">${line.quantity}</ram:BilledQuantity>
+      </ram:SpecifiedLineTradeDelivery>
+      <ram:SpecifiedLineTradeSettlement>
+        <ram:ApplicableTradeTax>
+          <ram:TypeCode>VAT</ram:TypeCode>
+          <ram:CategoryCode>${categoryCode(line.vatRate)}</ram:CategoryCode>
+          <ram:RateApplicablePercent>${line.vatRate}</ram:RateApplicablePercent>
+        </ram:ApplicableTradeTax>
+        <ram:SpecifiedTradeSettlementLineMonetarySummation>
+          <ram:LineTotalAmount>${formatAmount(line.netAmount)}</ram:LineTotalAmount>
+        </ram:SpecifiedTradeSettlementLineMonetarySummation>
+      </ram:SpecifiedLineTradeSettlement>
+    </ram:IncludedSupplyChainTradeLineItem>`).join('');
+
+  const taxBreakdown = totals.breakdown.map(entry => `
+      <ram:ApplicableTradeTax>
+        <ram:CalculatedAmount>${formatAmount(entry.tax)}</ram:CalculatedAmount>
+        <ram:TypeCode>VAT</ram:TypeCode>
+        <ram:BasisAmount>${formatAmount(entry.basis)}</ram:BasisAmount>
+        <ram:CategoryCode>${categoryCode(entry.rate)}</ram:CategoryCode>
+        <ram:RateApplicablePercent>${entry.rate}</ram:RateApplicablePercent>
+      </ram:ApplicableTradeTax>`).join('');
+
+  const currency = companyData.currency || 'EUR';
+
+  // SEPA credit transfer (58) when a bank account is configured, otherwise unspecified (1)
+  const hasIBAN = Boolean(companyData.iban && isValidIBAN(companyData.iban));
+  const paymentMeans = hasIBAN ? `      <ram:PaymentReference>Rechnung ${escapeXml(invoiceData.invoiceNumber)}</ram:PaymentReference>
+      <ram:InvoiceCurrencyCode>${currency}</ram:InvoiceCurrencyCode>
+      <ram:SpecifiedTradeSettlementPaymentMeans>
+        <ram:TypeCode>58</ram:TypeCode>
+        <ram:PayeePartyCreditorFinancialAccount>
+          <ram:IBANID>${normalizeIBAN(companyData.iban as string)}</ram:IBANID>
+          <ram:AccountName>${escapeXml(companyData.accountHolder || companyData.name)}</ram:AccountName>
+        </ram:PayeePartyCreditorFinancialAccount>${companyData.bic ? `
+        <ram:PayeeSpecifiedCreditorFinancialInstitution>
+          <ram:BICID>${escapeXml(companyData.bic.replace(/\s+/g, '').toUpperCase())}</ram:BICID>
+        </ram:PayeeSpecifiedCreditorFinancialInstitution>` : ''}
+      </ram:SpecifiedTradeSettlementPaymentMeans>` : `      <ram:InvoiceCurrencyCode>${currency}</ram:InvoiceCurrencyCode>
+      <ram:SpecifiedTradeSettlementPaymentMeans>
+        <ram:TypeCode>1</ram:TypeCode>
+      </ram:SpecifiedTradeSettlementPaymentMeans>`;
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rsm:CrossIndustryInvoice xmlns:rsm="urn:un:unece:uncefact:data:standard:CrossIndustryInvoice:100" xmlns:ram="urn:un:unece:uncefact:data:standard:ReusableAggregateBusinessInformationEntity:100" xmlns:qdt="urn:un:unece:uncefact:data:standard:QualifiedDataType:100" xmlns:udt="urn:un:unece:uncefact:data:standard:UnqualifiedDataType:100">
+  <rsm:ExchangedDocumentContext>
+    ${profile === 'xrechnung' ? `<ram:BusinessProcessSpecifiedDocumentContextParameter>
+      <ram:ID>urn:fdc:peppol.eu:2017:poacc:billing:01:1.0</ram:ID>
+    </ram:BusinessProcessSpecifiedDocumentContextParameter>` : ''}
+    <ram:GuidelineSpecifiedDocumentContextParameter>
+      <ram:ID>${GUIDELINE_IDS[profile]}</ram:ID>
+    </ram:GuidelineSpecifiedDocumentContextParameter>
+  </rsm:ExchangedDocumentContext>
+  <rsm:ExchangedDocument>
+    <ram:ID>${escapeXml(invoiceData.invoiceNumber)}</ram:ID>
+    <ram:TypeCode>380</ram:TypeCode>
+    <ram:IssueDateTime>
+      <udt:DateTimeString format="102">${issueDate}</udt:DateTimeString>
+    </ram:IssueDateTime>${notes.map(note => `
+    <ram:IncludedNote>
+      <ram:Content>${escapeXml(note)}</ram:Content>
+    </ram:IncludedNote>`).join('')}
+  </rsm:ExchangedDocument>
+  <rsm:SupplyChainTradeTransaction>${lineItems}
+    <ram:ApplicableHeaderTradeAgreement>
+      <ram:BuyerReference>${escapeXml(invoiceData.buyerReference?.trim() || invoiceData.invoiceNumber)}</ram:BuyerReference>
+      <ram:SellerTradeParty>
+        <ram:Name>${escapeXml(companyData.name)}</ram:Name>
+        <ram:DefinedTradeContact>
+          <ram:PersonName>${escapeXml(companyData.name)}</ram:PersonName>
+          ${companyData.phone ? `<ram:TelephoneUniversalCommunication><ram:CompleteNumber>${escapeXml(companyData.phone)}</ram:CompleteNumber></ram:TelephoneUniversalCommunication>` : ''}
+          ${companyData.email ? `<ram:EmailURIUniversalCommunication><ram:URIID>${escapeXml(companyData.email)}</ram:URIID></ram:EmailURIUniversalCommunication>` : ''}
+        </ram:DefinedTradeContact>${buildPostalAddress(seller.postcode, companyData.address, seller.city, 'DE')}
+        ${companyData.email ? `<ram:URIUniversalCommunication><ram:URIID schemeID="EM">${escapeXml(companyData.email)}</ram:URIID></ram:URIUniversalCommunication>` : ''}
+        <ram:SpecifiedTaxRegistration>
+          <ram:ID schemeID="VA">${escapeXml(companyData.vatId.replace(/\s/g, '').toUpperCase())}</ram:ID>
+        </ram:SpecifiedTaxRegistration>
+        ${companyData.taxNumber ? `<ram:SpecifiedTaxRegistration><ram:ID schemeID="FC">${escapeXml(companyData.taxNumber)}</ram:ID></ram:SpecifiedTaxRegistration>` : ''}
+      </ram:SellerTradeParty>
+      <ram:BuyerTradeParty>
+        <ram:Name>${escapeXml(invoiceData.customerName)}</ram:Name>${buildPostalAddress(buyer?.postcode || '', buyer?.street || '', buyer?.city || '', buyer?.countryCode || 'DE')}
+        ${invoiceData.customerEmail ? `<ram:URIUniversalCommunication><ram:URIID schemeID="EM">${escapeXml(invoiceData.customerEmail)}</ram:URIID></ram:URIUniversalCommunication>` : ''}
+      </ram:BuyerTradeParty>
+    </ram:ApplicableHeaderTradeAgreement>
+    <ram:ApplicableHeaderTradeDelivery>
+      <ram:ActualDeliverySupplyChainEvent>
+        <ram:OccurrenceDateTime>
+          <udt:DateTimeString format="102">${issueDate}</udt:DateTimeString>
+        </ram:OccurrenceDateTime>
+      </ram:ActualDeliverySupplyChainEvent>
+    </ram:ApplicableHeaderTradeDelivery>
+    <ram:ApplicableHeaderTradeSettlement>
+${paymentMeans}${taxBreakdown}
+      <ram:SpecifiedTradePaymentTerms>
+        <ram:Description>Bitte begleichen Sie den Rechnungsbetrag innerhalb von 14 Tagen.</ram:Description>
+      </ram:SpecifiedTradePaymentTerms>
+      <ram:SpecifiedTradeSettlementHeaderMonetarySummation>
+        <ram:LineTotalAmount>${formatAmount(totals.lineTotal)}</ram:LineTotalAmount>
+        <ram:TaxBasisTotalAmount>${formatAmount(totals.lineTotal)}</ram:TaxBasisTotalAmount>
+        <ram:TaxTotalAmount currencyID="${currency}">${formatAmount(totals.taxTotal)}</ram:TaxTotalAmount>
+        ${totals.rounding !== 0 ? `<ram:RoundingAmount>${formatAmount(totals.rounding)}</ram:RoundingAmount>` : ''}
+        <ram:GrandTotalAmount>${formatAmount(totals.grandTotal)}</ram:GrandTotalAmount>
+        <ram:DuePayableAmount>${formatAmount(totals.grandTotal + totals.rounding)}</ram:DuePayableAmount>
+      </ram:SpecifiedTradeSettlementHeaderMonetarySummation>
+    </ram:ApplicableHeaderTradeSettlement>
+  </rsm:SupplyChainTradeTransaction>
+</rsm:CrossIndustryInvoice>
+`;
+};
+
+export const generateXRechnung = async (invoiceData: InvoiceData, companyData: CompanyData): Promise<Blob> => {
+  console.log('Generating XRechnung for:', invoiceData.invoiceNumber);
+  const xml = generateEInvoiceXML(invoiceData, companyData, 'xrechnung');
+  return new Blob([xml], { type: 'application/xml;charset=utf-8' });
+};
+
+// XMP metadata declaring the PDF as PDF/A-3 with a Factur-X/ZUGFeRD invoice attached
+const buildZUGFeRDMetadata = (invoiceData: InvoiceData, companyData: CompanyData, date: Date) => `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+  <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+    <rdf:Description rdf:about="" xmlns:pdfaid="http://www.aiim.org/pdfa/ns/id/">
+      <pdfaid:part>3</pdfaid:part>
+      <pdfaid:conformance>B</pdfaid:conformance>
+    </rdf:Description>
+    <rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/">
+      <dc:title><rdf:Alt><rdf:li xml:lang="x-default">Rechnung ${escapeXml(invoiceData.invoiceNumber)}</rdf:li></rdf:Alt></dc:title>
+      <dc:creator><rdf:Seq><rdf:li>${escapeXml(companyData.name)}</rdf:li></rdf:Seq></dc:creator>
+    </rdf:Description>
+    <rdf:Description rdf:about="" xmlns:xmp="http://ns.adobe.com/xap/1.0/">
+      <xmp:CreatorTool>RestaurantOS</xmp:CreatorTool>
+      <xmp:CreateDate>${date.toISOString()}</xmp:CreateDate>
+      <xmp:ModifyDate>${date.toISOString()}</xmp:ModifyDate>
+    </rdf:Description>
+    <rdf:Description rdf:about="" xmlns:pdf="http://ns.adobe.com/pdf/1.3/">
+      <pdf:Producer>RestaurantOS (pdf-lib)</pdf:Producer>
+    </rdf:Description>
+    <rdf:Description rdf:about="" xmlns:fx="urn:factur-x:pdfa:CrossIndustryDocument:invoice:1p0#">
+      <fx:DocumentType>INVOICE</fx:DocumentType>
+      <fx:DocumentFileName>factur-x.xml</fx:DocumentFileName>
+      <fx:Version>1.0</fx:Version>
+      <fx:ConformanceLevel>EN 16931</fx:ConformanceLevel>
+    </rdf:Description>
+    <rdf:Description rdf:about="" xmlns:pdfaExtension="http://www.aiim.org/pdfa/ns/extension/" xmlns:pdfaSchema="http://www.aiim.org/pdfa/ns/schema#" xmlns:pdfaProperty="http://www.aiim.org/pdfa/ns/property#">
+      <pdfaExtension:schemas>
+        <rdf:Bag>
+          <rdf:li rdf:parseType="Resource">
+            <pdfaSchema:schema>Factur-X PDFA Extension Schema</pdfaSchema:schema>
+            <pdfaSchema:namespaceURI>urn:factur-x:pdfa:CrossIndustryDocument:invoice:1p0#</pdfaSchema:namespaceURI>
+            <pdfaSchema:prefix>fx</pdfaSchema:prefix>
+            <pdfaSchema:property>
+              <rdf:Seq>
+                <rdf:li rdf:parseType="Resource">
+                  <pdfaProperty:name>DocumentFileName</pdfaProperty:name>
+                  <pdfaProperty:valueType>Text</pdfaProperty:valueType>
+                  <pdfaProperty:category>external</pdfaProperty:category>
+                  <pdfaProperty:description>Name of the embedded XML invoice file</pdfaProperty:description>
+                </rdf:li>
+                <rdf:li rdf:parseType="Resource">
+                  <pdfaProperty:name>DocumentType</pdfaProperty:name>
+                  <pdfaProperty:valueType>Text</pdfaProperty:valueType>
+                  <pdfaProperty:category>external</pdfaProperty:category>
+                  <pdfaProperty:description>INVOICE</pdfaProperty:description>
+                </rdf:li>
+                <rdf:li rdf:parseType="Resource">
+                  <pdfaProperty:name>Version</pdfaProperty:name>
+                  <pdfaProperty:valueType>Text</pdfaProperty:valueType>
+                  <pdfaProperty:category>external</pdfaProperty:category>
+                  <pdfaProperty:description>Version of the Factur-X XML schema</pdfaProperty:description>
+                </rdf:li>
+                <rdf:li rdf:parseType="Resource">
+                  <pdfaProperty:name>ConformanceLevel</pdfaProperty:name>
+                  <pdfaProperty:valueType>Text</pdfaProperty:valueType>
+                  <pdfaProperty:category>external</pdfaProperty:category>
+                  <pdfaProperty:description>Factur-X profile of the embedded XML invoice</pdfaProperty:description>
+                </rdf:li>
+              </rdf:Seq>
+            </pdfaSchema:property>
+          </rdf:li>
+        </rdf:Bag>
+      </pdfaExtension:schemas>
+    </rdf:Description>
+  </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`;
+
+// Generate the PDF invoice with the ZUGFeRD (EN 16931) XML embedded as factur-x.xml.
+// Note: the standard fonts are not embedded, so strict PDF/A-3 validators will still complain about fonts.
+export const generateZUGFeRDInvoicePDF = async (
+  invoiceData: InvoiceData,
+  companyData: CompanyData
+): Promise<Blob> => {
+  console.log('Generating ZUGFeRD invoice for:', invoiceData.invoiceNumber);
+
+  const xml = generateEInvoiceXML(invoiceData, companyData, 'zugferd');
+  const pdfDoc = await buildInvoicePDF(invoiceData, companyData);
+  const now = new Date();
+
+  await pdfDoc.attach(new TextEncoder().encode(xml), 'factur-x.xml', {
+    mimeType: 'text/xml',
+    description: `Rechnung ${invoiceData.invoiceNumber} (ZUGFeRD / Factur-X EN 16931)`,
+    creationDate: now,
+    modificationDate: now,
+    afRelationship: AFRelationship.Alternative
+  });
+
+  const metadata = pdfDoc.context.stream(buildZUGFeRDMetadata(invoiceData, companyData, now), {
+    Type: 'Metadata',
+    Subtype: 'XML'
+  });
+  pdfDoc.catalog.set(PDFName.of('Metadata'), pdfDoc.context.register(metadata));
+
+  const pdfBytes = await pdfDoc.save();
+  const blob = new Blob([pdfBytes], { type: 'application/pdf' });
+
+  console.log('ZUGFeRD invoice generated successfully');
+  return blob;
+};
+
 // Generate HTML invoice content
-const generateInvoiceHTML = (invoiceData: InvoiceData, companyData: CompanyData): string => {
+export const generateInvoiceHTML = (invoiceData: InvoiceData, companyData: CompanyData): string => {
   const netAmount = invoiceData.subtotal - invoiceData.totalVat;
+  const vatSummary = getVatSummary(invoiceData);
+  const paymentPayload = getInvoicePaymentPayload(invoiceData, companyData);
   
   return `
 <!DOCTYPE html>
@@ -79,6 +871,7 @@ const generateInvoiceHTML = (invoiceData: InvoiceData, companyData: CompanyData)
 <body>
     <div class="header">
         <div class="company-info">
+            ${companyData.logoUrl ? `<img src="${companyData.logoUrl}" alt="${companyData.name}" style="max-width: 200px; max-height: 70px; margin-bottom: 10px;">` : ''}
             <h1>${companyData.name}</h1>
             <p>${companyData.address}<br>
             ${companyData.city}<br>
@@ -114,20 +907,20 @@ const generateInvoiceHTML = (invoiceData: InvoiceData, companyData: CompanyData)
             ${invoiceData.items.map((item, index) => `
                 <tr>
                     <td>${index + 1}</td>
-                    <td>${item.name}${item.notes ? `<br><small><em>${item.notes}</em></small>` : ''}</td>
+                    <td>${item.name}${getModifierLines(item.modifiers).map(line => `<br><small>${line}</small>`).join('')}${item.notes ? `<br><small><em>${item.notes}</em></small>` : ''}</td>
                     <td>${item.quantity}</td>
-                    <td>€${item.unitPrice.toFixed(2)}</td>
+                    <td>${formatMoney(item.unitPrice, companyData.currency)}</td>
                     <td>${item.vatRate}%</td>
-                    <td>€${item.totalPrice.toFixed(2)}</td>
+                    <td>${formatMoney(item.totalPrice, companyData.currency)}</td>
                 </tr>
             `).join('')}
         </tbody>
     </table>
 
     <div class="total-section">
-        <div class="total-row">Nettobetrag: €${netAmount.toFixed(2)}</div>
-        <div class="total-row">MwSt (19%): €${invoiceData.totalVat.toFixed(2)}</div>
-        <div class="total-row grand-total">Gesamtbetrag: €${invoiceData.grandTotal.toFixed(2)}</div>
+        <div class="total-row">Nettobetrag: ${formatMoney(netAmount, companyData.currency)}</div>
+        ${vatSummary.map(entry => `<div class="total-row">MwSt (${entry.rate}%) auf ${formatMoney(entry.net, companyData.currency)}: ${formatMoney(entry.vat, companyData.currency)}</div>`).join('')}
+        <div class="total-row grand-total">Gesamtbetrag: ${formatMoney(invoiceData.grandTotal, companyData.currency)}</div>
     </div>
 
     ${invoiceData.notes ? `
@@ -137,16 +930,18 @@ const generateInvoiceHTML = (invoiceData: InvoiceData, companyData: CompanyData)
     </div>
     ` : ''}
 
+    ${paymentPayload ? `
     <div class="qr-code">
-        <p><strong>QR-Code für Zahlung</strong></p>
-        <div style="width: 150px; height: 150px; border: 2px solid #333; margin: 0 auto; display: flex; align-items: center; justify-content: center;">
-            QR-Code<br>€${invoiceData.grandTotal.toFixed(2)}
-        </div>
+        <p><strong>GiroCode: Jetzt per Banking-App bezahlen</strong></p>
+        <div style="width: 150px; height: 150px; margin: 0 auto;">${getQRCodeSVG(paymentPayload)}</div>
+        <p>${formatMoney(invoiceData.grandTotal, companyData.currency)}</p>
     </div>
+    ` : ''}
 
     <div class="footer">
         <p><strong>Zahlungsinformationen:</strong><br>
         Bitte begleichen Sie den Rechnungsbetrag innerhalb von 14 Tagen.<br>
+        ${getBankDetailLines(invoiceData, companyData).map(line => `${line}<br>`).join('')}
         Vielen Dank für Ihren Besuch!</p>
         
         <p><strong>Steuerliche Angaben:</strong><br>
@@ -157,139 +952,167 @@ const generateInvoiceHTML = (invoiceData: InvoiceData, companyData: CompanyData)
 </html>`;
 };
 
-// Send invoice via email
-export const sendInvoiceEmail = async (
-  invoiceData: InvoiceData,
-  companyData: CompanyData,
-  accountantEmail: string,
-  ccEmail: string
-): Promise<void> => {
-  console.log('Sending invoice email to:', accountantEmail);
-  
-  // Generate PDF
+// Failed invoice e-mails are retried with exponential backoff (2, 4, 8, 16 minutes)
+const MAX_EMAIL_ATTEMPTS = 5;
+
+// E-mails still pending after this were interrupted (tab closed, network gone) and are retried too
+const PENDING_EMAIL_TIMEOUT_MINUTES = 10;
+
+interface InvoiceEmailPayload {
+  invoiceData: InvoiceData;
+  companyData: CompanyData;
+}
+
+const buildInvoiceEmail = async (record: InvoiceEmail): Promise<MailMessage> => {
+  const { invoiceData, companyData } = record.payload as InvoiceEmailPayload;
   const pdfBlob = await generateInvoicePDF(invoiceData, companyData);
-  
-  // In a real implementation, this would use a backend email service
-  // For now, we'll simulate the email sending
-  const emailData = {
-    to: accountantEmail,
-    cc: ccEmail,
-    subject: `Neue Rechnung ${invoiceData.invoiceNumber} - ${companyData.name}`,
-    body: `
-Sehr geehrte Damen und Herren,
+
+  return {
+    invoiceEmailId: record.id,
+    from: companyData.invoiceSenderEmail || companyData.email,
+    fromName: companyData.name,
+    to: record.recipient,
+    cc: record.cc || undefined,
+    subject: record.subject,
+    text: `Sehr geehrte Damen und Herren,
 
 anbei erhalten Sie die Rechnung ${invoiceData.invoiceNumber} vom ${invoiceData.date}.
 
 Rechnungsdetails:
 - Kunde: ${invoiceData.customerName}
-- Betrag: €${invoiceData.grandTotal.toFixed(2)}
-- Netto: €${(invoiceData.subtotal - invoiceData.totalVat).toFixed(2)}
-- MwSt (19%): €${invoiceData.totalVat.toFixed(2)}
+- Betrag: ${formatMoney(invoiceData.grandTotal, companyData.currency)}
+- Netto: ${formatMoney(invoiceData.subtotal - invoiceData.totalVat, companyData.currency)}
+${getVatSummary(invoiceData).map(entry => `- MwSt (${entry.rate}%): ${formatMoney(entry.vat, companyData.currency)}`).join('\n')}
 
 Die Rechnung wurde automatisch über das RestaurantOS-System generiert.
 
 Mit freundlichen Grüßen
 ${companyData.name}
-    `,
+`,
     attachments: [
       {
-        filename: `Rechnung-${invoiceData.invoiceNumber}.pdf`,
+        filename: `Rechnung-${getFileSafeNumber(invoiceData.invoiceNumber)}.pdf`,
+        contentType: 'application/pdf',
         content: pdfBlob
       }
     ]
   };
+};
 
-  // Simulate email sending delay
-  await new Promise(resolve => setTimeout(resolve, 2000));
-  
-  console.log('Invoice email sent successfully');
-  console.log('Email data:', emailData);
+// Send one queued invoice e-mail and record the result
+const deliverInvoiceEmail = async (record: InvoiceEmail): Promise<void> => {
+  const attempts = record.attempts + 1;
+
+  try {
+    await mailTransport.send(await buildInvoiceEmail(record));
+
+    const { error } = await supabase
+      .from('invoice_emails')
+      .update({
+        status: 'sent',
+        attempts,
+        last_error: null,
+        next_attempt_at: null,
+        sent_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', record.id);
+
+    if (error) console.error('Error updating invoice email status:', error);
+    console.log(`Invoice email ${record.invoice_number} sent via ${mailTransport.name}`);
+  } catch (error) {
+    console.error(`Error sending invoice email ${record.invoice_number}:`, error);
+
+    const { error: updateError } = await supabase
+      .from('invoice_emails')
+      .update({
+        status: 'failed',
+        attempts,
+        last_error: error instanceof Error ? error.message : String(error),
+        next_attempt_at: attempts < MAX_EMAIL_ATTEMPTS
+          ? new Date(Date.now() + 2 ** attempts * 60 * 1000).toISOString()
+          : null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', record.id);
+
+    if (updateError) console.error('Error updating invoice email status:', updateError);
+    throw error;
+  }
 };
 
-// Generate DATEV-compatible CSV export
-export const generateDATEVExport = async (invoices: InvoiceData[]): Promise<Blob> => {
-  console.log('Generating DATEV export for', invoices.length, 'invoices');
-  
-  // DATEV CSV format headers
-  const headers = [
-    'Umsatz (ohne Soll/Haben-Kz)',
-    'Soll/Haben-Kennzeichen',
-    'WKZ Umsatz',
-    'Kurs',
-    'Basis-Umsatz',
-    'WKZ Basis-Umsatz',
-    'Konto',
-    'Gegenkonto (ohne BU-Schlüssel)',
-    'BU-Schlüssel',
-    'Belegdatum',
-    'Belegfeld 1',
-    'Belegfeld 2',
-    'Skonto',
-    'Buchungstext'
-  ];
-
-  // Generate CSV rows
-  const rows = invoices.flatMap(invoice => {
-    const date = invoice.date.split('.').reverse().join(''); // Convert DD.MM.YYYY to YYYYMMDD
-    const netAmount = invoice.subtotal - invoice.totalVat;
-    
-    return [
-      // Revenue booking (net amount)
-      [
-        netAmount.toFixed(2).replace('.', ','),
-        'S', // Soll
-        'EUR',
-        '',
-        '',
-        '',
-        '8400', // Revenue account
-        '1400', // Customer account
-        '',
-        date,
-        invoice.invoiceNumber,
-        invoice.customerName,
-        '',
-        `Umsatz ${invoice.invoiceNumber}`
-      ],
-      // VAT booking
-      [
-        invoice.totalVat.toFixed(2).replace('.', ','),
-        'S', // Soll
-        'EUR',
-        '',
-        '',
-        '',
-        '1576', // VAT account
-        '1400', // Customer account
-        '',
-        date,
-        invoice.invoiceNumber,
-        invoice.customerName,
-        '',
-        `USt 19% ${invoice.invoiceNumber}`
-      ]
-    ];
-  });
+// Queue the invoice e-mail to the accountant and try to send it right away.
+// If sending fails the e-mail stays in the queue and is picked up by retryFailedInvoiceEmails.
+export const sendInvoiceEmail = async (
+  invoiceData: InvoiceData,
+  companyData: CompanyData,
+  options: { orderId?: string; createdBy?: string } = {}
+): Promise<void> => {
+  const recipient = companyData.accountantEmail?.trim();
+  if (!recipient) {
+    throw new Error('Keine E-Mail-Adresse für den Rechnungsversand hinterlegt');
+  }
 
-  // Create CSV content
-  const csvContent = [
-    headers.join(';'),
-    ...rows.map(row => row.join(';'))
-  ].join('\n');
+  console.log('Sending invoice email to:', recipient);
 
-  // Add BOM for proper Excel encoding
-  const bom = '\uFEFF';
-  const blob = new Blob([bom + csvContent], { 
-    type: 'text/csv;charset=utf-8' 
-  });
+  const { data: record, error } = await supabase
+    .from('invoice_emails')
+    .insert([{
+      order_id: options.orderId || null,
+      invoice_number: invoiceData.invoiceNumber,
+      recipient,
+      cc: companyData.invoiceCcEmail?.trim() || null,
+      subject: `Neue Rechnung ${invoiceData.invoiceNumber} - ${companyData.name}`,
+      payload: { invoiceData, companyData },
+      created_by: options.createdBy || null
+    }])
+    .select()
+    .single();
 
-  console.log('DATEV export generated successfully');
-  return blob;
+  if (error) throw error;
+
+  await deliverInvoiceEmail(record);
+};
+
+// Retry failed invoice e-mails that are due and pending ones whose sending was interrupted
+export const retryFailedInvoiceEmails = async (): Promise<{ sent: number; failed: number }> => {
+  const result = { sent: 0, failed: 0 };
+  const staleBefore = new Date(Date.now() - PENDING_EMAIL_TIMEOUT_MINUTES * 60 * 1000).toISOString();
+
+  const { data: dueEmails, error } = await supabase
+    .from('invoice_emails')
+    .select('id, status, updated_at')
+    .or(`status.eq.failed,and(status.eq.pending,updated_at.lt.${staleBefore})`)
+    .lt('attempts', MAX_EMAIL_ATTEMPTS)
+    .lte('next_attempt_at', new Date().toISOString())
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error loading failed invoice emails:', error);
+    return result;
+  }
+
+  for (const { id, status, updated_at } of dueEmails || []) {
+    // Claim the e-mail first so two open sessions don't send it twice
+    const { data: record } = await supabase
+      .from('invoice_emails')
+      .update({ status: 'pending', updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('status', status)
+      .eq('updated_at', updated_at)
+      .select()
+      .maybeSingle();
+
+    if (!record) continue;
+
+    try {
+      await deliverInvoiceEmail(record);
+      result.sent++;
+    } catch {
+      result.failed++;
+    }
+  }
+
+  return result;
 };
 
-// Generate QR code for payment (simplified)
-export const generatePaymentQRCode = (amount: number, reference: string): string => {
-  // In a real implementation, this would generate a proper payment QR code
-  // For now, return a placeholder
-  return `QR:EUR:${amount.toFixed(2)}:REF:${reference}`;
-};
\ No newline at end of file
@@ -0,0 +1,215 @@
+import { supabase, Order, OrderItem, MenuItem, Station } from './supabase';
+import { splitOrderItemsByStation } from './stations';
+import { isHeldItem } from './courses';
+
+export type KitchenTicketItem = OrderItem & { menu_item?: MenuItem };
+
+// The items of one order made at one station
+export interface KitchenTicket {
+  id: string;
+  order: Order;
+  station: Station | null;
+  status: 'pending' | 'preparing';
+  // When the first item of the ticket was sent to the station
+  firedAt: string;
+  items: KitchenTicketItem[];
+}
+
+export type TicketAgeLevel = 'fresh' | 'warning' | 'late';
+
+// Everything needed to put a bumped ticket back exactly as it was
+export interface BumpRecord {
+  ticketId: string;
+  orderNumber: string;
+  itemStatuses: { id: string; status: OrderItem['status'] }[];
+}
+
+export interface AllDayCount {
+  name: string;
+  quantity: number;
+  preparing: number;
+}
+
+// Used for items without a preparation time
+export const DEFAULT_PREPARATION_TIME = 15;
+
+// Tickets turn yellow at this share of their preparation time
+const WARNING_SHARE = 0.75;
+
+// Splits orders into station tickets, keeping the stations the screen shows. Held
+// courses stay off the tickets until the waiter fires them.
+export const toKitchenTickets = (
+  order: Order & { order_items?: KitchenTicketItem[] },
+  stations: Station[],
+  showStation: (station: Station | null) => boolean
+): KitchenTicket[] =>
+  splitOrderItemsByStation((order.order_items || []).filter(item => !isHeldItem(item)), stations)
+    .filter(group => showStation(group.station))
+    .map(group => ({
+      id: `${order.id}:${group.station?.id || ''}`,
+      order,
+      station: group.station,
+      status: group.items.every(item => item.status === 'pending') ? 'pending' : 'preparing',
+      firedAt: group.items
+        .map(item => item.fired_at || order.created_at)
+        .reduce((earliest, firedAt) => (firedAt < earliest ? firedAt : earliest)),
+      items: group.items
+    }));
+
+// The ticket is due when its slowest dish is
+export const getTicketTargetMinutes = (ticket: KitchenTicket): number =>
+  Math.max(...ticket.items.map(item => item.menu_item?.preparation_time || DEFAULT_PREPARATION_TIME));
+
+export const getTicketAgeLevel = (ageMinutes: number, targetMinutes: number): TicketAgeLevel => {
+  if (ageMinutes >= targetMinutes) return 'late';
+  if (ageMinutes >= targetMinutes * WARNING_SHARE) return 'warning';
+  return 'fresh';
+};
+
+export const formatTicketAge = (ageMs: number): string => {
+  const totalSeconds = Math.max(0, Math.floor(ageMs / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+};
+
+// Time left until a fired item is due, negative once it is late
+export const getItemRemainingMs = (item: KitchenTicketItem, now: number): number =>
+  new Date(item.fired_at || item.created_at || now).getTime()
+  + (item.menu_item?.preparation_time || DEFAULT_PREPARATION_TIME) * 60000
+  - now;
+
+export const formatCountdown = (remainingMs: number): string =>
+  `${remainingMs < 0 ? '-' : ''}${formatTicketAge(Math.abs(remainingMs))}`;
+
+// Dishes still to be made over all open tickets, most ordered first
+export const getAllDayCounts = (tickets: KitchenTicket[]): AllDayCount[] => {
+  const counts = new Map<string, AllDayCount>();
+
+  tickets.forEach(ticket => {
+    ticket.items
+      .filter(item => item.status !== 'ready')
+      .forEach(item => {
+        const name = item.menu_item?.name || 'Unbekannter Artikel';
+        const count = counts.get(name) || { name, quantity: 0, preparing: 0 };
+        count.quantity += item.quantity;
+        if (item.status === 'preparing') {
+          count.preparing += item.quantity;
+        }
+        counts.set(name, count);
+      });
+  });
+
+  return Array.from(counts.values()).sort((a, b) => b.quantity - a.quantity || a.name.localeCompare(b.name));
+};
+
+// Open tickets in order of arrival, a ticket is open until all its items are ready
+export const loadKitchenTickets = async (
+  stations: Station[],
+  showStation: (station: Station | null) => boolean
+): Promise<KitchenTicket[]> => {
+  const { data, error } = await supabase
+    .from('orders')
+    .select(`
+      *,
+      order_items (
+        *,
+        menu_item:menu_items (*)
+      )
+    `)
+    .in('status', ['pending', 'preparing'])
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+
+  return (data || [])
+    .flatMap(order => toKitchenTickets(order, stations, showStation))
+    .filter(ticket => ticket.items.some(item => item.status !== 'ready'));
+};
+
+// Last bumped tickets, newest first, for recalling them
+export const loadBumpedTickets = async (
+  stations: Station[],
+  showStation: (station: Station | null) => boolean,
+  limit = 5
+): Promise<KitchenTicket[]> => {
+  const { data, error } = await supabase
+    .from('order_items')
+    .select(`
+      *,
+      menu_item:menu_items (*),
+      order:orders (*)
+    `)
+    .not('bumped_at', 'is', null)
+    .order('bumped_at', { ascending: false })
+    .limit(limit * 10);
+
+  if (error) throw error;
+
+  const tickets = new Map<string, KitchenTicket>();
+  (data || []).forEach(({ order, ...item }) => {
+    // Served orders have left the kitchen, recalling them would not bring them back
+    if (!order || order.status === 'served' || order.status === 'completed') return;
+    toKitchenTickets({ ...order, order_items: [item] }, stations, showStation).forEach(ticket => {
+      const existing = tickets.get(ticket.id);
+      if (existing) {
+        existing.items.push(...ticket.items);
+      } else if (tickets.size < limit) {
+        tickets.set(ticket.id, ticket);
+      }
+    });
+  });
+
+  return Array.from(tickets.values());
+};
+
+const updateItems = async (itemIds: string[], changes: Pick<OrderItem, 'status' | 'bumped_at'>) => {
+  if (itemIds.length === 0) return;
+
+  const { error } = await supabase
+    .from('order_items')
+    .update(changes)
+    .in('id', itemIds);
+
+  if (error) throw error;
+};
+
+export const startTicket = async (ticket: KitchenTicket): Promise<void> => {
+  const { error } = await supabase
+    .from('order_items')
+    .update({ status: 'preparing' })
+    .in('id', ticket.items.map(item => item.id))
+    .eq('status', 'pending');
+
+  if (error) throw error;
+};
+
+// Marks the station's items as ready and takes the ticket off the screen. The order
+// becomes ready in the database once all stations are done.
+export const bumpTicket = async (ticket: KitchenTicket, orderNumber: string): Promise<BumpRecord> => {
+  const record: BumpRecord = {
+    ticketId: ticket.id,
+    orderNumber,
+    itemStatuses: ticket.items.map(item => ({ id: item.id, status: item.status }))
+  };
+
+  await updateItems(ticket.items.map(item => item.id), { status: 'ready', bumped_at: new Date().toISOString() });
+
+  return record;
+};
+
+// Puts a bumped ticket back the way it was before the bump
+export const undoBump = async (record: BumpRecord): Promise<void> => {
+  const statuses: OrderItem['status'][] = ['pending', 'preparing', 'ready'];
+  for (const status of statuses) {
+    await updateItems(
+      record.itemStatuses.filter(item => item.status === status).map(item => item.id),
+      { status, bumped_at: null }
+    );
+  }
+};
+
+// Brings a bumped ticket back to the screen, e.g. when a dish has to be redone
+export const recallTicket = async (ticket: KitchenTicket): Promise<void> => {
+  await updateItems(ticket.items.map(item => item.id), { status: 'preparing', bumped_at: null });
+};
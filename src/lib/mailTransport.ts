@@ -0,0 +1,187 @@
+import { supabase } from './supabase';
+
+export interface MailAttachment {
+  filename: string;
+  contentType: string;
+  content: Blob;
+}
+
+export interface MailMessage {
+  from: string;
+  fromName?: string;
+  to: string;
+  cc?: string;
+  replyTo?: string;
+  subject: string;
+  text: string;
+  attachments?: MailAttachment[];
+  // The queued `invoice_emails` record the message was built from
+  invoiceEmailId?: string;
+}
+
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+const blobToBase64 = async (blob: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  // Chunked, String.fromCharCode fails with too many arguments for larger PDFs
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const serializeMessage = async (message: MailMessage) => ({
+  ...message,
+  attachments: await Promise.all((message.attachments || []).map(async attachment => ({
+    filename: attachment.filename,
+    contentType: attachment.contentType,
+    content: await blobToBase64(attachment.content)
+  })))
+});
+
+// RFC 2047 encoded-word for headers with umlauts
+const encodeHeader = (value: string): string =>
+  /^[\x20-\x7E]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${btoa(String.fromCharCode(...new TextEncoder().encode(value)))}?=`;
+
+const wrapBase64 = (base64: string): string => base64.replace(/.{1,76}/g, '$&\r\n');
+
+// Build a multipart MIME message (.eml) from a mail message
+export const buildMimeMessage = async (message: MailMessage): Promise<string> => {
+  const boundary = `----=_RestaurantOS_${Date.now().toString(36)}`;
+  const serialized = await serializeMessage(message);
+  const from = message.fromName ? `${encodeHeader(message.fromName)} <${message.from}>` : message.from;
+
+  const headers = [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    ...(message.cc ? [`Cc: ${message.cc}`] : []),
+    ...(message.replyTo ? [`Reply-To: ${message.replyTo}`] : []),
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/mixed; boundary="${boundary}"`
+  ];
+
+  const parts = [
+    [
+      `--${boundary}`,
+      'Content-Type: text/plain; charset=UTF-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      wrapBase64(await blobToBase64(new Blob([message.text])))
+    ].join('\r\n'),
+    ...serialized.attachments.map(attachment => [
+      `--${boundary}`,
+      `Content-Type: ${attachment.contentType}; name="${attachment.filename}"`,
+      'Content-Transfer-Encoding: base64',
+      `Content-Disposition: attachment; filename="${attachment.filename}"`,
+      '',
+      wrapBase64(attachment.content)
+    ].join('\r\n'))
+  ];
+
+  return `${headers.join('\r\n')}\r\n\r\n${parts.join('\r\n')}\r\n--${boundary}--\r\n`;
+};
+
+// Sends through the `send-email` Edge Function, which delivers via SMTP.
+// Browsers can't open SMTP connections, so the SMTP credentials stay in the function secrets.
+// The function only sends queued invoice e-mails and builds recipient, subject and text itself,
+// only the record and the attachments are passed on.
+export class EdgeFunctionMailTransport implements MailTransport {
+  readonly name = 'edge-function';
+
+  constructor(private functionName = 'send-email') {}
+
+  async send(message: MailMessage): Promise<void> {
+    if (!message.invoiceEmailId) {
+      throw new Error('E-Mail-Versand fehlgeschlagen: nur Rechnungs-E-Mails können versendet werden');
+    }
+
+    const { attachments } = await serializeMessage(message);
+    const { data, error } = await supabase.functions.invoke(this.functionName, {
+      body: { invoiceEmailId: message.invoiceEmailId, attachments }
+    });
+
+    if (error) {
+      throw new Error(`E-Mail-Versand fehlgeschlagen: ${error.message}`);
+    }
+    if (data?.error) {
+      throw new Error(`E-Mail-Versand fehlgeschlagen: ${data.error}`);
+    }
+  }
+}
+
+// Local mail catcher for development and tests (Mailpit HTTP API, start Mailpit with --api-cors "*")
+export class MailcatcherMailTransport implements MailTransport {
+  readonly name = 'mailcatcher';
+
+  constructor(private apiUrl = 'http://localhost:8025/api/v1/send') {}
+
+  async send(message: MailMessage): Promise<void> {
+    const serialized = await serializeMessage(message);
+
+    const response = await fetch(this.apiUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        From: { Email: message.from, Name: message.fromName || '' },
+        To: [{ Email: message.to }],
+        Cc: message.cc ? [{ Email: message.cc }] : [],
+        ReplyTo: message.replyTo ? [{ Email: message.replyTo }] : [],
+        Subject: message.subject,
+        Text: message.text,
+        Attachments: serialized.attachments.map(attachment => ({
+          Filename: attachment.filename,
+          ContentType: attachment.contentType,
+          Content: attachment.content
+        }))
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Mailcatcher error: ${response.status} ${await response.text().catch(() => '')}`);
+    }
+  }
+}
+
+// Writes the message as .eml file instead of sending it
+export class FileMailTransport implements MailTransport {
+  readonly name = 'file';
+
+  async send(message: MailMessage): Promise<void> {
+    const eml = await buildMimeMessage(message);
+    const url = URL.createObjectURL(new Blob([eml], { type: 'message/rfc822' }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${message.subject.replace(/[^A-Za-z0-9_-]+/g, '-')}.eml`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  }
+}
+
+// Selected with VITE_MAIL_TRANSPORT (edge-function, mailcatcher or file)
+export const createMailTransport = (name: string = import.meta.env.VITE_MAIL_TRANSPORT || 'edge-function'): MailTransport => {
+  switch (name) {
+    case 'mailcatcher':
+      return new MailcatcherMailTransport(import.meta.env.VITE_MAILCATCHER_URL || undefined);
+    case 'file':
+      return new FileMailTransport();
+    case 'edge-function':
+      return new EdgeFunctionMailTransport();
+    default:
+      console.warn(`Unknown mail transport "${name}", using edge-function`);
+      return new EdgeFunctionMailTransport();
+  }
+};
+
+export const mailTransport = createMailTransport();
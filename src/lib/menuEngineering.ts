@@ -0,0 +1,170 @@
+import { MenuItem, Order } from './supabase';
+import { getNetPrice, getOrderItemCost, getRecipeCost } from './costing';
+
+export type MenuEngineeringClass = 'star' | 'plowhorse' | 'puzzle' | 'dog';
+
+export const MENU_ENGINEERING_CLASSES: {
+  value: MenuEngineeringClass;
+  label: string;
+  color: string;
+  fill: string;
+  action: string;
+}[] = [
+  { value: 'star', label: 'Star', color: 'bg-green-100 text-green-800', fill: '#16a34a', action: 'Keep recipe and price, give it the best spot on the menu' },
+  { value: 'plowhorse', label: 'Plowhorse', color: 'bg-blue-100 text-blue-800', fill: '#2563eb', action: 'Raise the price slightly or cut the portion cost' },
+  { value: 'puzzle', label: 'Puzzle', color: 'bg-yellow-100 text-yellow-800', fill: '#ca8a04', action: 'Promote it: rename, reposition or let staff recommend it' },
+  { value: 'dog', label: 'Dog', color: 'bg-red-100 text-red-800', fill: '#dc2626', action: 'Remove it or replace it with something new' }
+];
+
+// An item is popular with at least 70% of the share every item would get if all sold the same
+export const POPULARITY_FACTOR = 0.7;
+
+export const getMenuEngineeringClass = (value: MenuEngineeringClass) =>
+  MENU_ENGINEERING_CLASSES.find(menuEngineeringClass => menuEngineeringClass.value === value) || MENU_ENGINEERING_CLASSES[0];
+
+export interface MenuEngineeringItem {
+  menuItem: MenuItem;
+  sold: number;
+  // Share of all items sold, in percent
+  popularity: number;
+  // Net of VAT, per portion
+  averagePrice: number;
+  unitCost: number;
+  unitMargin: number;
+  totalMargin: number;
+  classification: MenuEngineeringClass;
+}
+
+export interface MenuEngineeringAnalysis {
+  items: MenuEngineeringItem[];
+  // Items without a recipe cost can't be placed on the profit axis
+  uncostedItems: MenuItem[];
+  totalSold: number;
+  popularityThreshold: number;
+  averageMargin: number;
+}
+
+// Classic popularity x profitability matrix over the given menu items. Analyse one category at
+// a time to compare like with like, drinks make a different margin than mains
+export const analyzeMenu = (menuItems: MenuItem[], orders: Order[]): MenuEngineeringAnalysis => {
+  const sales = new Map<string, { sold: number; revenue: number; costedSold: number; costedRevenue: number; cost: number }>();
+
+  orders.forEach(order => {
+    (order.order_items || []).forEach(orderItem => {
+      const entry = sales.get(orderItem.menu_item_id) || { sold: 0, revenue: 0, costedSold: 0, costedRevenue: 0, cost: 0 };
+      const revenue = getNetPrice(Number(orderItem.price) * orderItem.quantity, orderItem.vat_rate);
+      const cost = getOrderItemCost(orderItem);
+
+      entry.sold += orderItem.quantity;
+      entry.revenue += revenue;
+      if (cost !== null) {
+        entry.costedSold += orderItem.quantity;
+        entry.costedRevenue += revenue;
+        entry.cost += cost;
+      }
+
+      sales.set(orderItem.menu_item_id, entry);
+    });
+  });
+
+  const uncostedItems: MenuItem[] = [];
+  const placed: Omit<MenuEngineeringItem, 'popularity' | 'classification'>[] = [];
+
+  menuItems.forEach(menuItem => {
+    const entry = sales.get(menuItem.id);
+
+    // Sold items at what they really made, unsold ones at menu price and recipe cost
+    if (entry && entry.costedSold > 0) {
+      const averagePrice = entry.costedRevenue / entry.costedSold;
+      const unitCost = entry.cost / entry.costedSold;
+      placed.push({
+        menuItem,
+        sold: entry.sold,
+        averagePrice,
+        unitCost,
+        unitMargin: averagePrice - unitCost,
+        totalMargin: (averagePrice - unitCost) * entry.sold
+      });
+      return;
+    }
+
+    const recipeCost = getRecipeCost(menuItem);
+    if (recipeCost === null) {
+      uncostedItems.push(menuItem);
+      return;
+    }
+
+    const sold = entry?.sold || 0;
+    const averagePrice = sold > 0 ? entry!.revenue / sold : getNetPrice(Number(menuItem.price));
+    placed.push({
+      menuItem,
+      sold,
+      averagePrice,
+      unitCost: recipeCost,
+      unitMargin: averagePrice - recipeCost,
+      totalMargin: (averagePrice - recipeCost) * sold
+    });
+  });
+
+  const totalSold = placed.reduce((sum, item) => sum + item.sold, 0);
+  const popularityThreshold = placed.length > 0 ? POPULARITY_FACTOR * 100 / placed.length : 0;
+  // Weighted by what was sold, a plain average while nothing was
+  const averageMargin = totalSold > 0
+    ? placed.reduce((sum, item) => sum + item.totalMargin, 0) / totalSold
+    : placed.reduce((sum, item) => sum + item.unitMargin, 0) / (placed.length || 1);
+
+  const items = placed.map(item => {
+    const popularity = totalSold > 0 ? item.sold / totalSold * 100 : 0;
+    const isPopular = totalSold > 0 && popularity >= popularityThreshold;
+    const isProfitable = item.unitMargin >= averageMargin;
+    const classification: MenuEngineeringClass = isPopular
+      ? (isProfitable ? 'star' : 'plowhorse')
+      : (isProfitable ? 'puzzle' : 'dog');
+
+    return { ...item, popularity, classification };
+  }).sort((a, b) => b.totalMargin - a.totalMargin);
+
+  return { items, uncostedItems, totalSold, popularityThreshold, averageMargin };
+};
+
+export const generateMenuEngineeringCSV = (analysis: MenuEngineeringAnalysis): string => {
+  const quote = (value: string) => `"${value.replace(/"/g, '""')}"`;
+  const headers = ['Item', 'Category', 'Sold', 'Popularity %', 'Net Price', 'Unit Cost', 'Unit Margin', 'Total Margin', 'Class', 'Action'];
+
+  return [
+    headers.join(','),
+    ...analysis.items.map(item => {
+      const menuEngineeringClass = getMenuEngineeringClass(item.classification);
+      return [
+        quote(item.menuItem.name),
+        quote(item.menuItem.category || ''),
+        item.sold,
+        item.popularity.toFixed(1),
+        item.averagePrice.toFixed(2),
+        item.unitCost.toFixed(2),
+        item.unitMargin.toFixed(2),
+        item.totalMargin.toFixed(2),
+        menuEngineeringClass.label,
+        quote(menuEngineeringClass.action)
+      ].join(',');
+    }),
+    ...analysis.uncostedItems.map(menuItem => [
+      quote(menuItem.name),
+      quote(menuItem.category || ''),
+      '', '', '', '', '', '',
+      'Not rated',
+      quote('Add a recipe with ingredient costs')
+    ].join(','))
+  ].join('\n');
+};
+
+export const downloadMenuEngineeringCSV = (analysis: MenuEngineeringAnalysis, fileName: string) => {
+  const url = URL.createObjectURL(new Blob([generateMenuEngineeringCSV(analysis)], { type: 'text/csv' }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
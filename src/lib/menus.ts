@@ -0,0 +1,153 @@
+import { supabase, Menu, MenuItem } from './supabase';
+
+export const WEEKDAYS: { value: number; label: string }[] = [
+  { value: 1, label: 'Mo' },
+  { value: 2, label: 'Di' },
+  { value: 3, label: 'Mi' },
+  { value: 4, label: 'Do' },
+  { value: 5, label: 'Fr' },
+  { value: 6, label: 'Sa' },
+  { value: 7, label: 'So' }
+];
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// YYYY-MM-DD in the time zone of the device
+export const getLocalDate = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+const getLocalTime = (date: Date) => `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+
+// ISO weekday, 1 is Monday
+const getWeekday = (date: Date) => date.getDay() || 7;
+
+const formatDate = (value: string) => new Date(`${value}T00:00:00`).toLocaleDateString('de-DE');
+
+// Days, times and dates in the local time of the device. A window that ends before it starts
+// runs past midnight and belongs to the day it started on, Fr 22:00 - 02:00 is still on at
+// 01:00 on Saturday
+export const isMenuActive = (menu: Menu, at: Date = new Date()): boolean => {
+  if (!menu.is_active) return false;
+
+  const isOnDay = (date: Date) => {
+    const day = getLocalDate(date);
+    return menu.days_of_week.includes(getWeekday(date))
+      && (!menu.start_date || day >= menu.start_date)
+      && (!menu.end_date || day <= menu.end_date);
+  };
+
+  if (!menu.start_time || !menu.end_time) return isOnDay(at);
+
+  const time = getLocalTime(at);
+  const start = menu.start_time.slice(0, 5);
+  const end = menu.end_time.slice(0, 5);
+
+  if (start < end) return isOnDay(at) && time >= start && time < end;
+  if (time >= start) return isOnDay(at);
+  if (time < end) return isOnDay(new Date(at.getFullYear(), at.getMonth(), at.getDate() - 1));
+  return false;
+};
+
+// "Mo–Fr · 16:00–18:00 · 1.6.2025 – 31.8.2025"
+export const getMenuScheduleLabel = (menu: Menu): string => {
+  const days = WEEKDAYS.filter(day => menu.days_of_week.includes(day.value));
+  const isRange = days.length > 2 && days[days.length - 1].value - days[0].value === days.length - 1;
+  const parts = [
+    days.length === 7 ? 'Täglich'
+      : days.length === 0 ? 'Kein Tag'
+      : isRange ? `${days[0].label}–${days[days.length - 1].label}`
+      : days.map(day => day.label).join(', ')
+  ];
+
+  if (menu.start_time && menu.end_time) {
+    parts.push(`${menu.start_time.slice(0, 5)}–${menu.end_time.slice(0, 5)}`);
+  }
+  if (menu.start_date || menu.end_date) {
+    parts.push(`${menu.start_date ? formatDate(menu.start_date) : ''} – ${menu.end_date ? formatDate(menu.end_date) : ''}`.trim());
+  }
+
+  return parts.join(' · ');
+};
+
+// Items on no menu are offered all the time, items on menus only while one of them is
+// active, at the lowest price an active menu gives them
+export const applyMenuSchedule = <T extends MenuItem>(items: T[], menus: Menu[], at: Date = new Date()): T[] => {
+  const activeMenuIds = new Set(menus.filter(menu => isMenuActive(menu, at)).map(menu => menu.id));
+  const entries = menus.flatMap(menu => menu.menu_entries || []);
+
+  return items.flatMap(item => {
+    const itemEntries = entries.filter(entry => entry.menu_item_id === item.id);
+    if (itemEntries.length === 0) return [item];
+
+    const activeEntries = itemEntries.filter(entry => activeMenuIds.has(entry.menu_id));
+    if (activeEntries.length === 0) return [];
+
+    const price = Math.min(...activeEntries.map(entry => entry.price_override ?? item.price).map(Number));
+    return [price !== Number(item.price) ? { ...item, price, regular_price: Number(item.price) } : item];
+  });
+};
+
+export const loadMenus = async (): Promise<Menu[]> => {
+  const { data, error } = await supabase
+    .from('menus')
+    .select('*, menu_entries (*)')
+    .order('sort_order')
+    .order('name');
+
+  if (error) {
+    console.error('Error loading menus:', error);
+    return [];
+  }
+
+  return data || [];
+};
+
+// What can be ordered right now
+export const filterActiveMenuItems = async <T extends MenuItem>(items: T[]): Promise<T[]> =>
+  applyMenuSchedule(items, await loadMenus());
+
+export const saveMenu = async (menu: Partial<Menu> & Pick<Menu, 'name'>): Promise<Menu> => {
+  const values = {
+    name: menu.name.trim(),
+    description: menu.description?.trim() || null,
+    is_active: menu.is_active ?? true,
+    days_of_week: [...(menu.days_of_week ?? WEEKDAYS.map(day => day.value))].sort((a, b) => a - b),
+    start_time: menu.start_time || null,
+    end_time: menu.end_time || null,
+    start_date: menu.start_date || null,
+    end_date: menu.end_date || null,
+    sort_order: menu.sort_order ?? 0
+  };
+
+  const { data, error } = menu.id
+    ? await supabase.from('menus').update(values).eq('id', menu.id).select().single()
+    : await supabase.from('menus').insert(values).select().single();
+
+  if (error) throw error;
+  return data;
+};
+
+export const deleteMenu = async (menuId: string): Promise<void> => {
+  const { error } = await supabase.from('menus').delete().eq('id', menuId);
+  if (error) throw error;
+};
+
+export const setMenuEntry = async (menuId: string, menuItemId: string, priceOverride: number | null): Promise<void> => {
+  const { error } = await supabase
+    .from('menu_entries')
+    .upsert(
+      { menu_id: menuId, menu_item_id: menuItemId, price_override: priceOverride },
+      { onConflict: 'menu_id,menu_item_id' }
+    );
+
+  if (error) throw error;
+};
+
+export const removeMenuEntry = async (menuId: string, menuItemId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('menu_entries')
+    .delete()
+    .eq('menu_id', menuId)
+    .eq('menu_item_id', menuItemId);
+
+  if (error) throw error;
+};
@@ -0,0 +1,135 @@
+import { supabase, MenuItem, ModifierGroup, ModifierOption, OrderItemModifier } from './supabase';
+
+// For nested selects, e.g. `*, ${MODIFIER_SELECT}`
+export const MODIFIER_SELECT = 'modifier_groups (*, modifier_options (*))';
+
+const bySortOrder = (a: { sort_order: number; name: string }, b: { sort_order: number; name: string }) =>
+  a.sort_order - b.sort_order || a.name.localeCompare(b.name);
+
+// Groups and options in the order the manager set, groups without options can't be picked from
+export const getModifierGroups = (menuItem: MenuItem): ModifierGroup[] =>
+  [...(menuItem.modifier_groups || [])]
+    .filter(group => (group.modifier_options || []).length > 0)
+    .sort(bySortOrder)
+    .map(group => ({ ...group, modifier_options: [...(group.modifier_options || [])].sort(bySortOrder) }));
+
+// Picking in a single choice group replaces the option picked before, a full group takes no more
+export const toggleModifierOption = (group: ModifierGroup, option: ModifierOption, selectedIds: string[]): string[] => {
+  if (selectedIds.includes(option.id)) return selectedIds.filter(id => id !== option.id);
+
+  const groupOptionIds = (group.modifier_options || []).map(groupOption => groupOption.id);
+  if (group.max_select === 1) return [...selectedIds.filter(id => !groupOptionIds.includes(id)), option.id];
+
+  const pickedInGroup = selectedIds.filter(id => groupOptionIds.includes(id)).length;
+  if (group.max_select !== null && pickedInGroup >= group.max_select) return selectedIds;
+  return [...selectedIds, option.id];
+};
+
+// Groups with fewer or more options picked than they allow
+export const getInvalidModifierGroups = (menuItem: MenuItem, selectedIds: string[]): ModifierGroup[] =>
+  getModifierGroups(menuItem).filter(group => {
+    const picked = (group.modifier_options || []).filter(option => selectedIds.includes(option.id)).length;
+    return picked < group.min_select || (group.max_select !== null && picked > group.max_select);
+  });
+
+// What goes on the order item, in menu order
+export const buildOrderItemModifiers = (menuItem: MenuItem, selectedIds: string[]): OrderItemModifier[] =>
+  getModifierGroups(menuItem).flatMap(group =>
+    (group.modifier_options || [])
+      .filter(option => selectedIds.includes(option.id))
+      .map(option => ({
+        option_id: option.id,
+        group: group.name,
+        option: option.name,
+        price_delta: Number(option.price_delta)
+      }))
+  );
+
+export const getModifiersPrice = (modifiers: OrderItemModifier[] = []): number =>
+  modifiers.reduce((sum, modifier) => sum + Number(modifier.price_delta), 0);
+
+// Lines with the same item and the same options are merged
+export const isSameModifiers = (a: OrderItemModifier[] = [], b: OrderItemModifier[] = []): boolean => {
+  const key = (modifiers: OrderItemModifier[]) =>
+    modifiers.map(modifier => `${modifier.group}\u0000${modifier.option}`).sort().join('\u0001');
+  return key(a) === key(b);
+};
+
+// The picked options by group, in the order they were picked
+export const groupModifiers = (modifiers: OrderItemModifier[] = []): { group: string; options: string[] }[] => {
+  const groups = new Map<string, string[]>();
+  modifiers.forEach(modifier => {
+    groups.set(modifier.group, [...(groups.get(modifier.group) || []), modifier.option]);
+  });
+  return Array.from(groups.entries()).map(([group, options]) => ({ group, options }));
+};
+
+// One line per group, for tickets and invoices: "Extras: Käse, Bacon"
+export const getModifierLines = (modifiers: OrderItemModifier[] = []): string[] =>
+  groupModifiers(modifiers).map(({ group, options }) => `${group}: ${options.join(', ')}`);
+
+export const loadModifierGroups = async (menuItemId: string): Promise<ModifierGroup[]> => {
+  const { data, error } = await supabase
+    .from('modifier_groups')
+    .select('*, modifier_options (*)')
+    .eq('menu_item_id', menuItemId)
+    .order('sort_order')
+    .order('name');
+
+  if (error) {
+    console.error('Error loading modifier groups:', error);
+    return [];
+  }
+
+  return (data || []).map(group => ({
+    ...group,
+    modifier_options: [...(group.modifier_options || [])].sort(bySortOrder)
+  }));
+};
+
+export const saveModifierGroup = async (
+  group: Partial<ModifierGroup> & Pick<ModifierGroup, 'menu_item_id' | 'name'>
+): Promise<ModifierGroup> => {
+  const values = {
+    menu_item_id: group.menu_item_id,
+    name: group.name.trim(),
+    min_select: group.min_select ?? 0,
+    max_select: group.max_select ?? null,
+    sort_order: group.sort_order ?? 0
+  };
+
+  const { data, error } = group.id
+    ? await supabase.from('modifier_groups').update(values).eq('id', group.id).select().single()
+    : await supabase.from('modifier_groups').insert(values).select().single();
+
+  if (error) throw error;
+  return data;
+};
+
+export const deleteModifierGroup = async (groupId: string): Promise<void> => {
+  const { error } = await supabase.from('modifier_groups').delete().eq('id', groupId);
+  if (error) throw error;
+};
+
+export const saveModifierOption = async (
+  option: Partial<ModifierOption> & Pick<ModifierOption, 'group_id' | 'name'>
+): Promise<ModifierOption> => {
+  const values = {
+    group_id: option.group_id,
+    name: option.name.trim(),
+    price_delta: option.price_delta ?? 0,
+    sort_order: option.sort_order ?? 0
+  };
+
+  const { data, error } = option.id
+    ? await supabase.from('modifier_options').update(values).eq('id', option.id).select().single()
+    : await supabase.from('modifier_options').insert(values).select().single();
+
+  if (error) throw error;
+  return data;
+};
+
+export const deleteModifierOption = async (optionId: string): Promise<void> => {
+  const { error } = await supabase.from('modifier_options').delete().eq('id', optionId);
+  if (error) throw error;
+};
@@ -0,0 +1,58 @@
+import { supabase, Order, NumberSequence } from './supabase';
+
+export const DEFAULT_ORDER_NUMBER_FORMAT = '{YYYY}/{NNNNN}';
+
+// The number is assigned by the database when the order is created, orders from
+// before the numbering existed fall back to the start of their id
+export const getOrderNumber = (order: Pick<Order, 'id' | 'order_number'>): string =>
+  order.order_number || order.id.slice(0, 8);
+
+// Formats like {YYYY}/{NNNNN} contain characters that are not allowed in file names
+export const getFileSafeNumber = (number: string): string => number.replace(/[^A-Za-z0-9_-]+/g, '-');
+
+// Same placeholders as format_sequence_number() in the database, used for the preview
+export const formatOrderNumber = (format: string, sequenceValue: number, date: Date = new Date()): string => {
+  const year = date.getFullYear().toString();
+  const result = format
+    .replace(/\{YYYY\}/g, year)
+    .replace(/\{YY\}/g, year.slice(-2))
+    .replace(/\{MM\}/g, String(date.getMonth() + 1).padStart(2, '0'))
+    .replace(/\{DD\}/g, String(date.getDate()).padStart(2, '0'));
+
+  return result.replace(/\{(N+)\}/, (_, digits: string) => String(sequenceValue).padStart(digits.length, '0'));
+};
+
+// Returns the translation key of the error for formats the database would reject
+export const validateOrderNumberFormat = (format: string, resetYearly: boolean): string | null => {
+  if (!/\{N+\}/.test(format)) {
+    return 'orderNumber.counterRequired';
+  }
+  if (resetYearly && !/\{YY(YY)?\}/.test(format)) {
+    return 'orderNumber.yearRequired';
+  }
+  return null;
+};
+
+export const loadOrderNumberSequence = async (): Promise<NumberSequence | null> => {
+  const { data, error } = await supabase
+    .from('number_sequences')
+    .select('*')
+    .eq('name', 'order')
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading order number sequence:', error);
+    return null;
+  }
+
+  return data;
+};
+
+export const saveOrderNumberFormat = async (format: string, resetYearly: boolean): Promise<void> => {
+  const { error } = await supabase
+    .from('number_sequences')
+    .update({ format, reset_yearly: resetYearly, updated_at: new Date().toISOString() })
+    .eq('name', 'order');
+
+  if (error) throw error;
+};
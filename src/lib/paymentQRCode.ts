@@ -0,0 +1,96 @@
+// GiroCode / EPC QR codes (EPC069-12) for SEPA credit transfers
+import QRCode from 'qrcode';
+
+export interface EPCPaymentData {
+  name: string;
+  iban: string;
+  bic?: string;
+  amount: number;
+  remittance: string;
+}
+
+export const normalizeIBAN = (iban: string): string => iban.replace(/\s+/g, '').toUpperCase();
+
+// Check digits according to ISO 13616 (mod 97)
+export const isValidIBAN = (iban: string): boolean => {
+  const normalized = normalizeIBAN(iban);
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(normalized)) return false;
+
+  const rearranged = normalized.slice(4) + normalized.slice(0, 4);
+  const digits = rearranged.replace(/[A-Z]/g, letter => String(letter.charCodeAt(0) - 55));
+
+  let remainder = 0;
+  for (const digit of digits) {
+    remainder = (remainder * 10 + Number(digit)) % 97;
+  }
+  return remainder === 1;
+};
+
+export const isValidBIC = (bic: string): boolean => /^[A-Z]{6}[A-Z0-9]{2}([A-Z0-9]{3})?$/.test(bic.replace(/\s+/g, '').toUpperCase());
+
+// IBAN in groups of four for display
+export const formatIBAN = (iban: string): string => normalizeIBAN(iban).replace(/(.{4})/g, '$1 ').trim();
+
+// Payload of an EPC QR code, version 002 (BIC optional), UTF-8
+export const generateEPCPayload = (payment: EPCPaymentData): string => {
+  const iban = normalizeIBAN(payment.iban);
+  if (!isValidIBAN(iban)) {
+    throw new Error('Ungültige IBAN');
+  }
+
+  const bic = payment.bic?.replace(/\s+/g, '').toUpperCase() || '';
+  if (bic && !isValidBIC(bic)) {
+    throw new Error('Ungültige BIC');
+  }
+
+  if (!payment.name.trim()) {
+    throw new Error('Kontoinhaber fehlt');
+  }
+
+  const amount = Math.round(payment.amount * 100) / 100;
+  if (amount < 0.01 || amount > 999999999.99) {
+    throw new Error('Betrag muss zwischen 0,01 und 999.999.999,99 EUR liegen');
+  }
+
+  const lines = [
+    'BCD',
+    '002',
+    '1', // UTF-8
+    'SCT',
+    bic,
+    payment.name.trim().slice(0, 70),
+    iban,
+    `EUR${amount.toFixed(2)}`,
+    '', // purpose
+    '', // structured reference (creditor reference)
+    payment.remittance.trim().slice(0, 140),
+    '' // beneficiary to originator information
+  ];
+
+  // No line break after the last populated element
+  while (lines[lines.length - 1] === '') lines.pop();
+  return lines.join('\n');
+};
+
+// QR code modules (true = dark), error correction level M as required by EPC069-12
+export const getQRCodeModules = (payload: string): boolean[][] => {
+  const { modules } = QRCode.create(payload, { errorCorrectionLevel: 'M' });
+  return Array.from({ length: modules.size }, (_, row) =>
+    Array.from({ length: modules.size }, (_, col) => Boolean(modules.get(row, col)))
+  );
+};
+
+// Self-contained SVG, usable in the invoice HTML and as image source
+export const getQRCodeSVG = (payload: string, quietZone = 4): string => {
+  const modules = getQRCodeModules(payload);
+  const size = modules.length + quietZone * 2;
+  const path = modules
+    .flatMap((row, y) => row.map((dark, x) => dark ? `M${x + quietZone} ${y + quietZone}h1v1h-1z` : ''))
+    .join('');
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${size} ${size}" shape-rendering="crispEdges">`
+    + `<rect width="${size}" height="${size}" fill="#fff"/><path d="${path}" fill="#000"/></svg>`;
+};
+
+export const getQRCodeDataURL = (payload: string): string =>
+  `data:image/svg+xml;charset=utf-8,${encodeURIComponent(getQRCodeSVG(payload))}`;
@@ -0,0 +1,379 @@
+import { PDFDocument, PDFFont, StandardFonts, rgb } from 'pdf-lib';
+import { supabase, Supplier, SupplierItem, PurchaseOrder, PurchaseOrderItem } from './supabase';
+import { CompanyData, loadCompanyData } from './companySettings';
+import { formatMoney } from './invoiceSystem';
+import { getFileSafeNumber } from './orderNumbers';
+
+export const PURCHASE_ORDER_STATUSES: { value: PurchaseOrder['status']; label: string; color: string }[] = [
+  { value: 'draft', label: 'Draft', color: 'bg-gray-100 text-gray-800' },
+  { value: 'sent', label: 'Sent', color: 'bg-blue-100 text-blue-800' },
+  { value: 'partially_received', label: 'Partially received', color: 'bg-yellow-100 text-yellow-800' },
+  { value: 'received', label: 'Received', color: 'bg-green-100 text-green-800' },
+  { value: 'cancelled', label: 'Cancelled', color: 'bg-red-100 text-red-800' }
+];
+
+// Orders that still expect goods
+export const OPEN_PURCHASE_ORDER_STATUSES: PurchaseOrder['status'][] = ['draft', 'sent', 'partially_received'];
+
+export const getPurchaseOrderStatus = (status: PurchaseOrder['status']) =>
+  PURCHASE_ORDER_STATUSES.find(purchaseOrderStatus => purchaseOrderStatus.value === status) || PURCHASE_ORDER_STATUSES[0];
+
+export const getPurchaseOrderTotal = (purchaseOrder: PurchaseOrder): number =>
+  (purchaseOrder.purchase_order_items || []).reduce((sum, item) => sum + item.packs_ordered * item.pack_price, 0);
+
+// Orders below the supplier's minimum are usually charged extra or refused
+export const isBelowMinimumOrder = (purchaseOrder: PurchaseOrder): boolean =>
+  !!purchaseOrder.supplier && getPurchaseOrderTotal(purchaseOrder) < purchaseOrder.supplier.minimum_order;
+
+export const getPurchaseOrderLabel = (purchaseOrder: Pick<PurchaseOrder, 'id' | 'po_number'>): string =>
+  purchaseOrder.po_number || purchaseOrder.id.slice(0, 8);
+
+// Suppliers
+
+export const loadSuppliers = async (): Promise<Supplier[]> => {
+  const { data, error } = await supabase
+    .from('suppliers')
+    .select('*')
+    .order('name');
+
+  if (error) {
+    console.error('Error loading suppliers:', error);
+    return [];
+  }
+
+  return data || [];
+};
+
+export const saveSupplier = async (supplier: Partial<Supplier> & Pick<Supplier, 'name'>): Promise<Supplier> => {
+  const { id, ...values } = supplier;
+  const query = id
+    ? supabase.from('suppliers').update(values).eq('id', id)
+    : supabase.from('suppliers').insert(values);
+
+  const { data, error } = await query.select().single();
+
+  if (error) throw error;
+  return data;
+};
+
+// Suppliers with purchase orders can't be deleted, the orders keep their history
+export const deleteSupplier = async (id: string): Promise<void> => {
+  const { error } = await supabase
+    .from('suppliers')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+export const loadSupplierItems = async (supplierId: string): Promise<SupplierItem[]> => {
+  const { data, error } = await supabase
+    .from('supplier_items')
+    .select('*, inventory_item:inventory_items (*)')
+    .eq('supplier_id', supplierId)
+    .order('created_at');
+
+  if (error) {
+    console.error('Error loading supplier items:', error);
+    return [];
+  }
+
+  return data || [];
+};
+
+export const saveSupplierItem = async (
+  item: Partial<SupplierItem> & Pick<SupplierItem, 'supplier_id' | 'inventory_item_id' | 'pack_size' | 'pack_price'>
+): Promise<void> => {
+  const values = {
+    supplier_id: item.supplier_id,
+    inventory_item_id: item.inventory_item_id,
+    supplier_sku: item.supplier_sku || null,
+    pack_size: item.pack_size,
+    pack_price: item.pack_price,
+    is_preferred: !!item.is_preferred
+  };
+
+  // Only one preferred supplier per item
+  if (values.is_preferred) {
+    const { error: preferredError } = await supabase
+      .from('supplier_items')
+      .update({ is_preferred: false })
+      .eq('inventory_item_id', values.inventory_item_id)
+      .neq('supplier_id', values.supplier_id);
+
+    if (preferredError) throw preferredError;
+  }
+
+  const { error } = item.id
+    ? await supabase.from('supplier_items').update(values).eq('id', item.id)
+    : await supabase.from('supplier_items').insert(values);
+
+  if (error) throw error;
+};
+
+export const deleteSupplierItem = async (id: string): Promise<void> => {
+  const { error } = await supabase
+    .from('supplier_items')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+// Purchase orders
+
+export const loadPurchaseOrders = async (): Promise<PurchaseOrder[]> => {
+  const { data, error } = await supabase
+    .from('purchase_orders')
+    .select('*, supplier:suppliers (*), purchase_order_items (*)')
+    .order('created_at', { ascending: false })
+    .limit(100);
+
+  if (error) {
+    console.error('Error loading purchase orders:', error);
+    return [];
+  }
+
+  return (data || []).map(purchaseOrder => ({
+    ...purchaseOrder,
+    purchase_order_items: [...(purchaseOrder.purchase_order_items || [])]
+      .sort((a: PurchaseOrderItem, b: PurchaseOrderItem) => a.item_name.localeCompare(b.item_name))
+  }));
+};
+
+// Adds everything at or below its threshold to the drafts of its supplier and returns
+// how many lines were added
+export const createDraftPurchaseOrders = async (): Promise<number> => {
+  const { data, error } = await supabase.rpc('create_draft_purchase_orders');
+
+  if (error) throw error;
+  return data || 0;
+};
+
+export const updatePurchaseOrderItem = async (
+  id: string,
+  changes: Partial<Pick<PurchaseOrderItem, 'packs_ordered' | 'pack_price'>>
+): Promise<void> => {
+  const { error } = await supabase
+    .from('purchase_order_items')
+    .update(changes)
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+export const deletePurchaseOrderItem = async (id: string): Promise<void> => {
+  const { error } = await supabase
+    .from('purchase_order_items')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+// Sending fixes the expected delivery date from the supplier's lead time
+export const markPurchaseOrderSent = async (purchaseOrder: PurchaseOrder): Promise<void> => {
+  const expected = new Date();
+  expected.setDate(expected.getDate() + (purchaseOrder.supplier?.lead_time_days || 0));
+
+  const { error } = await supabase
+    .from('purchase_orders')
+    .update({
+      status: 'sent',
+      sent_at: new Date().toISOString(),
+      expected_at: expected.toISOString().split('T')[0]
+    })
+    .eq('id', purchaseOrder.id)
+    .eq('status', 'draft');
+
+  if (error) throw error;
+};
+
+export const cancelPurchaseOrder = async (id: string): Promise<void> => {
+  const { error } = await supabase
+    .from('purchase_orders')
+    .update({ status: 'cancelled' })
+    .eq('id', id)
+    .in('status', ['draft', 'sent']);
+
+  if (error) throw error;
+};
+
+// Books the received packs per line as inventory receipts. closeOrder finishes an order
+// that arrived short
+export const receivePurchaseOrder = async (
+  purchaseOrderId: string,
+  received: { id: string; packs: number }[],
+  closeOrder = false
+): Promise<void> => {
+  const { error } = await supabase.rpc('receive_purchase_order', {
+    target_purchase_order_id: purchaseOrderId,
+    received,
+    close_order: closeOrder
+  });
+
+  if (error) throw error;
+};
+
+// Export
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+const getFileName = (purchaseOrder: PurchaseOrder, extension: string) =>
+  `${getFileSafeNumber(getPurchaseOrderLabel(purchaseOrder))}.${extension}`;
+
+export const generatePurchaseOrderCSV = (purchaseOrder: PurchaseOrder): string => {
+  const quote = (value: string) => `"${value.replace(/"/g, '""')}"`;
+  const headers = ['Article No.', 'Item', 'Pack Size', 'Unit', 'Packs', 'Pack Price', 'Total'];
+
+  return [
+    headers.join(','),
+    ...(purchaseOrder.purchase_order_items || []).map(item => [
+      quote(item.supplier_sku || ''),
+      quote(item.item_name),
+      item.pack_size,
+      quote(item.unit),
+      item.packs_ordered,
+      item.pack_price.toFixed(2),
+      (item.packs_ordered * item.pack_price).toFixed(2)
+    ].join(','))
+  ].join('\n');
+};
+
+export const downloadPurchaseOrderCSV = (purchaseOrder: PurchaseOrder) => {
+  downloadBlob(new Blob([generatePurchaseOrderCSV(purchaseOrder)], { type: 'text/csv' }), getFileName(purchaseOrder, 'csv'));
+};
+
+const PAGE_WIDTH = 595.28; // A4 in pt
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 50;
+const TEXT_COLOR = rgb(0.2, 0.2, 0.2);
+const MUTED_COLOR = rgb(0.4, 0.4, 0.4);
+const HEADER_FILL = rgb(0.96, 0.96, 0.96);
+
+const PDF_COLUMNS: { title: string; x: number; width: number; align?: 'right' }[] = [
+  { title: 'Article No.', x: MARGIN, width: 80 },
+  { title: 'Item', x: MARGIN + 80, width: 195 },
+  { title: 'Pack', x: MARGIN + 275, width: 70 },
+  { title: 'Packs', x: MARGIN + 345, width: 40, align: 'right' },
+  { title: 'Price', x: MARGIN + 385, width: 55, align: 'right' },
+  { title: 'Total', x: MARGIN + 440, width: 55, align: 'right' }
+];
+
+export const generatePurchaseOrderPDF = async (purchaseOrder: PurchaseOrder, companyData: CompanyData): Promise<Blob> => {
+  const pdfDoc = await PDFDocument.create();
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  const boldFont = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+  const label = getPurchaseOrderLabel(purchaseOrder);
+  const supplier = purchaseOrder.supplier;
+
+  pdfDoc.setTitle(`Purchase Order ${label}`);
+  pdfDoc.setAuthor(companyData.name);
+  pdfDoc.setCreator('RestaurantOS');
+
+  // The standard fonts only cover WinAnsi, replace anything else so drawing never throws
+  const supportedChars = new Set(font.getCharacterSet());
+  const clean = (text: string) =>
+    Array.from(text.replace(/\s+/g, ' ')).map(char => supportedChars.has(char.codePointAt(0) || 0) ? char : '?').join('');
+
+  const money = (value: number) => formatMoney(value, companyData.currency);
+
+  let page = pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const drawText = (text: string, x: number, size: number, options: { font?: PDFFont; muted?: boolean; align?: 'right'; width?: number } = {}) => {
+    const textFont = options.font || font;
+    const value = clean(text);
+    const textX = options.align === 'right' && options.width !== undefined
+      ? x + options.width - textFont.widthOfTextAtSize(value, size)
+      : x;
+    page.drawText(value, { x: textX, y, size, font: textFont, color: options.muted ? MUTED_COLOR : TEXT_COLOR });
+  };
+
+  const drawTableHeader = () => {
+    page.drawRectangle({ x: MARGIN, y: y - 6, width: PAGE_WIDTH - 2 * MARGIN, height: 20, color: HEADER_FILL });
+    PDF_COLUMNS.forEach(column => drawText(column.title, column.x + 4, 9, { font: boldFont, align: column.align, width: column.width - 8 }));
+    y -= 22;
+  };
+
+  // Sender and supplier
+  drawText(companyData.name, MARGIN, 16, { font: boldFont });
+  y -= 16;
+  [companyData.address, companyData.city, companyData.phone, companyData.email].filter(Boolean).forEach(line => {
+    drawText(line, MARGIN, 9, { muted: true });
+    y -= 12;
+  });
+
+  y -= 20;
+  drawText(`Purchase Order ${label}`, MARGIN, 18, { font: boldFont });
+  y -= 24;
+
+  const details = [
+    ['Supplier', supplier?.name || ''],
+    ['Contact', [supplier?.contact_name, supplier?.email, supplier?.phone].filter(Boolean).join(', ')],
+    ['Order date', new Date(purchaseOrder.sent_at || purchaseOrder.created_at).toLocaleDateString('de-DE')],
+    ['Requested delivery', purchaseOrder.expected_at ? new Date(purchaseOrder.expected_at).toLocaleDateString('de-DE') : '']
+  ].filter(([, value]) => value);
+
+  details.forEach(([title, value]) => {
+    drawText(`${title}:`, MARGIN, 10, { font: boldFont });
+    drawText(value, MARGIN + 110, 10);
+    y -= 14;
+  });
+
+  y -= 16;
+  drawTableHeader();
+
+  (purchaseOrder.purchase_order_items || []).forEach(item => {
+    if (y < MARGIN + 60) {
+      page = pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      y = PAGE_HEIGHT - MARGIN;
+      drawTableHeader();
+    }
+
+    const cells = [
+      item.supplier_sku || '',
+      item.item_name,
+      `${item.pack_size} ${item.unit}`,
+      String(item.packs_ordered),
+      money(item.pack_price),
+      money(item.packs_ordered * item.pack_price)
+    ];
+    PDF_COLUMNS.forEach((column, index) => {
+      let value = clean(cells[index]);
+      while (value.length > 1 && font.widthOfTextAtSize(value, 9) > column.width - 8) {
+        value = value.slice(0, -1);
+      }
+      drawText(value, column.x + 4, 9, { align: column.align, width: column.width - 8 });
+    });
+    y -= 16;
+  });
+
+  y -= 8;
+  page.drawLine({ start: { x: MARGIN, y: y + 10 }, end: { x: PAGE_WIDTH - MARGIN, y: y + 10 }, thickness: 1, color: HEADER_FILL });
+  drawText('Total (net)', PDF_COLUMNS[4].x + 4, 10, { font: boldFont });
+  drawText(money(getPurchaseOrderTotal(purchaseOrder)), PDF_COLUMNS[5].x + 4, 10, { font: boldFont, align: 'right', width: PDF_COLUMNS[5].width - 8 });
+
+  if (purchaseOrder.notes) {
+    y -= 30;
+    drawText(purchaseOrder.notes, MARGIN, 9, { muted: true });
+  }
+
+  const pdfBytes = await pdfDoc.save();
+  return new Blob([pdfBytes], { type: 'application/pdf' });
+};
+
+export const downloadPurchaseOrderPDF = async (purchaseOrder: PurchaseOrder) => {
+  const companyData = await loadCompanyData();
+  const blob = await generatePurchaseOrderPDF(purchaseOrder, companyData);
+  downloadBlob(blob, getFileName(purchaseOrder, 'pdf'));
+};
@@ -0,0 +1,115 @@
+import { supabase, InventoryItem, MenuItem, RecipeItem, RecipeUnit } from './supabase';
+
+type UnitDimension = 'volume' | 'mass' | 'count';
+
+export const RECIPE_UNITS: { value: RecipeUnit; label: string }[] = [
+  { value: 'ml', label: 'ml' },
+  { value: 'cl', label: 'cl' },
+  { value: 'l', label: 'l' },
+  { value: 'g', label: 'g' },
+  { value: 'kg', label: 'kg' },
+  { value: 'pcs', label: 'Stück' }
+];
+
+// For nested selects, e.g. `menu_item:menu_items (*, ${RECIPE_SELECT})`
+export const RECIPE_SELECT = 'recipe_items (*, inventory_item:inventory_items (*))';
+
+const UNIT_ALIASES: Record<string, RecipeUnit> = {
+  ml: 'ml', milliliter: 'ml', milliliters: 'ml', millilitre: 'ml', millilitres: 'ml',
+  cl: 'cl', centiliter: 'cl', centiliters: 'cl', centilitre: 'cl', centilitres: 'cl',
+  l: 'l', liter: 'l', liters: 'l', litre: 'l', litres: 'l',
+  g: 'g', gram: 'g', grams: 'g', gramm: 'g',
+  kg: 'kg', kilo: 'kg', kilogram: 'kg', kilograms: 'kg', kilogramm: 'kg',
+  pcs: 'pcs', pc: 'pcs', piece: 'pcs', pieces: 'pcs', 'stück': 'pcs', stk: 'pcs'
+};
+
+const UNIT_DIMENSIONS: Record<RecipeUnit, UnitDimension> = {
+  ml: 'volume', cl: 'volume', l: 'volume', g: 'mass', kg: 'mass', pcs: 'count'
+};
+
+// How many ml, g or pieces one unit holds
+const UNIT_BASE_FACTORS: Record<RecipeUnit, number> = {
+  ml: 1, cl: 10, l: 1000, g: 1, kg: 1000, pcs: 1
+};
+
+// Same rules as normalize_unit in the database
+export const normalizeUnit = (unit?: string | null): RecipeUnit | null =>
+  UNIT_ALIASES[(unit || '').trim().toLowerCase()] || null;
+
+// Same rules as stock_quantity in the database: the amount in the unit the inventory
+// item is counted in, null when the units can't be converted
+export const toStockQuantity = (amount: number, unit: RecipeUnit, item: InventoryItem): number | null => {
+  const stockUnit = normalizeUnit(item.unit);
+  if (stockUnit && UNIT_DIMENSIONS[stockUnit] === UNIT_DIMENSIONS[unit]) {
+    return amount * UNIT_BASE_FACTORS[unit] / UNIT_BASE_FACTORS[stockUnit];
+  }
+
+  const contentUnit = normalizeUnit(item.content_unit);
+  if (item.content_amount && contentUnit && UNIT_DIMENSIONS[contentUnit] === UNIT_DIMENSIONS[unit]) {
+    return amount * UNIT_BASE_FACTORS[unit] / (item.content_amount * UNIT_BASE_FACTORS[contentUnit]);
+  }
+
+  if (unit === 'pcs' && !stockUnit) {
+    return amount;
+  }
+
+  return null;
+};
+
+// Stock one portion takes of the ingredient
+export const getPortionStockQuantity = (recipeItem: RecipeItem, recipeYield = 1): number | null => {
+  if (!recipeItem.inventory_item) return null;
+  const quantity = toStockQuantity(recipeItem.quantity, recipeItem.unit, recipeItem.inventory_item);
+  return quantity === null ? null : quantity / recipeYield;
+};
+
+// Critical ingredients that don't last for one more portion, like the availability trigger
+export const getMissingIngredients = (menuItem: MenuItem): string[] =>
+  (menuItem.recipe_items || [])
+    .filter(recipeItem => {
+      const item = recipeItem.inventory_item;
+      if (!item || !item.is_critical) return false;
+      const needed = getPortionStockQuantity(recipeItem, menuItem.recipe_yield);
+      return item.quantity <= 0 || (needed !== null && item.quantity < needed);
+    })
+    .map(recipeItem => recipeItem.inventory_item?.name || '');
+
+export const loadRecipe = async (menuItemId: string): Promise<RecipeItem[]> => {
+  const { data, error } = await supabase
+    .from('recipe_items')
+    .select('*, inventory_item:inventory_items (*)')
+    .eq('menu_item_id', menuItemId)
+    .order('created_at');
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Replaces the recipe of a menu item
+export const saveRecipe = async (
+  menuItemId: string,
+  recipeYield: number,
+  items: Pick<RecipeItem, 'inventory_item_id' | 'quantity' | 'unit'>[]
+): Promise<void> => {
+  const { error: yieldError } = await supabase
+    .from('menu_items')
+    .update({ recipe_yield: recipeYield })
+    .eq('id', menuItemId);
+
+  if (yieldError) throw yieldError;
+
+  const { error: deleteError } = await supabase
+    .from('recipe_items')
+    .delete()
+    .eq('menu_item_id', menuItemId);
+
+  if (deleteError) throw deleteError;
+
+  if (items.length === 0) return;
+
+  const { error } = await supabase
+    .from('recipe_items')
+    .insert(items.map(item => ({ ...item, menu_item_id: menuItemId })));
+
+  if (error) throw error;
+};
@@ -0,0 +1,100 @@
+import { supabase, Order, OrderItem, Station } from './supabase';
+
+export type StationKind = Station['kind'];
+
+export const STATION_KINDS: { value: StationKind; label: string }[] = [
+  { value: 'kitchen', label: 'Küche' },
+  { value: 'bar', label: 'Bar' }
+];
+
+export const loadStations = async (): Promise<Station[]> => {
+  const { data, error } = await supabase
+    .from('stations')
+    .select('*')
+    .order('sort_order')
+    .order('name');
+
+  if (error) {
+    console.error('Error loading stations:', error);
+    return [];
+  }
+
+  return data || [];
+};
+
+// Items ordered before stations existed, or whose station was deleted, go to the default station
+export const getItemStation = (item: Pick<OrderItem, 'station_id'>, stations: Station[]): Station | null =>
+  stations.find(station => station.id === item.station_id)
+  || stations.find(station => station.is_default)
+  || null;
+
+export const isStationKindItem = (item: Pick<OrderItem, 'station_id'>, stations: Station[], kind: StationKind): boolean =>
+  getItemStation(item, stations)?.kind === kind;
+
+// The part of the order made by kitchen or bar stations
+export const filterOrderItemsByKind = <T extends Order>(order: T, stations: Station[], kind: StationKind): T => ({
+  ...order,
+  order_items: (order.order_items || []).filter(item => isStationKindItem(item, stations, kind))
+});
+
+// One group of items per station, in the order of the stations
+export const splitOrderItemsByStation = <T extends OrderItem>(
+  items: T[],
+  stations: Station[]
+): { station: Station | null; items: T[] }[] => {
+  const groups = new Map<string, { station: Station | null; items: T[] }>();
+
+  items.forEach(item => {
+    const station = getItemStation(item, stations);
+    const key = station?.id || '';
+    const group = groups.get(key) || { station, items: [] };
+    group.items.push(item);
+    groups.set(key, group);
+  });
+
+  return Array.from(groups.values()).sort((a, b) =>
+    (a.station ? stations.indexOf(a.station) : stations.length) - (b.station ? stations.indexOf(b.station) : stations.length)
+  );
+};
+
+export const saveStation = async (station: Partial<Station> & Pick<Station, 'name' | 'kind'>): Promise<Station> => {
+  const values = {
+    name: station.name.trim(),
+    kind: station.kind,
+    sort_order: station.sort_order ?? 0
+  };
+
+  const { data, error } = station.id
+    ? await supabase.from('stations').update(values).eq('id', station.id).select().single()
+    : await supabase.from('stations').insert(values).select().single();
+
+  if (error) throw error;
+  return data;
+};
+
+// Clears the old default and sets the new one in one transaction, only one default per location
+export const setDefaultStation = async (stationId: string): Promise<void> => {
+  const { error } = await supabase.rpc('set_default_station', {
+    target_station_id: stationId
+  });
+
+  if (error) throw error;
+};
+
+export const deleteStation = async (stationId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('stations')
+    .delete()
+    .eq('id', stationId);
+
+  if (error) throw error;
+};
+
+export const setMenuItemStation = async (menuItemId: string, stationId: string | null): Promise<void> => {
+  const { error } = await supabase
+    .from('menu_items')
+    .update({ station_id: stationId })
+    .eq('id', menuItemId);
+
+  if (error) throw error;
+};
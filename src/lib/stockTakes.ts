@@ -0,0 +1,224 @@
+import { supabase, StockTake, StockTakeItem } from './supabase';
+
+export const STOCK_TAKE_STATUSES: { value: StockTake['status']; label: string; color: string }[] = [
+  { value: 'counting', label: 'Counting', color: 'bg-blue-100 text-blue-800' },
+  { value: 'submitted', label: 'Waiting for approval', color: 'bg-yellow-100 text-yellow-800' },
+  { value: 'approved', label: 'Approved', color: 'bg-green-100 text-green-800' },
+  { value: 'cancelled', label: 'Cancelled', color: 'bg-red-100 text-red-800' }
+];
+
+export const NO_STORAGE_LOCATION = 'No location';
+
+export const getStockTakeStatus = (status: StockTake['status']) =>
+  STOCK_TAKE_STATUSES.find(stockTakeStatus => stockTakeStatus.value === status) || STOCK_TAKE_STATUSES[0];
+
+export const isStockTakeOpen = (stockTake: StockTake): boolean =>
+  stockTake.status === 'counting' || stockTake.status === 'submitted';
+
+// Counted minus expected, null until the item was counted
+export const getVariance = (item: StockTakeItem): number | null =>
+  item.counted_quantity == null || item.expected_quantity == null
+    ? null
+    : Number(item.counted_quantity) - Number(item.expected_quantity);
+
+// Null when the item isn't counted or has no supplier price
+export const getVarianceValue = (item: StockTakeItem): number | null => {
+  const variance = getVariance(item);
+  return variance == null || item.unit_cost == null ? null : variance * Number(item.unit_cost);
+};
+
+// Shelf by shelf in the order of the count, items without a location last
+export const groupByStorageLocation = (items: StockTakeItem[]): { location: string; items: StockTakeItem[] }[] => {
+  const groups = new Map<string, StockTakeItem[]>();
+
+  items.forEach(item => {
+    const location = item.storage_location || NO_STORAGE_LOCATION;
+    groups.set(location, [...(groups.get(location) || []), item]);
+  });
+
+  return Array.from(groups, ([location, groupItems]) => ({
+    location,
+    items: groupItems.sort((a, b) => a.item_name.localeCompare(b.item_name))
+  })).sort((a, b) => {
+    if (a.location === NO_STORAGE_LOCATION) return 1;
+    if (b.location === NO_STORAGE_LOCATION) return -1;
+    return a.location.localeCompare(b.location);
+  });
+};
+
+export interface CategoryVariance {
+  category: string;
+  itemCount: number;
+  countedCount: number;
+  varianceCount: number;
+  shortageValue: number;
+  surplusValue: number;
+}
+
+// Units differ between items, so categories add up the value of the variance
+export const getCategoryVariances = (items: StockTakeItem[]): CategoryVariance[] => {
+  const categories = new Map<string, CategoryVariance>();
+
+  items.forEach(item => {
+    const category = item.category || 'Other';
+    const summary = categories.get(category) || {
+      category,
+      itemCount: 0,
+      countedCount: 0,
+      varianceCount: 0,
+      shortageValue: 0,
+      surplusValue: 0
+    };
+    const variance = getVariance(item);
+    const value = getVarianceValue(item) || 0;
+
+    summary.itemCount += 1;
+    if (variance != null) summary.countedCount += 1;
+    if (variance) summary.varianceCount += 1;
+    if (value < 0) summary.shortageValue += value;
+    if (value > 0) summary.surplusValue += value;
+
+    categories.set(category, summary);
+  });
+
+  return Array.from(categories.values()).sort((a, b) => a.category.localeCompare(b.category));
+};
+
+// Newest first
+export const loadStockTakes = async (limit = 24): Promise<StockTake[]> => {
+  const { data, error } = await supabase
+    .from('stock_takes')
+    .select('*, started_by_user:users!stock_takes_started_by_fkey(name), approved_by_user:users!stock_takes_approved_by_fkey(name)')
+    .order('started_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error('Error loading stock takes:', error);
+    return [];
+  }
+
+  return data || [];
+};
+
+export const loadStockTakeItems = async (stockTakeId: string): Promise<StockTakeItem[]> => {
+  const { data, error } = await supabase
+    .from('stock_take_items')
+    .select('*')
+    .eq('stock_take_id', stockTakeId)
+    .order('item_name');
+
+  if (error) {
+    console.error('Error loading stock take items:', error);
+    return [];
+  }
+
+  return data || [];
+};
+
+// Freezes the current stock of every item
+export const startStockTake = async (notes?: string): Promise<StockTake> => {
+  const { data, error } = await supabase.rpc('start_stock_take', { stock_take_notes: notes || null });
+
+  if (error) throw error;
+  return data;
+};
+
+// A null count clears the item again. The expected stock is set by the database
+export const saveStockTakeCount = async (itemId: string, countedQuantity: number | null): Promise<StockTakeItem> => {
+  const { data, error } = await supabase
+    .from('stock_take_items')
+    .update({ counted_quantity: countedQuantity })
+    .eq('id', itemId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+export const submitStockTake = async (id: string, userId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('stock_takes')
+    .update({ status: 'submitted', submitted_by: userId, submitted_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('status', 'counting');
+
+  if (error) throw error;
+};
+
+// Sends a submitted count back to the floor
+export const reopenStockTake = async (id: string): Promise<void> => {
+  const { error } = await supabase
+    .from('stock_takes')
+    .update({ status: 'counting', submitted_by: null, submitted_at: null })
+    .eq('id', id)
+    .eq('status', 'submitted');
+
+  if (error) throw error;
+};
+
+export const cancelStockTake = async (id: string): Promise<void> => {
+  const { error } = await supabase
+    .from('stock_takes')
+    .update({ status: 'cancelled' })
+    .eq('id', id)
+    .in('status', ['counting', 'submitted']);
+
+  if (error) throw error;
+};
+
+// Books the variance of every counted item as a correction, managers only
+export const approveStockTake = async (id: string): Promise<void> => {
+  const { error } = await supabase.rpc('approve_stock_take', { target_stock_take_id: id });
+
+  if (error) throw error;
+};
+
+// Export
+
+const formatNumber = (value: number | null | undefined, digits = 3) =>
+  value == null ? '' : Number(Number(value).toFixed(digits)).toString();
+
+export const generateStockTakeCSV = (items: StockTakeItem[]): string => {
+  const quote = (value: string) => `"${value.replace(/"/g, '""')}"`;
+  const itemHeaders = ['Location', 'Category', 'Item', 'Unit', 'Snapshot', 'Expected', 'Counted', 'Variance', 'Unit Cost', 'Variance Value'];
+  const categoryHeaders = ['Category', 'Items', 'Counted', 'With Variance', 'Shortage Value', 'Surplus Value', 'Net Value'];
+
+  return [
+    itemHeaders.join(','),
+    ...groupByStorageLocation(items).flatMap(group => group.items.map(item => [
+      quote(group.location),
+      quote(item.category || ''),
+      quote(item.item_name),
+      quote(item.unit),
+      formatNumber(item.snapshot_quantity),
+      formatNumber(item.expected_quantity),
+      formatNumber(item.counted_quantity),
+      formatNumber(getVariance(item)),
+      formatNumber(item.unit_cost, 4),
+      formatNumber(getVarianceValue(item), 2)
+    ].join(','))),
+    '',
+    categoryHeaders.join(','),
+    ...getCategoryVariances(items).map(summary => [
+      quote(summary.category),
+      summary.itemCount,
+      summary.countedCount,
+      summary.varianceCount,
+      summary.shortageValue.toFixed(2),
+      summary.surplusValue.toFixed(2),
+      (summary.shortageValue + summary.surplusValue).toFixed(2)
+    ].join(','))
+  ].join('\n');
+};
+
+export const downloadStockTakeCSV = (stockTake: StockTake, items: StockTakeItem[]) => {
+  const url = URL.createObjectURL(new Blob([generateStockTakeCSV(items)], { type: 'text/csv' }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `stock-take-${stockTake.started_at.split('T')[0]}.csv`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
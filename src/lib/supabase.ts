@@ -34,11 +34,34 @@ export interface User {
   email: string;
   role: 'manager' | 'waiter' | 'kitchen' | 'customer' | 'bar';
   name: string;
+  current_restaurant_id?: string | null;
   created_at: string;
 }
 
+export interface Restaurant {
+  id: string;
+  name: string;
+  address?: string | null;
+  created_at?: string;
+}
+
+// Row of get_location_orders (orders of all locations of a manager)
+export interface LocationOrder {
+  id: string;
+  restaurant_id: string;
+  restaurant_name: string;
+  order_number: string | null;
+  customer_name: string;
+  table_number: number | null;
+  total: number;
+  status: Order['status'];
+  created_at: string;
+  item_count: number;
+}
+
 export interface MenuItem {
   id: string;
+  restaurant_id?: string;
   name: string;
   description: string;
   price: number;
@@ -52,20 +75,65 @@ export interface MenuItem {
   preparation_time?: number;
   calories?: number;
   dietary_info?: string[];
-  // New field for required inventory items
-  required_inventory?: string[];
+  tax_category?: 'food' | 'beverage';
+  station_id?: string | null;
+  // Portions one recipe makes
+  recipe_yield?: number;
+  recipe_items?: RecipeItem[];
+  // Menu price while an active menu overrides `price`
+  regular_price?: number;
+  modifier_groups?: ModifierGroup[];
+}
+
+export interface ModifierGroup {
+  id: string;
+  restaurant_id?: string;
+  menu_item_id: string;
+  name: string;
+  // 1 or more makes the group a required choice
+  min_select: number;
+  // null for any number of options
+  max_select: number | null;
+  sort_order: number;
+  created_at?: string;
+  modifier_options?: ModifierOption[];
+}
+
+export interface ModifierOption {
+  id: string;
+  restaurant_id?: string;
+  group_id: string;
+  name: string;
+  price_delta: number;
+  sort_order: number;
+  created_at?: string;
+}
+
+// Copy of a picked option, kept on the order item
+export interface OrderItemModifier {
+  option_id: string | null;
+  group: string;
+  option: string;
+  price_delta: number;
 }
 
 export interface Order {
   id: string;
+  restaurant_id?: string;
   customer_id: string;
   waiter_id?: string;
   table_number?: number;
   customer_name?: string; // Made optional
   status: 'pending' | 'preparing' | 'ready' | 'served' | 'completed';
   total: number;
+  sequence_number?: number | null;
+  order_number?: string | null;
+  service_type?: 'dine_in' | 'takeaway';
+  payment_status?: 'unpaid' | 'partially_paid' | 'paid';
+  paid_at?: string | null;
   created_at: string;
   order_items?: OrderItem[];
+  payments?: Payment[];
 }
 
 export interface OrderItem {
@@ -75,11 +143,59 @@ export interface OrderItem {
   quantity: number;
   price: number;
   notes?: string;
+  seat_number?: number | null;
+  vat_rate?: number | null;
   status: 'pending' | 'preparing' | 'ready';
+  station_id?: string | null;
+  bumped_at?: string | null;
+  course?: number | null;
+  fired_at?: string | null;
+  stock_consumed_at?: string | null;
+  // Cost of the stock the item took, set when it is consumed
+  stock_cost?: number | null;
+  // Included in `price`
+  modifiers?: OrderItemModifier[];
   menu_item?: MenuItem;
   created_at?: string;
 }
 
+export interface Station {
+  id: string;
+  restaurant_id?: string;
+  name: string;
+  kind: 'kitchen' | 'bar';
+  sort_order: number;
+  is_default: boolean;
+  created_at?: string;
+}
+
+export interface Menu {
+  id: string;
+  restaurant_id?: string;
+  name: string;
+  description?: string | null;
+  is_active: boolean;
+  // ISO weekdays, 1 is Monday
+  days_of_week: number[];
+  // 'HH:MM:SS', both null for all day
+  start_time?: string | null;
+  end_time?: string | null;
+  start_date?: string | null;
+  end_date?: string | null;
+  sort_order: number;
+  created_at?: string;
+  menu_entries?: MenuEntry[];
+}
+
+export interface MenuEntry {
+  id: string;
+  restaurant_id?: string;
+  menu_id: string;
+  menu_item_id: string;
+  price_override?: number | null;
+  created_at?: string;
+}
+
 export interface Message {
   id: string;
   user_id: string;
@@ -90,6 +206,7 @@ export interface Message {
 
 export interface InventoryItem {
   id: string;
+  restaurant_id?: string;
   name: string;
   category: string;
   quantity: number;
@@ -99,4 +216,281 @@ export interface InventoryItem {
   notes?: string;
   status?: 'sufficient' | 'low' | 'critical';
   is_critical?: boolean;
-}
\ No newline at end of file
+  // Content of one stock unit when it is a container, e.g. 70 cl per bottle
+  content_amount?: number | null;
+  content_unit?: RecipeUnit | null;
+  storage_location?: string | null;
+  // Purchase cost of one stock unit, moving average of the receipts
+  unit_cost?: number | null;
+}
+
+export type RecipeUnit = 'ml' | 'cl' | 'l' | 'g' | 'kg' | 'pcs';
+
+export interface RecipeItem {
+  id: string;
+  restaurant_id?: string;
+  menu_item_id: string;
+  inventory_item_id: string;
+  quantity: number;
+  unit: RecipeUnit;
+  inventory_item?: InventoryItem;
+  created_at?: string;
+}
+
+export type InventoryMovementType = 'receipt' | 'consumption' | 'restore' | 'waste' | 'breakage' | 'correction' | 'transfer';
+
+export interface InventoryMovement {
+  id: string;
+  restaurant_id?: string;
+  inventory_item_id: string;
+  order_item_id?: string | null;
+  order_id?: string | null;
+  purchase_order_id?: string | null;
+  stock_take_id?: string | null;
+  movement_type: InventoryMovementType;
+  quantity: number;
+  quantity_after?: number | null;
+  unit_cost?: number | null;
+  reason?: string | null;
+  created_by?: string | null;
+  created_by_user?: Pick<User, 'name'> | null;
+  order?: Pick<Order, 'order_number'> | null;
+  purchase_order?: Pick<PurchaseOrder, 'po_number'> | null;
+  created_at: string;
+}
+
+export interface Supplier {
+  id: string;
+  restaurant_id?: string;
+  name: string;
+  contact_name?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  lead_time_days: number;
+  minimum_order: number;
+  notes?: string | null;
+  created_at?: string;
+}
+
+export interface SupplierItem {
+  id: string;
+  restaurant_id?: string;
+  supplier_id: string;
+  inventory_item_id: string;
+  supplier_sku?: string | null;
+  // Stock units in one pack
+  pack_size: number;
+  pack_price: number;
+  is_preferred: boolean;
+  inventory_item?: InventoryItem;
+  created_at?: string;
+}
+
+export interface PurchaseOrder {
+  id: string;
+  restaurant_id?: string;
+  supplier_id: string;
+  sequence_number?: number | null;
+  po_number?: string | null;
+  status: 'draft' | 'sent' | 'partially_received' | 'received' | 'cancelled';
+  expected_at?: string | null;
+  notes?: string | null;
+  created_by?: string | null;
+  created_at: string;
+  sent_at?: string | null;
+  received_at?: string | null;
+  supplier?: Supplier;
+  purchase_order_items?: PurchaseOrderItem[];
+}
+
+export interface PurchaseOrderItem {
+  id: string;
+  restaurant_id?: string;
+  purchase_order_id: string;
+  inventory_item_id?: string | null;
+  item_name: string;
+  unit: string;
+  supplier_sku?: string | null;
+  pack_size: number;
+  pack_price: number;
+  packs_ordered: number;
+  packs_received: number;
+  created_at?: string;
+}
+
+export interface StockTake {
+  id: string;
+  restaurant_id?: string;
+  status: 'counting' | 'submitted' | 'approved' | 'cancelled';
+  notes?: string | null;
+  started_by?: string | null;
+  submitted_by?: string | null;
+  approved_by?: string | null;
+  started_at: string;
+  submitted_at?: string | null;
+  approved_at?: string | null;
+  started_by_user?: Pick<User, 'name'> | null;
+  approved_by_user?: Pick<User, 'name'> | null;
+}
+
+export interface StockTakeItem {
+  id: string;
+  restaurant_id?: string;
+  stock_take_id: string;
+  inventory_item_id?: string | null;
+  item_name: string;
+  category?: string | null;
+  unit: string;
+  storage_location?: string | null;
+  snapshot_quantity: number;
+  unit_cost?: number | null;
+  expected_quantity?: number | null;
+  counted_quantity?: number | null;
+  counted_by?: string | null;
+  counted_at?: string | null;
+}
+
+export interface RestaurantTable {
+  id: string;
+  restaurant_id?: string;
+  number: number;
+  seats: number;
+  shape: 'round' | 'square' | 'rectangular' | 'oval';
+  status: 'available' | 'occupied' | 'reserved' | 'cleaning';
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotation: number;
+  area_id?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface FloorArea {
+  id: string;
+  restaurant_id?: string;
+  name: string;
+  sort_order: number;
+  width: number;
+  height: number;
+  created_at?: string;
+}
+
+export interface FloorElement {
+  id: string;
+  area_id: string;
+  type: 'wall' | 'bar' | 'decor';
+  label?: string | null;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotation: number;
+  created_at?: string;
+}
+
+export interface Payment {
+  id: string;
+  order_id: string;
+  amount: number;
+  method: 'cash' | 'card' | 'digital';
+  split_type: 'full' | 'seat' | 'item' | 'even' | 'custom';
+  label?: string | null;
+  created_by?: string | null;
+  created_at: string;
+  payment_items?: PaymentItem[];
+}
+
+export interface PaymentItem {
+  id: string;
+  payment_id: string;
+  order_item_id: string;
+  quantity: number;
+  amount: number;
+}
+
+export interface TaxRate {
+  id: string;
+  restaurant_id?: string;
+  tax_category: 'food' | 'beverage';
+  service_type: 'dine_in' | 'takeaway';
+  rate: number;
+  datev_bu_key?: string | null;
+  revenue_account: string;
+  updated_at?: string;
+}
+
+export interface NumberSequence {
+  restaurant_id?: string;
+  name: string;
+  format: string;
+  reset_yearly: boolean;
+  current_year: number;
+  last_value: number;
+  updated_at?: string;
+}
+
+export interface InvoiceEmail {
+  id: string;
+  restaurant_id?: string;
+  order_id?: string | null;
+  invoice_number: string;
+  recipient: string;
+  cc?: string | null;
+  subject: string;
+  payload: unknown;
+  status: 'pending' | 'sent' | 'failed';
+  attempts: number;
+  last_error?: string | null;
+  next_attempt_at?: string | null;
+  sent_at?: string | null;
+  created_by?: string | null;
+  created_at: string;
+  updated_at?: string;
+}
+
+export interface DatevSettings {
+  restaurant_id?: string;
+  consultant_number: number | null;
+  client_number: number | null;
+  fiscal_year_start_month: number;
+  account_length: number;
+  chart_of_accounts: 'SKR03' | 'SKR04';
+  cash_account: string;
+  card_account: string;
+  digital_account: string;
+  receivable_account: string;
+  updated_at?: string;
+}
+
+export interface CompanySettings {
+  restaurant_id?: string;
+  name: string;
+  address: string;
+  city: string;
+  phone: string;
+  email: string;
+  website: string;
+  tax_number: string;
+  vat_id: string;
+  account_holder: string | null;
+  iban: string | null;
+  bic: string | null;
+  invoice_sender_email: string | null;
+  accountant_email: string | null;
+  invoice_cc_email: string | null;
+  logo_url: string | null;
+  opening_hours: Record<string, { open: string; close: string } | null>;
+  currency: string;
+  updated_at?: string;
+  updated_by?: string | null;
+}
+
+export interface CompanySettingsAudit {
+  id: string;
+  changes: Record<string, { old: unknown; new: unknown }>;
+  changed_by: string | null;
+  changed_at: string;
+  changed_by_user?: Pick<User, 'name'> | null;
+}
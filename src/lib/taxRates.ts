@@ -0,0 +1,55 @@
+import { supabase, MenuItem, Order, TaxRate } from './supabase';
+
+// Used until the rates from the database are loaded (and if loading fails)
+export const DEFAULT_TAX_RATES: TaxRate[] = [
+  { id: 'food-dine_in', tax_category: 'food', service_type: 'dine_in', rate: 7, datev_bu_key: '2', revenue_account: '8200' },
+  { id: 'food-takeaway', tax_category: 'food', service_type: 'takeaway', rate: 7, datev_bu_key: '2', revenue_account: '8200' },
+  { id: 'beverage-dine_in', tax_category: 'beverage', service_type: 'dine_in', rate: 19, datev_bu_key: '3', revenue_account: '8200' },
+  { id: 'beverage-takeaway', tax_category: 'beverage', service_type: 'takeaway', rate: 19, datev_bu_key: '3', revenue_account: '8200' }
+];
+
+export const loadTaxRates = async (): Promise<TaxRate[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('tax_rates')
+      .select('*');
+
+    if (error) throw error;
+
+    return data && data.length > 0
+      ? data.map(rate => ({ ...rate, rate: Number(rate.rate) }))
+      : DEFAULT_TAX_RATES;
+  } catch (error) {
+    console.error('Error loading tax rates, using defaults:', error);
+    return DEFAULT_TAX_RATES;
+  }
+};
+
+// Same rule the migration used to backfill existing menu items
+export const getDefaultTaxCategory = (category: string): NonNullable<MenuItem['tax_category']> =>
+  /(drink|beverage|alcohol|coffee|tea|wine|beer|cocktail)/i.test(category) ? 'beverage' : 'food';
+
+export const getVatRate = (
+  taxRates: TaxRate[],
+  menuItem: Pick<MenuItem, 'tax_category'> | undefined,
+  serviceType: NonNullable<Order['service_type']>
+): number => {
+  const taxCategory = menuItem?.tax_category || 'food';
+  const match = taxRates.find(rate => rate.tax_category === taxCategory && rate.service_type === serviceType)
+    || DEFAULT_TAX_RATES.find(rate => rate.tax_category === taxCategory && rate.service_type === serviceType);
+  return match ? match.rate : 19;
+};
+
+// VAT contained in a gross price
+export const calculateIncludedVat = (grossAmount: number, vatRate: number): number =>
+  grossAmount * vatRate / (100 + vatRate);
+
+// DATEV booking data (BU-Schlüssel and revenue account) for a VAT rate
+export const getDatevBooking = (taxRates: TaxRate[], vatRate: number): { buKey: string; revenueAccount: string } => {
+  const match = taxRates.find(rate => Number(rate.rate) === vatRate)
+    || DEFAULT_TAX_RATES.find(rate => rate.rate === vatRate);
+  return {
+    buKey: match?.datev_bu_key || '',
+    revenueAccount: match?.revenue_account || '8200'
+  };
+};
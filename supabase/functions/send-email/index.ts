@@ -0,0 +1,188 @@
+// Sends queued invoice e-mails via SMTP
+//
+// Secrets: SMTP_HOST, SMTP_PORT (default 465), SMTP_USER, SMTP_PASSWORD,
+// SMTP_TLS ("false" for STARTTLS/plain on port 587/25) and MAIL_FROM.
+// Mails are always sent from MAIL_FROM, the invoice sender of the company settings becomes Reply-To.
+// The app only names the `invoice_emails` record, recipient, subject and text are built here
+// from that record and the company settings of its location, so the function can't be used
+// to send anything else to anybody else.
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { SMTPClient } from 'https://deno.land/x/denomailer@1.6.0/mod.ts';
+
+interface SendEmailRequest {
+  invoiceEmailId: string;
+  // The invoice PDF, generated by the app
+  attachments?: Array<{
+    filename: string;
+    contentType: string;
+    content: string; // base64
+  }>;
+}
+
+interface InvoicePayload {
+  invoiceData: {
+    invoiceNumber: string;
+    date: string;
+    customerName: string;
+    items: Array<{ totalPrice: number; vatRate: number; vatAmount: number }>;
+    subtotal: number;
+    totalVat: number;
+    grandTotal: number;
+  };
+}
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const formatMoney = (value: number, currency: string) =>
+  new Intl.NumberFormat('de-DE', { style: 'currency', currency }).format(value);
+
+const buildText = ({ invoiceData }: InvoicePayload, companyName: string, currency: string) => {
+  const vatByRate = new Map<number, number>();
+  invoiceData.items.forEach(item => {
+    vatByRate.set(item.vatRate, (vatByRate.get(item.vatRate) ?? 0) + item.vatAmount);
+  });
+
+  return `Sehr geehrte Damen und Herren,
+
+anbei erhalten Sie die Rechnung ${invoiceData.invoiceNumber} vom ${invoiceData.date}.
+
+Rechnungsdetails:
+- Kunde: ${invoiceData.customerName}
+- Betrag: ${formatMoney(invoiceData.grandTotal, currency)}
+- Netto: ${formatMoney(invoiceData.subtotal - invoiceData.totalVat, currency)}
+${Array.from(vatByRate.entries())
+  .sort(([a], [b]) => a - b)
+  .map(([rate, vat]) => `- MwSt (${rate}%): ${formatMoney(vat, currency)}`)
+  .join('\n')}
+
+Die Rechnung wurde automatisch über das RestaurantOS-System generiert.
+
+Mit freundlichen Grüßen
+${companyName}
+`;
+};
+
+// Only the invoice PDF may be attached
+const isInvoicePdf = (attachment: { contentType: string; content: string }) =>
+  attachment.contentType === 'application/pdf' && attachment.content.startsWith('JVBERi0'); // "%PDF-"
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    // Only signed in staff may send mails
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } } }
+    );
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return jsonResponse({ error: 'Not authenticated' }, 401);
+    }
+
+    const { data: profile } = await supabase
+      .from('users')
+      .select('role')
+      .eq('id', user.id)
+      .single();
+
+    if (!profile || !['manager', 'waiter'].includes(profile.role)) {
+      return jsonResponse({ error: 'Not allowed to send e-mails' }, 403);
+    }
+
+    const request: SendEmailRequest = await req.json();
+    if (!request.invoiceEmailId) {
+      return jsonResponse({ error: 'invoiceEmailId is required' }, 400);
+    }
+
+    const attachments = request.attachments ?? [];
+    if (!attachments.every(isInvoicePdf)) {
+      return jsonResponse({ error: 'Only the invoice PDF can be attached' }, 400);
+    }
+
+    const mailFrom = Deno.env.get('MAIL_FROM');
+    const smtpHost = Deno.env.get('SMTP_HOST');
+    if (!smtpHost || !mailFrom) {
+      return jsonResponse({ error: 'SMTP is not configured' }, 500);
+    }
+
+    const { data: restaurantId } = await supabase.rpc('current_restaurant_id');
+    if (!restaurantId) {
+      return jsonResponse({ error: 'No location selected' }, 403);
+    }
+
+    const { data: record } = await supabase
+      .from('invoice_emails')
+      .select('id, invoice_number, payload')
+      .eq('id', request.invoiceEmailId)
+      .eq('restaurant_id', restaurantId)
+      .maybeSingle();
+
+    if (!record) {
+      return jsonResponse({ error: 'Invoice e-mail not found' }, 404);
+    }
+
+    const { data: settings } = await supabase
+      .from('company_settings')
+      .select('name, email, invoice_sender_email, accountant_email, invoice_cc_email, currency')
+      .eq('restaurant_id', restaurantId)
+      .maybeSingle();
+
+    const recipient = settings?.accountant_email?.trim();
+    if (!settings || !recipient) {
+      return jsonResponse({ error: 'No e-mail address for invoices in the company settings' }, 400);
+    }
+
+    const client = new SMTPClient({
+      connection: {
+        hostname: smtpHost,
+        port: Number(Deno.env.get('SMTP_PORT') ?? 465),
+        tls: Deno.env.get('SMTP_TLS') !== 'false',
+        auth: {
+          username: Deno.env.get('SMTP_USER') ?? '',
+          password: Deno.env.get('SMTP_PASSWORD') ?? '',
+        },
+      },
+    });
+
+    const replyTo = settings.invoice_sender_email?.trim() || settings.email?.trim();
+    const safeNumber = record.invoice_number.replace(/[^A-Za-z0-9_-]+/g, '-');
+
+    try {
+      await client.send({
+        from: settings.name ? `${settings.name} <${mailFrom}>` : mailFrom,
+        to: recipient,
+        cc: settings.invoice_cc_email?.trim() || undefined,
+        replyTo: replyTo || undefined,
+        subject: `Neue Rechnung ${record.invoice_number} - ${settings.name}`,
+        content: buildText(record.payload as InvoicePayload, settings.name, settings.currency),
+        attachments: attachments.slice(0, 1).map(attachment => ({
+          filename: `Rechnung-${safeNumber}.pdf`,
+          contentType: 'application/pdf',
+          encoding: 'base64' as const,
+          content: attachment.content,
+        })),
+      });
+    } finally {
+      await client.close();
+    }
+
+    return jsonResponse({ success: true });
+  } catch (error) {
+    console.error('Error sending e-mail:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Unknown error' }, 500);
+  }
+});
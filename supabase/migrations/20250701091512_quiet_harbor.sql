@@ -0,0 +1,118 @@
+/*
+  # Add restaurant tables for the floor plan
+
+  1. New Tables
+    - `restaurant_tables` - Physical tables shown in the table view
+      - `id` (uuid, primary key)
+      - `number` (integer, unique, not null)
+      - `seats` (integer, 1-20)
+      - `shape` (text) - round, square, rectangular, oval
+      - `x` (integer) - horizontal position on the floor plan in px
+      - `y` (integer) - vertical position on the floor plan in px
+      - `status` (text) - available, occupied, reserved, cleaning
+      - `section` (text, optional) - e.g. Main Room, Terrace
+      - `created_at` (timestamptz)
+      - `updated_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on restaurant_tables
+    - All staff can read tables
+    - Managers can create, update and delete tables
+    - Waiters can update tables (e.g. to set status to cleaning or reserved)
+
+  3. Data
+    - Seed the eight tables that were previously hardcoded in the table view
+*/
+
+-- Create restaurant_tables table
+CREATE TABLE IF NOT EXISTS restaurant_tables (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  number integer UNIQUE NOT NULL CHECK (number > 0),
+  seats integer NOT NULL DEFAULT 4 CHECK (seats BETWEEN 1 AND 20),
+  shape text NOT NULL DEFAULT 'square' CHECK (shape IN ('round', 'square', 'rectangular', 'oval')),
+  x integer NOT NULL DEFAULT 0,
+  y integer NOT NULL DEFAULT 0,
+  status text NOT NULL DEFAULT 'available' CHECK (status IN ('available', 'occupied', 'reserved', 'cleaning')),
+  section text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Keep updated_at current on every change
+CREATE OR REPLACE FUNCTION set_restaurant_tables_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_set_restaurant_tables_updated_at ON restaurant_tables;
+CREATE TRIGGER trigger_set_restaurant_tables_updated_at
+  BEFORE UPDATE ON restaurant_tables
+  FOR EACH ROW
+  EXECUTE FUNCTION set_restaurant_tables_updated_at();
+
+-- Enable RLS
+ALTER TABLE restaurant_tables ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can read restaurant tables"
+  ON restaurant_tables
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('manager', 'waiter', 'kitchen', 'bar')
+    )
+  );
+
+CREATE POLICY "Managers can insert restaurant tables"
+  ON restaurant_tables
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'manager'
+    )
+  );
+
+CREATE POLICY "Managers and waiters can update restaurant tables"
+  ON restaurant_tables
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('manager', 'waiter')
+    )
+  );
+
+CREATE POLICY "Managers can delete restaurant tables"
+  ON restaurant_tables
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'manager'
+    )
+  );
+
+-- Seed the default layout
+INSERT INTO restaurant_tables (number, seats, shape, x, y, status, section)
+VALUES
+  (1, 2, 'round', 100, 100, 'available', 'Main Room'),
+  (2, 4, 'square', 300, 100, 'available', 'Main Room'),
+  (3, 6, 'rectangular', 500, 100, 'available', 'Main Room'),
+  (4, 4, 'oval', 100, 300, 'available', 'Main Room'),
+  (5, 8, 'rectangular', 300, 300, 'available', 'Main Room'),
+  (6, 2, 'round', 500, 300, 'available', 'Main Room'),
+  (7, 6, 'oval', 100, 500, 'available', 'Main Room'),
+  (8, 4, 'square', 300, 500, 'available', 'Main Room')
+ON CONFLICT (number) DO NOTHING;
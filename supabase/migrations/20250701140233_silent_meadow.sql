@@ -0,0 +1,173 @@
+/*
+  # Floor plan areas and layout elements
+
+  1. New Tables
+    - `floor_areas` - Separate rooms/floors of the restaurant (e.g. Main Room, Terrace, Upstairs)
+      - `id` (uuid, primary key)
+      - `name` (text, unique, not null)
+      - `sort_order` (integer) - Order of the area tabs
+      - `width` (integer) - Canvas width in px
+      - `height` (integer) - Canvas height in px
+      - `created_at` (timestamptz)
+
+    - `floor_elements` - Non-table layout objects drawn on an area
+      - `id` (uuid, primary key)
+      - `area_id` (uuid, references floor_areas, cascade delete)
+      - `type` (text) - wall, bar, decor
+      - `label` (text, optional)
+      - `x`, `y`, `width`, `height` (integer, px)
+      - `rotation` (integer, degrees)
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - Add `area_id`, `rotation`, `width` and `height` to `restaurant_tables`
+    - Convert the free-text `section` of existing tables into floor areas, then drop `section`
+
+  3. Security
+    - Enable RLS on both new tables
+    - All staff can read the layout, only managers can change it
+*/
+
+-- Create floor_areas table
+CREATE TABLE IF NOT EXISTS floor_areas (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text UNIQUE NOT NULL,
+  sort_order integer NOT NULL DEFAULT 0,
+  width integer NOT NULL DEFAULT 1000 CHECK (width BETWEEN 200 AND 5000),
+  height integer NOT NULL DEFAULT 650 CHECK (height BETWEEN 200 AND 5000),
+  created_at timestamptz DEFAULT now()
+);
+
+-- Create floor_elements table
+CREATE TABLE IF NOT EXISTS floor_elements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  area_id uuid NOT NULL REFERENCES floor_areas(id) ON DELETE CASCADE,
+  type text NOT NULL CHECK (type IN ('wall', 'bar', 'decor')),
+  label text,
+  x integer NOT NULL DEFAULT 0,
+  y integer NOT NULL DEFAULT 0,
+  width integer NOT NULL DEFAULT 100 CHECK (width > 0),
+  height integer NOT NULL DEFAULT 100 CHECK (height > 0),
+  rotation integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_floor_elements_area_id ON floor_elements(area_id);
+
+-- Add layout columns to restaurant_tables
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'restaurant_tables' AND column_name = 'area_id'
+  ) THEN
+    ALTER TABLE restaurant_tables ADD COLUMN area_id uuid REFERENCES floor_areas(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'restaurant_tables' AND column_name = 'rotation'
+  ) THEN
+    ALTER TABLE restaurant_tables ADD COLUMN rotation integer NOT NULL DEFAULT 0;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'restaurant_tables' AND column_name = 'width'
+  ) THEN
+    ALTER TABLE restaurant_tables ADD COLUMN width integer NOT NULL DEFAULT 120 CHECK (width BETWEEN 40 AND 600);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'restaurant_tables' AND column_name = 'height'
+  ) THEN
+    ALTER TABLE restaurant_tables ADD COLUMN height integer NOT NULL DEFAULT 120 CHECK (height BETWEEN 40 AND 600);
+  END IF;
+END $$;
+
+-- Turn existing sections into areas and assign tables to them
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'restaurant_tables' AND column_name = 'section'
+  ) THEN
+    INSERT INTO floor_areas (name, sort_order)
+    SELECT section, (ROW_NUMBER() OVER (ORDER BY MIN(number)))::integer - 1
+    FROM restaurant_tables
+    WHERE section IS NOT NULL AND section <> ''
+    GROUP BY section
+    ON CONFLICT (name) DO NOTHING;
+
+    UPDATE restaurant_tables
+    SET area_id = floor_areas.id
+    FROM floor_areas
+    WHERE restaurant_tables.section = floor_areas.name;
+
+    ALTER TABLE restaurant_tables DROP COLUMN section;
+  END IF;
+END $$;
+
+-- Make sure there is always at least one area and every table belongs to one
+INSERT INTO floor_areas (name, sort_order)
+SELECT 'Main Room', 0
+WHERE NOT EXISTS (SELECT 1 FROM floor_areas);
+
+UPDATE restaurant_tables
+SET area_id = (SELECT id FROM floor_areas ORDER BY sort_order, created_at LIMIT 1)
+WHERE area_id IS NULL;
+
+-- Enable RLS
+ALTER TABLE floor_areas ENABLE ROW LEVEL SECURITY;
+ALTER TABLE floor_elements ENABLE ROW LEVEL SECURITY;
+
+-- Floor areas policies
+CREATE POLICY "Staff can read floor areas"
+  ON floor_areas
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('manager', 'waiter', 'kitchen', 'bar')
+    )
+  );
+
+CREATE POLICY "Managers can manage floor areas"
+  ON floor_areas
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'manager'
+    )
+  );
+
+-- Floor elements policies
+CREATE POLICY "Staff can read floor elements"
+  ON floor_elements
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('manager', 'waiter', 'kitchen', 'bar')
+    )
+  );
+
+CREATE POLICY "Managers can manage floor elements"
+  ON floor_elements
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'manager'
+    )
+  );
@@ -0,0 +1,39 @@
+/*
+  # Add seat number to order items
+
+  1. Changes
+    - Add `seat_number` column to `order_items` (integer, optional, > 0)
+    - Backfill seat numbers from notes written as "Seat N" / "Platz N" by the order modal
+    - Remove the seat text from those notes so only the actual note remains
+    - Add index on (order_id, seat_number) for per-seat lookups and bill splitting
+
+  2. Security
+    - No RLS changes needed, order_items policies already cover the new column
+*/
+
+-- Add seat_number column
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'order_items' AND column_name = 'seat_number'
+  ) THEN
+    ALTER TABLE order_items ADD COLUMN seat_number integer CHECK (seat_number > 0);
+  END IF;
+END $$;
+
+-- Backfill from notes such as "Seat 3", "no onions (Seat 3)" or "Platz 2"
+UPDATE order_items
+SET seat_number = substring(notes FROM '(?:Seat|Platz) ([0-9]+)')::integer
+WHERE seat_number IS NULL
+  AND notes ~ '(?:Seat|Platz) [0-9]+';
+
+UPDATE order_items
+SET notes = NULLIF(
+  trim(regexp_replace(notes, '\s*\(?(?:Seat|Platz) [0-9]+\)?', '', 'g')),
+  ''
+)
+WHERE seat_number IS NOT NULL
+  AND notes ~ '(?:Seat|Platz) [0-9]+';
+
+CREATE INDEX IF NOT EXISTS idx_order_items_order_seat ON order_items(order_id, seat_number);
@@ -0,0 +1,278 @@
+/*
+  # Split bills and partial payments
+
+  1. New Tables
+    - `payments` - One record per part of a bill that has been paid
+      - `id` (uuid, primary key)
+      - `order_id` (uuid, references orders, cascade delete)
+      - `amount` (numeric, > 0)
+      - `method` (text) - cash, card, digital
+      - `split_type` (text) - full, seat, item, even, custom
+      - `label` (text, optional) - e.g. "Seat 2" or "1/3"
+      - `created_by` (uuid, references users)
+      - `created_at` (timestamptz)
+
+    - `payment_items` - Which order items (and how many of them) a payment covered
+      - `id` (uuid, primary key)
+      - `payment_id` (uuid, references payments, cascade delete)
+      - `order_item_id` (uuid, references order_items, cascade delete)
+      - `quantity` (integer, > 0)
+      - `amount` (numeric)
+
+  2. Changes
+    - Re-add `payment_status` to `orders` (unpaid, partially_paid, paid)
+    - Re-add `paid_at` to `orders`, set when the payments cover the order total
+    - Trigger keeps `payment_status` in sync whenever payments change or the order total changes
+    - Payments that would exceed the open amount of an order are rejected
+
+  3. New Functions
+    - `record_payment` - records a payment together with the items it covers in one
+      transaction, so a payment is never stored without its items
+
+  4. Security
+    - Enable RLS on both new tables
+    - Managers and waiters can read and record payments
+    - Only managers can delete (void) payments
+*/
+
+-- Payment status on orders
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'payment_status'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN payment_status text NOT NULL DEFAULT 'unpaid' CHECK (payment_status IN ('unpaid', 'partially_paid', 'paid'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'paid_at'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN paid_at timestamptz;
+  END IF;
+END $$;
+
+-- Create payments table
+CREATE TABLE IF NOT EXISTS payments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  amount numeric(10,2) NOT NULL CHECK (amount > 0),
+  method text NOT NULL CHECK (method IN ('cash', 'card', 'digital')),
+  split_type text NOT NULL DEFAULT 'full' CHECK (split_type IN ('full', 'seat', 'item', 'even', 'custom')),
+  label text,
+  created_by uuid REFERENCES users(id),
+  created_at timestamptz DEFAULT now()
+);
+
+-- Create payment_items table
+CREATE TABLE IF NOT EXISTS payment_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  payment_id uuid NOT NULL REFERENCES payments(id) ON DELETE CASCADE,
+  order_item_id uuid NOT NULL REFERENCES order_items(id) ON DELETE CASCADE,
+  quantity integer NOT NULL CHECK (quantity > 0),
+  amount numeric(10,2) NOT NULL DEFAULT 0
+);
+
+CREATE INDEX IF NOT EXISTS idx_payments_order_id ON payments(order_id);
+CREATE INDEX IF NOT EXISTS idx_payment_items_payment_id ON payment_items(payment_id);
+CREATE INDEX IF NOT EXISTS idx_payment_items_order_item_id ON payment_items(order_item_id);
+
+-- Reject payments that would take the order above its total
+CREATE OR REPLACE FUNCTION check_payment_amount()
+RETURNS TRIGGER AS $$
+DECLARE
+  order_total numeric;
+  already_paid numeric;
+BEGIN
+  SELECT total INTO order_total FROM orders WHERE id = NEW.order_id FOR UPDATE;
+
+  SELECT COALESCE(SUM(amount), 0) INTO already_paid
+  FROM payments
+  WHERE order_id = NEW.order_id;
+
+  IF already_paid + NEW.amount > order_total + 0.005 THEN
+    RAISE EXCEPTION 'Payment of % exceeds open amount of %', NEW.amount, order_total - already_paid;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Recalculate payment_status of one order from its payments
+CREATE OR REPLACE FUNCTION refresh_order_payment_status(target_order_id uuid)
+RETURNS void AS $$
+DECLARE
+  order_total numeric;
+  paid_total numeric;
+BEGIN
+  SELECT total INTO order_total FROM orders WHERE id = target_order_id;
+
+  IF order_total IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) INTO paid_total
+  FROM payments
+  WHERE order_id = target_order_id;
+
+  UPDATE orders
+  SET
+    payment_status = CASE
+      WHEN paid_total <= 0 THEN 'unpaid'
+      WHEN paid_total + 0.005 >= order_total THEN 'paid'
+      ELSE 'partially_paid'
+    END,
+    paid_at = CASE
+      WHEN paid_total > 0 AND paid_total + 0.005 >= order_total THEN COALESCE(paid_at, now())
+      ELSE NULL
+    END
+  WHERE id = target_order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION update_order_payment_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM refresh_order_payment_status(OLD.order_id);
+    RETURN OLD;
+  END IF;
+
+  PERFORM refresh_order_payment_status(NEW.order_id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Editing an order after a partial payment changes what is still open
+CREATE OR REPLACE FUNCTION update_payment_status_on_total_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM refresh_order_payment_status(NEW.id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_check_payment_amount ON payments;
+CREATE TRIGGER trigger_check_payment_amount
+  BEFORE INSERT ON payments
+  FOR EACH ROW
+  EXECUTE FUNCTION check_payment_amount();
+
+DROP TRIGGER IF EXISTS trigger_update_order_payment_status ON payments;
+CREATE TRIGGER trigger_update_order_payment_status
+  AFTER INSERT OR DELETE ON payments
+  FOR EACH ROW
+  EXECUTE FUNCTION update_order_payment_status();
+
+DROP TRIGGER IF EXISTS trigger_update_payment_status_on_total_change ON orders;
+CREATE TRIGGER trigger_update_payment_status_on_total_change
+  AFTER UPDATE OF total ON orders
+  FOR EACH ROW
+  WHEN (OLD.total IS DISTINCT FROM NEW.total)
+  EXECUTE FUNCTION update_payment_status_on_total_change();
+
+-- A payment and the items it covers are stored together or not at all.
+-- Runs as the caller, so the policies below still apply
+CREATE OR REPLACE FUNCTION record_payment(
+  target_order_id uuid,
+  payment_method text,
+  payment_amount numeric,
+  payment_split_type text DEFAULT 'full',
+  payment_label text DEFAULT NULL,
+  payment_lines jsonb DEFAULT '[]'::jsonb
+)
+RETURNS uuid AS $$
+DECLARE
+  new_payment_id uuid;
+BEGIN
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(payment_lines) AS line
+    LEFT JOIN order_items ON order_items.id = (line.value->>'order_item_id')::uuid
+    WHERE order_items.order_id IS DISTINCT FROM target_order_id
+  ) THEN
+    RAISE EXCEPTION 'Item is not part of this order';
+  END IF;
+
+  INSERT INTO payments (order_id, amount, method, split_type, label, created_by)
+  VALUES (target_order_id, payment_amount, payment_method, payment_split_type, payment_label, auth.uid())
+  RETURNING id INTO new_payment_id;
+
+  INSERT INTO payment_items (payment_id, order_item_id, quantity, amount)
+  SELECT
+    new_payment_id,
+    (line.value->>'order_item_id')::uuid,
+    (line.value->>'quantity')::integer,
+    (line.value->>'amount')::numeric
+  FROM jsonb_array_elements(payment_lines) AS line;
+
+  RETURN new_payment_id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Enable RLS
+ALTER TABLE payments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payment_items ENABLE ROW LEVEL SECURITY;
+
+-- Payments policies
+CREATE POLICY "Staff can read payments"
+  ON payments
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('manager', 'waiter')
+    )
+  );
+
+CREATE POLICY "Staff can record payments"
+  ON payments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('manager', 'waiter')
+    )
+  );
+
+CREATE POLICY "Managers can delete payments"
+  ON payments
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'manager'
+    )
+  );
+
+-- Payment items policies
+CREATE POLICY "Staff can read payment items"
+  ON payment_items
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('manager', 'waiter')
+    )
+  );
+
+CREATE POLICY "Staff can record payment items"
+  ON payment_items
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('manager', 'waiter')
+    )
+  );
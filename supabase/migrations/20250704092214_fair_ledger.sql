@@ -0,0 +1,201 @@
+/*
+  # Multi-rate VAT (food / beverages, dine-in / takeaway)
+
+  1. New Tables
+    - `tax_rates` - VAT rate per tax category and service type
+      - `id` (uuid, primary key)
+      - `tax_category` (text) - food, beverage
+      - `service_type` (text) - dine_in, takeaway
+      - `rate` (numeric) - VAT rate in percent, e.g. 7 or 19
+      - `datev_bu_key` (text) - DATEV BU-Schlüssel for this rate (2 = 7% USt, 3 = 19% USt)
+      - `revenue_account` (text) - SKR03 revenue account booked with the BU key
+      - `updated_at` (timestamptz)
+
+  2. Changes
+    - Add `tax_category` to `menu_items` (food, beverage), drinks are detected from the category name
+    - Add `service_type` to `orders` (dine_in, takeaway), defaults to takeaway for orders without a table
+    - Add `vat_rate` to `order_items`, stored when the item is ordered so later rate changes don't alter old invoices
+    - Backfill `vat_rate` for existing order items with the rate of the order date
+      (dine-in food ordered before 01.01.2026 keeps 19%)
+
+  3. Security
+    - Enable RLS on tax_rates
+    - All staff can read tax rates, only managers can change them
+
+  4. Notes
+    - Food is 7% for dine-in and takeaway since 01.01.2026 (dine-in food was 19% before),
+      beverages are always 19%. Rates can be changed in `tax_rates` without a deploy.
+*/
+
+-- Create tax_rates table
+CREATE TABLE IF NOT EXISTS tax_rates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tax_category text NOT NULL CHECK (tax_category IN ('food', 'beverage')),
+  service_type text NOT NULL CHECK (service_type IN ('dine_in', 'takeaway')),
+  rate numeric(5,2) NOT NULL CHECK (rate >= 0 AND rate < 100),
+  datev_bu_key text,
+  revenue_account text NOT NULL DEFAULT '8200',
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (tax_category, service_type)
+);
+
+INSERT INTO tax_rates (tax_category, service_type, rate, datev_bu_key)
+VALUES
+  ('food', 'dine_in', 7, '2'),
+  ('food', 'takeaway', 7, '2'),
+  ('beverage', 'dine_in', 19, '3'),
+  ('beverage', 'takeaway', 19, '3')
+ON CONFLICT (tax_category, service_type) DO NOTHING;
+
+-- Add tax_category to menu_items
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'menu_items' AND column_name = 'tax_category'
+  ) THEN
+    ALTER TABLE menu_items ADD COLUMN tax_category text NOT NULL DEFAULT 'food' CHECK (tax_category IN ('food', 'beverage'));
+
+    UPDATE menu_items
+    SET tax_category = 'beverage'
+    WHERE lower(category) ~ '(drink|beverage|alcohol|coffee|tea|wine|beer|cocktail)';
+  END IF;
+END $$;
+
+-- Add service_type to orders
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'service_type'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN service_type text CHECK (service_type IN ('dine_in', 'takeaway'));
+
+    UPDATE orders
+    SET service_type = CASE WHEN table_number IS NULL THEN 'takeaway' ELSE 'dine_in' END;
+
+    ALTER TABLE orders ALTER COLUMN service_type SET NOT NULL;
+  END IF;
+END $$;
+
+-- Add vat_rate to order_items
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'order_items' AND column_name = 'vat_rate'
+  ) THEN
+    ALTER TABLE order_items ADD COLUMN vat_rate numeric(5,2) CHECK (vat_rate >= 0 AND vat_rate < 100);
+  END IF;
+END $$;
+
+-- Orders created without an explicit service type are takeaway when they have no table
+CREATE OR REPLACE FUNCTION set_order_service_type()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.service_type IS NULL THEN
+    NEW.service_type = CASE WHEN NEW.table_number IS NULL THEN 'takeaway' ELSE 'dine_in' END;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_set_order_service_type ON orders;
+CREATE TRIGGER trigger_set_order_service_type
+  BEFORE INSERT ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION set_order_service_type();
+
+-- Look up the VAT rate of a menu item for an order
+CREATE OR REPLACE FUNCTION lookup_vat_rate(target_menu_item_id uuid, target_order_id uuid)
+RETURNS numeric AS $$
+  SELECT tax_rates.rate
+  FROM menu_items
+  JOIN orders ON orders.id = target_order_id
+  JOIN tax_rates
+    ON tax_rates.tax_category = menu_items.tax_category
+    AND tax_rates.service_type = orders.service_type
+  WHERE menu_items.id = target_menu_item_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Store the VAT rate on every new order item
+CREATE OR REPLACE FUNCTION set_order_item_vat_rate()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.vat_rate IS NULL OR (TG_OP = 'UPDATE' AND NEW.menu_item_id IS DISTINCT FROM OLD.menu_item_id) THEN
+    NEW.vat_rate = COALESCE(lookup_vat_rate(NEW.menu_item_id, NEW.order_id), 19);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_set_order_item_vat_rate ON order_items;
+CREATE TRIGGER trigger_set_order_item_vat_rate
+  BEFORE INSERT OR UPDATE OF menu_item_id ON order_items
+  FOR EACH ROW
+  EXECUTE FUNCTION set_order_item_vat_rate();
+
+-- Switching an order between dine-in and takeaway changes the rate of its items
+CREATE OR REPLACE FUNCTION update_vat_rates_on_service_type_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE order_items
+  SET vat_rate = COALESCE(lookup_vat_rate(menu_item_id, order_id), vat_rate)
+  WHERE order_id = NEW.id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_update_vat_rates_on_service_type_change ON orders;
+CREATE TRIGGER trigger_update_vat_rates_on_service_type_change
+  AFTER UPDATE OF service_type ON orders
+  FOR EACH ROW
+  WHEN (OLD.service_type IS DISTINCT FROM NEW.service_type)
+  EXECUTE FUNCTION update_vat_rates_on_service_type_change();
+
+-- Backfill existing order items with the rate of their order date,
+-- dine-in food was 19% until 31.12.2025
+UPDATE order_items
+SET vat_rate = CASE
+  WHEN orders.service_type = 'dine_in'
+    AND orders.created_at < '2026-01-01 00:00:00+01'
+    AND menu_items.tax_category = 'food'
+  THEN 19
+  ELSE COALESCE(lookup_vat_rate(order_items.menu_item_id, order_items.order_id), 19)
+END
+FROM orders, menu_items
+WHERE orders.id = order_items.order_id
+AND menu_items.id = order_items.menu_item_id
+AND order_items.vat_rate IS NULL;
+
+-- Items whose menu item is gone
+UPDATE order_items
+SET vat_rate = 19
+WHERE vat_rate IS NULL;
+
+-- Enable RLS
+ALTER TABLE tax_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can read tax rates"
+  ON tax_rates
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('manager', 'waiter', 'kitchen', 'bar')
+    )
+  );
+
+CREATE POLICY "Managers can manage tax rates"
+  ON tax_rates
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'manager'
+    )
+  );
@@ -0,0 +1,219 @@
+/*
+  # Gapless order and invoice numbers
+
+  1. New Tables
+    - `number_sequences` - Counter and number format per sequence (currently only `order`)
+      - `name` (text, primary key)
+      - `format` (text) - e.g. `{YYYY}/{NNNNN}`, placeholders {YYYY}, {YY}, {MM}, {DD} and {N...}
+        (the number of N is the minimum number of digits)
+      - `reset_yearly` (boolean) - start again at 1 in a new year
+      - `current_year` (integer) - year of `last_value`
+      - `last_value` (bigint) - last number that was assigned
+      - `updated_at` (timestamptz)
+
+  2. Changes
+    - Add `sequence_number` and `order_number` to `orders`
+    - Every new order gets the next number in the BEFORE INSERT trigger. The counter row stays
+      locked until the transaction commits, so a failed insert does not leave a gap.
+    - `created_at` of a new order is set to the server time, the year of the number comes from it.
+      The counter only starts again when the year moves forward, never back
+    - The number of an order can't be changed afterwards
+    - Existing orders are numbered by creation date
+
+  3. Security
+    - Enable RLS on number_sequences
+    - All staff can read the number format, only managers can change it
+    - Numbers are assigned by a SECURITY DEFINER function, so waiters don't need write access
+
+  4. Notes
+    - Orders that should not be billed have to be cancelled instead of deleted,
+      deleting a numbered order leaves a gap in the sequence
+*/
+
+-- Create number_sequences table
+CREATE TABLE IF NOT EXISTS number_sequences (
+  name text PRIMARY KEY,
+  format text NOT NULL DEFAULT '{YYYY}/{NNNNN}' CHECK (format ~ '\{N+\}'),
+  reset_yearly boolean NOT NULL DEFAULT true,
+  current_year integer NOT NULL DEFAULT extract(year FROM now() AT TIME ZONE 'Europe/Berlin')::integer,
+  last_value bigint NOT NULL DEFAULT 0 CHECK (last_value >= 0),
+  updated_at timestamptz DEFAULT now(),
+  -- Without the year in the number a yearly reset would produce duplicates
+  CHECK (NOT reset_yearly OR format ~ '\{YY(YY)?\}')
+);
+
+INSERT INTO number_sequences (name)
+VALUES ('order')
+ON CONFLICT (name) DO NOTHING;
+
+-- Add number columns to orders
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'sequence_number'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN sequence_number bigint;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'order_number'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN order_number text UNIQUE;
+  END IF;
+END $$;
+
+-- Render a number with the placeholders of a format
+CREATE OR REPLACE FUNCTION format_sequence_number(number_format text, sequence_value bigint, number_date timestamptz)
+RETURNS text AS $$
+DECLARE
+  local_date timestamp := number_date AT TIME ZONE 'Europe/Berlin';
+  number_token text;
+  result text;
+BEGIN
+  result := replace(number_format, '{YYYY}', to_char(local_date, 'YYYY'));
+  result := replace(result, '{YY}', to_char(local_date, 'YY'));
+  result := replace(result, '{MM}', to_char(local_date, 'MM'));
+  result := replace(result, '{DD}', to_char(local_date, 'DD'));
+
+  number_token := substring(result FROM '\{N+\}');
+  IF number_token IS NOT NULL THEN
+    result := replace(
+      result,
+      number_token,
+      lpad(sequence_value::text, greatest(length(number_token) - 2, length(sequence_value::text)), '0')
+    );
+  END IF;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Assign the next number of the order sequence
+CREATE OR REPLACE FUNCTION assign_order_number()
+RETURNS TRIGGER AS $$
+DECLARE
+  number_year integer;
+  next_value bigint;
+  number_format text;
+BEGIN
+  -- The server time decides, a wrong clock on a device must not reset the counter
+  NEW.created_at := now();
+  number_year := extract(year FROM NEW.created_at AT TIME ZONE 'Europe/Berlin')::integer;
+
+  UPDATE number_sequences
+  SET
+    last_value = CASE
+      WHEN reset_yearly AND number_year > current_year THEN 1
+      ELSE last_value + 1
+    END,
+    current_year = GREATEST(current_year, number_year),
+    updated_at = now()
+  WHERE name = 'order'
+  RETURNING last_value, format INTO next_value, number_format;
+
+  IF next_value IS NULL THEN
+    RAISE EXCEPTION 'Number sequence "order" is missing';
+  END IF;
+
+  NEW.sequence_number := next_value;
+  NEW.order_number := format_sequence_number(number_format, next_value, NEW.created_at);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Numbers are assigned once and never change
+CREATE OR REPLACE FUNCTION keep_order_number()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.sequence_number := OLD.sequence_number;
+  NEW.order_number := OLD.order_number;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Number existing orders in the order they were created
+DO $$
+DECLARE
+  sequence_format text;
+  latest_year integer;
+  latest_value bigint;
+BEGIN
+  SELECT format INTO sequence_format FROM number_sequences WHERE name = 'order';
+
+  WITH numbered AS (
+    SELECT
+      id,
+      created_at,
+      row_number() OVER (
+        PARTITION BY extract(year FROM created_at AT TIME ZONE 'Europe/Berlin')
+        ORDER BY created_at, id
+      ) AS sequence_value
+    FROM orders
+    WHERE order_number IS NULL
+  )
+  UPDATE orders
+  SET
+    sequence_number = numbered.sequence_value,
+    order_number = format_sequence_number(sequence_format, numbered.sequence_value, numbered.created_at)
+  FROM numbered
+  WHERE orders.id = numbered.id;
+
+  SELECT
+    extract(year FROM created_at AT TIME ZONE 'Europe/Berlin')::integer,
+    sequence_number
+  INTO latest_year, latest_value
+  FROM orders
+  WHERE sequence_number IS NOT NULL
+  ORDER BY created_at DESC, id DESC
+  LIMIT 1;
+
+  IF latest_value IS NOT NULL THEN
+    UPDATE number_sequences
+    SET current_year = latest_year, last_value = latest_value, updated_at = now()
+    WHERE name = 'order';
+  END IF;
+END $$;
+
+DROP TRIGGER IF EXISTS trigger_assign_order_number ON orders;
+CREATE TRIGGER trigger_assign_order_number
+  BEFORE INSERT ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_order_number();
+
+DROP TRIGGER IF EXISTS trigger_keep_order_number ON orders;
+CREATE TRIGGER trigger_keep_order_number
+  BEFORE UPDATE OF sequence_number, order_number ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION keep_order_number();
+
+CREATE INDEX IF NOT EXISTS idx_orders_sequence_number ON orders(sequence_number);
+
+-- Enable RLS
+ALTER TABLE number_sequences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can read number sequences"
+  ON number_sequences
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('manager', 'waiter', 'kitchen', 'bar')
+    )
+  );
+
+CREATE POLICY "Managers can update number sequences"
+  ON number_sequences
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'manager'
+    )
+  );
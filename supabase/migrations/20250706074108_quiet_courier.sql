@@ -0,0 +1,86 @@
+/*
+  # Invoice e-mail delivery status and retry queue
+
+  1. New Tables
+    - `invoice_emails` - One record per invoice e-mail
+      - `id` (uuid, primary key)
+      - `order_id` (uuid, references orders, optional)
+      - `invoice_number` (text)
+      - `recipient` (text)
+      - `cc` (text, optional)
+      - `subject` (text)
+      - `payload` (jsonb) - invoice and company data the PDF is generated from,
+        so a retry sends exactly the same invoice
+      - `status` (text) - pending, sent, failed
+      - `attempts` (integer) - number of delivery attempts
+      - `last_error` (text) - error of the last failed attempt
+      - `next_attempt_at` (timestamptz) - when the next retry is due
+      - `sent_at` (timestamptz)
+      - `created_by` (uuid, references users)
+      - `created_at`, `updated_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on invoice_emails
+    - Managers and waiters can read, queue and update invoice e-mails
+*/
+
+-- Create invoice_emails table
+CREATE TABLE IF NOT EXISTS invoice_emails (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid REFERENCES orders(id) ON DELETE SET NULL,
+  invoice_number text NOT NULL,
+  recipient text NOT NULL,
+  cc text,
+  subject text NOT NULL,
+  payload jsonb NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+  attempts integer NOT NULL DEFAULT 0,
+  last_error text,
+  next_attempt_at timestamptz DEFAULT now(),
+  sent_at timestamptz,
+  created_by uuid REFERENCES users(id),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_emails_order_id ON invoice_emails(order_id);
+CREATE INDEX IF NOT EXISTS idx_invoice_emails_retry ON invoice_emails(status, next_attempt_at);
+
+-- Enable RLS
+ALTER TABLE invoice_emails ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can read invoice emails"
+  ON invoice_emails
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('manager', 'waiter')
+    )
+  );
+
+CREATE POLICY "Staff can queue invoice emails"
+  ON invoice_emails
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('manager', 'waiter')
+    )
+  );
+
+CREATE POLICY "Staff can update invoice emails"
+  ON invoice_emails
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('manager', 'waiter')
+    )
+  );
@@ -0,0 +1,71 @@
+/*
+  # DATEV export settings
+
+  1. New Tables
+    - `datev_settings` - Single row with the settings for the DATEV Buchungsstapel export
+      - `id` (boolean, primary key, always true)
+      - `consultant_number` (integer) - Beraternummer
+      - `client_number` (integer) - Mandantennummer
+      - `fiscal_year_start_month` (integer) - first month of the fiscal year
+      - `account_length` (integer) - Sachkontenlänge
+      - `chart_of_accounts` (text) - SKR03, SKR04
+      - `cash_account` (text) - counter account for cash payments
+      - `card_account` (text) - clearing account for card payments
+      - `digital_account` (text) - clearing account for digital payments
+      - `receivable_account` (text) - counter account for the unpaid part of orders
+      - `updated_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on datev_settings
+    - Managers and waiters can read the settings (waiters export Quick Mode invoices)
+    - Only managers can change them
+
+  3. Notes
+    - Revenue accounts and BU keys per VAT rate stay in `tax_rates`
+*/
+
+-- Create datev_settings table
+CREATE TABLE IF NOT EXISTS datev_settings (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  consultant_number integer CHECK (consultant_number BETWEEN 1001 AND 9999999),
+  client_number integer CHECK (client_number BETWEEN 1 AND 99999),
+  fiscal_year_start_month integer NOT NULL DEFAULT 1 CHECK (fiscal_year_start_month BETWEEN 1 AND 12),
+  account_length integer NOT NULL DEFAULT 4 CHECK (account_length BETWEEN 4 AND 8),
+  chart_of_accounts text NOT NULL DEFAULT 'SKR03' CHECK (chart_of_accounts IN ('SKR03', 'SKR04')),
+  cash_account text NOT NULL DEFAULT '1000',
+  card_account text NOT NULL DEFAULT '1360',
+  digital_account text NOT NULL DEFAULT '1360',
+  receivable_account text NOT NULL DEFAULT '1400',
+  updated_at timestamptz DEFAULT now()
+);
+
+INSERT INTO datev_settings (id)
+VALUES (true)
+ON CONFLICT (id) DO NOTHING;
+
+-- Enable RLS
+ALTER TABLE datev_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can read DATEV settings"
+  ON datev_settings
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('manager', 'waiter')
+    )
+  );
+
+CREATE POLICY "Managers can manage DATEV settings"
+  ON datev_settings
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'manager'
+    )
+  );
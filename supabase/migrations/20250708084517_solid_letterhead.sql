@@ -0,0 +1,143 @@
+/*
+  # Company settings in the database
+
+  1. New Tables
+    - `company_settings` - Single row with the restaurant's company data used on invoices
+      - `id` (boolean, primary key, always true)
+      - `name`, `address`, `city`, `phone`, `email`, `website` (text)
+      - `tax_number` (text) - Steuernummer
+      - `vat_id` (text) - USt-IdNr.
+      - `account_holder`, `iban`, `bic` (text) - bank account for transfers and GiroCodes
+      - `invoice_sender_email`, `accountant_email`, `invoice_cc_email` (text)
+      - `logo_url` (text) - logo printed on invoices
+      - `opening_hours` (jsonb) - per weekday (mon ... sun) `{ "open": "11:00", "close": "22:00" }` or null when closed
+      - `currency` (text) - ISO 4217 code, default EUR
+      - `updated_at` (timestamptz)
+      - `updated_by` (uuid, references users)
+    - `company_settings_audit` - One record per change of the company settings
+      - `id` (uuid, primary key)
+      - `changes` (jsonb) - changed fields as `{ "field": { "old": ..., "new": ... } }`
+      - `changed_by` (uuid, references users)
+      - `changed_at` (timestamptz)
+
+  2. Functions and Triggers
+    - `log_company_settings_change()` - writes the changed fields to company_settings_audit
+      on every insert and update
+
+  3. Security
+    - Enable RLS on both tables
+    - All staff can read the company settings (invoices are created by waiters too)
+    - Only managers can change them and read the audit log
+    - Audit records are only written by the trigger
+
+  4. Notes
+    - Settings were kept per device in localStorage before. The settings dialog offers the
+      values stored on the device until the first save.
+*/
+
+-- Create company_settings table
+CREATE TABLE IF NOT EXISTS company_settings (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  name text NOT NULL DEFAULT '',
+  address text NOT NULL DEFAULT '',
+  city text NOT NULL DEFAULT '',
+  phone text NOT NULL DEFAULT '',
+  email text NOT NULL DEFAULT '',
+  website text NOT NULL DEFAULT '',
+  tax_number text NOT NULL DEFAULT '',
+  vat_id text NOT NULL DEFAULT '',
+  account_holder text,
+  iban text,
+  bic text,
+  invoice_sender_email text,
+  accountant_email text,
+  invoice_cc_email text,
+  logo_url text,
+  opening_hours jsonb NOT NULL DEFAULT '{}'::jsonb,
+  currency text NOT NULL DEFAULT 'EUR' CHECK (currency ~ '^[A-Z]{3}$'),
+  updated_at timestamptz DEFAULT now(),
+  updated_by uuid REFERENCES users(id)
+);
+
+-- Create company_settings_audit table
+CREATE TABLE IF NOT EXISTS company_settings_audit (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  changes jsonb NOT NULL,
+  changed_by uuid REFERENCES users(id),
+  changed_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_company_settings_audit_changed_at ON company_settings_audit(changed_at DESC);
+
+-- Log changed fields of the company settings
+CREATE OR REPLACE FUNCTION log_company_settings_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  changed jsonb;
+BEGIN
+  SELECT jsonb_object_agg(
+    new_values.key,
+    jsonb_build_object('old', old_values.value, 'new', new_values.value)
+  )
+  INTO changed
+  FROM jsonb_each(to_jsonb(NEW)) AS new_values
+  LEFT JOIN jsonb_each(
+    CASE WHEN TG_OP = 'UPDATE' THEN to_jsonb(OLD) ELSE '{}'::jsonb END
+  ) AS old_values ON old_values.key = new_values.key
+  WHERE new_values.key NOT IN ('id', 'updated_at', 'updated_by')
+  AND new_values.value IS DISTINCT FROM old_values.value;
+
+  IF changed IS NOT NULL THEN
+    INSERT INTO company_settings_audit (changes, changed_by)
+    VALUES (changed, auth.uid());
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_log_company_settings_change ON company_settings;
+CREATE TRIGGER trigger_log_company_settings_change
+  AFTER INSERT OR UPDATE ON company_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION log_company_settings_change();
+
+-- Enable RLS
+ALTER TABLE company_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE company_settings_audit ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can read company settings"
+  ON company_settings
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('manager', 'waiter', 'kitchen', 'bar')
+    )
+  );
+
+CREATE POLICY "Managers can manage company settings"
+  ON company_settings
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'manager'
+    )
+  );
+
+CREATE POLICY "Managers can read company settings audit"
+  ON company_settings_audit
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'manager'
+    )
+  );
@@ -0,0 +1,572 @@
+/*
+  # Multiple restaurants (locations) in one deployment
+
+  1. New Tables
+    - `restaurants` - One record per location
+      - `id` (uuid, primary key)
+      - `name` (text)
+      - `address` (text, optional)
+      - `created_at` (timestamptz)
+    - `restaurant_members` - Locations a user works at
+      - `restaurant_id` (uuid, references restaurants)
+      - `user_id` (uuid, references users)
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - Add `current_restaurant_id` to `users` - the location the user is working in
+    - Add `restaurant_id` to menu_items, orders, inventory_items, restaurant_tables, floor_areas,
+      tax_rates, number_sequences, datev_settings, company_settings, company_settings_audit and
+      invoice_emails. It defaults to the current location of the user, so inserts don't need it.
+      Child rows (order_items, payments, payment_items, floor_elements) belong to the location
+      of their parent.
+    - All existing data and users are moved to a first location
+    - Table numbers, area names, tax rates, number sequences and order numbers are unique per location
+    - The settings tables have one row per location instead of a single row
+    - Order numbers, VAT lookup and menu availability only look at the order's location
+    - A new location gets its own order number sequence, tax rates and DATEV settings
+    - New staff don't belong to any location until a manager adds them, customers join the
+      first location when they sign up so they can see the menu and order
+
+  3. Security
+    - Enable RLS on restaurants and restaurant_members
+    - Users can read their locations and the members of them, managers manage both
+    - Restrictive policies on all location-scoped tables limit every query to the current
+      location of the user, on top of the existing role based policies
+    - `switch_restaurant` changes the current location (members only)
+    - `add_restaurant_member` lets a manager add a user to their current location by e-mail
+    - `get_location_orders` returns the orders of all locations of a manager for
+      cross-location reporting
+
+  4. Notes
+    - The current location is stored per user, switching it applies to all open sessions
+      of that user
+*/
+
+-- Create restaurants table
+CREATE TABLE IF NOT EXISTS restaurants (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  address text,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Create restaurant_members table
+CREATE TABLE IF NOT EXISTS restaurant_members (
+  restaurant_id uuid NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (restaurant_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_restaurant_members_user_id ON restaurant_members(user_id);
+
+-- First location for the existing data, named after the company if it is set
+INSERT INTO restaurants (name)
+SELECT COALESCE(NULLIF((SELECT name FROM company_settings LIMIT 1), ''), 'Hauptstandort')
+WHERE NOT EXISTS (SELECT 1 FROM restaurants);
+
+-- Add current location to users
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'users' AND column_name = 'current_restaurant_id'
+  ) THEN
+    ALTER TABLE users ADD COLUMN current_restaurant_id uuid REFERENCES restaurants(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+INSERT INTO restaurant_members (restaurant_id, user_id)
+SELECT (SELECT id FROM restaurants ORDER BY created_at, id LIMIT 1), users.id
+FROM users
+ON CONFLICT DO NOTHING;
+
+UPDATE users
+SET current_restaurant_id = (SELECT id FROM restaurants ORDER BY created_at, id LIMIT 1)
+WHERE current_restaurant_id IS NULL;
+
+-- Membership check without going through the RLS of restaurant_members
+CREATE OR REPLACE FUNCTION is_restaurant_member(target_restaurant_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM restaurant_members
+    WHERE restaurant_members.restaurant_id = target_restaurant_id
+    AND restaurant_members.user_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Location the signed in user is working in, null if they are no member of it (anymore)
+CREATE OR REPLACE FUNCTION current_restaurant_id()
+RETURNS uuid AS $$
+  SELECT users.current_restaurant_id
+  FROM users
+  JOIN restaurant_members
+    ON restaurant_members.restaurant_id = users.current_restaurant_id
+    AND restaurant_members.user_id = users.id
+  WHERE users.id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Add restaurant_id to all location-scoped tables
+DO $$
+DECLARE
+  scoped_table text;
+  first_restaurant_id uuid;
+BEGIN
+  SELECT id INTO first_restaurant_id FROM restaurants ORDER BY created_at, id LIMIT 1;
+
+  FOREACH scoped_table IN ARRAY ARRAY[
+    'menu_items', 'orders', 'inventory_items', 'restaurant_tables', 'floor_areas', 'tax_rates',
+    'number_sequences', 'datev_settings', 'company_settings', 'company_settings_audit', 'invoice_emails'
+  ]
+  LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM information_schema.columns
+      WHERE table_name = scoped_table AND column_name = 'restaurant_id'
+    ) THEN
+      EXECUTE format('ALTER TABLE %I ADD COLUMN restaurant_id uuid REFERENCES restaurants(id) ON DELETE CASCADE', scoped_table);
+      EXECUTE format('UPDATE %I SET restaurant_id = %L', scoped_table, first_restaurant_id);
+      EXECUTE format('ALTER TABLE %I ALTER COLUMN restaurant_id SET NOT NULL', scoped_table);
+      EXECUTE format('ALTER TABLE %I ALTER COLUMN restaurant_id SET DEFAULT current_restaurant_id()', scoped_table);
+      EXECUTE format('CREATE INDEX IF NOT EXISTS %I ON %I(restaurant_id)', 'idx_' || scoped_table || '_restaurant_id', scoped_table);
+    END IF;
+  END LOOP;
+END $$;
+
+-- Unique per location instead of globally
+ALTER TABLE restaurant_tables DROP CONSTRAINT IF EXISTS restaurant_tables_number_key;
+ALTER TABLE restaurant_tables ADD CONSTRAINT restaurant_tables_restaurant_number_key UNIQUE (restaurant_id, number);
+
+ALTER TABLE floor_areas DROP CONSTRAINT IF EXISTS floor_areas_name_key;
+ALTER TABLE floor_areas ADD CONSTRAINT floor_areas_restaurant_name_key UNIQUE (restaurant_id, name);
+
+ALTER TABLE tax_rates DROP CONSTRAINT IF EXISTS tax_rates_tax_category_service_type_key;
+ALTER TABLE tax_rates ADD CONSTRAINT tax_rates_restaurant_category_service_type_key UNIQUE (restaurant_id, tax_category, service_type);
+
+ALTER TABLE orders DROP CONSTRAINT IF EXISTS orders_order_number_key;
+ALTER TABLE orders ADD CONSTRAINT orders_restaurant_order_number_key UNIQUE (restaurant_id, order_number);
+
+ALTER TABLE number_sequences DROP CONSTRAINT IF EXISTS number_sequences_pkey;
+ALTER TABLE number_sequences ADD PRIMARY KEY (restaurant_id, name);
+
+-- One settings row per location
+ALTER TABLE datev_settings DROP CONSTRAINT IF EXISTS datev_settings_pkey;
+ALTER TABLE datev_settings DROP COLUMN IF EXISTS id;
+ALTER TABLE datev_settings ADD PRIMARY KEY (restaurant_id);
+
+ALTER TABLE company_settings DROP CONSTRAINT IF EXISTS company_settings_pkey;
+ALTER TABLE company_settings DROP COLUMN IF EXISTS id;
+ALTER TABLE company_settings ADD PRIMARY KEY (restaurant_id);
+
+-- Assign the next number of the order sequence of the order's location
+CREATE OR REPLACE FUNCTION assign_order_number()
+RETURNS TRIGGER AS $$
+DECLARE
+  number_year integer;
+  next_value bigint;
+  number_format text;
+BEGIN
+  -- The server time decides, a wrong clock on a device must not reset the counter
+  NEW.created_at := now();
+  number_year := extract(year FROM NEW.created_at AT TIME ZONE 'Europe/Berlin')::integer;
+
+  UPDATE number_sequences
+  SET
+    last_value = CASE
+      WHEN reset_yearly AND number_year > current_year THEN 1
+      ELSE last_value + 1
+    END,
+    current_year = GREATEST(current_year, number_year),
+    updated_at = now()
+  WHERE name = 'order'
+  AND restaurant_id = NEW.restaurant_id
+  RETURNING last_value, format INTO next_value, number_format;
+
+  IF next_value IS NULL THEN
+    RAISE EXCEPTION 'Number sequence "order" is missing for restaurant %', NEW.restaurant_id;
+  END IF;
+
+  NEW.sequence_number := next_value;
+  NEW.order_number := format_sequence_number(number_format, next_value, NEW.created_at);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Look up the VAT rate of a menu item for an order, using the rates of the order's location
+CREATE OR REPLACE FUNCTION lookup_vat_rate(target_menu_item_id uuid, target_order_id uuid)
+RETURNS numeric AS $$
+  SELECT tax_rates.rate
+  FROM menu_items
+  JOIN orders ON orders.id = target_order_id
+  JOIN tax_rates
+    ON tax_rates.tax_category = menu_items.tax_category
+    AND tax_rates.service_type = orders.service_type
+    AND tax_rates.restaurant_id = orders.restaurant_id
+  WHERE menu_items.id = target_menu_item_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Log changed fields of the company settings
+CREATE OR REPLACE FUNCTION log_company_settings_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  changed jsonb;
+BEGIN
+  SELECT jsonb_object_agg(
+    new_values.key,
+    jsonb_build_object('old', old_values.value, 'new', new_values.value)
+  )
+  INTO changed
+  FROM jsonb_each(to_jsonb(NEW)) AS new_values
+  LEFT JOIN jsonb_each(
+    CASE WHEN TG_OP = 'UPDATE' THEN to_jsonb(OLD) ELSE '{}'::jsonb END
+  ) AS old_values ON old_values.key = new_values.key
+  WHERE new_values.key NOT IN ('restaurant_id', 'updated_at', 'updated_by')
+  AND new_values.value IS DISTINCT FROM old_values.value;
+
+  IF changed IS NOT NULL THEN
+    INSERT INTO company_settings_audit (restaurant_id, changes, changed_by)
+    VALUES (NEW.restaurant_id, changed, auth.uid());
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Menu availability only depends on the inventory of the same location
+CREATE OR REPLACE FUNCTION update_menu_item_availability()
+RETURNS TRIGGER AS $$
+DECLARE
+  menu_item_record RECORD;
+  inventory_item_record RECORD;
+  all_critical_ingredients_available BOOLEAN;
+  inventory_item_name TEXT;
+BEGIN
+  -- For all menu items that require the updated inventory item
+  FOR menu_item_record IN
+    SELECT id, name, required_inventory
+    FROM menu_items
+    WHERE required_inventory @> ARRAY[NEW.name]::text[]
+    AND restaurant_id = NEW.restaurant_id
+  LOOP
+    -- Check if all CRITICAL required inventory items are available
+    all_critical_ingredients_available := TRUE;
+
+    -- Loop through each required ingredient for this menu item
+    FOREACH inventory_item_name IN ARRAY menu_item_record.required_inventory
+    LOOP
+      -- Check if this ingredient is critical and out of stock
+      SELECT * INTO inventory_item_record
+      FROM inventory_items
+      WHERE name = inventory_item_name
+      AND restaurant_id = NEW.restaurant_id;
+
+      -- Skip if inventory item doesn't exist
+      CONTINUE WHEN inventory_item_record IS NULL;
+
+      -- Only mark as unavailable if critical ingredient is out of stock
+      IF inventory_item_record.is_critical = true AND inventory_item_record.quantity <= 0 THEN
+        all_critical_ingredients_available := FALSE;
+        EXIT; -- Exit loop early if any critical ingredient is unavailable
+      END IF;
+    END LOOP;
+
+    -- Update menu item availability based on critical ingredients only
+    UPDATE menu_items
+    SET available = all_critical_ingredients_available
+    WHERE id = menu_item_record.id;
+
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- A new location starts with its own number sequence, tax rates and DATEV settings
+CREATE OR REPLACE FUNCTION seed_restaurant()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO number_sequences (restaurant_id, name)
+  VALUES (NEW.id, 'order')
+  ON CONFLICT DO NOTHING;
+
+  INSERT INTO tax_rates (restaurant_id, tax_category, service_type, rate, datev_bu_key)
+  VALUES
+    (NEW.id, 'food', 'dine_in', 7, '2'),
+    (NEW.id, 'food', 'takeaway', 7, '2'),
+    (NEW.id, 'beverage', 'dine_in', 19, '3'),
+    (NEW.id, 'beverage', 'takeaway', 19, '3')
+  ON CONFLICT DO NOTHING;
+
+  INSERT INTO datev_settings (restaurant_id)
+  VALUES (NEW.id)
+  ON CONFLICT DO NOTHING;
+
+  -- The manager creating the location works there
+  IF auth.uid() IS NOT NULL THEN
+    INSERT INTO restaurant_members (restaurant_id, user_id)
+    VALUES (NEW.id, auth.uid())
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_seed_restaurant ON restaurants;
+CREATE TRIGGER trigger_seed_restaurant
+  AFTER INSERT ON restaurants
+  FOR EACH ROW
+  EXECUTE FUNCTION seed_restaurant();
+
+-- A user works at the first location they are added to
+CREATE OR REPLACE FUNCTION set_member_current_restaurant()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE users
+  SET current_restaurant_id = NEW.restaurant_id
+  WHERE id = NEW.user_id
+  AND current_restaurant_id IS NULL;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_set_member_current_restaurant ON restaurant_members;
+CREATE TRIGGER trigger_set_member_current_restaurant
+  AFTER INSERT ON restaurant_members
+  FOR EACH ROW
+  EXECUTE FUNCTION set_member_current_restaurant();
+
+-- Customers order at the first location, staff wait until a manager adds them
+CREATE OR REPLACE FUNCTION add_customer_to_first_restaurant()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO restaurant_members (restaurant_id, user_id)
+  SELECT id, NEW.id
+  FROM restaurants
+  ORDER BY created_at, id
+  LIMIT 1
+  ON CONFLICT DO NOTHING;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_add_customer_to_first_restaurant ON users;
+CREATE TRIGGER trigger_add_customer_to_first_restaurant
+  AFTER INSERT ON users
+  FOR EACH ROW
+  WHEN (NEW.role = 'customer')
+  EXECUTE FUNCTION add_customer_to_first_restaurant();
+
+-- Add a signed up user to the current location of the manager.
+-- Managers can't read other users, so the user is looked up by e-mail here
+CREATE OR REPLACE FUNCTION add_restaurant_member(member_email text)
+RETURNS uuid AS $$
+DECLARE
+  member_id uuid;
+BEGIN
+  IF current_restaurant_id() IS NULL OR NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE users.id = auth.uid()
+    AND users.role = 'manager'
+  ) THEN
+    RAISE EXCEPTION 'Only managers of a location can add members';
+  END IF;
+
+  SELECT id INTO member_id
+  FROM users
+  WHERE lower(email) = lower(trim(member_email));
+
+  IF member_id IS NULL THEN
+    RAISE EXCEPTION 'No user with e-mail %', member_email;
+  END IF;
+
+  INSERT INTO restaurant_members (restaurant_id, user_id)
+  VALUES (current_restaurant_id(), member_id)
+  ON CONFLICT DO NOTHING;
+
+  RETURN member_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Change the location the signed in user works in
+CREATE OR REPLACE FUNCTION switch_restaurant(target_restaurant_id uuid)
+RETURNS void AS $$
+BEGIN
+  IF NOT is_restaurant_member(target_restaurant_id) THEN
+    RAISE EXCEPTION 'Not a member of restaurant %', target_restaurant_id;
+  END IF;
+
+  UPDATE users SET current_restaurant_id = target_restaurant_id WHERE id = auth.uid();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Orders of all locations of the signed in manager, for cross-location reports
+CREATE OR REPLACE FUNCTION get_location_orders(start_at timestamptz, end_at timestamptz)
+RETURNS TABLE (
+  id uuid,
+  restaurant_id uuid,
+  restaurant_name text,
+  order_number text,
+  customer_name text,
+  table_number integer,
+  total numeric,
+  status text,
+  created_at timestamptz,
+  item_count bigint
+) AS $$
+  SELECT
+    orders.id,
+    orders.restaurant_id,
+    restaurants.name,
+    orders.order_number,
+    orders.customer_name,
+    orders.table_number,
+    orders.total,
+    orders.status,
+    orders.created_at,
+    COALESCE((SELECT sum(order_items.quantity) FROM order_items WHERE order_items.order_id = orders.id), 0)::bigint
+  FROM orders
+  JOIN restaurants ON restaurants.id = orders.restaurant_id
+  WHERE orders.created_at >= start_at
+  AND orders.created_at <= end_at
+  AND is_restaurant_member(orders.restaurant_id)
+  AND EXISTS (
+    SELECT 1 FROM users
+    WHERE users.id = auth.uid()
+    AND users.role = 'manager'
+  )
+  ORDER BY orders.created_at DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Enable RLS
+ALTER TABLE restaurants ENABLE ROW LEVEL SECURITY;
+ALTER TABLE restaurant_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can read their restaurants"
+  ON restaurants
+  FOR SELECT
+  TO authenticated
+  USING (is_restaurant_member(id));
+
+CREATE POLICY "Managers can create restaurants"
+  ON restaurants
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'manager'
+    )
+  );
+
+CREATE POLICY "Managers can update their restaurants"
+  ON restaurants
+  FOR UPDATE
+  TO authenticated
+  USING (
+    is_restaurant_member(id)
+    AND EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'manager'
+    )
+  );
+
+CREATE POLICY "Members can read members of their restaurants"
+  ON restaurant_members
+  FOR SELECT
+  TO authenticated
+  USING (is_restaurant_member(restaurant_id));
+
+CREATE POLICY "Managers can manage members of their restaurants"
+  ON restaurant_members
+  FOR ALL
+  TO authenticated
+  USING (
+    is_restaurant_member(restaurant_id)
+    AND EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'manager'
+    )
+  );
+
+-- Limit all location-scoped tables to the current location
+DO $$
+DECLARE
+  scoped_table text;
+BEGIN
+  FOREACH scoped_table IN ARRAY ARRAY[
+    'menu_items', 'orders', 'inventory_items', 'restaurant_tables', 'floor_areas', 'tax_rates',
+    'number_sequences', 'datev_settings', 'company_settings', 'company_settings_audit', 'invoice_emails'
+  ]
+  LOOP
+    EXECUTE format('DROP POLICY IF EXISTS "Current restaurant only" ON %I', scoped_table);
+    EXECUTE format(
+      'CREATE POLICY "Current restaurant only" ON %I AS RESTRICTIVE FOR ALL TO authenticated
+        USING (restaurant_id = current_restaurant_id())
+        WITH CHECK (restaurant_id = current_restaurant_id())',
+      scoped_table
+    );
+  END LOOP;
+END $$;
+
+DROP POLICY IF EXISTS "Current restaurant only" ON order_items;
+CREATE POLICY "Current restaurant only"
+  ON order_items
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = order_items.order_id
+      AND orders.restaurant_id = current_restaurant_id()
+    )
+  );
+
+DROP POLICY IF EXISTS "Current restaurant only" ON payments;
+CREATE POLICY "Current restaurant only"
+  ON payments
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = payments.order_id
+      AND orders.restaurant_id = current_restaurant_id()
+    )
+  );
+
+DROP POLICY IF EXISTS "Current restaurant only" ON payment_items;
+CREATE POLICY "Current restaurant only"
+  ON payment_items
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM payments
+      JOIN orders ON orders.id = payments.order_id
+      WHERE payments.id = payment_items.payment_id
+      AND orders.restaurant_id = current_restaurant_id()
+    )
+  );
+
+DROP POLICY IF EXISTS "Current restaurant only" ON floor_elements;
+CREATE POLICY "Current restaurant only"
+  ON floor_elements
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM floor_areas
+      WHERE floor_areas.id = floor_elements.area_id
+      AND floor_areas.restaurant_id = current_restaurant_id()
+    )
+  );
@@ -0,0 +1,48 @@
+/*
+  # Kitchen display system
+
+  1. Changes
+    - `orders.bumped_at` (timestamptz) - when the kitchen bumped the ticket off the KDS,
+      cleared again when the ticket is recalled
+    - Index on `orders.bumped_at` for the list of recently bumped tickets
+
+  2. Realtime
+    - Add `orders` and `order_items` to the `supabase_realtime` publication so that
+      several kitchen screens stay in sync
+
+  3. Notes
+    - Bumping sets the order and its food items to `ready`, recalling sets them back
+      to `preparing`. No new statuses are needed.
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'bumped_at'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN bumped_at timestamptz;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS orders_bumped_at_idx ON orders (bumped_at DESC) WHERE bumped_at IS NOT NULL;
+
+-- Publish changes for the KDS screens
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'orders'
+    ) THEN
+      ALTER PUBLICATION supabase_realtime ADD TABLE orders;
+    END IF;
+
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'order_items'
+    ) THEN
+      ALTER PUBLICATION supabase_realtime ADD TABLE order_items;
+    END IF;
+  END IF;
+END $$;
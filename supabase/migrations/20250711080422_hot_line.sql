@@ -0,0 +1,318 @@
+/*
+  # Stations for routing order items
+
+  1. New Tables
+    - `stations` - Places where order items are prepared (grill, fryer, cold kitchen, bar, ...)
+      - `id` (uuid, primary key)
+      - `restaurant_id` (uuid, references restaurants)
+      - `name` (text, unique per location)
+      - `kind` (text) - `kitchen` or `bar`, decides whether kitchen or bar staff work it
+      - `sort_order` (integer)
+      - `is_default` (boolean) - receives items without a station, one per location
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - `menu_items.station_id` - the station that prepares the item
+    - `order_items.station_id` - copied from the menu item when the item is ordered, so
+      changing the mapping during service doesn't move tickets between screens
+    - `order_items.bumped_at` - when the station bumped the item off the KDS. Replaces
+      `orders.bumped_at`, tickets are per station now
+    - Every location gets a default station "Küche" and a station "Bar". Existing menu
+      items and order items are mapped with the category rule used so far
+    - New menu items without a station go to the bar station if their VAT category is
+      beverage, otherwise to the default station
+    - The order status follows its items: `preparing` once a station started, `ready`
+      only when all stations are done
+
+  3. Security
+    - Enable RLS on stations
+    - All staff can read stations, only managers can change them
+    - `set_default_station` moves the default of the current location to another station
+      in one transaction (managers only)
+    - Stations are scoped to the current location like the other location tables
+
+  4. Notes
+    - Deleting a station sends its menu items to the default station again
+*/
+
+-- Create stations table
+CREATE TABLE IF NOT EXISTS stations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL DEFAULT current_restaurant_id() REFERENCES restaurants(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  kind text NOT NULL DEFAULT 'kitchen' CHECK (kind IN ('kitchen', 'bar')),
+  sort_order integer NOT NULL DEFAULT 0,
+  is_default boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (restaurant_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_stations_restaurant_id ON stations(restaurant_id);
+CREATE UNIQUE INDEX IF NOT EXISTS stations_one_default_idx ON stations(restaurant_id) WHERE is_default;
+
+-- Default stations for the existing locations
+INSERT INTO stations (restaurant_id, name, kind, sort_order, is_default)
+SELECT id, 'Küche', 'kitchen', 0, true FROM restaurants
+ON CONFLICT DO NOTHING;
+
+INSERT INTO stations (restaurant_id, name, kind, sort_order)
+SELECT id, 'Bar', 'bar', 1 FROM restaurants
+ON CONFLICT DO NOTHING;
+
+-- Station columns
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'menu_items' AND column_name = 'station_id'
+  ) THEN
+    ALTER TABLE menu_items ADD COLUMN station_id uuid REFERENCES stations(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'order_items' AND column_name = 'station_id'
+  ) THEN
+    ALTER TABLE order_items ADD COLUMN station_id uuid REFERENCES stations(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'order_items' AND column_name = 'bumped_at'
+  ) THEN
+    ALTER TABLE order_items ADD COLUMN bumped_at timestamptz;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_order_items_station_id ON order_items(station_id);
+CREATE INDEX IF NOT EXISTS order_items_bumped_at_idx ON order_items (bumped_at DESC) WHERE bumped_at IS NOT NULL;
+
+-- Bumps are recorded per station now
+DROP INDEX IF EXISTS orders_bumped_at_idx;
+ALTER TABLE orders DROP COLUMN IF EXISTS bumped_at;
+
+-- Map the existing menu with the category rule the screens used so far
+UPDATE menu_items
+SET station_id = stations.id
+FROM stations
+WHERE stations.restaurant_id = menu_items.restaurant_id
+AND menu_items.station_id IS NULL
+AND (
+  (stations.kind = 'bar' AND stations.name = 'Bar'
+    AND menu_items.category ~* '(drink|beverage|alcohol|coffee|tea|wine|beer|cocktail)')
+  OR (stations.is_default
+    AND menu_items.category !~* '(drink|beverage|alcohol|coffee|tea|wine|beer|cocktail)')
+);
+
+UPDATE order_items
+SET station_id = menu_items.station_id
+FROM menu_items
+WHERE menu_items.id = order_items.menu_item_id
+AND order_items.station_id IS NULL;
+
+-- Station of a menu item, falls back to the default station of its location
+CREATE OR REPLACE FUNCTION lookup_station(target_menu_item_id uuid)
+RETURNS uuid AS $$
+  SELECT COALESCE(
+    menu_items.station_id,
+    (SELECT stations.id FROM stations WHERE stations.restaurant_id = menu_items.restaurant_id AND stations.is_default)
+  )
+  FROM menu_items
+  WHERE menu_items.id = target_menu_item_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Pick a station for new menu items
+CREATE OR REPLACE FUNCTION set_menu_item_station()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.station_id IS NULL AND NEW.tax_category = 'beverage' THEN
+    SELECT id INTO NEW.station_id
+    FROM stations
+    WHERE restaurant_id = NEW.restaurant_id AND kind = 'bar'
+    ORDER BY sort_order, name
+    LIMIT 1;
+  END IF;
+
+  IF NEW.station_id IS NULL THEN
+    SELECT id INTO NEW.station_id
+    FROM stations
+    WHERE restaurant_id = NEW.restaurant_id AND is_default;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_set_menu_item_station ON menu_items;
+CREATE TRIGGER trigger_set_menu_item_station
+  BEFORE INSERT ON menu_items
+  FOR EACH ROW
+  EXECUTE FUNCTION set_menu_item_station();
+
+-- Route every new order item to the station of its menu item
+CREATE OR REPLACE FUNCTION set_order_item_station()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.station_id IS NULL THEN
+    NEW.station_id = lookup_station(NEW.menu_item_id);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_set_order_item_station ON order_items;
+CREATE TRIGGER trigger_set_order_item_station
+  BEFORE INSERT ON order_items
+  FOR EACH ROW
+  EXECUTE FUNCTION set_order_item_station();
+
+-- The order is ready when all its items are, whichever station made them
+CREATE OR REPLACE FUNCTION sync_order_status()
+RETURNS TRIGGER AS $$
+DECLARE
+  target_order_id uuid;
+  all_ready boolean;
+  any_started boolean;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    target_order_id = OLD.order_id;
+  ELSE
+    target_order_id = NEW.order_id;
+  END IF;
+
+  SELECT bool_and(status = 'ready'), bool_or(status <> 'pending')
+  INTO all_ready, any_started
+  FROM order_items
+  WHERE order_id = target_order_id;
+
+  -- No items left
+  IF all_ready IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- Nothing started yet, keep the status the order has
+  IF NOT any_started THEN
+    RETURN NULL;
+  END IF;
+
+  -- Served and completed orders stay as they are
+  UPDATE orders
+  SET status = CASE WHEN all_ready THEN 'ready' ELSE 'preparing' END
+  WHERE id = target_order_id
+  AND status IN ('pending', 'preparing', 'ready')
+  AND status <> CASE WHEN all_ready THEN 'ready' ELSE 'preparing' END;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_sync_order_status ON order_items;
+CREATE TRIGGER trigger_sync_order_status
+  AFTER INSERT OR DELETE OR UPDATE OF status ON order_items
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_order_status();
+
+-- New locations get the default stations too
+CREATE OR REPLACE FUNCTION seed_restaurant()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO number_sequences (restaurant_id, name)
+  VALUES (NEW.id, 'order')
+  ON CONFLICT DO NOTHING;
+
+  INSERT INTO tax_rates (restaurant_id, tax_category, service_type, rate, datev_bu_key)
+  VALUES
+    (NEW.id, 'food', 'dine_in', 7, '2'),
+    (NEW.id, 'food', 'takeaway', 7, '2'),
+    (NEW.id, 'beverage', 'dine_in', 19, '3'),
+    (NEW.id, 'beverage', 'takeaway', 19, '3')
+  ON CONFLICT DO NOTHING;
+
+  INSERT INTO datev_settings (restaurant_id)
+  VALUES (NEW.id)
+  ON CONFLICT DO NOTHING;
+
+  INSERT INTO stations (restaurant_id, name, kind, sort_order, is_default)
+  VALUES
+    (NEW.id, 'Küche', 'kitchen', 0, true),
+    (NEW.id, 'Bar', 'bar', 1, false)
+  ON CONFLICT DO NOTHING;
+
+  -- The manager creating the location works there
+  IF auth.uid() IS NOT NULL THEN
+    INSERT INTO restaurant_members (restaurant_id, user_id)
+    VALUES (NEW.id, auth.uid())
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Move the default of the current location to another station. The old default is
+-- cleared first, the unique index allows only one per location
+CREATE OR REPLACE FUNCTION set_default_station(target_station_id uuid)
+RETURNS void AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE users.id = auth.uid()
+    AND users.role = 'manager'
+  ) THEN
+    RAISE EXCEPTION 'Only managers can change the default station';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM stations
+    WHERE id = target_station_id
+    AND restaurant_id = current_restaurant_id()
+  ) THEN
+    RAISE EXCEPTION 'Station not found';
+  END IF;
+
+  UPDATE stations
+  SET is_default = false
+  WHERE restaurant_id = current_restaurant_id()
+  AND is_default
+  AND id <> target_station_id;
+
+  UPDATE stations
+  SET is_default = true
+  WHERE id = target_station_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Enable RLS
+ALTER TABLE stations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can read stations"
+  ON stations
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('manager', 'waiter', 'kitchen', 'bar')
+    )
+  );
+
+CREATE POLICY "Managers can manage stations"
+  ON stations
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'manager'
+    )
+  );
+
+CREATE POLICY "Current restaurant only"
+  ON stations
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING (restaurant_id = current_restaurant_id())
+  WITH CHECK (restaurant_id = current_restaurant_id());
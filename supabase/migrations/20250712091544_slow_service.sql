@@ -0,0 +1,72 @@
+/*
+  # Course firing
+
+  1. Changes
+    - `order_items.course` (smallint) - 1 starter, 2 main, 3 dessert. Items without a
+      course (drinks, quick orders) go to the stations right away
+    - `order_items.fired_at` (timestamptz) - when the item was sent to its station.
+      Held courses are inserted without it and stay off the kitchen screens until the
+      waiter fires them. Defaults to the insert time, so screens that don't know about
+      courses keep sending everything at once
+    - Existing items count as fired when they were ordered
+
+  2. New Functions
+    - `fire_course(target_table_number, target_course)` - fires the held items of one
+      course on all open orders of a table and returns how many items were fired
+
+  3. Security
+    - `fire_course` runs as definer so any waiter can fire a table, not only the one who
+      took the order. It checks the role itself and only touches the current location
+
+  4. Notes
+    - Held items stay `pending`, so the order isn't ready before its last course is
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'order_items' AND column_name = 'course'
+  ) THEN
+    ALTER TABLE order_items ADD COLUMN course smallint CHECK (course > 0);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'order_items' AND column_name = 'fired_at'
+  ) THEN
+    ALTER TABLE order_items ADD COLUMN fired_at timestamptz DEFAULT now();
+    UPDATE order_items SET fired_at = COALESCE(created_at, now());
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS order_items_held_idx ON order_items (order_id, course) WHERE fired_at IS NULL;
+
+-- Send a held course of a table to the stations
+CREATE OR REPLACE FUNCTION fire_course(target_table_number integer, target_course smallint)
+RETURNS integer AS $$
+DECLARE
+  fired_count integer;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE users.id = auth.uid()
+    AND users.role IN ('manager', 'waiter')
+  ) THEN
+    RAISE EXCEPTION 'Only waiters and managers can fire courses';
+  END IF;
+
+  UPDATE order_items
+  SET fired_at = now()
+  FROM orders
+  WHERE orders.id = order_items.order_id
+  AND orders.restaurant_id = current_restaurant_id()
+  AND orders.table_number = target_table_number
+  AND orders.status IN ('pending', 'preparing', 'ready')
+  AND order_items.course = target_course
+  AND order_items.fired_at IS NULL;
+
+  GET DIAGNOSTICS fired_count = ROW_COUNT;
+  RETURN fired_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
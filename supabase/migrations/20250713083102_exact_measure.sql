@@ -0,0 +1,287 @@
+/*
+  # Recipes with quantities and units
+
+  1. New Tables
+    - `recipe_items` - What one recipe of a menu item takes from the inventory
+      - `id` (uuid, primary key)
+      - `restaurant_id` (uuid, references restaurants)
+      - `menu_item_id` (uuid, references menu_items)
+      - `inventory_item_id` (uuid, references inventory_items)
+      - `quantity` (numeric) - amount in `unit`
+      - `unit` (text) - `ml`, `cl`, `l`, `g`, `kg` or `pcs`
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - `menu_items.recipe_yield` - portions one recipe makes, e.g. a pot of soup for 20 plates
+    - `inventory_items.content_amount` / `content_unit` - content of one stock unit when
+      the stock is counted in containers, e.g. 70 cl per bottle
+    - `menu_items.required_inventory` is moved into `recipe_items` with one stock unit per
+      ingredient, which is what was subtracted so far, and dropped
+    - Bottle sizes like "750ml" are taken from the notes of the inventory items
+    - `update_menu_item_availability` is rebuilt on the recipes: a menu item is available
+      while every critical ingredient has stock for at least one portion
+
+  3. New Functions
+    - `normalize_unit`, `unit_dimension`, `unit_base_factor` - unit conversion helpers
+    - `stock_quantity(amount, unit, inventory_item)` - amount in the stock unit of the
+      inventory item, NULL when the units can't be converted
+    - `consume_recipe_stock(menu_item_id, portions)` - takes the ingredients of the given
+      portions out of the inventory
+
+  4. Security
+    - Enable RLS on recipe_items
+    - All staff can read recipes, only managers can change them
+    - `consume_recipe_stock` runs as definer so kitchen staff can deplete the stock without
+      being allowed to edit the inventory
+*/
+
+-- Create recipe_items table
+CREATE TABLE IF NOT EXISTS recipe_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL DEFAULT current_restaurant_id() REFERENCES restaurants(id) ON DELETE CASCADE,
+  menu_item_id uuid NOT NULL REFERENCES menu_items(id) ON DELETE CASCADE,
+  inventory_item_id uuid NOT NULL REFERENCES inventory_items(id) ON DELETE CASCADE,
+  quantity numeric(10,3) NOT NULL CHECK (quantity > 0),
+  unit text NOT NULL CHECK (unit IN ('ml', 'cl', 'l', 'g', 'kg', 'pcs')),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (menu_item_id, inventory_item_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_recipe_items_restaurant_id ON recipe_items(restaurant_id);
+CREATE INDEX IF NOT EXISTS idx_recipe_items_inventory_item_id ON recipe_items(inventory_item_id);
+
+-- Yield and container content
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'menu_items' AND column_name = 'recipe_yield'
+  ) THEN
+    ALTER TABLE menu_items ADD COLUMN recipe_yield numeric(10,2) NOT NULL DEFAULT 1 CHECK (recipe_yield > 0);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'inventory_items' AND column_name = 'content_amount'
+  ) THEN
+    ALTER TABLE inventory_items ADD COLUMN content_amount numeric(10,3) CHECK (content_amount > 0);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'inventory_items' AND column_name = 'content_unit'
+  ) THEN
+    ALTER TABLE inventory_items ADD COLUMN content_unit text CHECK (content_unit IN ('ml', 'cl', 'l', 'g', 'kg', 'pcs'));
+  END IF;
+END $$;
+
+-- Maps the unit names used in the inventory to recipe units
+CREATE OR REPLACE FUNCTION normalize_unit(unit_name text)
+RETURNS text AS $$
+  SELECT CASE
+    WHEN lower(trim(unit_name)) IN ('ml', 'milliliter', 'milliliters', 'millilitre', 'millilitres') THEN 'ml'
+    WHEN lower(trim(unit_name)) IN ('cl', 'centiliter', 'centiliters', 'centilitre', 'centilitres') THEN 'cl'
+    WHEN lower(trim(unit_name)) IN ('l', 'liter', 'liters', 'litre', 'litres') THEN 'l'
+    WHEN lower(trim(unit_name)) IN ('g', 'gram', 'grams', 'gramm') THEN 'g'
+    WHEN lower(trim(unit_name)) IN ('kg', 'kilo', 'kilogram', 'kilograms', 'kilogramm') THEN 'kg'
+    WHEN lower(trim(unit_name)) IN ('pcs', 'pc', 'piece', 'pieces', 'stück', 'stk') THEN 'pcs'
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION unit_dimension(unit_name text)
+RETURNS text AS $$
+  SELECT CASE normalize_unit(unit_name)
+    WHEN 'ml' THEN 'volume'
+    WHEN 'cl' THEN 'volume'
+    WHEN 'l' THEN 'volume'
+    WHEN 'g' THEN 'mass'
+    WHEN 'kg' THEN 'mass'
+    WHEN 'pcs' THEN 'count'
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- How many ml, g or pieces one unit holds
+CREATE OR REPLACE FUNCTION unit_base_factor(unit_name text)
+RETURNS numeric AS $$
+  SELECT CASE normalize_unit(unit_name)
+    WHEN 'cl' THEN 10
+    WHEN 'l' THEN 1000
+    WHEN 'kg' THEN 1000
+    ELSE 1
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- An amount in the unit the inventory item is counted in
+CREATE OR REPLACE FUNCTION stock_quantity(amount numeric, amount_unit text, item inventory_items)
+RETURNS numeric AS $$
+BEGIN
+  -- Stock counted in a measurable unit, e.g. liters or kg
+  IF unit_dimension(item.unit) = unit_dimension(amount_unit) THEN
+    RETURN amount * unit_base_factor(amount_unit) / unit_base_factor(item.unit);
+  END IF;
+
+  -- Stock counted in containers of a known content, e.g. bottles of 70 cl
+  IF item.content_amount > 0 AND unit_dimension(item.content_unit) = unit_dimension(amount_unit) THEN
+    RETURN amount * unit_base_factor(amount_unit) / (item.content_amount * unit_base_factor(item.content_unit));
+  END IF;
+
+  -- Pieces of stock counted in containers, e.g. one bottle of tonic or one bunch of mint
+  IF normalize_unit(amount_unit) = 'pcs' AND normalize_unit(item.unit) IS NULL THEN
+    RETURN amount;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Bottle sizes written in the notes so far
+UPDATE inventory_items
+SET content_amount = substring(lower(notes) FROM '(\d+)\s*ml')::numeric,
+    content_unit = 'ml'
+WHERE content_amount IS NULL
+AND normalize_unit(unit) IS NULL
+AND lower(notes) ~ '\d+\s*ml';
+
+-- Move the ingredient lists into recipes, one stock unit each like before
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'menu_items' AND column_name = 'required_inventory'
+  ) THEN
+    INSERT INTO recipe_items (restaurant_id, menu_item_id, inventory_item_id, quantity, unit)
+    SELECT menu_items.restaurant_id, menu_items.id, inventory_items.id, 1, COALESCE(normalize_unit(inventory_items.unit), 'pcs')
+    FROM menu_items
+    CROSS JOIN LATERAL unnest(menu_items.required_inventory) AS ingredient(name)
+    JOIN inventory_items ON inventory_items.name = ingredient.name
+      AND inventory_items.restaurant_id = menu_items.restaurant_id
+    ON CONFLICT DO NOTHING;
+
+    ALTER TABLE menu_items DROP COLUMN required_inventory;
+  END IF;
+END $$;
+
+-- A menu item with a recipe is available while its critical ingredients last for one portion
+CREATE OR REPLACE FUNCTION refresh_menu_item_availability(target_menu_item_id uuid)
+RETURNS void AS $$
+  UPDATE menu_items
+  SET available = NOT EXISTS (
+    SELECT 1
+    FROM recipe_items
+    JOIN inventory_items ON inventory_items.id = recipe_items.inventory_item_id
+    WHERE recipe_items.menu_item_id = menu_items.id
+    AND inventory_items.is_critical = true
+    AND (
+      inventory_items.quantity <= 0
+      OR inventory_items.quantity < COALESCE(
+        stock_quantity(recipe_items.quantity, recipe_items.unit, inventory_items) / menu_items.recipe_yield,
+        0
+      )
+    )
+  )
+  WHERE id = target_menu_item_id
+  AND EXISTS (SELECT 1 FROM recipe_items WHERE menu_item_id = target_menu_item_id);
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION update_menu_item_availability()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM refresh_menu_item_availability(menu_item_id)
+  FROM recipe_items
+  WHERE inventory_item_id = NEW.id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_update_menu_item_availability ON inventory_items;
+CREATE TRIGGER trigger_update_menu_item_availability
+  AFTER UPDATE ON inventory_items
+  FOR EACH ROW
+  EXECUTE FUNCTION update_menu_item_availability();
+
+-- Changing a recipe can make its menu item available or sold out
+CREATE OR REPLACE FUNCTION update_recipe_availability()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM refresh_menu_item_availability(OLD.menu_item_id);
+  ELSE
+    PERFORM refresh_menu_item_availability(NEW.menu_item_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_update_recipe_availability ON recipe_items;
+CREATE TRIGGER trigger_update_recipe_availability
+  AFTER INSERT OR UPDATE OR DELETE ON recipe_items
+  FOR EACH ROW
+  EXECUTE FUNCTION update_recipe_availability();
+
+-- Takes the ingredients of the given portions out of the inventory. Ingredients whose
+-- units can't be converted are skipped, stock doesn't go below zero
+CREATE OR REPLACE FUNCTION consume_recipe_stock(target_menu_item_id uuid, portions numeric)
+RETURNS void AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE users.id = auth.uid()
+    AND users.role IN ('manager', 'kitchen', 'bar')
+  ) THEN
+    RAISE EXCEPTION 'Only kitchen, bar and managers can consume stock';
+  END IF;
+
+  UPDATE inventory_items
+  SET quantity = GREATEST(0, inventory_items.quantity - consumption.quantity),
+      last_updated = now()
+  FROM (
+    SELECT
+      recipe_items.inventory_item_id,
+      stock_quantity(recipe_items.quantity, recipe_items.unit, stock) * portions / menu_items.recipe_yield AS quantity
+    FROM recipe_items
+    JOIN menu_items ON menu_items.id = recipe_items.menu_item_id
+    JOIN inventory_items stock ON stock.id = recipe_items.inventory_item_id
+    WHERE recipe_items.menu_item_id = target_menu_item_id
+    AND menu_items.restaurant_id = current_restaurant_id()
+  ) consumption
+  WHERE inventory_items.id = consumption.inventory_item_id
+  AND consumption.quantity IS NOT NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Enable RLS
+ALTER TABLE recipe_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can read recipes"
+  ON recipe_items
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('manager', 'waiter', 'kitchen', 'bar')
+    )
+  );
+
+CREATE POLICY "Managers can manage recipes"
+  ON recipe_items
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'manager'
+    )
+  );
+
+CREATE POLICY "Current restaurant only"
+  ON recipe_items
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING (restaurant_id = current_restaurant_id())
+  WITH CHECK (restaurant_id = current_restaurant_id());
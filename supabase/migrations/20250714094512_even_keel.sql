@@ -0,0 +1,185 @@
+/*
+  # Server-side stock consumption
+
+  1. New Tables
+    - `inventory_movements` - Every change the orders make to the stock
+      - `id` (uuid, primary key)
+      - `restaurant_id` (uuid, references restaurants)
+      - `inventory_item_id` (uuid, references inventory_items)
+      - `order_item_id` (uuid, references order_items) - the order item that caused it
+      - `movement_type` (text) - `consumption` or `restore`
+      - `quantity` (numeric) - change in the stock unit, negative when stock is taken
+      - `created_by` (uuid, references users)
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - `order_items.stock_consumed_at` (timestamptz) - when the recipe of the item was taken
+      out of the inventory, NULL while it isn't
+    - Items that are ready already count as consumed, the dashboards took their stock
+    - `inventory_items.quantity` keeps three decimals, a 4 cl shot is 0.057 of a bottle
+
+  3. New Functions
+    - `consume_order_item_stock` / `restore_order_item_stock` - take the recipe of an
+      order item out of the inventory and put back exactly what was taken
+    - Trigger on `order_items`: an item that becomes ready consumes its stock, an item
+      that goes back to pending or preparing restores it, a ready item whose quantity
+      changes is booked again
+
+  4. Security
+    - Enable RLS on inventory_movements
+    - All staff can read movements, nobody writes them directly
+    - The trigger runs as definer, so the bar and kitchen deplete the stock without being
+      allowed to edit the inventory
+
+  5. Notes
+    - Replaces `consume_recipe_stock`, the dashboards no longer touch the inventory
+    - Stock is locked row by row and doesn't go below zero. The movement records what was
+      really taken, so restoring never adds more than was there
+*/
+
+-- Create inventory_movements table
+CREATE TABLE IF NOT EXISTS inventory_movements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL DEFAULT current_restaurant_id() REFERENCES restaurants(id) ON DELETE CASCADE,
+  inventory_item_id uuid NOT NULL REFERENCES inventory_items(id) ON DELETE CASCADE,
+  order_item_id uuid REFERENCES order_items(id) ON DELETE SET NULL,
+  movement_type text NOT NULL CHECK (movement_type IN ('consumption', 'restore')),
+  quantity numeric(12,3) NOT NULL,
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_movements_restaurant_id ON inventory_movements(restaurant_id);
+CREATE INDEX IF NOT EXISTS idx_inventory_movements_inventory_item_id ON inventory_movements(inventory_item_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_inventory_movements_order_item_id ON inventory_movements(order_item_id);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'order_items' AND column_name = 'stock_consumed_at'
+  ) THEN
+    ALTER TABLE order_items ADD COLUMN stock_consumed_at timestamptz;
+    UPDATE order_items SET stock_consumed_at = COALESCE(bumped_at, now()) WHERE status = 'ready';
+  END IF;
+END $$;
+
+ALTER TABLE inventory_items ALTER COLUMN quantity TYPE numeric(12,3);
+
+-- Takes the recipe of an order item out of the inventory and logs what was taken
+CREATE OR REPLACE FUNCTION consume_order_item_stock(item order_items)
+RETURNS void AS $$
+DECLARE
+  ingredient record;
+  current_quantity numeric;
+  taken numeric;
+BEGIN
+  FOR ingredient IN
+    SELECT
+      recipe_items.inventory_item_id,
+      stock.restaurant_id,
+      stock_quantity(recipe_items.quantity, recipe_items.unit, stock) * item.quantity / menu_items.recipe_yield AS quantity
+    FROM recipe_items
+    JOIN menu_items ON menu_items.id = recipe_items.menu_item_id
+    JOIN inventory_items stock ON stock.id = recipe_items.inventory_item_id
+    WHERE recipe_items.menu_item_id = item.menu_item_id
+    ORDER BY recipe_items.inventory_item_id
+  LOOP
+    -- Ingredients whose units can't be converted are skipped
+    CONTINUE WHEN ingredient.quantity IS NULL OR ingredient.quantity <= 0;
+
+    SELECT quantity INTO current_quantity
+    FROM inventory_items
+    WHERE id = ingredient.inventory_item_id
+    FOR UPDATE;
+
+    taken := LEAST(GREATEST(current_quantity, 0), round(ingredient.quantity, 3));
+    CONTINUE WHEN taken <= 0;
+
+    UPDATE inventory_items
+    SET quantity = quantity - taken,
+        last_updated = now()
+    WHERE id = ingredient.inventory_item_id;
+
+    INSERT INTO inventory_movements (restaurant_id, inventory_item_id, order_item_id, movement_type, quantity, created_by)
+    VALUES (ingredient.restaurant_id, ingredient.inventory_item_id, item.id, 'consumption', -taken, auth.uid());
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Puts back what the movements of an order item took, whatever the recipe says now
+CREATE OR REPLACE FUNCTION restore_order_item_stock(item order_items)
+RETURNS void AS $$
+DECLARE
+  booked record;
+BEGIN
+  FOR booked IN
+    SELECT inventory_item_id, restaurant_id, -SUM(quantity) AS quantity
+    FROM inventory_movements
+    WHERE order_item_id = item.id
+    GROUP BY inventory_item_id, restaurant_id
+    HAVING SUM(quantity) < 0
+    ORDER BY inventory_item_id
+  LOOP
+    UPDATE inventory_items
+    SET quantity = quantity + booked.quantity,
+        last_updated = now()
+    WHERE id = booked.inventory_item_id;
+
+    INSERT INTO inventory_movements (restaurant_id, inventory_item_id, order_item_id, movement_type, quantity, created_by)
+    VALUES (booked.restaurant_id, booked.inventory_item_id, item.id, 'restore', booked.quantity, auth.uid());
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Keeps the stock in line with the status of the order item. stock_consumed_at makes it
+-- idempotent: marking a ready item ready again changes nothing
+CREATE OR REPLACE FUNCTION sync_order_item_stock()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'ready' AND NEW.stock_consumed_at IS NULL THEN
+    PERFORM consume_order_item_stock(NEW);
+    NEW.stock_consumed_at := now();
+  ELSIF NEW.status <> 'ready' AND NEW.stock_consumed_at IS NOT NULL THEN
+    PERFORM restore_order_item_stock(NEW);
+    NEW.stock_consumed_at := NULL;
+  ELSIF NEW.stock_consumed_at IS NOT NULL
+    AND (NEW.quantity <> OLD.quantity OR NEW.menu_item_id <> OLD.menu_item_id) THEN
+    PERFORM restore_order_item_stock(NEW);
+    PERFORM consume_order_item_stock(NEW);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_sync_order_item_stock ON order_items;
+CREATE TRIGGER trigger_sync_order_item_stock
+  BEFORE UPDATE OF status, quantity, menu_item_id ON order_items
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_order_item_stock();
+
+DROP FUNCTION IF EXISTS consume_recipe_stock(uuid, numeric);
+
+-- Enable RLS
+ALTER TABLE inventory_movements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can read inventory movements"
+  ON inventory_movements
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('manager', 'waiter', 'kitchen', 'bar')
+    )
+  );
+
+CREATE POLICY "Current restaurant only"
+  ON inventory_movements
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING (restaurant_id = current_restaurant_id())
+  WITH CHECK (restaurant_id = current_restaurant_id());
@@ -0,0 +1,250 @@
+/*
+  # Inventory movement ledger
+
+  1. Changes
+    - `inventory_movements.movement_type` also takes `receipt`, `waste`, `breakage`,
+      `correction` and `transfer`
+    - `inventory_movements.reason` (text) - why the stock changed, required for waste,
+      breakage and transfers
+    - `inventory_movements.order_id` (uuid, references orders) - the order behind a
+      consumption, filled in for the movements booked so far
+    - `inventory_movements.quantity_after` (numeric) - stock after the movement, worked
+      back from the current stock for the movements booked so far
+
+  2. New Functions
+    - `apply_inventory_movement` - locks the inventory item, changes its stock and logs
+      the movement. Consumption and restore go through it as well now
+    - `record_inventory_movement(item, type, change, reason)` - books a receipt, waste,
+      breakage, correction or transfer from the inventory page
+    - Trigger on `inventory_items`: stock entered directly, e.g. in the edit form, is
+      logged as a correction, the stock of a new item as its opening receipt
+
+  3. Security
+    - `record_inventory_movement` runs as definer and checks for bar staff or managers
+      itself, so the ledger stays closed for direct writes
+    - The helpers run as the caller, only the definer functions and triggers can use them
+
+  4. Notes
+    - Stock doesn't go below zero through movements. Each movement logs the change that
+      really happened
+*/
+
+ALTER TABLE inventory_movements DROP CONSTRAINT IF EXISTS inventory_movements_movement_type_check;
+ALTER TABLE inventory_movements ADD CONSTRAINT inventory_movements_movement_type_check
+  CHECK (movement_type IN ('receipt', 'consumption', 'restore', 'waste', 'breakage', 'correction', 'transfer'));
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'inventory_movements' AND column_name = 'reason'
+  ) THEN
+    ALTER TABLE inventory_movements ADD COLUMN reason text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'inventory_movements' AND column_name = 'order_id'
+  ) THEN
+    ALTER TABLE inventory_movements ADD COLUMN order_id uuid REFERENCES orders(id) ON DELETE SET NULL;
+
+    UPDATE inventory_movements
+    SET order_id = order_items.order_id
+    FROM order_items
+    WHERE order_items.id = inventory_movements.order_item_id;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'inventory_movements' AND column_name = 'quantity_after'
+  ) THEN
+    ALTER TABLE inventory_movements ADD COLUMN quantity_after numeric(12,3);
+
+    UPDATE inventory_movements
+    SET quantity_after = history.quantity_after
+    FROM (
+      SELECT
+        inventory_movements.id,
+        inventory_items.quantity - COALESCE(SUM(inventory_movements.quantity) OVER (
+          PARTITION BY inventory_movements.inventory_item_id
+          ORDER BY inventory_movements.created_at DESC, inventory_movements.id DESC
+          ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING
+        ), 0) AS quantity_after
+      FROM inventory_movements
+      JOIN inventory_items ON inventory_items.id = inventory_movements.inventory_item_id
+    ) history
+    WHERE history.id = inventory_movements.id;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_inventory_movements_order_id ON inventory_movements(order_id);
+
+-- Changes the stock of an inventory item and logs the movement. The row lock keeps
+-- concurrent movements from overwriting each other
+CREATE OR REPLACE FUNCTION apply_inventory_movement(
+  target_inventory_item_id uuid,
+  target_movement_type text,
+  quantity_change numeric,
+  movement_reason text DEFAULT NULL,
+  target_order_item_id uuid DEFAULT NULL
+)
+RETURNS inventory_movements AS $$
+DECLARE
+  stock inventory_items;
+  new_quantity numeric;
+  movement inventory_movements;
+BEGIN
+  SELECT * INTO stock
+  FROM inventory_items
+  WHERE id = target_inventory_item_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Inventory item not found';
+  END IF;
+
+  new_quantity := GREATEST(stock.quantity + round(quantity_change, 3), LEAST(stock.quantity, 0));
+  IF new_quantity = stock.quantity THEN
+    RETURN NULL;
+  END IF;
+
+  -- Tells log_inventory_change that this change is logged already
+  PERFORM set_config('inventory.movement_logged', 'on', true);
+
+  UPDATE inventory_items
+  SET quantity = new_quantity,
+      last_updated = now()
+  WHERE id = target_inventory_item_id;
+
+  PERFORM set_config('inventory.movement_logged', 'off', true);
+
+  INSERT INTO inventory_movements (
+    restaurant_id, inventory_item_id, order_item_id, order_id, movement_type,
+    quantity, quantity_after, reason, created_by
+  )
+  VALUES (
+    stock.restaurant_id, target_inventory_item_id, target_order_item_id,
+    (SELECT order_id FROM order_items WHERE id = target_order_item_id),
+    target_movement_type, new_quantity - stock.quantity, new_quantity,
+    NULLIF(trim(movement_reason), ''), auth.uid()
+  )
+  RETURNING * INTO movement;
+
+  RETURN movement;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Takes the recipe of an order item out of the inventory
+CREATE OR REPLACE FUNCTION consume_order_item_stock(item order_items)
+RETURNS void AS $$
+DECLARE
+  ingredient record;
+BEGIN
+  FOR ingredient IN
+    SELECT
+      recipe_items.inventory_item_id,
+      stock_quantity(recipe_items.quantity, recipe_items.unit, stock) * item.quantity / menu_items.recipe_yield AS quantity
+    FROM recipe_items
+    JOIN menu_items ON menu_items.id = recipe_items.menu_item_id
+    JOIN inventory_items stock ON stock.id = recipe_items.inventory_item_id
+    WHERE recipe_items.menu_item_id = item.menu_item_id
+    ORDER BY recipe_items.inventory_item_id
+  LOOP
+    -- Ingredients whose units can't be converted are skipped
+    CONTINUE WHEN ingredient.quantity IS NULL OR ingredient.quantity <= 0;
+
+    PERFORM apply_inventory_movement(ingredient.inventory_item_id, 'consumption', -ingredient.quantity, NULL, item.id);
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Puts back what the movements of an order item took, whatever the recipe says now
+CREATE OR REPLACE FUNCTION restore_order_item_stock(item order_items)
+RETURNS void AS $$
+DECLARE
+  booked record;
+BEGIN
+  FOR booked IN
+    SELECT inventory_item_id, -SUM(quantity) AS quantity
+    FROM inventory_movements
+    WHERE order_item_id = item.id
+    GROUP BY inventory_item_id
+    HAVING SUM(quantity) < 0
+    ORDER BY inventory_item_id
+  LOOP
+    PERFORM apply_inventory_movement(booked.inventory_item_id, 'restore', booked.quantity, NULL, item.id);
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Books a movement from the inventory page
+CREATE OR REPLACE FUNCTION record_inventory_movement(
+  target_inventory_item_id uuid,
+  target_movement_type text,
+  quantity_change numeric,
+  movement_reason text DEFAULT NULL
+)
+RETURNS inventory_movements AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE users.id = auth.uid()
+    AND users.role IN ('bar', 'manager')
+  ) THEN
+    RAISE EXCEPTION 'Only bar staff and managers can book stock movements';
+  END IF;
+
+  IF target_movement_type NOT IN ('receipt', 'waste', 'breakage', 'correction', 'transfer') THEN
+    RAISE EXCEPTION 'Consumption is booked by the orders';
+  END IF;
+
+  IF quantity_change IS NULL OR quantity_change = 0 THEN
+    RAISE EXCEPTION 'Quantity change must not be zero';
+  END IF;
+
+  IF (target_movement_type = 'receipt' AND quantity_change < 0)
+    OR (target_movement_type IN ('waste', 'breakage') AND quantity_change > 0) THEN
+    RAISE EXCEPTION 'Receipts add stock, waste and breakage take it out';
+  END IF;
+
+  IF target_movement_type IN ('waste', 'breakage', 'transfer') AND NULLIF(trim(movement_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'A reason is required for waste, breakage and transfers';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM inventory_items
+    WHERE id = target_inventory_item_id
+    AND restaurant_id = current_restaurant_id()
+  ) THEN
+    RAISE EXCEPTION 'Inventory item not found';
+  END IF;
+
+  RETURN apply_inventory_movement(target_inventory_item_id, target_movement_type, quantity_change, movement_reason);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Logs stock that was changed without a movement
+CREATE OR REPLACE FUNCTION log_inventory_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_setting('inventory.movement_logged', true) = 'on' THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND NEW.quantity <> 0 THEN
+    INSERT INTO inventory_movements (restaurant_id, inventory_item_id, movement_type, quantity, quantity_after, reason, created_by)
+    VALUES (NEW.restaurant_id, NEW.id, 'receipt', NEW.quantity, NEW.quantity, 'Opening stock', auth.uid());
+  ELSIF TG_OP = 'UPDATE' AND NEW.quantity IS DISTINCT FROM OLD.quantity THEN
+    INSERT INTO inventory_movements (restaurant_id, inventory_item_id, movement_type, quantity, quantity_after, created_by)
+    VALUES (NEW.restaurant_id, NEW.id, 'correction', NEW.quantity - OLD.quantity, NEW.quantity, auth.uid());
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_log_inventory_change ON inventory_items;
+CREATE TRIGGER trigger_log_inventory_change
+  AFTER INSERT OR UPDATE OF quantity ON inventory_items
+  FOR EACH ROW
+  EXECUTE FUNCTION log_inventory_change();
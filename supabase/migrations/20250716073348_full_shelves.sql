@@ -0,0 +1,429 @@
+/*
+  # Suppliers and purchase orders
+
+  1. New Tables
+    - `suppliers` - Who the location buys from
+      - `id` (uuid, primary key)
+      - `restaurant_id` (uuid, references restaurants)
+      - `name`, `contact_name`, `email`, `phone` (text)
+      - `lead_time_days` (integer) - days between ordering and delivery
+      - `minimum_order` (numeric) - minimum order value
+      - `notes` (text)
+      - `created_at` (timestamptz)
+    - `supplier_items` - Catalog of a supplier
+      - `id` (uuid, primary key)
+      - `supplier_id` (uuid, references suppliers)
+      - `inventory_item_id` (uuid, references inventory_items)
+      - `supplier_sku` (text) - article number at the supplier
+      - `pack_size` (numeric) - stock units in one pack, e.g. 6 bottles per case
+      - `pack_price` (numeric) - net price of one pack
+      - `is_preferred` (boolean) - drafts order from the preferred supplier of an item
+    - `purchase_orders` - Orders sent to a supplier
+      - `id` (uuid, primary key)
+      - `supplier_id` (uuid, references suppliers)
+      - `sequence_number` / `po_number` - from the `purchase_order` number sequence
+      - `status` (text) - `draft`, `sent`, `partially_received`, `received` or `cancelled`
+      - `expected_at` (date) - order date plus the lead time of the supplier
+      - `notes` (text)
+      - `created_by` (uuid, references users)
+      - `created_at`, `sent_at`, `received_at` (timestamptz)
+    - `purchase_order_items` - Lines of a purchase order with what was received
+      - `id` (uuid, primary key)
+      - `purchase_order_id` (uuid, references purchase_orders)
+      - `inventory_item_id` (uuid, references inventory_items)
+      - `item_name`, `unit`, `supplier_sku` - copied from the item, the PDF stays readable
+        after the item is renamed or deleted
+      - `pack_size`, `pack_price` - copied from the catalog when the line was added
+      - `packs_ordered`, `packs_received` (numeric)
+
+  2. Changes
+    - `inventory_movements.purchase_order_id` - the purchase order behind a receipt
+    - Every location gets a `purchase_order` number sequence, format PO-{YYYY}-{NNNN}
+
+  3. New Functions
+    - `create_draft_purchase_orders()` - adds every item at or below its threshold that
+      isn't on an open purchase order to the draft of its supplier, enough packs to get
+      back to twice the threshold. Returns the number of lines added
+    - `receive_purchase_order(purchase_order_id, received, close_order)` - books the
+      received packs as inventory receipts. Short deliveries keep the order open unless
+      `close_order` is set
+
+  4. Security
+    - Enable RLS on all new tables
+    - Bar staff and managers, who run the inventory, manage suppliers and orders
+    - Rows are limited to the current location
+*/
+
+-- Create suppliers table
+CREATE TABLE IF NOT EXISTS suppliers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL DEFAULT current_restaurant_id() REFERENCES restaurants(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  contact_name text,
+  email text,
+  phone text,
+  lead_time_days integer NOT NULL DEFAULT 1 CHECK (lead_time_days >= 0),
+  minimum_order numeric(10,2) NOT NULL DEFAULT 0 CHECK (minimum_order >= 0),
+  notes text,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Create supplier_items table
+CREATE TABLE IF NOT EXISTS supplier_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL DEFAULT current_restaurant_id() REFERENCES restaurants(id) ON DELETE CASCADE,
+  supplier_id uuid NOT NULL REFERENCES suppliers(id) ON DELETE CASCADE,
+  inventory_item_id uuid NOT NULL REFERENCES inventory_items(id) ON DELETE CASCADE,
+  supplier_sku text,
+  pack_size numeric(10,3) NOT NULL DEFAULT 1 CHECK (pack_size > 0),
+  pack_price numeric(10,2) NOT NULL DEFAULT 0 CHECK (pack_price >= 0),
+  is_preferred boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (supplier_id, inventory_item_id)
+);
+
+-- Create purchase_orders table
+CREATE TABLE IF NOT EXISTS purchase_orders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL DEFAULT current_restaurant_id() REFERENCES restaurants(id) ON DELETE CASCADE,
+  supplier_id uuid NOT NULL REFERENCES suppliers(id) ON DELETE RESTRICT,
+  sequence_number bigint,
+  po_number text,
+  status text NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'sent', 'partially_received', 'received', 'cancelled')),
+  expected_at date,
+  notes text,
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  sent_at timestamptz,
+  received_at timestamptz,
+  UNIQUE (restaurant_id, po_number)
+);
+
+-- Create purchase_order_items table
+CREATE TABLE IF NOT EXISTS purchase_order_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL DEFAULT current_restaurant_id() REFERENCES restaurants(id) ON DELETE CASCADE,
+  purchase_order_id uuid NOT NULL REFERENCES purchase_orders(id) ON DELETE CASCADE,
+  inventory_item_id uuid REFERENCES inventory_items(id) ON DELETE SET NULL,
+  item_name text NOT NULL,
+  unit text NOT NULL,
+  supplier_sku text,
+  pack_size numeric(10,3) NOT NULL DEFAULT 1 CHECK (pack_size > 0),
+  pack_price numeric(10,2) NOT NULL DEFAULT 0 CHECK (pack_price >= 0),
+  packs_ordered numeric(10,3) NOT NULL CHECK (packs_ordered > 0),
+  packs_received numeric(10,3) NOT NULL DEFAULT 0 CHECK (packs_received >= 0),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (purchase_order_id, inventory_item_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_suppliers_restaurant_id ON suppliers(restaurant_id);
+CREATE INDEX IF NOT EXISTS idx_supplier_items_restaurant_id ON supplier_items(restaurant_id);
+CREATE INDEX IF NOT EXISTS idx_supplier_items_inventory_item_id ON supplier_items(inventory_item_id);
+CREATE UNIQUE INDEX IF NOT EXISTS supplier_items_preferred_idx ON supplier_items(inventory_item_id) WHERE is_preferred;
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_restaurant_id ON purchase_orders(restaurant_id, status);
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_supplier_id ON purchase_orders(supplier_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_order_items_purchase_order_id ON purchase_order_items(purchase_order_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_order_items_restaurant_id ON purchase_order_items(restaurant_id);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'inventory_movements' AND column_name = 'purchase_order_id'
+  ) THEN
+    ALTER TABLE inventory_movements ADD COLUMN purchase_order_id uuid REFERENCES purchase_orders(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_inventory_movements_purchase_order_id ON inventory_movements(purchase_order_id);
+
+-- Purchase order numbers of their own
+INSERT INTO number_sequences (restaurant_id, name, format)
+SELECT id, 'purchase_order', 'PO-{YYYY}-{NNNN}'
+FROM restaurants
+ON CONFLICT DO NOTHING;
+
+-- Assign the next number of the purchase order sequence of the order's location
+CREATE OR REPLACE FUNCTION assign_purchase_order_number()
+RETURNS TRIGGER AS $$
+DECLARE
+  number_year integer;
+  next_value bigint;
+  number_format text;
+BEGIN
+  -- The server time decides, a wrong clock on a device must not reset the counter
+  NEW.created_at := now();
+  number_year := extract(year FROM NEW.created_at AT TIME ZONE 'Europe/Berlin')::integer;
+
+  -- Locations created after this migration get their sequence on the first order
+  INSERT INTO number_sequences (restaurant_id, name, format)
+  VALUES (NEW.restaurant_id, 'purchase_order', 'PO-{YYYY}-{NNNN}')
+  ON CONFLICT DO NOTHING;
+
+  UPDATE number_sequences
+  SET
+    last_value = CASE
+      WHEN reset_yearly AND number_year > current_year THEN 1
+      ELSE last_value + 1
+    END,
+    current_year = GREATEST(current_year, number_year),
+    updated_at = now()
+  WHERE name = 'purchase_order'
+  AND restaurant_id = NEW.restaurant_id
+  RETURNING last_value, format INTO next_value, number_format;
+
+  NEW.sequence_number := next_value;
+  NEW.po_number := format_sequence_number(number_format, next_value, NEW.created_at);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_assign_purchase_order_number ON purchase_orders;
+CREATE TRIGGER trigger_assign_purchase_order_number
+  BEFORE INSERT ON purchase_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_purchase_order_number();
+
+-- Adds low items to the drafts of their suppliers
+CREATE OR REPLACE FUNCTION create_draft_purchase_orders()
+RETURNS integer AS $$
+DECLARE
+  low_item record;
+  draft_id uuid;
+  added_count integer := 0;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE users.id = auth.uid()
+    AND users.role IN ('bar', 'manager')
+  ) THEN
+    RAISE EXCEPTION 'Only bar staff and managers can create purchase orders';
+  END IF;
+
+  FOR low_item IN
+    SELECT DISTINCT ON (inventory_items.id)
+      inventory_items.id AS inventory_item_id,
+      inventory_items.name,
+      inventory_items.unit,
+      supplier_items.supplier_id,
+      supplier_items.supplier_sku,
+      supplier_items.pack_size,
+      supplier_items.pack_price,
+      suppliers.lead_time_days,
+      GREATEST(1, ceil((inventory_items.threshold * 2 - inventory_items.quantity) / supplier_items.pack_size)) AS packs
+    FROM inventory_items
+    JOIN supplier_items ON supplier_items.inventory_item_id = inventory_items.id
+    JOIN suppliers ON suppliers.id = supplier_items.supplier_id
+    WHERE inventory_items.restaurant_id = current_restaurant_id()
+    AND inventory_items.quantity <= inventory_items.threshold
+    AND NOT EXISTS (
+      SELECT 1
+      FROM purchase_order_items
+      JOIN purchase_orders ON purchase_orders.id = purchase_order_items.purchase_order_id
+      WHERE purchase_order_items.inventory_item_id = inventory_items.id
+      AND purchase_orders.status IN ('draft', 'sent', 'partially_received')
+    )
+    -- The preferred supplier, otherwise the cheapest per stock unit
+    ORDER BY inventory_items.id, supplier_items.is_preferred DESC, supplier_items.pack_price / supplier_items.pack_size
+  LOOP
+    SELECT id INTO draft_id
+    FROM purchase_orders
+    WHERE restaurant_id = current_restaurant_id()
+    AND supplier_id = low_item.supplier_id
+    AND status = 'draft'
+    ORDER BY created_at
+    LIMIT 1;
+
+    IF draft_id IS NULL THEN
+      INSERT INTO purchase_orders (restaurant_id, supplier_id, expected_at, created_by)
+      VALUES (current_restaurant_id(), low_item.supplier_id, current_date + low_item.lead_time_days, auth.uid())
+      RETURNING id INTO draft_id;
+    END IF;
+
+    INSERT INTO purchase_order_items (
+      restaurant_id, purchase_order_id, inventory_item_id, item_name, unit,
+      supplier_sku, pack_size, pack_price, packs_ordered
+    )
+    VALUES (
+      current_restaurant_id(), draft_id, low_item.inventory_item_id, low_item.name, low_item.unit,
+      low_item.supplier_sku, low_item.pack_size, low_item.pack_price, low_item.packs
+    );
+
+    added_count := added_count + 1;
+  END LOOP;
+
+  RETURN added_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Books received packs as inventory receipts. received is a list of
+-- {"id": purchase_order_item_id, "packs": received packs}
+CREATE OR REPLACE FUNCTION receive_purchase_order(
+  target_purchase_order_id uuid,
+  received jsonb,
+  close_order boolean DEFAULT false
+)
+RETURNS void AS $$
+DECLARE
+  purchase_order purchase_orders;
+  line purchase_order_items;
+  received_packs numeric;
+  movement inventory_movements;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE users.id = auth.uid()
+    AND users.role IN ('bar', 'manager')
+  ) THEN
+    RAISE EXCEPTION 'Only bar staff and managers can receive purchase orders';
+  END IF;
+
+  SELECT * INTO purchase_order
+  FROM purchase_orders
+  WHERE id = target_purchase_order_id
+  AND restaurant_id = current_restaurant_id()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order not found';
+  END IF;
+
+  IF purchase_order.status NOT IN ('sent', 'partially_received') THEN
+    RAISE EXCEPTION 'Only sent purchase orders can be received';
+  END IF;
+
+  -- A line listed more than once is booked once with the sum of its packs
+  FOR line IN
+    SELECT purchase_order_items.*
+    FROM purchase_order_items
+    WHERE purchase_order_items.purchase_order_id = target_purchase_order_id
+    AND purchase_order_items.id IN (
+      SELECT (entry->>'id')::uuid
+      FROM jsonb_array_elements(received) AS entry
+      WHERE (entry->>'packs')::numeric > 0
+    )
+  LOOP
+    SELECT SUM((entry->>'packs')::numeric) INTO received_packs
+    FROM jsonb_array_elements(received) AS entry
+    WHERE (entry->>'id')::uuid = line.id
+    AND (entry->>'packs')::numeric > 0;
+
+    UPDATE purchase_order_items
+    SET packs_received = packs_received + received_packs
+    WHERE id = line.id;
+
+    IF line.inventory_item_id IS NOT NULL THEN
+      movement := apply_inventory_movement(
+        line.inventory_item_id,
+        'receipt',
+        received_packs * line.pack_size,
+        format('%s: %s of %s packs received', purchase_order.po_number, line.packs_received + received_packs, line.packs_ordered)
+      );
+
+      UPDATE inventory_movements
+      SET purchase_order_id = target_purchase_order_id
+      WHERE id = movement.id;
+    END IF;
+  END LOOP;
+
+  UPDATE purchase_orders
+  SET
+    status = CASE
+      WHEN close_order OR NOT EXISTS (
+        SELECT 1 FROM purchase_order_items
+        WHERE purchase_order_id = target_purchase_order_id
+        AND packs_received < packs_ordered
+      ) THEN 'received'
+      ELSE 'partially_received'
+    END,
+    received_at = now()
+  WHERE id = target_purchase_order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Enable RLS
+ALTER TABLE suppliers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE supplier_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE purchase_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE purchase_order_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Bar staff and managers can manage suppliers"
+  ON suppliers
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('bar', 'manager')
+    )
+  );
+
+CREATE POLICY "Bar staff and managers can manage supplier items"
+  ON supplier_items
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('bar', 'manager')
+    )
+  );
+
+CREATE POLICY "Bar staff and managers can manage purchase orders"
+  ON purchase_orders
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('bar', 'manager')
+    )
+  );
+
+CREATE POLICY "Bar staff and managers can manage purchase order items"
+  ON purchase_order_items
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('bar', 'manager')
+    )
+  );
+
+CREATE POLICY "Current restaurant only"
+  ON suppliers
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING (restaurant_id = current_restaurant_id())
+  WITH CHECK (restaurant_id = current_restaurant_id());
+
+CREATE POLICY "Current restaurant only"
+  ON supplier_items
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING (restaurant_id = current_restaurant_id())
+  WITH CHECK (restaurant_id = current_restaurant_id());
+
+CREATE POLICY "Current restaurant only"
+  ON purchase_orders
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING (restaurant_id = current_restaurant_id())
+  WITH CHECK (restaurant_id = current_restaurant_id());
+
+CREATE POLICY "Current restaurant only"
+  ON purchase_order_items
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING (restaurant_id = current_restaurant_id())
+  WITH CHECK (restaurant_id = current_restaurant_id());
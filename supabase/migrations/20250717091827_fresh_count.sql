@@ -0,0 +1,384 @@
+/*
+  # Stock takes
+
+  1. New Tables
+    - `stock_takes` - A physical count of the inventory
+      - `id` (uuid, primary key)
+      - `restaurant_id` (uuid, references restaurants)
+      - `status` (text) - `counting`, `submitted`, `approved` or `cancelled`
+      - `notes` (text)
+      - `started_by`, `submitted_by`, `approved_by` (uuid, references users)
+      - `started_at`, `submitted_at`, `approved_at` (timestamptz)
+    - `stock_take_items` - One line per inventory item, frozen when the count starts
+      - `id` (uuid, primary key)
+      - `stock_take_id` (uuid, references stock_takes)
+      - `inventory_item_id` (uuid, references inventory_items)
+      - `item_name`, `category`, `unit`, `storage_location` - copied from the item, the
+        report stays readable after the item is renamed or deleted
+      - `snapshot_quantity` (numeric) - stock when the count started
+      - `unit_cost` (numeric) - price of one stock unit at the preferred supplier,
+        otherwise the cheapest one, to value the variance
+      - `expected_quantity` (numeric) - snapshot plus everything booked since, e.g.
+        drinks served while counting, at the moment the item was counted
+      - `counted_quantity` (numeric) - what was on the shelf
+      - `counted_by` (uuid, references users), `counted_at` (timestamptz)
+
+  2. Changes
+    - `inventory_items.storage_location` - where an item is kept, the count goes shelf by shelf
+    - `inventory_movements.stock_take_id` - the stock take behind a correction
+
+  3. New Functions
+    - `start_stock_take(notes)` - opens a stock take with a snapshot of every item
+    - Trigger on `stock_take_items`: sets the expected stock when a count is entered and
+      keeps counts closed once the stock take was submitted
+    - Trigger on `stock_takes`: only counting -> submitted, submitted -> counting,
+      submitted -> approved and counting/submitted -> cancelled. Approved and cancelled
+      stock takes can't be reopened
+    - `approve_stock_take(stock_take_id)` - books the variance of every counted item as a
+      correction and closes the stock take
+
+  4. Security
+    - Enable RLS on all new tables
+    - Bar staff and managers count, only managers approve
+    - Lines are created by `start_stock_take` only. Staff can change nothing but
+      `counted_quantity` and only while the stock take is counting, so snapshot and
+      expected stock - and with them the variance - can't be edited
+    - On `stock_takes` staff can only change the status and who submitted it
+    - Rows are limited to the current location
+
+  5. Notes
+    - Only one stock take per location can be open at a time
+    - Items that weren't counted keep their stock
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'inventory_items' AND column_name = 'storage_location'
+  ) THEN
+    ALTER TABLE inventory_items ADD COLUMN storage_location text;
+  END IF;
+END $$;
+
+-- Create stock_takes table
+CREATE TABLE IF NOT EXISTS stock_takes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL DEFAULT current_restaurant_id() REFERENCES restaurants(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'counting' CHECK (status IN ('counting', 'submitted', 'approved', 'cancelled')),
+  notes text,
+  started_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  submitted_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  approved_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  started_at timestamptz NOT NULL DEFAULT now(),
+  submitted_at timestamptz,
+  approved_at timestamptz
+);
+
+-- Create stock_take_items table
+CREATE TABLE IF NOT EXISTS stock_take_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL DEFAULT current_restaurant_id() REFERENCES restaurants(id) ON DELETE CASCADE,
+  stock_take_id uuid NOT NULL REFERENCES stock_takes(id) ON DELETE CASCADE,
+  inventory_item_id uuid REFERENCES inventory_items(id) ON DELETE SET NULL,
+  item_name text NOT NULL,
+  category text,
+  unit text NOT NULL,
+  storage_location text,
+  snapshot_quantity numeric(12,3) NOT NULL,
+  unit_cost numeric(12,4),
+  expected_quantity numeric(12,3),
+  counted_quantity numeric(12,3) CHECK (counted_quantity >= 0),
+  counted_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  counted_at timestamptz,
+  UNIQUE (stock_take_id, inventory_item_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_takes_restaurant_id ON stock_takes(restaurant_id, started_at DESC);
+CREATE UNIQUE INDEX IF NOT EXISTS stock_takes_open_idx ON stock_takes(restaurant_id) WHERE status IN ('counting', 'submitted');
+CREATE INDEX IF NOT EXISTS idx_stock_take_items_stock_take_id ON stock_take_items(stock_take_id);
+CREATE INDEX IF NOT EXISTS idx_stock_take_items_restaurant_id ON stock_take_items(restaurant_id);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'inventory_movements' AND column_name = 'stock_take_id'
+  ) THEN
+    ALTER TABLE inventory_movements ADD COLUMN stock_take_id uuid REFERENCES stock_takes(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_inventory_movements_stock_take_id ON inventory_movements(stock_take_id);
+
+-- Opens a stock take and freezes the current stock of every item
+CREATE OR REPLACE FUNCTION start_stock_take(stock_take_notes text DEFAULT NULL)
+RETURNS stock_takes AS $$
+DECLARE
+  stock_take stock_takes;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE users.id = auth.uid()
+    AND users.role IN ('bar', 'manager')
+  ) THEN
+    RAISE EXCEPTION 'Only bar staff and managers can start a stock take';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM stock_takes
+    WHERE restaurant_id = current_restaurant_id()
+    AND status IN ('counting', 'submitted')
+  ) THEN
+    RAISE EXCEPTION 'A stock take is already open';
+  END IF;
+
+  INSERT INTO stock_takes (restaurant_id, notes, started_by)
+  VALUES (current_restaurant_id(), NULLIF(trim(stock_take_notes), ''), auth.uid())
+  RETURNING * INTO stock_take;
+
+  INSERT INTO stock_take_items (
+    restaurant_id, stock_take_id, inventory_item_id, item_name, category, unit,
+    storage_location, snapshot_quantity, unit_cost
+  )
+  SELECT
+    stock_take.restaurant_id,
+    stock_take.id,
+    inventory_items.id,
+    inventory_items.name,
+    inventory_items.category,
+    inventory_items.unit,
+    NULLIF(trim(inventory_items.storage_location), ''),
+    inventory_items.quantity,
+    (
+      SELECT supplier_items.pack_price / supplier_items.pack_size
+      FROM supplier_items
+      WHERE supplier_items.inventory_item_id = inventory_items.id
+      ORDER BY supplier_items.is_preferred DESC, supplier_items.pack_price / supplier_items.pack_size
+      LIMIT 1
+    )
+  FROM inventory_items
+  WHERE inventory_items.restaurant_id = stock_take.restaurant_id;
+
+  RETURN stock_take;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Expected stock is the snapshot plus whatever was booked on the item until it was
+-- counted, so serving drinks during the count doesn't show up as variance
+CREATE OR REPLACE FUNCTION set_stock_take_count()
+RETURNS TRIGGER AS $$
+DECLARE
+  stock_take stock_takes;
+BEGIN
+  SELECT * INTO stock_take
+  FROM stock_takes
+  WHERE id = NEW.stock_take_id;
+
+  IF stock_take.status <> 'counting' THEN
+    RAISE EXCEPTION 'Counts can only be changed while the stock take is counting';
+  END IF;
+
+  IF NEW.counted_quantity IS NULL THEN
+    NEW.expected_quantity := NULL;
+    NEW.counted_by := NULL;
+    NEW.counted_at := NULL;
+  ELSE
+    NEW.expected_quantity := NEW.snapshot_quantity + COALESCE((
+      SELECT SUM(quantity)
+      FROM inventory_movements
+      WHERE inventory_item_id = NEW.inventory_item_id
+      AND created_at > stock_take.started_at
+    ), 0);
+    NEW.counted_by := auth.uid();
+    NEW.counted_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_set_stock_take_count ON stock_take_items;
+CREATE TRIGGER trigger_set_stock_take_count
+  BEFORE UPDATE OF counted_quantity ON stock_take_items
+  FOR EACH ROW
+  WHEN (OLD.counted_quantity IS DISTINCT FROM NEW.counted_quantity)
+  EXECUTE FUNCTION set_stock_take_count();
+
+-- Books the variance of every counted item as a correction
+CREATE OR REPLACE FUNCTION approve_stock_take(target_stock_take_id uuid)
+RETURNS void AS $$
+DECLARE
+  stock_take stock_takes;
+  line stock_take_items;
+  movement inventory_movements;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE users.id = auth.uid()
+    AND users.role = 'manager'
+  ) THEN
+    RAISE EXCEPTION 'Only managers can approve a stock take';
+  END IF;
+
+  SELECT * INTO stock_take
+  FROM stock_takes
+  WHERE id = target_stock_take_id
+  AND restaurant_id = current_restaurant_id()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stock take not found';
+  END IF;
+
+  IF stock_take.status <> 'submitted' THEN
+    RAISE EXCEPTION 'Only submitted stock takes can be approved';
+  END IF;
+
+  FOR line IN
+    SELECT * FROM stock_take_items
+    WHERE stock_take_id = target_stock_take_id
+    AND inventory_item_id IS NOT NULL
+    AND counted_quantity IS NOT NULL
+    AND counted_quantity <> expected_quantity
+  LOOP
+    movement := apply_inventory_movement(
+      line.inventory_item_id,
+      'correction',
+      line.counted_quantity - line.expected_quantity,
+      format('Stock take %s', to_char(stock_take.started_at, 'YYYY-MM-DD'))
+    );
+
+    UPDATE inventory_movements
+    SET stock_take_id = target_stock_take_id
+    WHERE id = movement.id;
+  END LOOP;
+
+  UPDATE stock_takes
+  SET status = 'approved',
+      approved_by = auth.uid(),
+      approved_at = now()
+  WHERE id = target_stock_take_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Approved and cancelled stock takes are final, otherwise approving again would book
+-- the variance a second time
+CREATE OR REPLACE FUNCTION check_stock_take_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT (
+    (OLD.status = 'counting' AND NEW.status IN ('submitted', 'cancelled'))
+    OR (OLD.status = 'submitted' AND NEW.status IN ('counting', 'cancelled', 'approved'))
+  ) THEN
+    RAISE EXCEPTION 'A stock take can''t go from % to %', OLD.status, NEW.status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_check_stock_take_status ON stock_takes;
+CREATE TRIGGER trigger_check_stock_take_status
+  BEFORE UPDATE OF status ON stock_takes
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION check_stock_take_status();
+
+-- Enable RLS
+ALTER TABLE stock_takes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stock_take_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Bar staff and managers can read stock takes"
+  ON stock_takes
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('bar', 'manager')
+    )
+  );
+
+-- Only open stock takes can be changed. Approving goes through approve_stock_take,
+-- which books the corrections
+CREATE POLICY "Bar staff and managers can update open stock takes"
+  ON stock_takes
+  FOR UPDATE
+  TO authenticated
+  USING (
+    status IN ('counting', 'submitted')
+    AND EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('bar', 'manager')
+    )
+  )
+  WITH CHECK (
+    status <> 'approved'
+    AND EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('bar', 'manager')
+    )
+  );
+
+CREATE POLICY "Bar staff and managers can read stock take items"
+  ON stock_take_items
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('bar', 'manager')
+    )
+  );
+
+CREATE POLICY "Bar staff and managers can count stock take items"
+  ON stock_take_items
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('bar', 'manager')
+    )
+    AND EXISTS (
+      SELECT 1 FROM stock_takes
+      WHERE stock_takes.id = stock_take_items.stock_take_id
+      AND stock_takes.status = 'counting'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM stock_takes
+      WHERE stock_takes.id = stock_take_items.stock_take_id
+      AND stock_takes.status = 'counting'
+    )
+  );
+
+-- Only the count is entered by hand, the rest is set by the functions above
+REVOKE INSERT, UPDATE, DELETE ON stock_take_items FROM anon, authenticated;
+GRANT UPDATE (counted_quantity) ON stock_take_items TO authenticated;
+
+REVOKE INSERT, UPDATE, DELETE ON stock_takes FROM anon, authenticated;
+GRANT UPDATE (status, submitted_by, submitted_at) ON stock_takes TO authenticated;
+
+CREATE POLICY "Current restaurant only"
+  ON stock_takes
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING (restaurant_id = current_restaurant_id())
+  WITH CHECK (restaurant_id = current_restaurant_id());
+
+CREATE POLICY "Current restaurant only"
+  ON stock_take_items
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING (restaurant_id = current_restaurant_id())
+  WITH CHECK (restaurant_id = current_restaurant_id());
@@ -0,0 +1,358 @@
+/*
+  # Inventory valuation and cost of goods sold
+
+  1. Changes
+    - `inventory_items.unit_cost` - purchase cost of one stock unit, valued at the moving
+      average of all receipts. Seeded with the price of the preferred supplier, otherwise
+      the cheapest one
+    - `inventory_movements.unit_cost` - cost of one stock unit at the time of the movement,
+      the purchase price for receipts
+    - `order_items.stock_cost` - what the stock taken for an order item cost
+
+  2. Changed Functions
+    - `apply_inventory_movement` takes an optional unit cost. Receipts with a cost move the
+      average cost of the item, every movement logs the cost it was booked at
+    - `restore_order_item_stock` puts stock back at the cost it was taken at
+    - `sync_order_item_stock` keeps `order_items.stock_cost` up to date
+    - `receive_purchase_order` books receipts at the pack price of the order line
+    - `log_inventory_change` logs direct edits at the current average cost
+    - `start_stock_take` values the variance at the average cost, the supplier price is
+      only a fallback now
+
+  3. Notes
+    - Moving average instead of FIFO: one cost per item, no cost layers to keep in sync
+      with stock takes and corrections
+    - Movements logged before this migration are valued at the seeded cost
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'inventory_items' AND column_name = 'unit_cost'
+  ) THEN
+    ALTER TABLE inventory_items ADD COLUMN unit_cost numeric(12,4) CHECK (unit_cost >= 0);
+
+    UPDATE inventory_items
+    SET unit_cost = (
+      SELECT supplier_items.pack_price / supplier_items.pack_size
+      FROM supplier_items
+      WHERE supplier_items.inventory_item_id = inventory_items.id
+      ORDER BY supplier_items.is_preferred DESC, supplier_items.pack_price / supplier_items.pack_size
+      LIMIT 1
+    );
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'inventory_movements' AND column_name = 'unit_cost'
+  ) THEN
+    ALTER TABLE inventory_movements ADD COLUMN unit_cost numeric(12,4);
+
+    UPDATE inventory_movements
+    SET unit_cost = inventory_items.unit_cost
+    FROM inventory_items
+    WHERE inventory_items.id = inventory_movements.inventory_item_id;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'order_items' AND column_name = 'stock_cost'
+  ) THEN
+    ALTER TABLE order_items ADD COLUMN stock_cost numeric(12,4);
+
+    UPDATE order_items
+    SET stock_cost = booked.cost
+    FROM (
+      SELECT order_item_id, -SUM(quantity * unit_cost) AS cost
+      FROM inventory_movements
+      WHERE order_item_id IS NOT NULL
+      GROUP BY order_item_id
+    ) booked
+    WHERE booked.order_item_id = order_items.id
+    AND order_items.stock_consumed_at IS NOT NULL;
+  END IF;
+END $$;
+
+-- The unit cost is a new argument, drop the old signature so there's no overload
+DROP FUNCTION IF EXISTS apply_inventory_movement(uuid, text, numeric, text, uuid);
+
+CREATE OR REPLACE FUNCTION apply_inventory_movement(
+  target_inventory_item_id uuid,
+  target_movement_type text,
+  quantity_change numeric,
+  movement_reason text DEFAULT NULL,
+  target_order_item_id uuid DEFAULT NULL,
+  movement_unit_cost numeric DEFAULT NULL
+)
+RETURNS inventory_movements AS $$
+DECLARE
+  stock inventory_items;
+  new_quantity numeric;
+  new_unit_cost numeric;
+  movement inventory_movements;
+BEGIN
+  SELECT * INTO stock
+  FROM inventory_items
+  WHERE id = target_inventory_item_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Inventory item not found';
+  END IF;
+
+  new_quantity := GREATEST(stock.quantity + round(quantity_change, 3), LEAST(stock.quantity, 0));
+  IF new_quantity = stock.quantity THEN
+    RETURN NULL;
+  END IF;
+
+  -- Receipts with a purchase price move the average, stock below zero counts as none
+  new_unit_cost := stock.unit_cost;
+  IF target_movement_type = 'receipt' AND movement_unit_cost IS NOT NULL AND new_quantity > stock.quantity THEN
+    new_unit_cost := round(
+      (GREATEST(stock.quantity, 0) * COALESCE(stock.unit_cost, movement_unit_cost)
+        + (new_quantity - stock.quantity) * movement_unit_cost)
+      / (GREATEST(stock.quantity, 0) + new_quantity - stock.quantity),
+      4
+    );
+  END IF;
+
+  -- Tells log_inventory_change that this change is logged already
+  PERFORM set_config('inventory.movement_logged', 'on', true);
+
+  UPDATE inventory_items
+  SET quantity = new_quantity,
+      unit_cost = new_unit_cost,
+      last_updated = now()
+  WHERE id = target_inventory_item_id;
+
+  PERFORM set_config('inventory.movement_logged', 'off', true);
+
+  INSERT INTO inventory_movements (
+    restaurant_id, inventory_item_id, order_item_id, order_id, movement_type,
+    quantity, quantity_after, unit_cost, reason, created_by
+  )
+  VALUES (
+    stock.restaurant_id, target_inventory_item_id, target_order_item_id,
+    (SELECT order_id FROM order_items WHERE id = target_order_item_id),
+    target_movement_type, new_quantity - stock.quantity, new_quantity,
+    COALESCE(movement_unit_cost, stock.unit_cost),
+    NULLIF(trim(movement_reason), ''), auth.uid()
+  )
+  RETURNING * INTO movement;
+
+  RETURN movement;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Puts back what the movements of an order item took, at the cost it was taken at
+CREATE OR REPLACE FUNCTION restore_order_item_stock(item order_items)
+RETURNS void AS $$
+DECLARE
+  booked record;
+BEGIN
+  FOR booked IN
+    SELECT
+      inventory_item_id,
+      -SUM(quantity) AS quantity,
+      SUM(quantity * unit_cost) / SUM(quantity) AS unit_cost
+    FROM inventory_movements
+    WHERE order_item_id = item.id
+    GROUP BY inventory_item_id
+    HAVING SUM(quantity) < 0
+    ORDER BY inventory_item_id
+  LOOP
+    PERFORM apply_inventory_movement(booked.inventory_item_id, 'restore', booked.quantity, NULL, item.id, booked.unit_cost);
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE OR REPLACE FUNCTION sync_order_item_stock()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'ready' AND NEW.stock_consumed_at IS NULL THEN
+    PERFORM consume_order_item_stock(NEW);
+    NEW.stock_consumed_at := now();
+  ELSIF NEW.status <> 'ready' AND NEW.stock_consumed_at IS NOT NULL THEN
+    PERFORM restore_order_item_stock(NEW);
+    NEW.stock_consumed_at := NULL;
+  ELSIF NEW.stock_consumed_at IS NOT NULL
+    AND (NEW.quantity <> OLD.quantity OR NEW.menu_item_id <> OLD.menu_item_id) THEN
+    PERFORM restore_order_item_stock(NEW);
+    PERFORM consume_order_item_stock(NEW);
+  ELSE
+    RETURN NEW;
+  END IF;
+
+  -- Restores cancel out their consumption, what's left is the cost of the item
+  NEW.stock_cost := CASE
+    WHEN NEW.stock_consumed_at IS NULL THEN NULL
+    ELSE (
+      SELECT round(-SUM(quantity * unit_cost), 4)
+      FROM inventory_movements
+      WHERE order_item_id = NEW.id
+    )
+  END;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Books received packs as inventory receipts at the price of the order line
+CREATE OR REPLACE FUNCTION receive_purchase_order(
+  target_purchase_order_id uuid,
+  received jsonb,
+  close_order boolean DEFAULT false
+)
+RETURNS void AS $$
+DECLARE
+  purchase_order purchase_orders;
+  line purchase_order_items;
+  received_packs numeric;
+  movement inventory_movements;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE users.id = auth.uid()
+    AND users.role IN ('bar', 'manager')
+  ) THEN
+    RAISE EXCEPTION 'Only bar staff and managers can receive purchase orders';
+  END IF;
+
+  SELECT * INTO purchase_order
+  FROM purchase_orders
+  WHERE id = target_purchase_order_id
+  AND restaurant_id = current_restaurant_id()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order not found';
+  END IF;
+
+  IF purchase_order.status NOT IN ('sent', 'partially_received') THEN
+    RAISE EXCEPTION 'Only sent purchase orders can be received';
+  END IF;
+
+  -- A line listed more than once is booked once with the sum of its packs
+  FOR line IN
+    SELECT purchase_order_items.*
+    FROM purchase_order_items
+    WHERE purchase_order_items.purchase_order_id = target_purchase_order_id
+    AND purchase_order_items.id IN (
+      SELECT (entry->>'id')::uuid
+      FROM jsonb_array_elements(received) AS entry
+      WHERE (entry->>'packs')::numeric > 0
+    )
+  LOOP
+    SELECT SUM((entry->>'packs')::numeric) INTO received_packs
+    FROM jsonb_array_elements(received) AS entry
+    WHERE (entry->>'id')::uuid = line.id
+    AND (entry->>'packs')::numeric > 0;
+
+    UPDATE purchase_order_items
+    SET packs_received = packs_received + received_packs
+    WHERE id = line.id;
+
+    IF line.inventory_item_id IS NOT NULL THEN
+      movement := apply_inventory_movement(
+        line.inventory_item_id,
+        'receipt',
+        received_packs * line.pack_size,
+        format('%s: %s of %s packs received', purchase_order.po_number, line.packs_received + received_packs, line.packs_ordered),
+        NULL,
+        line.pack_price / line.pack_size
+      );
+
+      UPDATE inventory_movements
+      SET purchase_order_id = target_purchase_order_id
+      WHERE id = movement.id;
+    END IF;
+  END LOOP;
+
+  UPDATE purchase_orders
+  SET
+    status = CASE
+      WHEN close_order OR NOT EXISTS (
+        SELECT 1 FROM purchase_order_items
+        WHERE purchase_order_id = target_purchase_order_id
+        AND packs_received < packs_ordered
+      ) THEN 'received'
+      ELSE 'partially_received'
+    END,
+    received_at = now()
+  WHERE id = target_purchase_order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Logs stock that was changed without a movement
+CREATE OR REPLACE FUNCTION log_inventory_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_setting('inventory.movement_logged', true) = 'on' THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND NEW.quantity <> 0 THEN
+    INSERT INTO inventory_movements (restaurant_id, inventory_item_id, movement_type, quantity, quantity_after, unit_cost, reason, created_by)
+    VALUES (NEW.restaurant_id, NEW.id, 'receipt', NEW.quantity, NEW.quantity, NEW.unit_cost, 'Opening stock', auth.uid());
+  ELSIF TG_OP = 'UPDATE' AND NEW.quantity IS DISTINCT FROM OLD.quantity THEN
+    INSERT INTO inventory_movements (restaurant_id, inventory_item_id, movement_type, quantity, quantity_after, unit_cost, created_by)
+    VALUES (NEW.restaurant_id, NEW.id, 'correction', NEW.quantity - OLD.quantity, NEW.quantity, NEW.unit_cost, auth.uid());
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Opens a stock take and freezes the current stock of every item
+CREATE OR REPLACE FUNCTION start_stock_take(stock_take_notes text DEFAULT NULL)
+RETURNS stock_takes AS $$
+DECLARE
+  stock_take stock_takes;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE users.id = auth.uid()
+    AND users.role IN ('bar', 'manager')
+  ) THEN
+    RAISE EXCEPTION 'Only bar staff and managers can start a stock take';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM stock_takes
+    WHERE restaurant_id = current_restaurant_id()
+    AND status IN ('counting', 'submitted')
+  ) THEN
+    RAISE EXCEPTION 'A stock take is already open';
+  END IF;
+
+  INSERT INTO stock_takes (restaurant_id, notes, started_by)
+  VALUES (current_restaurant_id(), NULLIF(trim(stock_take_notes), ''), auth.uid())
+  RETURNING * INTO stock_take;
+
+  INSERT INTO stock_take_items (
+    restaurant_id, stock_take_id, inventory_item_id, item_name, category, unit,
+    storage_location, snapshot_quantity, unit_cost
+  )
+  SELECT
+    stock_take.restaurant_id,
+    stock_take.id,
+    inventory_items.id,
+    inventory_items.name,
+    inventory_items.category,
+    inventory_items.unit,
+    NULLIF(trim(inventory_items.storage_location), ''),
+    inventory_items.quantity,
+    COALESCE(inventory_items.unit_cost, (
+      SELECT supplier_items.pack_price / supplier_items.pack_size
+      FROM supplier_items
+      WHERE supplier_items.inventory_item_id = inventory_items.id
+      ORDER BY supplier_items.is_preferred DESC, supplier_items.pack_price / supplier_items.pack_size
+      LIMIT 1
+    ))
+  FROM inventory_items
+  WHERE inventory_items.restaurant_id = stock_take.restaurant_id;
+
+  RETURN stock_take;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
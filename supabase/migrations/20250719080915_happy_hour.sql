@@ -0,0 +1,126 @@
+/*
+  # Scheduled menus
+
+  1. New Tables
+    - `menus` - Menus that are offered at certain times (lunch, happy hour, summer card, ...)
+      - `id` (uuid, primary key)
+      - `restaurant_id` (uuid, references restaurants)
+      - `name` (text, unique per location)
+      - `description` (text)
+      - `is_active` (boolean) - switched off menus are never offered
+      - `days_of_week` (smallint[]) - ISO weekdays, 1 is Monday
+      - `start_time` / `end_time` (time) - daily window, both NULL for all day. A window
+        whose end is not after its start runs past midnight into the next day
+      - `start_date` / `end_date` (date) - optional first and last day
+      - `sort_order` (integer)
+      - `created_at` (timestamptz)
+    - `menu_entries` - The menu items on a menu
+      - `id` (uuid, primary key)
+      - `restaurant_id` (uuid, references restaurants)
+      - `menu_id` (uuid, references menus)
+      - `menu_item_id` (uuid, references menu_items)
+      - `price_override` (numeric) - price while the menu is active, NULL for the menu price
+      - `created_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on menus and menu_entries
+    - Everybody can read them like the menu items, only managers can change them
+    - Both are scoped to the current location like the other location tables
+
+  3. Notes
+    - Menu items that are on no menu are offered all the time as before, items on menus
+      only while one of their menus is active. `menu_items.available` still applies on top
+    - When several active menus override the price of an item the lowest price wins
+    - The schedule is checked by the apps in the local time of the device
+*/
+
+-- Create menus table
+CREATE TABLE IF NOT EXISTS menus (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL DEFAULT current_restaurant_id() REFERENCES restaurants(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  description text,
+  is_active boolean NOT NULL DEFAULT true,
+  days_of_week smallint[] NOT NULL DEFAULT '{1,2,3,4,5,6,7}' CHECK (days_of_week <@ '{1,2,3,4,5,6,7}'::smallint[]),
+  start_time time,
+  end_time time,
+  start_date date,
+  end_date date,
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (restaurant_id, name),
+  CHECK ((start_time IS NULL) = (end_time IS NULL)),
+  CHECK (end_date IS NULL OR start_date IS NULL OR end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_menus_restaurant_id ON menus(restaurant_id);
+
+-- Create menu_entries table
+CREATE TABLE IF NOT EXISTS menu_entries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL DEFAULT current_restaurant_id() REFERENCES restaurants(id) ON DELETE CASCADE,
+  menu_id uuid NOT NULL REFERENCES menus(id) ON DELETE CASCADE,
+  menu_item_id uuid NOT NULL REFERENCES menu_items(id) ON DELETE CASCADE,
+  price_override numeric(10,2) CHECK (price_override IS NULL OR price_override >= 0),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (menu_id, menu_item_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_menu_entries_restaurant_id ON menu_entries(restaurant_id);
+CREATE INDEX IF NOT EXISTS idx_menu_entries_menu_item_id ON menu_entries(menu_item_id);
+
+-- Enable RLS
+ALTER TABLE menus ENABLE ROW LEVEL SECURITY;
+ALTER TABLE menu_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read menus"
+  ON menus
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Managers can manage menus"
+  ON menus
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'manager'
+    )
+  );
+
+CREATE POLICY "Current restaurant only"
+  ON menus
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING (restaurant_id = current_restaurant_id())
+  WITH CHECK (restaurant_id = current_restaurant_id());
+
+CREATE POLICY "Anyone can read menu entries"
+  ON menu_entries
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Managers can manage menu entries"
+  ON menu_entries
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'manager'
+    )
+  );
+
+CREATE POLICY "Current restaurant only"
+  ON menu_entries
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING (restaurant_id = current_restaurant_id())
+  WITH CHECK (restaurant_id = current_restaurant_id());
@@ -0,0 +1,190 @@
+/*
+  # Modifiers for menu items
+
+  1. New Tables
+    - `modifier_groups` - Choices a guest makes for a menu item (size, doneness, extras, ...)
+      - `id` (uuid, primary key)
+      - `restaurant_id` (uuid, references restaurants)
+      - `menu_item_id` (uuid, references menu_items)
+      - `name` (text, unique per menu item)
+      - `min_select` (integer) - options that must be picked, 1 for a required choice
+      - `max_select` (integer) - options that may be picked, NULL for any number
+      - `sort_order` (integer)
+      - `created_at` (timestamptz)
+    - `modifier_options` - The options of a group
+      - `id` (uuid, primary key)
+      - `restaurant_id` (uuid, references restaurants)
+      - `group_id` (uuid, references modifier_groups)
+      - `name` (text, unique per group)
+      - `price_delta` (numeric) - added to the item price, may be negative
+      - `sort_order` (integer)
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - `order_items.modifiers` (jsonb) - the options picked for the item as
+      `[{ "option_id": ..., "group": "Größe", "option": "groß", "price_delta": 1.5 }]`.
+      Names and prices are copied, so tickets and invoices don't change when the menu does
+    - `order_items.price` stays the unit price and includes the price deltas
+
+  3. New Functions
+    - `check_order_item_modifiers` - trigger on `order_items` that only allows options of the
+      menu item and no more of a group than its `max_select`. Existing lines are only checked
+      again when their options or menu item change
+
+  4. Security
+    - Enable RLS on modifier_groups and modifier_options
+    - Everybody can read them like the menu items, only managers can change them
+    - Both are scoped to the current location like the other location tables
+
+  5. Notes
+    - `min_select` is enforced by the order screens, not here. Voice orders don't pick
+      modifiers and keep what was said in the notes, they would fail otherwise
+    - Modifiers don't change the stock a recipe takes, "without onions" still books the onions
+    - Order items from before keep an empty list and are not checked again
+*/
+
+-- Create modifier_groups table
+CREATE TABLE IF NOT EXISTS modifier_groups (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL DEFAULT current_restaurant_id() REFERENCES restaurants(id) ON DELETE CASCADE,
+  menu_item_id uuid NOT NULL REFERENCES menu_items(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  min_select integer NOT NULL DEFAULT 0 CHECK (min_select >= 0),
+  max_select integer CHECK (max_select IS NULL OR max_select >= GREATEST(min_select, 1)),
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (menu_item_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_modifier_groups_restaurant_id ON modifier_groups(restaurant_id);
+
+-- Create modifier_options table
+CREATE TABLE IF NOT EXISTS modifier_options (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL DEFAULT current_restaurant_id() REFERENCES restaurants(id) ON DELETE CASCADE,
+  group_id uuid NOT NULL REFERENCES modifier_groups(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  price_delta numeric(10,2) NOT NULL DEFAULT 0,
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (group_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_modifier_options_restaurant_id ON modifier_options(restaurant_id);
+CREATE INDEX IF NOT EXISTS idx_modifier_options_group_id ON modifier_options(group_id);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'order_items' AND column_name = 'modifiers'
+  ) THEN
+    ALTER TABLE order_items ADD COLUMN modifiers jsonb NOT NULL DEFAULT '[]'::jsonb;
+  END IF;
+END $$;
+
+-- Only options of the ordered menu item, no more of a group than it allows
+CREATE OR REPLACE FUNCTION check_order_item_modifiers()
+RETURNS TRIGGER AS $$
+DECLARE
+  modifier_group record;
+BEGIN
+  IF jsonb_typeof(NEW.modifiers) <> 'array' THEN
+    RAISE EXCEPTION 'Modifiers must be a list';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(NEW.modifiers) AS picked
+    LEFT JOIN modifier_options ON modifier_options.id = (picked.value->>'option_id')::uuid
+    LEFT JOIN modifier_groups ON modifier_groups.id = modifier_options.group_id
+    WHERE modifier_groups.menu_item_id IS DISTINCT FROM NEW.menu_item_id
+  ) THEN
+    RAISE EXCEPTION 'Modifier is not an option of this menu item';
+  END IF;
+
+  FOR modifier_group IN
+    SELECT modifier_groups.name, modifier_groups.max_select
+    FROM jsonb_array_elements(NEW.modifiers) AS picked
+    JOIN modifier_options ON modifier_options.id = (picked.value->>'option_id')::uuid
+    JOIN modifier_groups ON modifier_groups.id = modifier_options.group_id
+    WHERE modifier_groups.max_select IS NOT NULL
+    GROUP BY modifier_groups.id
+    HAVING COUNT(*) > modifier_groups.max_select
+  LOOP
+    RAISE EXCEPTION 'Pick at most % of "%"', modifier_group.max_select, modifier_group.name;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS check_order_item_modifiers_trigger ON order_items;
+CREATE TRIGGER check_order_item_modifiers_trigger
+  BEFORE INSERT ON order_items
+  FOR EACH ROW
+  EXECUTE FUNCTION check_order_item_modifiers();
+
+-- Only when the options change, lines of open orders stay editable after an option was deleted
+DROP TRIGGER IF EXISTS check_order_item_modifiers_update_trigger ON order_items;
+CREATE TRIGGER check_order_item_modifiers_update_trigger
+  BEFORE UPDATE OF modifiers, menu_item_id ON order_items
+  FOR EACH ROW
+  WHEN (OLD.modifiers IS DISTINCT FROM NEW.modifiers OR OLD.menu_item_id IS DISTINCT FROM NEW.menu_item_id)
+  EXECUTE FUNCTION check_order_item_modifiers();
+
+-- Enable RLS
+ALTER TABLE modifier_groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE modifier_options ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read modifier groups"
+  ON modifier_groups
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Managers can manage modifier groups"
+  ON modifier_groups
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'manager'
+    )
+  );
+
+CREATE POLICY "Current restaurant only"
+  ON modifier_groups
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING (restaurant_id = current_restaurant_id())
+  WITH CHECK (restaurant_id = current_restaurant_id());
+
+CREATE POLICY "Anyone can read modifier options"
+  ON modifier_options
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Managers can manage modifier options"
+  ON modifier_options
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'manager'
+    )
+  );
+
+CREATE POLICY "Current restaurant only"
+  ON modifier_options
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING (restaurant_id = current_restaurant_id())
+  WITH CHECK (restaurant_id = current_restaurant_id());